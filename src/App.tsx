@@ -1,26 +1,56 @@
-import React, { useState } from "react";
+import { useState } from "react";
+import { BrowserRouter, Navigate, Route, Routes, useLocation } from "react-router-dom";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
-import { Layout } from "./components/Layout";
+import { DateRangeProvider } from "./contexts/DateRangeContext";
 import { Navigation } from "./components/Navigation";
 import { Overview } from "./pages/Overview";
 import { Universities } from "./pages/Universities";
 import { TVET } from "./pages/TVET";
 import { Funding } from "./pages/Funding";
 import { Institutions } from "./pages/Institutions";
+import { Geography } from "./pages/Geography";
+import { Reviews } from "./pages/Reviews";
+import { Downloads } from "./pages/Downloads";
 import { SessionHealth } from "./pages/SessionHealth";
 import { Engagement } from "./pages/Engagement";
 import { UserJourney } from "./pages/UserJourney";
+import { Retention } from "./pages/Retention";
 import { FeatureAdoption } from "./pages/FeatureAdoption";
+import { StudentMarks } from "./pages/StudentMarks";
+import { Schools } from "./pages/Schools";
 import { MatchingProfiles } from "./pages/MatchingProfiles";
 import { UserManagement } from "./pages/UserManagement";
 import { Login } from "./pages/Login";
 import { Register } from "./pages/Register";
 import { LoadingSpinner } from "./components/LoadingSpinner";
+import { RequireRole } from "./components/RequireRole";
+import { DateRangePicker } from "./components/DateRangePicker";
+import { ROUTES, PERIOD_PAGES, PageId, pageIdFromPath } from "./routes";
+
+const PAGE_COMPONENTS: Record<PageId, React.ComponentType> = {
+  overview: Overview,
+  universities: Universities,
+  tvet: TVET,
+  funding: Funding,
+  institutions: Institutions,
+  geography: Geography,
+  reviews: Reviews,
+  downloads: Downloads,
+  "session-health": SessionHealth,
+  engagement: Engagement,
+  "user-journey": UserJourney,
+  retention: Retention,
+  "feature-adoption": FeatureAdoption,
+  "student-marks": StudentMarks,
+  schools: Schools,
+  "matching-profiles": MatchingProfiles,
+  "user-management": UserManagement,
+};
 
 function AppContent() {
-  const [currentPage, setCurrentPage] = useState("overview");
   const [authView, setAuthView] = useState<"login" | "register" | null>(null);
   const { user, loading } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return <LoadingSpinner />;
@@ -43,40 +73,28 @@ function AppContent() {
     );
   }
 
-  const renderCurrentPage = () => {
-    switch (currentPage) {
-      case "overview":
-        return <Overview />;
-      case "universities":
-        return <Universities />;
-      case "tvet":
-        return <TVET />;
-      case "funding":
-        return <Funding />;
-      case "institutions":
-        return <Institutions />;
-      case "session-health":
-        return <SessionHealth />;
-      case "engagement":
-        return <Engagement />;
-      case "user-journey":
-        return <UserJourney />;
-      case "feature-adoption":
-        return <FeatureAdoption />;
-      case "matching-profiles":
-        return <MatchingProfiles />;
-      case "user-management":
-        return <UserManagement />;
-      default:
-        return <Overview />;
-    }
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50 to-green-50">
-      <Navigation currentPage={currentPage} onNavigate={setCurrentPage} />
+      <Navigation />
       <main className="ml-64 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 animate-in fade-in duration-500">
-        {renderCurrentPage()}
+        {PERIOD_PAGES.includes(pageIdFromPath(location.pathname)) && <DateRangePicker />}
+        <Routes>
+          {(Object.keys(ROUTES) as PageId[]).map((page) => {
+            const Page = PAGE_COMPONENTS[page];
+            return (
+              <Route
+                key={page}
+                path={ROUTES[page]}
+                element={
+                  <RequireRole page={page}>
+                    <Page />
+                  </RequireRole>
+                }
+              />
+            );
+          })}
+          <Route path="*" element={<Navigate to={ROUTES.overview} replace />} />
+        </Routes>
       </main>
     </div>
   );
@@ -84,9 +102,13 @@ function AppContent() {
 
 function App() {
   return (
-    <AuthProvider>
-      <AppContent />
-    </AuthProvider>
+    <BrowserRouter>
+      <AuthProvider>
+        <DateRangeProvider>
+          <AppContent />
+        </DateRangeProvider>
+      </AuthProvider>
+    </BrowserRouter>
   );
 }
 
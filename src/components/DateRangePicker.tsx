@@ -0,0 +1,65 @@
+import { Calendar } from 'lucide-react'
+import { useDateRange } from '../contexts/DateRangeContext'
+import { PERIOD_PRESETS, PeriodPreset } from '../utils/period'
+
+export function DateRangePicker() {
+  const { selection, period, comparison, compare, setSelection, setCompare } = useDateRange()
+
+  const handlePresetChange = (preset: PeriodPreset) => {
+    // Start a custom range from whatever is currently shown
+    setSelection(preset === 'custom' ? { preset, from: period.from, to: period.to } : { preset })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-3 mb-6 text-sm">
+      <div className="flex items-center gap-2">
+        <Calendar className="h-4 w-4 text-gray-500" />
+        <select
+          value={selection.preset}
+          onChange={(e) => handlePresetChange(e.target.value as PeriodPreset)}
+          className="px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        >
+          {(Object.keys(PERIOD_PRESETS) as (keyof typeof PERIOD_PRESETS)[]).map(preset => (
+            <option key={preset} value={preset}>{PERIOD_PRESETS[preset]}</option>
+          ))}
+          <option value="custom">Custom range</option>
+        </select>
+      </div>
+
+      {selection.preset === 'custom' && (
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={period.from}
+            max={period.to}
+            onChange={(e) => setSelection({ ...selection, from: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="date"
+            value={period.to}
+            min={period.from}
+            onChange={(e) => setSelection({ ...selection, to: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-gray-700">
+        <input
+          type="checkbox"
+          checked={compare}
+          onChange={(e) => setCompare(e.target.checked)}
+          className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+        />
+        Compare to previous period
+      </label>
+
+      <span className="text-xs text-gray-500" title="Days run midnight to midnight, South African time">
+        {period.from === period.to ? period.from : `${period.from} → ${period.to}`}
+        {comparison && ` vs ${comparison.from} → ${comparison.to}`} (SAST)
+      </span>
+    </div>
+  )
+}
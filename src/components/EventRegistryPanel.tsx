@@ -0,0 +1,326 @@
+import { useState, useEffect } from 'react'
+import { BookOpen, Plus, Save, AlertTriangle } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { hasRole } from '../lib/roles'
+import type { ReportingPeriod } from '../utils/period'
+import {
+  ClickIssue,
+  EventStatus,
+  FlaggedClickEvent,
+  RegisteredEvent,
+  fetchFlaggedClickEvents,
+  fetchRegisteredEvents,
+  metadataErrors,
+  parseMetadataSchema,
+  saveRegisteredEvent
+} from '../utils/eventRegistry'
+
+interface EventRegistryPanelProps {
+  period: ReportingPeriod
+  onChange: () => void
+}
+
+const ISSUE_LABELS: Record<ClickIssue, string> = {
+  unknown: 'Not registered',
+  deprecated: 'Deprecated',
+  invalid_metadata: 'Metadata mismatch'
+}
+
+const ISSUE_STYLES: Record<ClickIssue, string> = {
+  unknown: 'bg-red-100 text-red-800',
+  deprecated: 'bg-gray-100 text-gray-700',
+  invalid_metadata: 'bg-yellow-100 text-yellow-800'
+}
+
+const blankEvent = (eventName = ''): RegisteredEvent => ({
+  event_name: eventName,
+  feature: '',
+  description: null,
+  metadata_schema: {},
+  status: 'active'
+})
+
+function EventEditor({ event, isNew, onSaved, onCancel }: {
+  event: RegisteredEvent
+  isNew: boolean
+  onSaved: (event: RegisteredEvent) => void
+  onCancel: () => void
+}) {
+  const [draft, setDraft] = useState(event)
+  const [schemaText, setSchemaText] = useState(JSON.stringify(event.metadata_schema, null, 2))
+  const [sample, setSample] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const update = (changes: Partial<RegisteredEvent>) => setDraft(current => ({ ...current, ...changes }))
+
+  // Live check of a sample click_metadata payload against the schema being edited
+  let sampleResult: string | null = null
+  if (sample.trim()) {
+    try {
+      const errors = metadataErrors(parseMetadataSchema(schemaText), JSON.parse(sample))
+      sampleResult = errors.length === 0 ? 'Sample matches the schema' : errors.join('; ')
+    } catch (err) {
+      sampleResult = err instanceof SyntaxError ? 'Sample must be valid JSON' : (err as Error).message
+    }
+  }
+
+  const handleSave = async () => {
+    try {
+      setBusy(true)
+      setError(null)
+      onSaved(await saveRegisteredEvent({ ...draft, metadata_schema: parseMetadataSchema(schemaText) }, isNew))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save event')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="text-xs text-gray-600">
+          Event (page_name)
+          <input
+            type="text"
+            value={draft.event_name}
+            onChange={e => update({ event_name: e.target.value })}
+            disabled={!isNew}
+            className="block w-48 mt-1 border border-gray-300 rounded-lg px-2 py-1 text-sm disabled:bg-gray-50"
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Feature
+          <input
+            type="text"
+            value={draft.feature}
+            onChange={e => update({ feature: e.target.value })}
+            className="block w-40 mt-1 border border-gray-300 rounded-lg px-2 py-1 text-sm"
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Status
+          <select
+            value={draft.status}
+            onChange={e => update({ status: e.target.value as EventStatus })}
+            className="block mt-1 border border-gray-300 rounded-lg px-2 py-1 text-sm"
+          >
+            <option value="active">Active</option>
+            <option value="deprecated">Deprecated</option>
+          </select>
+        </label>
+        <label className="text-xs text-gray-600 flex-1 min-w-[14rem]">
+          Description
+          <input
+            type="text"
+            value={draft.description ?? ''}
+            onChange={e => update({ description: e.target.value })}
+            className="block w-full mt-1 border border-gray-300 rounded-lg px-2 py-1 text-sm"
+          />
+        </label>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="text-xs text-gray-600">
+          Metadata schema (field to string, number, boolean, object or array; end with ? if optional)
+          <textarea
+            value={schemaText}
+            onChange={e => setSchemaText(e.target.value)}
+            rows={4}
+            className="block w-full mt-1 border border-gray-300 rounded-lg px-2 py-1 text-sm font-mono"
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Try a click_metadata sample
+          <textarea
+            value={sample}
+            onChange={e => setSample(e.target.value)}
+            rows={4}
+            placeholder='{"button": "apply"}'
+            className="block w-full mt-1 border border-gray-300 rounded-lg px-2 py-1 text-sm font-mono"
+          />
+          {sampleResult && <span className="block mt-1 text-gray-600">{sampleResult}</span>}
+        </label>
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={busy}
+          className="inline-flex items-center px-3 py-1.5 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 disabled:opacity-50"
+        >
+          <Save className="h-4 w-4 mr-1" />
+          Save
+        </button>
+        <button onClick={onCancel} className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm hover:bg-gray-50">
+          Cancel
+        </button>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  )
+}
+
+// Registered click events and the clicks in the period that do not match them; admins can edit the registry
+export function EventRegistryPanel({ period, onChange }: EventRegistryPanelProps) {
+  const { role } = useAuth()
+  const canEdit = hasRole(role, 'admin')
+  const [events, setEvents] = useState<RegisteredEvent[]>([])
+  const [flagged, setFlagged] = useState<FlaggedClickEvent[]>([])
+  const [editing, setEditing] = useState<{ event: RegisteredEvent; isNew: boolean } | null>(null)
+  const [showRegistry, setShowRegistry] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadRegistry = async () => {
+    try {
+      setError(null)
+      const [eventRows, flaggedRows] = await Promise.all([fetchRegisteredEvents(), fetchFlaggedClickEvents(period)])
+      setEvents(eventRows)
+      setFlagged(flaggedRows)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch the event registry')
+    }
+  }
+
+  useEffect(() => {
+    loadRegistry()
+  }, [period])
+
+  const handleSaved = async () => {
+    setEditing(null)
+    await loadRegistry()
+    onChange()
+  }
+
+  const editor = editing && (
+    <EventEditor
+      key={editing.event.event_name || 'new'}
+      event={editing.event}
+      isNew={editing.isNew}
+      onSaved={handleSaved}
+      onCancel={() => setEditing(null)}
+    />
+  )
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+          <BookOpen className="h-5 w-5 mr-2 text-green-600" />
+          Event Registry
+          {flagged.length > 0 && (
+            <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">{flagged.length} flagged</span>
+          )}
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowRegistry(!showRegistry)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+          >
+            {showRegistry ? 'Hide registry' : `Registered events (${events.length})`}
+          </button>
+          {canEdit && (
+            <button
+              onClick={() => setEditing({ event: blankEvent(), isNew: true })}
+              className="inline-flex items-center px-3 py-1.5 border border-dashed border-green-400 text-green-700 rounded-lg text-sm hover:bg-green-50"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Register event
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Every new click is checked against the registry when it is stored. Clicks are never dropped; events that are not
+        registered, deprecated, or sent with unexpected metadata are flagged below.{!canEdit && ' Only admins can change the registry.'}
+      </p>
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+      {editor && <div className="mb-4">{editor}</div>}
+
+      {flagged.length === 0 ? (
+        <p className="text-sm text-gray-600">No flagged clicks in {period.label.toLowerCase()}.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4">Event</th>
+                <th className="py-2 pr-4">Issue</th>
+                <th className="py-2 pr-4 text-right">Clicks</th>
+                <th className="py-2 pr-4">Last seen</th>
+                <th className="py-2">Example</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {flagged.map(row => (
+                <tr key={`${row.event_name}:${row.issue}`}>
+                  <td className="py-2 pr-4 text-gray-900">{row.event_name}</td>
+                  <td className="py-2 pr-4">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ISSUE_STYLES[row.issue]}`}>
+                      {ISSUE_LABELS[row.issue]}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 text-right">{row.clicks}</td>
+                  <td className="py-2 pr-4 text-gray-600">{new Date(row.last_seen).toLocaleString()}</td>
+                  <td className="py-2 text-gray-600">
+                    {row.example_errors?.join('; ') || '—'}
+                    {canEdit && row.issue === 'unknown' && (
+                      <button
+                        onClick={() => setEditing({ event: blankEvent(row.event_name), isNew: true })}
+                        className="ml-2 text-green-700 hover:underline"
+                      >
+                        Register
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showRegistry && (
+        <div className="mt-6 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4">Feature</th>
+                <th className="py-2 pr-4">Event</th>
+                <th className="py-2 pr-4">Metadata</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {events.map(event => (
+                <tr key={event.event_name} className={event.status === 'deprecated' ? 'text-gray-400' : ''}>
+                  <td className="py-2 pr-4">{event.feature}</td>
+                  <td className="py-2 pr-4" title={event.description ?? undefined}>{event.event_name}</td>
+                  <td className="py-2 pr-4 font-mono text-xs">
+                    {Object.entries(event.metadata_schema).map(([field, type]) => `${field}: ${type}`).join(', ') || '—'}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {event.status === 'deprecated' && <AlertTriangle className="inline h-3 w-3 mr-1" />}
+                    {event.status}
+                  </td>
+                  <td className="py-2 text-right">
+                    {canEdit && (
+                      <button onClick={() => setEditing({ event, isNew: false })} className="text-green-700 hover:underline">
+                        Edit
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {events.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="py-4 text-center text-gray-500">No events registered yet</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
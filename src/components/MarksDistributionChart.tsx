@@ -0,0 +1,175 @@
+import { useState, useEffect } from 'react'
+import { BarChart3 } from 'lucide-react'
+import { LoadingSpinner } from './LoadingSpinner'
+import { ErrorMessage } from './ErrorMessage'
+import { useQueryFilters } from '../hooks/useQueryFilters'
+import {
+  MARK_BREAKDOWNS,
+  MARK_METRICS,
+  MarkBreakdown,
+  MarkMetric,
+  MarksDistribution,
+  fetchMarksDistribution
+} from '../utils/marksDistribution'
+
+// School breakdowns can have hundreds of groups; only the largest are listed
+const MAX_GROUPS = 15
+
+/**
+ * Histogram and percentile bands for any mark, drillable by grade, school, province or maths type
+ */
+export function MarksDistributionChart() {
+  const [distribution, setDistribution] = useState<MarksDistribution | null>(null)
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [{ metric, breakdown }, setFilters] = useQueryFilters<{ metric: MarkMetric; breakdown: MarkBreakdown }>({
+    metric: 'average',
+    breakdown: 'none'
+  })
+
+  const loadDistribution = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const result = await fetchMarksDistribution({ metric, breakdown, maxGroups: MAX_GROUPS })
+      setDistribution(result)
+      setSelectedGroup(result.summary[0]?.group_value ?? null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load marks distribution')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadDistribution()
+  }, [metric, breakdown])
+
+  const group = distribution?.summary.find(row => row.group_value === selectedGroup)
+  const bins = (selectedGroup && distribution?.histograms[selectedGroup]) || []
+  const maxBin = Math.max(1, ...bins.map(bin => bin.students))
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center">
+          <BarChart3 className="h-5 w-5 mr-2 text-green-600" />
+          Marks Distribution
+        </h2>
+        <div className="flex flex-wrap gap-3 text-sm">
+          <select
+            value={metric}
+            onChange={(e) => setFilters({ metric: e.target.value as MarkMetric })}
+            className="px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          >
+            {(Object.keys(MARK_METRICS) as MarkMetric[]).map(key => (
+              <option key={key} value={key}>{MARK_METRICS[key]}</option>
+            ))}
+          </select>
+          <select
+            value={breakdown}
+            onChange={(e) => setFilters({ breakdown: e.target.value as MarkBreakdown })}
+            className="px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          >
+            {(Object.keys(MARK_BREAKDOWNS) as MarkBreakdown[]).map(key => (
+              <option key={key} value={key}>{key === 'none' ? MARK_BREAKDOWNS[key] : `By ${MARK_BREAKDOWNS[key].toLowerCase()}`}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading && <LoadingSpinner />}
+      {!loading && error && <ErrorMessage message={error} onRetry={loadDistribution} />}
+      {!loading && !error && distribution && distribution.summary.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-8">No {MARK_METRICS[metric].toLowerCase()} marks recorded yet</p>
+      )}
+
+      {!loading && !error && group && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-3">
+              {MARK_METRICS[metric]} · {group.group_value} · {group.students.toLocaleString()} students
+            </h3>
+            <div className="flex items-end h-48 gap-1">
+              {bins.map(bin => (
+                <div key={bin.bin_start} className="flex-1 flex flex-col items-center justify-end h-full">
+                  <span className="text-xs text-gray-500 mb-1">{bin.students || ''}</span>
+                  <div
+                    className={`w-full rounded-t ${bin.bin_start >= 50 ? 'bg-green-500' : 'bg-orange-400'}`}
+                    style={{ height: `${(bin.students / maxBin) * 100}%` }}
+                    title={`${bin.bin_start}–${bin.bin_end}%: ${bin.students} students`}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-1 mt-1">
+              {bins.map(bin => (
+                <span key={bin.bin_start} className="flex-1 text-center text-xs text-gray-500">{bin.bin_start}</span>
+              ))}
+            </div>
+
+            <div className="mt-6">
+              <div className="relative h-6 bg-gray-100 rounded">
+                <div
+                  className="absolute h-6 bg-green-100 rounded"
+                  style={{ left: `${group.p10}%`, width: `${group.p90 - group.p10}%` }}
+                  title={`p10–p90: ${group.p10}–${group.p90}%`}
+                />
+                <div
+                  className="absolute h-6 bg-green-300"
+                  style={{ left: `${group.p25}%`, width: `${group.p75 - group.p25}%` }}
+                  title={`p25–p75: ${group.p25}–${group.p75}%`}
+                />
+                <div className="absolute h-6 w-0.5 bg-green-800" style={{ left: `${group.median}%` }} title={`Median: ${group.median}%`} />
+              </div>
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>p10 {group.p10}%</span>
+                <span>p25 {group.p25}%</span>
+                <span className="font-medium text-gray-700">median {group.median}%</span>
+                <span>p75 {group.p75}%</span>
+                <span>p90 {group.p90}%</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-3 font-medium">{MARK_BREAKDOWNS[breakdown]}</th>
+                  <th className="py-2 pr-3 font-medium text-right">Students</th>
+                  <th className="py-2 pr-3 font-medium text-right">Mean</th>
+                  <th className="py-2 pr-3 font-medium text-right">≥50%</th>
+                  <th className="py-2 pr-3 font-medium text-right">≥70%</th>
+                  <th className="py-2 font-medium text-right">≥80%</th>
+                </tr>
+              </thead>
+              <tbody>
+                {distribution!.summary.map(row => (
+                  <tr
+                    key={row.group_value}
+                    onClick={() => setSelectedGroup(row.group_value)}
+                    className={`border-b border-gray-100 cursor-pointer ${
+                      row.group_value === selectedGroup ? 'bg-green-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <td className="py-2 pr-3 text-gray-900">{row.group_value}</td>
+                    <td className="py-2 pr-3 text-right text-gray-700">{row.students.toLocaleString()}</td>
+                    <td className="py-2 pr-3 text-right text-gray-700">{row.mean}%</td>
+                    <td className="py-2 pr-3 text-right text-gray-700">{row.pct_ge_50}%</td>
+                    <td className="py-2 pr-3 text-right text-gray-700">{row.pct_ge_70}%</td>
+                    <td className="py-2 text-right text-gray-700">{row.pct_ge_80}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {breakdown !== 'none' && (
+              <p className="text-xs text-gray-500 mt-2">Largest {MAX_GROUPS} groups shown; groups of fewer than 5 students are hidden. Click a row to see its histogram.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
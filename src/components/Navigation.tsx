@@ -5,10 +5,16 @@ import {
   Building2,
   DollarSign,
   MapPin,
+  Globe,
+  MessageSquare,
+  Download,
   Activity,
   MousePointer,
   GitBranch,
   Target,
+  ClipboardList,
+  School,
+  Repeat,
   UserPlus,
   Users,
   Menu,
@@ -17,20 +23,20 @@ import {
   ChevronRight,
   LogOut,
 } from "lucide-react";
+import { useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
+import { useDateRange } from "../contexts/DateRangeContext";
+import { ROUTES, PERIOD_PAGES, PageId, pageIdFromPath } from "../routes";
+import { canAccessPage } from "../lib/roles";
 
-interface NavigationProps {
-  currentPage?: string;
-  onNavigate?: (page: string) => void;
-}
-
-export function Navigation({
-  currentPage = "overview",
-  onNavigate,
-}: NavigationProps) {
+export function Navigation() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const currentPage = pageIdFromPath(location.pathname);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [carouselIndex, setCarouselIndex] = useState(0);
-  const { user, signOut } = useAuth();
+  const { user, role, signOut } = useAuth();
+  const { periodSearch } = useDateRange();
   const [loggingOut, setLoggingOut] = useState(false);
 
   const handleLogout = async () => {
@@ -46,21 +52,34 @@ export function Navigation({
   // Number of items to show in the carousel at once
   const itemsPerView = 5;
 
-  const menuItems = [
+  const allMenuItems: { id: PageId; label: string; icon: typeof BarChart3 }[] = [
     { id: "overview", label: "Overview", icon: BarChart3 },
     { id: "universities", label: "Universities", icon: GraduationCap },
     { id: "tvet", label: "TVET Colleges", icon: Building2 },
+    { id: "student-marks", label: "Student Marks", icon: ClipboardList },
+    { id: "schools", label: "Schools", icon: School },
     { id: "matching-profiles", label: "Matching Profiles", icon: Target },
     { id: "user-management", label: "User Management", icon: UserPlus },
     { id: "funding", label: "Funding", icon: DollarSign },
     { id: "institutions", label: "Institutions", icon: MapPin },
+    { id: "geography", label: "Geography", icon: Globe },
+    { id: "reviews", label: "App Reviews", icon: MessageSquare },
+    { id: "downloads", label: "Downloads", icon: Download },
     { id: "session-health", label: "Session Health", icon: Activity },
+    { id: "engagement", label: "Engagement", icon: MousePointer },
     { id: "user-journey", label: "User Journey", icon: GitBranch },
+    { id: "retention", label: "Retention", icon: Repeat },
     { id: "feature-adoption", label: "Feature Adoption", icon: Activity },
   ];
 
-  const handleNavigation = (page: string) => {
-    onNavigate?.(page);
+  // Only list pages the signed-in user's role can open
+  const menuItems = allMenuItems.filter((item) => canAccessPage(role, item.id));
+
+  const handleNavigation = (page: PageId) => {
+    if (page !== currentPage) {
+      // Period pages keep the selected date range; other pages start with a clean query string
+      navigate({ pathname: ROUTES[page], search: PERIOD_PAGES.includes(page) ? periodSearch : "" });
+    }
     setMobileMenuOpen(false);
   };
 
@@ -153,6 +172,9 @@ export function Navigation({
             <div className="px-3 py-2 bg-white rounded-lg border border-gray-200">
               <div className="text-xs text-gray-500">Logged in as</div>
               <div className="text-xs font-medium text-gray-700 truncate">{user.email}</div>
+              {role && (
+                <div className="text-xs text-green-700 capitalize mt-0.5">{role}</div>
+              )}
             </div>
           )}
           <button
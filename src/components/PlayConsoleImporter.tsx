@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react'
+import { FileText, Upload, Loader } from 'lucide-react'
+import { PlayConsoleImport, fetchImportHistory, importPlayConsoleReport } from '../utils/playConsoleImport'
+
+const STATUS_STYLES: Record<PlayConsoleImport['status'], string> = {
+  imported: 'bg-green-100 text-green-800',
+  partial: 'bg-amber-100 text-amber-800',
+  rejected: 'bg-red-100 text-red-800'
+}
+
+interface PlayConsoleImporterProps {
+  onImported: () => void
+}
+
+// Admin-only upload of Play Console report CSVs, with the import history underneath
+export function PlayConsoleImporter({ onImported }: PlayConsoleImporterProps) {
+  const [files, setFiles] = useState<File[]>([])
+  const [importing, setImporting] = useState(false)
+  const [history, setHistory] = useState<PlayConsoleImport[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const loadHistory = async () => {
+    try {
+      setHistory(await fetchImportHistory())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch import history')
+    }
+  }
+
+  useEffect(() => {
+    loadHistory()
+  }, [])
+
+  const handleImport = async () => {
+    try {
+      setImporting(true)
+      setError(null)
+      // One file at a time so each gets its own history entry even if a later one fails
+      for (const file of files) {
+        await importPlayConsoleReport(file.name, new Uint8Array(await file.arrayBuffer()))
+      }
+      setFiles([])
+      onImported()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed')
+    } finally {
+      setImporting(false)
+      await loadHistory()
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-2">Import Play Console reports</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Upload the monthly installs or ratings CSVs from Play Console › Download reports › Statistics, as downloaded
+        (e.g. <code>installs_com.reslocate.new_202409_country.csv</code>). Overview reports update the daily figures;
+        country and device reports fill the breakdowns. Re-importing a month replaces its rows.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex-1 min-w-[16rem]">
+          <input
+            type="file"
+            accept=".csv"
+            multiple
+            onChange={e => setFiles(Array.from(e.target.files || []))}
+            className="hidden"
+          />
+          <div className="flex items-center space-x-2 px-4 py-2 border-2 border-dashed border-green-300 rounded-lg hover:bg-green-50 cursor-pointer">
+            <FileText className="w-5 h-5 text-green-600" />
+            <span className="text-green-700 truncate">
+              {files.length === 0 ? 'Choose CSV files' : files.length === 1 ? files[0].name : `${files.length} files selected`}
+            </span>
+          </div>
+        </label>
+        <button
+          onClick={handleImport}
+          disabled={files.length === 0 || importing}
+          className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {importing ? <Loader className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          <span>{importing ? 'Importing...' : 'Import'}</span>
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+
+      <h3 className="text-sm font-semibold text-gray-700 mt-6 mb-2">Import history</h3>
+      {history.length === 0 ? (
+        <p className="text-sm text-gray-500">No reports imported yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4">File</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2 pr-4 text-right">Read</th>
+                <th className="py-2 pr-4 text-right">Written</th>
+                <th className="py-2 pr-4 text-right">Duplicates</th>
+                <th className="py-2 pr-4 text-right">Skipped</th>
+                <th className="py-2">Imported</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {history.map(entry => (
+                <tr key={entry.id} className="align-top">
+                  <td className="py-2 pr-4 text-gray-800">
+                    {entry.file_name}
+                    {entry.errors.length > 0 && (
+                      <ul className="text-xs text-gray-500 mt-1 list-disc list-inside">
+                        {entry.errors.slice(0, 3).map(message => <li key={message}>{message}</li>)}
+                        {entry.errors.length > 3 && <li>{entry.errors.length - 3} more</li>}
+                      </ul>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+                  </td>
+                  <td className="py-2 pr-4 text-right">{entry.rows_read}</td>
+                  <td className="py-2 pr-4 text-right">{entry.rows_written}</td>
+                  <td className="py-2 pr-4 text-right">{entry.duplicates}</td>
+                  <td className="py-2 pr-4 text-right">{entry.skipped}</td>
+                  <td className="py-2 text-gray-600">{new Date(entry.imported_at).toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+import { useMemo } from 'react'
+import { ProvinceCode, projectProvinces } from '../utils/provinceGeography'
+
+interface ProvinceMapProps {
+  fills: Partial<Record<ProvinceCode, string>>
+  labels: Partial<Record<ProvinceCode, string>>
+  highlighted?: ProvinceCode[]
+  selected?: ProvinceCode | null
+  onSelect?: (code: ProvinceCode) => void
+}
+
+const MAP_WIDTH = 640
+
+/**
+ * Choropleth of the nine provinces drawn from the bundled GeoJSON; colours and labels come from the caller
+ */
+export function ProvinceMap({ fills, labels, highlighted = [], selected = null, onSelect }: ProvinceMapProps) {
+  const { width, height, shapes } = useMemo(() => projectProvinces(MAP_WIDTH), [])
+
+  return (
+    <svg viewBox={`-4 -4 ${width + 8} ${height + 8}`} className="w-full h-auto" role="img" aria-label="Map of South African provinces">
+      {shapes.map(shape => (
+        <path
+          key={shape.code}
+          d={shape.path}
+          fill={fills[shape.code] || '#f3f4f6'}
+          stroke={selected === shape.code ? '#111827' : highlighted.includes(shape.code) ? '#dc2626' : '#ffffff'}
+          strokeWidth={selected === shape.code || highlighted.includes(shape.code) ? 2.5 : 1.5}
+          strokeLinejoin="round"
+          className={onSelect ? 'cursor-pointer hover:opacity-80' : ''}
+          onClick={onSelect ? () => onSelect(shape.code) : undefined}
+        >
+          <title>{`${shape.name}: ${labels[shape.code] ?? 'No data'}`}</title>
+        </path>
+      ))}
+      {shapes.map(shape => (
+        <g key={`${shape.code}-label`} className="pointer-events-none">
+          <text x={shape.labelX} y={shape.labelY} textAnchor="middle" className="fill-gray-900 text-xs font-semibold">
+            {shape.code}
+          </text>
+          <text x={shape.labelX} y={shape.labelY + 13} textAnchor="middle" className="fill-gray-700 text-[10px]">
+            {labels[shape.code] ?? ''}
+          </text>
+        </g>
+      ))}
+    </svg>
+  )
+}
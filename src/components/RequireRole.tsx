@@ -0,0 +1,30 @@
+import { ShieldAlert } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { canAccessPage, PAGE_MIN_ROLE } from '../lib/roles'
+import { PageId } from '../routes'
+
+interface RequireRoleProps {
+  page: PageId
+  children: React.ReactNode
+}
+
+export function RequireRole({ page, children }: RequireRoleProps) {
+  const { role } = useAuth()
+
+  if (canAccessPage(role, page)) {
+    return <>{children}</>
+  }
+
+  return (
+    <div className="bg-gradient-to-br from-yellow-50 to-yellow-100 border border-yellow-200 rounded-xl p-8 text-center shadow-lg">
+      <div className="bg-yellow-100 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
+        <ShieldAlert className="h-8 w-8 text-yellow-600" />
+      </div>
+      <h3 className="text-xl font-bold text-yellow-800 mb-3">Access Restricted</h3>
+      <p className="text-yellow-700 max-w-md mx-auto">
+        This page requires the <span className="font-semibold">{PAGE_MIN_ROLE[page]}</span> role.
+        Your current role is <span className="font-semibold">{role || 'unknown'}</span>. Ask an admin for access.
+      </p>
+    </div>
+  )
+}
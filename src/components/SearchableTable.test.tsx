@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest'
+import { fireEvent, render, screen, within } from '@testing-library/react'
+import { SearchableTable } from './SearchableTable'
+
+const data = [
+  { university_name: 'University of Pretoria', qualification: 'BSc Computer Science', aps: 32 },
+  { university_name: 'Walter Sisulu University', qualification: 'Diploma in Music', aps: 18 },
+  { university_name: 'University of Venda', qualification: 'BCom Accounting', aps: 26 }
+]
+
+const columns = [
+  { key: 'university_name', label: 'University' },
+  { key: 'qualification', label: 'Qualification' },
+  { key: 'aps', label: 'APS', render: (value: number) => <strong>{value} pts</strong> }
+]
+
+// jsdom's Blob has no text()
+const readBlob = (blob: Blob) => new Promise<string>(resolve => {
+  const reader = new FileReader()
+  reader.onload = () => resolve(reader.result as string)
+  reader.readAsText(blob)
+})
+
+const bodyRows = () => within(screen.getAllByRole('rowgroup')[1]).getAllByRole('row')
+const firstCells = () => bodyRows().map(row => within(row).getAllByRole('cell')[0].textContent)
+
+describe('SearchableTable', () => {
+  it('renders every row with custom cell renderers', () => {
+    render(<SearchableTable data={data} columns={columns} />)
+
+    expect(bodyRows()).toHaveLength(3)
+    expect(screen.getByText('32 pts')).toBeInTheDocument()
+    expect(screen.getByText('Showing 3 of 3 results')).toBeInTheDocument()
+  })
+
+  it('filters across all columns, case-insensitively', () => {
+    render(<SearchableTable data={data} columns={columns} searchPlaceholder="Search programmes" />)
+
+    fireEvent.change(screen.getByPlaceholderText('Search programmes'), { target: { value: 'music' } })
+
+    expect(firstCells()).toEqual(['Walter Sisulu University'])
+    expect(screen.getByText('Showing 1 of 3 results')).toBeInTheDocument()
+  })
+
+  it('shows an empty state when nothing matches', () => {
+    render(<SearchableTable data={data} columns={columns} />)
+
+    fireEvent.change(screen.getByPlaceholderText('Search...'), { target: { value: 'medicine' } })
+
+    expect(screen.getByText('No data found')).toBeInTheDocument()
+  })
+
+  it('sorts ascending then descending when a header is clicked twice', () => {
+    render(<SearchableTable data={data} columns={columns} />)
+
+    fireEvent.click(screen.getByText('APS'))
+    expect(firstCells()).toEqual(['Walter Sisulu University', 'University of Venda', 'University of Pretoria'])
+
+    fireEvent.click(screen.getByText('APS'))
+    expect(firstCells()).toEqual(['University of Pretoria', 'University of Venda', 'Walter Sisulu University'])
+  })
+
+  it('passes the clicked row to onRowClick', () => {
+    const onRowClick = vi.fn()
+    render(<SearchableTable data={data} columns={columns} onRowClick={onRowClick} />)
+
+    fireEvent.click(screen.getByText('Diploma in Music'))
+    expect(onRowClick).toHaveBeenCalledWith(data[1])
+  })
+
+  it('exports the filtered rows as CSV', async () => {
+    const createObjectURL = vi.fn((_blob: Blob) => 'blob:export')
+    window.URL.createObjectURL = createObjectURL
+    window.URL.revokeObjectURL = vi.fn()
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+
+    render(<SearchableTable data={data} columns={columns} exportFilename="universities" />)
+    fireEvent.change(screen.getByPlaceholderText('Search...'), { target: { value: 'venda' } })
+    fireEvent.click(screen.getByText('Export CSV'))
+
+    expect(click).toHaveBeenCalled()
+    const csv = await readBlob(createObjectURL.mock.calls[0][0])
+    expect(csv).toBe('University,Qualification,APS\n"University of Venda","BCom Accounting","26"')
+  })
+})
@@ -13,13 +13,15 @@ interface SearchableTableProps {
   columns: Column[]
   searchPlaceholder?: string
   exportFilename?: string
+  onRowClick?: (row: any) => void
 }
 
 export function SearchableTable({ 
   data, 
   columns, 
   searchPlaceholder = 'Search...', 
-  exportFilename = 'data' 
+  exportFilename = 'data',
+  onRowClick
 }: SearchableTableProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [sortConfig, setSortConfig] = useState<{
@@ -129,7 +131,11 @@ export function SearchableTable({
               </tr>
             ) : (
               filteredAndSortedData.map((row, index) => (
-                <tr key={index} className="hover:bg-gradient-to-r hover:from-green-50 hover:to-blue-50 transition-all duration-150">
+                <tr
+                  key={index}
+                  onClick={onRowClick ? () => onRowClick(row) : undefined}
+                  className={`hover:bg-gradient-to-r hover:from-green-50 hover:to-blue-50 transition-all duration-150 ${onRowClick ? 'cursor-pointer' : ''}`}
+                >
                   {columns.map((column) => (
                     <td key={column.key} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-medium">
                       {column.render ? column.render(row[column.key], row) : (row[column.key] || '-')}
@@ -0,0 +1,331 @@
+import { useState, useEffect } from 'react'
+import { Bell, BellOff, CheckCircle, Plus, RefreshCw, Save, Trash2 } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { hasRole } from '../lib/roles'
+import {
+  ALERT_METRICS,
+  AlertMetric,
+  AlertRule,
+  AlertRuleInput,
+  SessionAlert,
+  acknowledgeAlert,
+  deleteAlertRule,
+  describeWindow,
+  evaluateAlertsNow,
+  fetchAlertRules,
+  fetchSessionAlerts,
+  saveAlertRule
+} from '../utils/sessionAlerts'
+
+const NEW_RULE: AlertRuleInput = {
+  metric: 'crash_rate',
+  threshold_pct: 5,
+  window_hours: 168,
+  min_sessions: 20,
+  cooldown_hours: 24,
+  recipients: [],
+  enabled: false
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString()
+
+function RuleEditor({ rule, onSaved, onDeleted }: {
+  rule: AlertRuleInput
+  onSaved: (rule: AlertRule) => void
+  onDeleted: () => void
+}) {
+  const [draft, setDraft] = useState(rule)
+  const [recipients, setRecipients] = useState(rule.recipients.join(', '))
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const update = (changes: Partial<AlertRuleInput>) => setDraft(current => ({ ...current, ...changes }))
+
+  const handleSave = async () => {
+    try {
+      setBusy(true)
+      setError(null)
+      onSaved(await saveAlertRule({
+        ...draft,
+        recipients: recipients.split(/[,\s]+/).map(email => email.trim()).filter(Boolean)
+      }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rule')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!draft.id) return onDeleted()
+    if (!window.confirm('Delete this alert rule? Its past alerts are kept.')) return
+    try {
+      setBusy(true)
+      await deleteAlertRule(draft.id)
+      onDeleted()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete rule')
+      setBusy(false)
+    }
+  }
+
+  const numberInput = (field: 'threshold_pct' | 'window_hours' | 'min_sessions' | 'cooldown_hours', label: string) => (
+    <label className="text-xs text-gray-600">
+      {label}
+      <input
+        type="number"
+        min={field === 'threshold_pct' ? 0.1 : 1}
+        step={field === 'threshold_pct' ? 0.1 : 1}
+        value={draft[field]}
+        onChange={e => update({ [field]: Number(e.target.value) })}
+        className="block w-24 mt-1 border border-gray-300 rounded-lg px-2 py-1 text-sm"
+      />
+    </label>
+  )
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="text-xs text-gray-600">
+          Metric
+          <select
+            value={draft.metric}
+            onChange={e => update({ metric: e.target.value as AlertMetric })}
+            className="block mt-1 border border-gray-300 rounded-lg px-2 py-1 text-sm"
+          >
+            {(Object.keys(ALERT_METRICS) as AlertMetric[]).map(metric => (
+              <option key={metric} value={metric}>{ALERT_METRICS[metric].label}</option>
+            ))}
+          </select>
+        </label>
+        {numberInput('threshold_pct', 'Threshold %')}
+        {numberInput('window_hours', 'Window (hours)')}
+        {numberInput('min_sessions', 'Min sessions')}
+        {numberInput('cooldown_hours', 'Cooldown (hours)')}
+        <label className="text-xs text-gray-600 flex-1 min-w-[14rem]">
+          Email recipients
+          <input
+            type="text"
+            value={recipients}
+            onChange={e => setRecipients(e.target.value)}
+            placeholder="ops@example.com, lead@example.com"
+            className="block w-full mt-1 border border-gray-300 rounded-lg px-2 py-1 text-sm"
+          />
+        </label>
+        <label className="flex items-center text-sm text-gray-700">
+          <input type="checkbox" checked={draft.enabled} onChange={e => update({ enabled: e.target.checked })} className="mr-2" />
+          Enabled
+        </label>
+        <button
+          onClick={handleSave}
+          disabled={busy}
+          className="inline-flex items-center px-3 py-1.5 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 disabled:opacity-50"
+        >
+          <Save className="h-4 w-4 mr-1" />
+          Save
+        </button>
+        <button onClick={handleDelete} disabled={busy} className="p-2 text-gray-400 hover:text-red-600" aria-label="Delete rule">
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Alerts when {ALERT_METRICS[draft.metric].label.toLowerCase()} over {describeWindow(draft.window_hours || 1)} reaches{' '}
+        {draft.threshold_pct}% with at least {draft.min_sessions} ended sessions.
+      </p>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  )
+}
+
+// Open alerts with acknowledgement, the alert history and the rules behind them
+export function SessionAlertsPanel() {
+  const { role } = useAuth()
+  const canEditRules = hasRole(role, 'admin')
+  const [alerts, setAlerts] = useState<SessionAlert[]>([])
+  const [rules, setRules] = useState<AlertRuleInput[]>([])
+  const [notes, setNotes] = useState<Record<number, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [evaluating, setEvaluating] = useState(false)
+  const [evaluateMessage, setEvaluateMessage] = useState<string | null>(null)
+  const [showRules, setShowRules] = useState(false)
+
+  const loadAlerts = async () => {
+    try {
+      setError(null)
+      const [alertRows, ruleRows] = await Promise.all([fetchSessionAlerts(), fetchAlertRules()])
+      setAlerts(alertRows)
+      setRules(ruleRows)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch session alerts')
+    }
+  }
+
+  useEffect(() => {
+    loadAlerts()
+  }, [])
+
+  const handleAcknowledge = async (id: number) => {
+    try {
+      const updated = await acknowledgeAlert(id, notes[id] ?? '')
+      setAlerts(current => current.map(alert => (alert.id === id ? updated : alert)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to acknowledge alert')
+    }
+  }
+
+  const handleEvaluate = async () => {
+    try {
+      setEvaluating(true)
+      setEvaluateMessage(null)
+      const result = await evaluateAlertsNow()
+      setEvaluateMessage(`${result.evaluated} rules checked, ${result.triggered} alerts raised`)
+      await loadAlerts()
+    } catch (err) {
+      setEvaluateMessage(err instanceof Error ? err.message : 'Evaluation failed')
+    } finally {
+      setEvaluating(false)
+    }
+  }
+
+  const open = alerts.filter(alert => !alert.acknowledged_at)
+  const history = alerts.filter(alert => alert.acknowledged_at)
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center">
+          <Bell className="h-5 w-5 mr-2 text-green-600" />
+          Alerts
+          {open.length > 0 && (
+            <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">{open.length} open</span>
+          )}
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowRules(!showRules)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+          >
+            {showRules ? 'Hide rules' : `Rules (${rules.length})`}
+          </button>
+          <button
+            onClick={handleEvaluate}
+            disabled={evaluating}
+            className="inline-flex items-center px-3 py-1.5 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-1 ${evaluating ? 'animate-spin' : ''}`} />
+            Check now
+          </button>
+        </div>
+      </div>
+      {evaluateMessage && <p className="text-xs text-gray-600 mb-3">{evaluateMessage}</p>}
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {showRules && (
+        <div className="space-y-3 mb-6">
+          <p className="text-sm text-gray-600">
+            Rules are checked every hour. Each alert is emailed to the rule's recipients, then the rule stays quiet for
+            its cooldown.{!canEditRules && ' Only admins can change rules.'}
+          </p>
+          {canEditRules ? (
+            <>
+              {rules.map((rule, index) => (
+                <RuleEditor
+                  key={rule.id ?? `new-${index}`}
+                  rule={rule}
+                  onSaved={saved => setRules(current => current.map((r, i) => (i === index ? saved : r)))}
+                  onDeleted={() => setRules(current => current.filter((_, i) => i !== index))}
+                />
+              ))}
+              <button
+                onClick={() => setRules(current => [...current, NEW_RULE])}
+                className="inline-flex items-center px-3 py-1.5 border border-dashed border-green-400 text-green-700 rounded-lg text-sm hover:bg-green-50"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add rule
+              </button>
+            </>
+          ) : (
+            <ul className="text-sm text-gray-700 space-y-1">
+              {rules.map(rule => (
+                <li key={rule.id} className={rule.enabled ? '' : 'text-gray-400'}>
+                  {ALERT_METRICS[rule.metric].label} ≥ {rule.threshold_pct}% over {describeWindow(rule.window_hours)}
+                  {rule.enabled ? '' : ' (disabled)'}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {open.length === 0 ? (
+        <p className="text-sm text-gray-600 flex items-center">
+          <BellOff className="h-4 w-4 mr-2 text-gray-400" />
+          No open alerts.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {open.map(alert => (
+            <li key={alert.id} className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm font-semibold text-red-900">
+                {ALERT_METRICS[alert.metric].label} {alert.value_pct}% (threshold {alert.threshold_pct}%)
+              </p>
+              <p className="text-xs text-red-800 mt-1">
+                {alert.affected_sessions} of {alert.ended_sessions} ended sessions between {formatTime(alert.window_start)} and{' '}
+                {formatTime(alert.window_end)}
+              </p>
+              <p className="text-xs text-gray-600 mt-1">
+                {alert.notification_error
+                  ? `Email problem: ${alert.notification_error}`
+                  : `Emailed ${alert.notified_recipients.join(', ')}`}
+              </p>
+              <div className="flex flex-wrap gap-2 mt-3">
+                <input
+                  type="text"
+                  value={notes[alert.id] ?? ''}
+                  onChange={e => setNotes(current => ({ ...current, [alert.id]: e.target.value }))}
+                  placeholder="Note (optional)"
+                  className="flex-1 min-w-[12rem] border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                />
+                <button
+                  onClick={() => handleAcknowledge(alert.id)}
+                  className="inline-flex items-center px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+                >
+                  <CheckCircle className="h-4 w-4 mr-1 text-green-600" />
+                  Acknowledge
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {history.length > 0 && (
+        <div className="mt-6 overflow-x-auto">
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">History</h3>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4">Raised</th>
+                <th className="py-2 pr-4">Metric</th>
+                <th className="py-2 pr-4 text-right">Value</th>
+                <th className="py-2 pr-4">Acknowledged</th>
+                <th className="py-2">Note</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {history.map(alert => (
+                <tr key={alert.id}>
+                  <td className="py-2 pr-4 text-gray-700">{formatTime(alert.triggered_at)}</td>
+                  <td className="py-2 pr-4">{ALERT_METRICS[alert.metric].label}</td>
+                  <td className="py-2 pr-4 text-right">{alert.value_pct}%</td>
+                  <td className="py-2 pr-4 text-gray-600">{formatTime(alert.acknowledged_at!)}</td>
+                  <td className="py-2 text-gray-600">{alert.acknowledgement_note || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react'
+import { Save, Scissors } from 'lucide-react'
+import {
+  MAX_IDLE_TIMEOUT_MINUTES,
+  MIN_IDLE_TIMEOUT_MINUTES,
+  fetchLifecycleSettings,
+  runSessionReaper,
+  saveLifecycleSettings
+} from '../utils/sessionLifecycle'
+
+interface SessionLifecyclePanelProps {
+  lastRunAt: string | null
+  onRun: () => void
+}
+
+// Admin controls for the stale session reaper
+export function SessionLifecyclePanel({ lastRunAt, onRun }: SessionLifecyclePanelProps) {
+  const [timeout, setTimeoutMinutes] = useState(30)
+  const [mergeOverlapping, setMergeOverlapping] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchLifecycleSettings()
+      .then(settings => {
+        if (!settings) return
+        setTimeoutMinutes(settings.idle_timeout_minutes)
+        setMergeOverlapping(settings.merge_overlapping)
+      })
+      .catch(err => setMessage(err instanceof Error ? err.message : 'Failed to fetch reaper settings'))
+  }, [])
+
+  const handleSave = async () => {
+    try {
+      setBusy(true)
+      await saveLifecycleSettings({ idle_timeout_minutes: timeout, merge_overlapping: mergeOverlapping })
+      setMessage('Settings saved; they apply from the next run')
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to save settings')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRun = async () => {
+    try {
+      setBusy(true)
+      const result = await runSessionReaper()
+      setMessage(`Closed ${result.closed} idle sessions and merged ${result.merged} overlapping ones`)
+      onRun()
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Reaper run failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-2 flex items-center">
+        <Scissors className="h-5 w-5 mr-2 text-green-600" />
+        Stale session reaper
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Every 15 minutes, sessions with no activity for longer than the timeout are closed as disconnected at their last
+        page view, and overlapping sessions of the same user are merged. Every change is kept in the lifecycle audit.
+        {lastRunAt && ` Last change: ${new Date(lastRunAt).toLocaleString()}.`}
+      </p>
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="text-xs text-gray-600">
+          Idle timeout (minutes)
+          <input
+            type="number"
+            min={MIN_IDLE_TIMEOUT_MINUTES}
+            max={MAX_IDLE_TIMEOUT_MINUTES}
+            value={timeout}
+            onChange={e => setTimeoutMinutes(Number(e.target.value))}
+            className="block w-28 mt-1 border border-gray-300 rounded-lg px-2 py-1 text-sm"
+          />
+        </label>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={mergeOverlapping}
+            onChange={e => setMergeOverlapping(e.target.checked)}
+            className="mr-2"
+          />
+          Merge overlapping sessions
+        </label>
+        <button
+          onClick={handleSave}
+          disabled={busy}
+          className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Save className="h-4 w-4 mr-1" />
+          Save
+        </button>
+        <button
+          onClick={handleRun}
+          disabled={busy}
+          className="inline-flex items-center px-3 py-1.5 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 disabled:opacity-50"
+        >
+          Run now
+        </button>
+      </div>
+      {message && <p className="text-xs text-gray-600 mt-3">{message}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+import { useState, useEffect } from 'react'
+import { X, User } from 'lucide-react'
+import { LoadingSpinner } from './LoadingSpinner'
+import { ErrorMessage } from './ErrorMessage'
+import { UserSessionTimeline, fetchUserSessionTimeline, formatDuration } from '../utils/sessionAnalytics'
+
+interface SessionTimelineDrawerProps {
+  userId: string
+  onClose: () => void
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: 'bg-green-100 text-green-800',
+  active: 'bg-blue-100 text-blue-800',
+  disconnected: 'bg-yellow-100 text-yellow-800'
+}
+
+/**
+ * Side panel with every session of one user, newest first, under their profile details
+ */
+export function SessionTimelineDrawer({ userId, onClose }: SessionTimelineDrawerProps) {
+  const [timeline, setTimeline] = useState<UserSessionTimeline | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadTimeline = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setTimeline(await fetchUserSessionTimeline(userId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch session timeline')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadTimeline()
+  }, [userId])
+
+  const profile = timeline?.profile
+  const name = profile ? [profile.first_name, profile.last_name].filter(Boolean).join(' ') : ''
+  const totalSeconds = (timeline?.sessions || []).reduce((sum, session) => sum + (session.duration_seconds || 0), 0)
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <div className="relative w-full max-w-xl h-full bg-white shadow-xl overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <User className="h-5 w-5 mr-2 text-green-600" />
+              {name || `User ${userId.slice(0, 8)}`}
+            </h2>
+            {profile ? (
+              <p className="text-sm text-gray-500">
+                {[profile.email, profile.school, profile.grade && `Grade ${profile.grade}`, profile.province].filter(Boolean).join(' · ')}
+                {profile.created_at && ` · Joined ${new Date(profile.created_at).toLocaleDateString()}`}
+              </p>
+            ) : (
+              !loading && <p className="text-sm text-gray-500">No profile found for {userId}</p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100" aria-label="Close">
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {loading && <LoadingSpinner />}
+          {!loading && error && <ErrorMessage message={error} onRetry={loadTimeline} />}
+
+          {!loading && !error && timeline && (
+            <>
+              <p className="text-sm text-gray-600 mb-4">
+                {timeline.sessions.length} sessions · {formatDuration(totalSeconds)} in ended sessions
+              </p>
+              {timeline.sessions.length === 0 && <p className="text-sm text-gray-500">No sessions recorded for this user.</p>}
+              <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+                {timeline.sessions.map(session => (
+                  <li key={session.session_id} className="ml-4">
+                    <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-green-500" />
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{new Date(session.start_time).toLocaleString()}</p>
+                        <p className="text-xs text-gray-500">
+                          {session.end_time ? formatDuration(session.duration_seconds) : 'Still open'} · {session.page_views} page views
+                          {session.auto_closed_at && ' · closed by the reaper'}
+                        </p>
+                      </div>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${STATUS_STYLES[session.status] || 'bg-red-100 text-red-800'}`}>
+                        {session.status}
+                      </span>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
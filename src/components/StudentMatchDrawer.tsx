@@ -0,0 +1,160 @@
+import { useMemo, useState } from 'react'
+import { X, CheckCircle, XCircle, Target } from 'lucide-react'
+import { LoadingSpinner } from './LoadingSpinner'
+import { ErrorMessage } from './ErrorMessage'
+import { ProfileMatcher, type ProgramMatch } from '../utils/profileMatching'
+import { toStudentProfile, toStudentSubjects } from '../utils/matchingPipeline'
+import type { ValidatedStudentMark } from '../utils/dataConsistency'
+import type { AvailableProgram } from '../types'
+
+interface StudentMatchDrawerProps {
+  student: ValidatedStudentMark
+  programs: AvailableProgram[] | null
+  loading: boolean
+  error: string | null
+  onRetry: () => void
+  onClose: () => void
+}
+
+// Long match lists are cut to keep the drawer responsive
+const MAX_LISTED = 50
+
+const CONFIDENCE_STYLES: Record<ProgramMatch['match_confidence'], string> = {
+  very_high: 'bg-green-100 text-green-800',
+  high: 'bg-blue-100 text-blue-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-orange-100 text-orange-800',
+  very_low: 'bg-gray-100 text-gray-600'
+}
+
+/**
+ * Side panel with one student's subjects and the programmes ProfileMatcher finds for them,
+ * including programmes they meet the APS for but miss on subject requirements
+ */
+export function StudentMatchDrawer({ student, programs, loading, error, onRetry, onClose }: StudentMatchDrawerProps) {
+  const [showFailed, setShowFailed] = useState(false)
+  const subjects = useMemo(() => toStudentSubjects(student), [student])
+  const profile = useMemo(() => toStudentProfile(student), [student])
+
+  const { qualified, failed } = useMemo(() => {
+    if (!programs || !profile) return { qualified: [], failed: [] }
+
+    const matches = new ProfileMatcher(programs).findMatches(profile, { includeFailed: true })
+    return {
+      qualified: matches.filter(match => !match.flags?.includes('failed_subject_requirement')),
+      failed: matches.filter(match => match.flags?.includes('failed_subject_requirement'))
+    }
+  }, [profile, programs])
+
+  const listed = showFailed ? failed : qualified
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <div className="relative w-full max-w-xl h-full bg-white shadow-xl overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Student {student.user_id.slice(0, 8)}</h2>
+            <p className="text-sm text-gray-500">
+              APS {student.aps_mark ?? 'N/A'} · Average {student.average != null ? `${student.average}%` : 'N/A'}
+              {student.math_type && ` · ${student.math_type}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100" aria-label="Close">
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Subjects</h3>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-1 font-medium">Subject</th>
+                  <th className="py-1 font-medium text-right">Mark</th>
+                  <th className="py-1 font-medium text-right">Level</th>
+                </tr>
+              </thead>
+              <tbody>
+                {subjects.map(subject => (
+                  <tr key={subject.slot} className="border-b border-gray-100">
+                    <td className="py-1 text-gray-900">{subject.name}</td>
+                    <td className="py-1 text-right text-gray-700">{subject.mark != null ? `${subject.mark}%` : '–'}</td>
+                    <td className="py-1 text-right text-gray-700">{subject.level ?? '–'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+              <Target className="h-4 w-4 mr-1 text-green-600" />
+              Programme matches
+            </h3>
+
+            {loading && <LoadingSpinner />}
+            {!loading && error && <ErrorMessage message={error} onRetry={onRetry} />}
+            {!loading && !error && !profile && (
+              <p className="text-sm text-gray-500">No valid APS recorded, so this student cannot be matched.</p>
+            )}
+
+            {!loading && !error && programs && profile && (
+              <>
+                <div className="flex gap-2 mb-3 text-sm">
+                  <button
+                    onClick={() => setShowFailed(false)}
+                    className={`px-3 py-1 rounded-full ${!showFailed ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                  >
+                    Qualifies ({qualified.length})
+                  </button>
+                  <button
+                    onClick={() => setShowFailed(true)}
+                    className={`px-3 py-1 rounded-full ${showFailed ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                  >
+                    Misses subject requirements ({failed.length})
+                  </button>
+                </div>
+
+                {listed.length === 0 && <p className="text-sm text-gray-500">No programmes in this list.</p>}
+                <ul className="space-y-3">
+                  {listed.slice(0, MAX_LISTED).map(match => (
+                    <li key={`${match.institution_type}:${match.program_id}`} className="border border-gray-200 rounded-lg p-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">{match.qualification}</p>
+                          <p className="text-xs text-gray-500">
+                            {match.institution_name} · {match.institution_type === 'tvet' ? 'TVET' : 'University'} · APS {match.required_aps}
+                          </p>
+                        </div>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${CONFIDENCE_STYLES[match.match_confidence]}`}>
+                          {match.matching_score} · {match.match_confidence.replace('_', ' ')}
+                        </span>
+                      </div>
+                      {(match.requirement_results || []).length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {match.requirement_results!.map(result => (
+                            <li key={result.reason} className="flex items-start text-xs text-gray-600">
+                              {result.passed
+                                ? <CheckCircle className="h-3 w-3 mr-1 mt-0.5 text-green-600 flex-shrink-0" />
+                                : <XCircle className="h-3 w-3 mr-1 mt-0.5 text-red-600 flex-shrink-0" />}
+                              {result.reason}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {listed.length > MAX_LISTED && (
+                  <p className="text-xs text-gray-500 mt-2">Showing the top {MAX_LISTED} of {listed.length} by match score.</p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,11 @@
 import React, { createContext, useContext, useEffect, useState } from 'react'
 import { User } from '@supabase/supabase-js'
 import { supabase } from '../lib/supabase'
+import { DashboardRole, fetchCurrentUserRole } from '../lib/roles'
 
 interface AuthContextType {
   user: User | null
+  role: DashboardRole | null
   loading: boolean
   signUp: (email: string, password: string) => Promise<void>
   signIn: (email: string, password: string) => Promise<void>
@@ -14,7 +16,9 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
+  const [role, setRole] = useState<DashboardRole | null>(null)
   const [loading, setLoading] = useState(true)
+  const [roleLoading, setRoleLoading] = useState(false)
 
   useEffect(() => {
     (async () => {
@@ -37,6 +41,28 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return () => subscription?.unsubscribe()
   }, [])
 
+  // Resolve the dashboard role whenever the signed-in user changes
+  useEffect(() => {
+    if (!user) {
+      setRole(null)
+      return
+    }
+
+    let isMounted = true
+    setRoleLoading(true)
+    fetchCurrentUserRole()
+      .then(currentRole => {
+        if (isMounted) setRole(currentRole)
+      })
+      .finally(() => {
+        if (isMounted) setRoleLoading(false)
+      })
+
+    return () => {
+      isMounted = false
+    }
+  }, [user?.id])
+
   const signUp = async (email: string, password: string) => {
     const { error } = await supabase.auth.signUp({ email, password })
     if (error) throw error
@@ -53,7 +79,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }
 
   return (
-    <AuthContext.Provider value={{ user, loading, signUp, signIn, signOut }}>
+    <AuthContext.Provider value={{ user, role, loading: loading || roleLoading || (!!user && !role), signUp, signIn, signOut }}>
       {children}
     </AuthContext.Provider>
   )
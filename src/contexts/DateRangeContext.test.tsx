@@ -0,0 +1,90 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { fireEvent, render, screen } from '@testing-library/react'
+import { MemoryRouter, useLocation, useNavigate } from 'react-router-dom'
+import { DateRangeProvider, useDateRange } from './DateRangeContext'
+
+function Probe() {
+  const { selection, compare, comparison, setSelection, setCompare, periodSearch } = useDateRange()
+  const location = useLocation()
+  const navigate = useNavigate()
+  return (
+    <div>
+      <p data-testid="selection">{JSON.stringify(selection)}</p>
+      <p data-testid="compare">{String(compare)} {String(comparison !== null)}</p>
+      <p data-testid="search">{location.search}</p>
+      <p data-testid="period-search">{periodSearch}</p>
+      <button onClick={() => setSelection({ preset: '30d' })}>30d</button>
+      <button onClick={() => setSelection({ preset: 'custom', from: '2026-09-01', to: '2026-09-30' })}>custom</button>
+      <button onClick={() => setCompare(false)}>no compare</button>
+      <button onClick={() => navigate({ pathname: '/matching-profiles', search: '' })}>non-period page</button>
+      <button onClick={() => navigate({ pathname: '/overview', search: periodSearch })}>period page</button>
+      <button onClick={() => navigate('/overview')}>bare period page</button>
+    </div>
+  )
+}
+
+const renderAt = (url: string) => render(
+  <MemoryRouter initialEntries={[url]}>
+    <DateRangeProvider>
+      <Probe />
+    </DateRangeProvider>
+  </MemoryRouter>
+)
+
+describe('DateRangeProvider', () => {
+  it('defaults to the last 7 days with comparison on and a clean URL', () => {
+    renderAt('/overview')
+    expect(screen.getByTestId('selection').textContent).toBe('{"preset":"7d"}')
+    expect(screen.getByTestId('compare').textContent).toBe('true true')
+    expect(screen.getByTestId('period-search').textContent).toBe('')
+  })
+
+  it('restores the preset, custom dates and compare flag from the URL', () => {
+    renderAt('/engagement?range=custom&from=2026-08-01&to=2026-08-31&compare=0')
+    expect(screen.getByTestId('selection').textContent).toBe('{"preset":"custom","from":"2026-08-01","to":"2026-08-31"}')
+    expect(screen.getByTestId('compare').textContent).toBe('false false')
+  })
+
+  it('reads cohort links with only from/to as a custom range', () => {
+    renderAt('/user-journey?from=2026-07-01&to=2026-07-31')
+    expect(screen.getByTestId('selection').textContent).toBe('{"preset":"custom","from":"2026-07-01","to":"2026-07-31"}')
+  })
+
+  it('writes changes back to the query string, keeping other filters', () => {
+    renderAt('/feature-adoption?segment=grade')
+
+    fireEvent.click(screen.getByText('custom'))
+    expect(screen.getByTestId('search').textContent).toBe('?segment=grade&range=custom&from=2026-09-01&to=2026-09-30')
+
+    fireEvent.click(screen.getByText('30d'))
+    fireEvent.click(screen.getByText('no compare'))
+    expect(screen.getByTestId('search').textContent).toBe('?segment=grade&range=30d&compare=0')
+    expect(screen.getByTestId('period-search').textContent).toBe('?range=30d&compare=0')
+  })
+
+  it('keeps the selection across pages that clear the query string', () => {
+    renderAt('/engagement')
+    fireEvent.click(screen.getByText('custom'))
+    fireEvent.click(screen.getByText('no compare'))
+
+    fireEvent.click(screen.getByText('non-period page'))
+    expect(screen.getByTestId('search').textContent).toBe('')
+    expect(screen.getByTestId('selection').textContent).toBe('{"preset":"custom","from":"2026-09-01","to":"2026-09-30"}')
+
+    fireEvent.click(screen.getByText('period page'))
+    expect(screen.getByTestId('search').textContent).toBe('?range=custom&from=2026-09-01&to=2026-09-30&compare=0')
+    expect(screen.getByTestId('compare').textContent).toBe('false false')
+  })
+
+  it('changes one setting on a clean URL without dropping the remembered others', () => {
+    renderAt('/engagement?range=30d')
+    fireEvent.click(screen.getByText('non-period page'))
+    fireEvent.click(screen.getByText('bare period page'))
+    expect(screen.getByTestId('selection').textContent).toBe('{"preset":"30d"}')
+
+    fireEvent.click(screen.getByText('no compare'))
+    expect(screen.getByTestId('search').textContent).toBe('?range=30d&compare=0')
+  })
+})
+
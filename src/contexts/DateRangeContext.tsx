@@ -0,0 +1,94 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { PERIOD_PRESETS, PeriodPreset, PeriodSelection, ReportingPeriod, previousPeriod, resolvePeriod } from '../utils/period'
+import { useQueryFilters } from '../hooks/useQueryFilters'
+
+interface DateRangeContextType {
+  selection: PeriodSelection
+  period: ReportingPeriod
+  // Previous period of the same length, or null when comparison is switched off
+  comparison: ReportingPeriod | null
+  compare: boolean
+  setSelection: (selection: PeriodSelection) => void
+  setCompare: (compare: boolean) => void
+  // The period's query string (e.g. "?range=30d"), for links that should keep the selected period
+  periodSearch: string
+}
+
+// The selection lives in the URL so reloads, bookmarks, shared links and back/forward keep it.
+// from/to without a range are the UserJourney cohort links from before the global picker, read as a custom range.
+export const PERIOD_QUERY_DEFAULTS = { range: '7d', from: '', to: '', compare: '1' }
+
+type PeriodQuery = typeof PERIOD_QUERY_DEFAULTS
+
+const isPreset = (value: string): value is PeriodPreset => value === 'custom' || value in PERIOD_PRESETS
+
+const DateRangeContext = createContext<DateRangeContextType | undefined>(undefined)
+
+export function DateRangeProvider({ children }: { children: React.ReactNode }) {
+  const [urlQuery, setFilters] = useQueryFilters(PERIOD_QUERY_DEFAULTS)
+  const [searchParams] = useSearchParams()
+  const urlHasPeriod = Object.keys(PERIOD_QUERY_DEFAULTS).some(key => searchParams.has(key))
+
+  // Pages without the picker open with a clean query string, so the last selection is kept here
+  // and used whenever the URL carries no period of its own
+  const [lastQuery, setLastQuery] = useState<PeriodQuery>(PERIOD_QUERY_DEFAULTS)
+  useEffect(() => {
+    if (urlHasPeriod) setLastQuery(urlQuery)
+  }, [urlHasPeriod, urlQuery])
+
+  const query = urlHasPeriod ? urlQuery : lastQuery
+  const { range, from, to, compare: compareFlag } = query
+
+  // Keyed on the raw strings so other query filters changing does not re-resolve the period
+  const selection = useMemo<PeriodSelection>(() => {
+    if (from && to && (range === 'custom' || range === PERIOD_QUERY_DEFAULTS.range)) return { preset: 'custom', from, to }
+    return { preset: isPreset(range) && range !== 'custom' ? range : '7d' }
+  }, [range, from, to])
+  const compare = compareFlag !== '0'
+
+  // Resolved once per selection so every page in a render uses the same instants
+  const period = useMemo(() => resolvePeriod(selection), [selection])
+  const comparison = useMemo(() => (compare ? previousPeriod(period) : null), [compare, period])
+
+  // Writes the whole period, so a change made on a clean URL keeps the remembered values it does not touch
+  const updateQuery = useCallback((updates: Partial<PeriodQuery>) => {
+    const next = { ...query, ...updates }
+    setLastQuery(next)
+    setFilters(next)
+  }, [query, setFilters])
+
+  const setSelection = useCallback((next: PeriodSelection) => {
+    updateQuery(next.preset === 'custom'
+      ? { range: 'custom', from: next.from ?? '', to: next.to ?? '' }
+      : { range: next.preset, from: '', to: '' })
+  }, [updateQuery])
+
+  const setCompare = useCallback((next: boolean) => updateQuery({ compare: next ? '1' : '0' }), [updateQuery])
+
+  const periodSearch = useMemo(() => {
+    const params = new URLSearchParams()
+    if (selection.preset !== PERIOD_QUERY_DEFAULTS.range) params.set('range', selection.preset)
+    if (selection.preset === 'custom') {
+      params.set('from', selection.from!)
+      params.set('to', selection.to!)
+    }
+    if (!compare) params.set('compare', '0')
+    const search = params.toString()
+    return search ? `?${search}` : ''
+  }, [selection, compare])
+
+  return (
+    <DateRangeContext.Provider value={{ selection, period, comparison, compare, setSelection, setCompare, periodSearch }}>
+      {children}
+    </DateRangeContext.Provider>
+  )
+}
+
+export function useDateRange() {
+  const context = useContext(DateRangeContext)
+  if (context === undefined) {
+    throw new Error('useDateRange must be used within a DateRangeProvider')
+  }
+  return context
+}
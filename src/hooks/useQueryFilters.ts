@@ -0,0 +1,39 @@
+import { useCallback, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
+
+/**
+ * Keeps a page's filter state in the URL query string so views can be
+ * bookmarked, shared and restored with the browser back/forward buttons.
+ * Values equal to their default are left out of the URL.
+ */
+export function useQueryFilters<T extends Record<string, string>>(
+  defaults: T
+): [T, (updates: Partial<T>) => void] {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  // defaults is expected to be a stable literal for the lifetime of the page
+  const filters = useMemo(() => {
+    const values = { ...defaults }
+    for (const key of Object.keys(defaults) as (keyof T)[]) {
+      const value = searchParams.get(key as string)
+      if (value !== null) values[key] = value as T[keyof T]
+    }
+    return values
+  }, [searchParams])
+
+  const setFilters = useCallback((updates: Partial<T>) => {
+    setSearchParams(current => {
+      const next = new URLSearchParams(current)
+      for (const [key, value] of Object.entries(updates)) {
+        if (value === undefined || value === defaults[key]) {
+          next.delete(key)
+        } else {
+          next.set(key, value)
+        }
+      }
+      return next
+    })
+  }, [setSearchParams])
+
+  return [filters, setFilters]
+}
@@ -0,0 +1,36 @@
+import { FunctionsHttpError } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import type {
+  AdminAction,
+  AdminApiRequests,
+  AdminApiResponses,
+  AdminApiResult
+} from '../../supabase/functions/_shared/admin-api-types.ts'
+
+// Call the admin-api edge function; the user's session JWT is attached by supabase-js
+export async function callAdminApi<A extends AdminAction>(
+  action: A,
+  payload: AdminApiRequests[A]
+): Promise<AdminApiResponses[A]> {
+  const { data, error } = await supabase.functions.invoke<AdminApiResult<A>>('admin-api', {
+    body: { action, payload }
+  })
+
+  if (error) {
+    // Non-2xx responses still carry the function's JSON error body
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null)
+      throw new Error(body?.error || error.message)
+    }
+    throw error
+  }
+
+  if (!data) {
+    throw new Error(`Empty response from admin-api (${action})`)
+  }
+  if (!data.success) {
+    throw new Error(data.error)
+  }
+
+  return data.data
+}
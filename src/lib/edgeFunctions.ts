@@ -0,0 +1,24 @@
+import { FunctionsHttpError } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+
+/**
+ * Call an edge function that answers `{ success, error?, ...result }`; throws the function's own error message.
+ * The user's session JWT is attached by supabase-js.
+ */
+export async function invokeEdgeFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T & { success: boolean; error?: string }>(name, { body })
+
+  if (error) {
+    // Non-2xx responses still carry the function's JSON error body
+    if (error instanceof FunctionsHttpError) {
+      const errorBody = await error.context.json().catch(() => null)
+      throw new Error(errorBody?.error || error.message)
+    }
+    throw error
+  }
+  if (!data?.success) {
+    throw new Error(data?.error || `Empty response from ${name}`)
+  }
+
+  return data
+}
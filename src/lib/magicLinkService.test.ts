@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { onFunctionInvoke, onRpc, resetSupabaseFake } from '../test/supabaseFake'
+import {
+  bulkSendMagicLinks,
+  checkMagicLinkExists,
+  generateMagicLinkUrl,
+  sendMagicLinkToProfile,
+  type MagicLinkUser
+} from './magicLinkService'
+
+vi.mock('./supabase', () => import('../test/supabaseFake'))
+
+const magicUser = (email: string): MagicLinkUser => ({
+  id: `user-${email}`,
+  email,
+  is_active: true,
+  magic_token: `token-${email.split('@')[0]}`,
+  activated_at: null,
+  first_access_at: null,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z'
+})
+
+const fetchMock = vi.fn()
+const adminApiCalls: any[] = []
+
+beforeEach(() => {
+  resetSupabaseFake()
+  adminApiCalls.length = 0
+  onFunctionInvoke('admin-api', body => {
+    adminApiCalls.push(body)
+    if (body.payload.email.startsWith('blocked')) {
+      return { success: false, error: 'Admin role required' }
+    }
+    return { success: true, data: { user: magicUser(body.payload.email) } }
+  })
+
+  vi.stubEnv('VITE_MAGIC_LINK_BASE_URL', 'https://learn.reslocate.net')
+  vi.stubEnv('VITE_SUPABASE_URL', 'https://project.supabase.co')
+  vi.stubEnv('VITE_SUPABASE_ANON_KEY', 'anon-key')
+  vi.stubEnv('VITE_EMAIL_SERVER_URL', '')
+  vi.stubGlobal('fetch', fetchMock)
+  fetchMock.mockReset()
+
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+})
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+describe('generateMagicLinkUrl', () => {
+  it('appends the token to the configured base URL', () => {
+    expect(generateMagicLinkUrl('abc')).toBe('https://learn.reslocate.net/?token=abc')
+  })
+})
+
+describe('sendMagicLinkToProfile', () => {
+  it('creates the magic link user through admin-api and emails the link via send-email', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ success: true }))
+
+    const result = await sendMagicLinkToProfile({ email: 'thandi@example.com', first_name: 'Thandi' })
+
+    expect(adminApiCalls).toEqual([{ action: 'createOrUpdateMagicLinkUser', payload: { email: 'thandi@example.com' } }])
+    expect(result).toMatchObject({
+      success: true,
+      magicLink: 'https://learn.reslocate.net/?token=token-thandi',
+      simulated: undefined
+    })
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('https://project.supabase.co/functions/v1/send-email')
+    expect(JSON.parse(init.body)).toMatchObject({
+      to: 'thandi@example.com',
+      subject: 'Welcome to Your Learning Journey, Thandi!',
+      firstName: 'Thandi'
+    })
+    expect(JSON.parse(init.body).html).toContain('https://learn.reslocate.net/?token=token-thandi')
+  })
+
+  it('still returns the link as simulated when send-email is not deployed', async () => {
+    fetchMock.mockResolvedValue(new Response('Not found', { status: 404 }))
+
+    const result = await sendMagicLinkToProfile({ email: 'sipho@example.com' })
+
+    expect(result).toMatchObject({ success: true, simulated: true, magicLink: 'https://learn.reslocate.net/?token=token-sipho' })
+  })
+
+  it('prefers the local email server when configured', async () => {
+    vi.stubEnv('VITE_EMAIL_SERVER_URL', 'http://localhost:3001')
+    fetchMock.mockResolvedValue(jsonResponse({ success: true }))
+
+    const result = await sendMagicLinkToProfile({ email: 'sipho@example.com' })
+
+    expect(result).toMatchObject({ success: true, simulated: false })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:3001/api/send-magic-link-email')
+  })
+
+  it('fails without emailing when admin-api refuses', async () => {
+    const result = await sendMagicLinkToProfile({ email: 'blocked@example.com' })
+
+    expect(result).toEqual({ success: false, error: 'Admin role required' })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
+
+describe('bulkSendMagicLinks', () => {
+  it('tallies sent and failed profiles', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({ success: true }))
+
+    const result = await bulkSendMagicLinks([{ email: 'a@example.com' }, { email: 'blocked@example.com' }])
+
+    expect(result.success).toBe(false)
+    expect(result.sent).toBe(1)
+    expect(result.failed).toBe(1)
+    expect(result.results[1]).toEqual({ email: 'blocked@example.com', success: false, error: 'Admin role required' })
+  })
+})
+
+describe('checkMagicLinkExists', () => {
+  it('finds active magic link users case-insensitively', async () => {
+    const rows = [
+      { ...magicUser('thandi@example.com') },
+      { ...magicUser('old@example.com'), is_active: false }
+    ]
+    // get_magic_link_users: admin/analyst only, filtered by the lower-cased email, tokens left out
+    onRpc('get_magic_link_users', ({ p_email }) =>
+      rows.filter(row => row.email === p_email).map(({ magic_token: _token, ...row }) => row))
+
+    expect(await checkMagicLinkExists('Thandi@Example.com')).toMatchObject({ success: true, exists: true })
+    expect(await checkMagicLinkExists('old@example.com')).toMatchObject({ success: true, exists: false })
+  })
+})
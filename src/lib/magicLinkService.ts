@@ -1,4 +1,5 @@
-import { supabaseAdmin } from './supabase'
+import { supabase } from './supabase'
+import { callAdminApi } from './adminApi'
 
 export interface MagicLinkUser {
   id: string
@@ -11,6 +12,9 @@ export interface MagicLinkUser {
   updated_at: string
 }
 
+// What the dashboard may read back; the token itself only comes from admin-api when a link is sent
+export type MagicLinkUserStatus = Omit<MagicLinkUser, 'magic_token'>
+
 export interface SendMagicLinkResult {
   success: boolean
   magicLink?: string
@@ -31,67 +35,17 @@ export interface BulkSendMagicLinksResult {
   }>
 }
 
-// Create or update magic link user
+// Create or update magic link user (runs server-side in the admin-api edge function)
 export async function createOrUpdateMagicLinkUser(
   email: string
 ): Promise<{ success: boolean; user?: MagicLinkUser; error?: string }> {
   try {
     console.log('📝 Creating/updating magic link user for:', email)
 
-    // Check if user already exists
-    const { data: existingUser, error: fetchError } = await supabaseAdmin
-      .from('magic_link_users')
-      .select('*')
-      .eq('email', email.toLowerCase())
-      .maybeSingle()
-
-    if (fetchError && fetchError.code !== 'PGRST116') { // PGRST116 is "not found"
-      console.error('❌ Error checking existing user:', fetchError)
-      return { success: false, error: fetchError.message }
-    }
-
-    if (existingUser) {
-      // Update existing user with new token and activate
-      const { data: updatedUser, error: updateError } = await supabaseAdmin
-        .from('magic_link_users')
-        .update({
-          magic_token: crypto.randomUUID(),
-          is_active: true,
-          activated_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', existingUser.id)
-        .select()
-        .single()
-
-      if (updateError) {
-        console.error('❌ Error updating magic link user:', updateError)
-        return { success: false, error: updateError.message }
-      }
-
-      console.log('✅ Magic link user updated:', updatedUser.id)
-      return { success: true, user: updatedUser }
-    } else {
-      // Create new magic link user
-      const { data: newUser, error: createError } = await supabaseAdmin
-        .from('magic_link_users')
-        .insert({
-          email: email.toLowerCase(),
-          is_active: true,
-          magic_token: crypto.randomUUID(),
-          activated_at: new Date().toISOString()
-        })
-        .select()
-        .single()
-
-      if (createError) {
-        console.error('❌ Error creating magic link user:', createError)
-        return { success: false, error: createError.message }
-      }
+    const { user } = await callAdminApi('createOrUpdateMagicLinkUser', { email })
 
-      console.log('✅ Magic link user created:', newUser.id)
-      return { success: true, user: newUser }
-    }
+    console.log('✅ Magic link user ready:', user.id)
+    return { success: true, user }
   } catch (error: any) {
     console.error('❌ Error in createOrUpdateMagicLinkUser:', error)
     return { success: false, error: error.message }
@@ -393,16 +347,14 @@ export async function bulkSendMagicLinks(
 // Get magic link users
 export async function getMagicLinkUsers(): Promise<{
   success: boolean
-  users?: MagicLinkUser[]
+  users?: MagicLinkUserStatus[]
   error?: string
 }> {
   try {
     console.log('📝 Fetching magic link users...')
 
-    const { data: users, error } = await supabaseAdmin
-      .from('magic_link_users')
-      .select('*')
-      .order('created_at', { ascending: false })
+    // Through an RPC so analysts can read it too; the table itself is admin-only
+    const { data: users, error } = await supabase.rpc('get_magic_link_users')
 
     if (error) {
       console.error('❌ Error fetching magic link users:', error)
@@ -421,27 +373,23 @@ export async function getMagicLinkUsers(): Promise<{
 export async function checkMagicLinkExists(email: string): Promise<{
   success: boolean
   exists: boolean
-  user?: MagicLinkUser
+  user?: MagicLinkUserStatus
   error?: string
 }> {
   try {
     console.log('📝 Checking magic link for:', email)
 
-    const { data: user, error } = await supabaseAdmin
-      .from('magic_link_users')
-      .select('*')
-      .eq('email', email.toLowerCase())
-      .eq('is_active', true)
-      .maybeSingle()
+    const { data: users, error } = await supabase.rpc('get_magic_link_users', { p_email: email.toLowerCase() })
 
-    if (error && error.code !== 'PGRST116') {
+    if (error) {
       console.error('❌ Error checking magic link:', error)
       return { success: false, exists: false, error: error.message }
     }
 
+    const user = ((users || []) as MagicLinkUserStatus[]).find(row => row.is_active)
     const exists = !!user
     console.log(`✅ Magic link check - Exists: ${exists}`)
-    return { success: true, exists, user: user || undefined }
+    return { success: true, exists, user }
   } catch (error: any) {
     console.error('❌ Error in checkMagicLinkExists:', error)
     return { success: false, exists: false, error: error.message }
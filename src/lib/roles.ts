@@ -0,0 +1,72 @@
+import { supabase } from './supabase'
+import { PageId } from '../routes'
+
+export type DashboardRole = 'admin' | 'analyst' | 'viewer'
+
+const ROLE_RANK: Record<DashboardRole, number> = {
+  viewer: 0,
+  analyst: 1,
+  admin: 2
+}
+
+// Minimum role needed to open each dashboard page
+export const PAGE_MIN_ROLE: Record<PageId, DashboardRole> = {
+  overview: 'viewer',
+  universities: 'viewer',
+  tvet: 'viewer',
+  funding: 'viewer',
+  institutions: 'viewer',
+  reviews: 'viewer',
+  // Signups come from profiles, which only analysts and admins may aggregate
+  downloads: 'analyst',
+  // Learner counts and APS per province, likewise from profiles and marks
+  geography: 'analyst',
+  'session-health': 'analyst',
+  engagement: 'analyst',
+  'user-journey': 'analyst',
+  retention: 'analyst',
+  'feature-adoption': 'analyst',
+  'student-marks': 'analyst',
+  schools: 'analyst',
+  'matching-profiles': 'analyst',
+  'user-management': 'admin'
+}
+
+export function hasRole(role: DashboardRole | null, required: DashboardRole): boolean {
+  if (!role) return false
+  return ROLE_RANK[role] >= ROLE_RANK[required]
+}
+
+export function canAccessPage(role: DashboardRole | null, page: PageId): boolean {
+  return hasRole(role, PAGE_MIN_ROLE[page])
+}
+
+function isDashboardRole(value: unknown): value is DashboardRole {
+  return value === 'admin' || value === 'analyst' || value === 'viewer'
+}
+
+// Fetch the signed-in user's role, falling back to viewer if it cannot be resolved
+export async function fetchCurrentUserRole(): Promise<DashboardRole> {
+  try {
+    const { data, error } = await supabase.rpc('get_my_dashboard_role')
+
+    if (error) {
+      console.error('❌ Error fetching dashboard role:', error)
+      return 'viewer'
+    }
+
+    return isDashboardRole(data) ? data : 'viewer'
+  } catch (error) {
+    console.error('❌ Error in fetchCurrentUserRole:', error)
+    return 'viewer'
+  }
+}
+
+// Throws when the caller is not an admin; used to guard user creation and deletion
+export async function requireAdminRole(action: string): Promise<void> {
+  const role = await fetchCurrentUserRole()
+  if (role !== 'admin') {
+    console.warn(`⛔ Refused "${action}" for role:`, role)
+    throw new Error(`Admin role required to ${action}`)
+  }
+}
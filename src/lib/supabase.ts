@@ -2,11 +2,10 @@ import { createClient } from '@supabase/supabase-js'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
-const supabaseServiceRoleKey = import.meta.env.VITE_SUPABASE_SERVICE_ROLE_KEY
 
-if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceRoleKey) {
+if (!supabaseUrl || !supabaseAnonKey) {
   console.error('❌ Missing Supabase environment variables!')
-  console.error('Please ensure VITE_SUPABASE_URL, VITE_SUPABASE_ANON_KEY, and VITE_SUPABASE_SERVICE_ROLE_KEY are set in your .env file')
+  console.error('Please ensure VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY are set in your .env file')
   throw new Error('Missing Supabase configuration')
 }
 
@@ -19,5 +18,6 @@ if (supabaseUrl.includes('your_supabase') || supabaseAnonKey.includes('your_supa
 console.log('✅ Supabase configuration loaded successfully')
 console.log('📍 Project URL:', supabaseUrl)
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
-export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceRoleKey)
\ No newline at end of file
+// Only the anon key ships to the browser. Service-role operations run in the
+// admin-api edge function (see src/lib/adminApi.ts).
+export const supabase = createClient(supabaseUrl, supabaseAnonKey)
\ No newline at end of file
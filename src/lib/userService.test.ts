@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getTable, resetSupabaseFake, seedTable, setAuthUser, setUniqueKey } from '../test/supabaseFake'
+import { generatePassword, importEmailsFromCSV } from './userService'
+
+vi.mock('./supabase', () => import('../test/supabaseFake'))
+
+const ADMIN = { id: 'admin-1', email: 'admin@reslocate.net' }
+const HEADER = 'id,email,first_name,last_name,phone_number,school,grade,date_of_birth,created_by,created_at,updated_at'
+
+const csvFile = (...rows: string[]) => new File([[HEADER, ...rows].join('\n')], 'emails.csv', { type: 'text/csv' })
+
+beforeEach(() => {
+  resetSupabaseFake()
+  setAuthUser(ADMIN)
+  setUniqueKey('addedemail', ['email'])
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('generatePassword', () => {
+  it('defaults to 12 characters from the allowed charset', () => {
+    const password = generatePassword()
+    expect(password).toHaveLength(12)
+    expect(password).toMatch(/^[A-Za-z0-9!@#$]+$/)
+  })
+
+  it('honours the requested length and varies between calls', () => {
+    expect(generatePassword(32)).toHaveLength(32)
+    expect(generatePassword(32)).not.toBe(generatePassword(32))
+  })
+})
+
+describe('importEmailsFromCSV', () => {
+  it('inserts every row with its profile fields and the importing admin', async () => {
+    const result = await importEmailsFromCSV(csvFile(
+      ',Thandi@Example.com,Thandi,Nkosi,0821234567,Soweto High,12,2007-03-14,,,',
+      ',sipho@example.com,Sipho,,,,11,,,,'
+    ))
+
+    expect(result).toEqual({ success: true, processed: 2, duplicates: 0, failed: 0, errors: [] })
+    expect(getTable('addedemail')).toEqual([
+      expect.objectContaining({
+        email: 'thandi@example.com',
+        first_name: 'Thandi',
+        last_name: 'Nkosi',
+        phone_number: '0821234567',
+        school: 'Soweto High',
+        grade: '12',
+        date_of_birth: '2007-03-14',
+        created_by: ADMIN.id
+      }),
+      expect.objectContaining({ email: 'sipho@example.com', last_name: null, school: null })
+    ])
+  })
+
+  it('counts existing emails as duplicates rather than failures', async () => {
+    seedTable('addedemail', [{ id: 99, email: 'thandi@example.com' }])
+
+    const result = await importEmailsFromCSV(csvFile(',thandi@example.com,Thandi,,,,,,,,'))
+
+    expect(result).toMatchObject({ success: true, processed: 0, duplicates: 1, failed: 0 })
+    expect(getTable('addedemail')).toHaveLength(1)
+  })
+
+  it('reports invalid rows with their spreadsheet row number', async () => {
+    const result = await importEmailsFromCSV(csvFile(
+      ',not-an-email,,,,,,,,,',
+      'only-one-column',
+      ',ok@example.com,,,,,,,,,'
+    ))
+
+    expect(result.success).toBe(false)
+    expect(result.processed).toBe(1)
+    expect(result.failed).toBe(2)
+    expect(result.errors).toEqual([
+      { row: 2, error: 'Invalid email format' },
+      { row: 3, error: 'Email field is required' }
+    ])
+  })
+})
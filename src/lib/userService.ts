@@ -1,4 +1,6 @@
-import { supabase, supabaseAdmin } from './supabase'
+import { supabase } from './supabase'
+import { requireAdminRole } from './roles'
+import { callAdminApi } from './adminApi'
 
 interface CreateUserResponse {
   user?: any
@@ -41,7 +43,7 @@ export function generatePassword(length: number = 12): string {
   return password
 }
 
-// Create user with email confirmation bypass
+// Create user with email confirmation bypass (runs server-side in the admin-api edge function)
 export async function createUserWithEmail(
   email: string,
   password: string,
@@ -56,74 +58,12 @@ export async function createUserWithEmail(
   }
 ): Promise<CreateUserResponse> {
   try {
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-    if (!emailRegex.test(email)) {
-      throw new Error('Invalid email format')
-    }
-
-    // Validate password
-    if (!password || password.length < 6) {
-      throw new Error('Password must be at least 6 characters')
-    }
-
     console.log('📝 Creating user with email:', email)
 
-    // Use admin client to create user with service role key
-    const { data: authData, error: authError } = await supabaseAdmin.auth.admin.createUser({
-      email,
-      password,
-      email_confirm: true,
-      user_metadata: { created_by_admin: true }
-    })
-
-    if (authError) {
-      console.error('❌ Auth Error:', authError)
-      if (authError.message?.includes('already registered') || authError.message?.includes('already exists')) {
-        throw new Error('User with this email already exists')
-      }
-      throw new Error(`Failed to create user: ${authError.message}`)
-    }
-
-    if (!authData.user) {
-      throw new Error('Failed to create user - no user data returned')
-    }
-
-    console.log('✅ User created in auth system:', authData.user.id)
-
-    // Create corresponding profile entry using the regular client
-    const profileInsertData = {
-      id: authData.user.id,
-      email: email.toLowerCase(),
-      role: profileData?.role || 'Learner',
-      first_name: profileData?.first_name || '',
-      last_name: profileData?.last_name || '',
-      phone_number: profileData?.phone_number || '',
-      school: profileData?.school || '',
-      grade: profileData?.grade || '',
-      date_of_birth: profileData?.date_of_birth || '',
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    }
-
-    const { error: profileError } = await supabase
-      .from('profiles')
-      .upsert(profileInsertData, {
-        onConflict: 'id'
-      })
-
-    if (profileError) {
-      console.warn('⚠️ Profile creation warning:', profileError)
-      // Don't throw here since user was created successfully in auth
-    } else {
-      console.log('✅ Profile created successfully')
-    }
-
-    // Only register in AddedEmail table if explicitly requested by the User Management system
-    // This prevents duplicate entries when creating users directly
-    console.log('ℹ️ User created successfully WITHOUT AddedEmail registration - AddedEmail registration should be handled separately')
+    const { user } = await callAdminApi('createUserWithEmail', { email, password, profileData })
 
-    return { user: authData.user }
+    console.log('✅ User created in auth system:', user.id)
+    return { user }
   } catch (error: any) {
     console.error('❌ User Creation Error:', error)
     return { error: error instanceof Error ? error : new Error('Unknown error occurred') }
@@ -142,10 +82,10 @@ export async function getRecentUsers(): Promise<UserData[]> {
       console.log('Please ensure you are logged in to access user data')
     }
 
-    console.log('📝 Fetching profiles from database via admin client...');
+    console.log('📝 Fetching profiles from database...');
 
-    // Use admin client to fetch users (assuming profiles are stored in 'profiles' table)
-    const { data: users, error } = await supabaseAdmin
+    // Admins can read every profile through the dashboard RLS policy
+    const { data: users, error } = await supabase
       .from('profiles')
       .select('id, email, created_at')
       .order('created_at', { ascending: false })
@@ -174,7 +114,7 @@ export async function getUserProfile(): Promise<any[]> {
   try {
     console.log('📝 Fetching all user profiles...')
     
-    const { data: profiles, error } = await supabaseAdmin
+    const { data: profiles, error } = await supabase
       .from('profiles')
       .select('*')
       .order('created_at', { ascending: false })
@@ -202,7 +142,7 @@ export async function updateUserProfile(profileId: string, profileData: any): Pr
       updated_at: new Date().toISOString()
     }
 
-    const { error } = await supabaseAdmin
+    const { error } = await supabase
       .from('profiles')
       .update(updateData)
       .eq('id', profileId)
@@ -314,35 +254,28 @@ export async function createAuthUserFromAddedEmail(
 ): Promise<{ success: boolean; error?: string; user?: any }> {
   try {
     console.log('📝 Creating auth user from AddedEmail:', emailEntry.email)
-    
-    // If no password provided, generate one
-    const userPassword = password || generatePassword(12)
-    
-    const { user } = await createUserWithEmail(
-      emailEntry.email,
-      userPassword,
-      {
-        first_name: emailEntry.first_name || '',
-        last_name: emailEntry.last_name || '',
-        role: 'Learner' // Default role
-      }
-    )
 
-    if (!user) {
-      throw new Error('Failed to create auth user')
-    }
+    const { user, alreadyExists } = await callAdminApi('createAuthUserFromAddedEmail', {
+      emailEntry: {
+        id: emailEntry.id,
+        email: emailEntry.email,
+        first_name: emailEntry.first_name,
+        last_name: emailEntry.last_name
+      },
+      password
+    })
 
-    console.log('✅ Auth user created successfully:', user.id)
-    return { success: true, user: user }
-  } catch (error: any) {
-    console.error('❌ Error creating auth user from AddedEmail:', error)
-    // Check if user already exists
-    if (error.message?.includes('already registered') || error.message?.includes('already exists')) {
+    if (alreadyExists) {
       return {
         success: true,
         error: `User with email ${emailEntry.email} already exists in authentication system`
       }
     }
+
+    console.log('✅ Auth user created successfully:', user?.id)
+    return { success: true, user: user }
+  } catch (error: any) {
+    console.error('❌ Error creating auth user from AddedEmail:', error)
     return { success: false, error: error.message }
   }
 }
@@ -351,27 +284,11 @@ export async function createAuthUserFromAddedEmail(
 export async function getAuthUserStatus(emails: string[]): Promise<{[email: string]: boolean}> {
   try {
     console.log('📝 Checking auth status for emails:', emails)
-    
-    // Use admin client to check auth users by email
-    const { data: authUsers, error } = await supabaseAdmin
-      .from('auth.users')
-      .select('email')
-      .in('email', emails.map(email => email.toLowerCase()))
-
-    if (error) {
-      console.error('❌ Error checking auth users:', error)
-      return {}
-    }
 
-    const emailStatus: {[email: string]: boolean} = {}
-    const authEmails = new Set(authUsers?.map(user => user.email.toLowerCase()) || [])
-    
-    emails.forEach(email => {
-      emailStatus[email] = authEmails.has(email.toLowerCase())
-    })
+    const { status } = await callAdminApi('getAuthUserStatus', { emails })
 
     console.log('✅ Auth status check completed')
-    return emailStatus
+    return status
   } catch (error) {
     console.error('❌ Error in getAuthUserStatus:', error)
     return {}
@@ -389,19 +306,15 @@ export async function bulkCreateAuthUsers(
 }> {
   try {
     console.log('📝 Bulk creating auth users for', emailEntries.length, 'emails')
-    
-    const created: string[] = []
-    const skipped: string[] = []
-    const errors: Array<{ email: string; error: string }> = []
-
-    for (const entry of emailEntries) {
-      const result = await createAuthUserFromAddedEmail(entry)
-      if (result.success) {
-        created.push(entry.email)
-      } else {
-        errors.push({ email: entry.email, error: result.error || 'Unknown error' })
-      }
-    }
+
+    const { created, skipped, errors } = await callAdminApi('bulkCreateAuthUsers', {
+      emailEntries: emailEntries.map(entry => ({
+        id: entry.id,
+        email: entry.email,
+        first_name: entry.first_name,
+        last_name: entry.last_name
+      }))
+    })
 
     if (errors.length === 0) {
       console.log('✅ Bulk user creation completed:', { created: created.length })
@@ -603,6 +516,7 @@ export function copyToClipboard(text: string): Promise<boolean> {
 export async function deleteEmailFromAddedEmail(id: number): Promise<{ success: boolean; error?: string }> {
   try {
     console.log('📝 Deleting email from AddedEmail with ID:', id)
+    await requireAdminRole('delete users')
     
     const { error } = await supabase
       .from('addedemail')
@@ -829,110 +743,41 @@ export async function addEmailToProfileTable(
 }> {
   try {
     console.log('📝 Creating profile with authentication for:', email)
-    
-    const errors: string[] = []
+
     const messages: string[] = []
     const usePassword: string = password || generatePassword(12)
 
-    // Step 1: Create authentication user
-    console.log('Step 1: Creating auth user...')
-    const { data: authData, error: authError } = await supabaseAdmin.auth.admin.createUser({
-      email,
-      password: usePassword,
-      email_confirm: true,
-      user_metadata: { 
-        created_by_admin: true,
-        first_name: firstName,
-        last_name: lastName
-      }
-    })
-
-    if (authError) {
-      console.error('❌ Auth creation failed:', authError)
-      
-      // Check if user already exists
-      if (authError.message?.includes('already') || authError.message?.includes('exists')) {
-        errors.push('User with this email already exists in authentication system')
-        return { success: false, errors, messages }
-      }
-      
-      errors.push(`Authentication creation failed: ${authError.message}`)
-      return { success: false, errors, messages }
-    }
-
-    if (!authData.user) {
-      errors.push('No user data returned from authentication creation')
-      return { success: false, errors, messages }
-    }
-
-    console.log('✅ Auth user created:', authData.user.id)
-    messages.push('✅ Authentication account created')
-
-    // Step 2: Create profile entry matching existing table structure
-    console.log('Step 2: Creating profile entry...')
-    const profileData = {
-      id: authData.user.id,           // Primary key (UUID from auth)
-      email: email.toLowerCase(),
-      role: role,
-      first_name: firstName || null,
-      last_name: lastName || null,
-      phone_number: phone_number || null,
-      school: school || null,
-      grade: grade || null,
-      date_of_birth: date_of_birth || null,
-      is_verified: true,
-      status: 'active'
-      // Note: created_at and updated_at are auto-generated by database defaults
-      // Note: user_id column doesn't exist in current schema
-    }
-
-    console.log('Profile data to insert:', {
-      id: profileData.id,
-      email: profileData.email,
-      role: profileData.role,
-      has_first_name: !!profileData.first_name,
-      has_last_name: !!profileData.last_name
-    })
-
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .insert(profileData)
-      .select()
-      .single()
-
-    if (profileError) {
-      console.error('❌ Profile creation failed:', profileError)
-      console.error('Profile error details:', {
-        code: profileError.code,
-        message: profileError.message,
-        details: profileError.details,
-        hint: profileError.hint
+    // Auth user and profile are created together server-side; the function rolls back on failure
+    let result
+    try {
+      result = await callAdminApi('createProfileUser', {
+        email,
+        password: usePassword,
+        profileData: {
+          first_name: firstName,
+          last_name: lastName,
+          phone_number,
+          school,
+          grade,
+          date_of_birth,
+          role
+        }
       })
-      
-      // Try to clean up the auth user if profile creation fails
-      try {
-        await supabaseAdmin.auth.admin.deleteUser(authData.user.id)
-        console.log('⚠️ Rolled back auth user due to profile creation failure')
-      } catch (cleanupError) {
-        console.error('Failed to cleanup auth user:', cleanupError)
-      }
-      
-      errors.push(`Profile creation failed: ${profileError.message}`)
-      if (profileError.hint) {
-        errors.push(`Hint: ${profileError.hint}`)
-      }
-      return { success: false, errors, messages }
+    } catch (createError: any) {
+      console.error('❌ Profile user creation failed:', createError)
+      return { success: false, errors: [createError.message], messages }
     }
 
-    console.log('✅ Profile created successfully:', profile.id)
+    console.log('✅ Auth user and profile created:', result.user.id)
+    messages.push('✅ Authentication account created')
     messages.push('✅ Full profile created with all details')
     messages.push(`📋 Login credentials: ${email} / ${usePassword}${password ? ' (Custom)' : ' (Generated)'}`)
 
     return {
       success: true,
-      profile,
+      profile: result.profile,
       authData: {
-        user: authData.user,
+        user: result.user,
         auth_created: true,
         passwordDisplay: usePassword + (password ? ' (Custom)' : ' (Generated)')
       },
@@ -0,0 +1,248 @@
+import { useState, useEffect } from 'react'
+import { Download, UserPlus, Percent, Database, RefreshCw, AlertTriangle } from 'lucide-react'
+import { LoadingSpinner } from '../components/LoadingSpinner'
+import { ErrorMessage } from '../components/ErrorMessage'
+import { KPICard } from '../components/KPICard'
+import { PlayConsoleImporter } from '../components/PlayConsoleImporter'
+import { useQueryFilters } from '../hooks/useQueryFilters'
+import { useDateRange } from '../contexts/DateRangeContext'
+import { useAuth } from '../contexts/AuthContext'
+import { hasRole } from '../lib/roles'
+import { DOWNLOAD_SOURCE_LABELS, DownloadStatsRow, fetchLatestDownloadStats } from '../utils/googlePlayAPI'
+import {
+  BACKFILL_DAYS,
+  DownloadGranularity,
+  DownloadSeriesPoint,
+  MOVING_AVERAGE_WINDOW,
+  backfillDownloadHistory,
+  fetchDownloadSeries,
+  summariseDownloadSeries
+} from '../utils/downloadHistory'
+
+const GRANULARITY_LABELS: Record<DownloadGranularity, string> = { day: 'Daily', week: 'Weekly', month: 'Monthly' }
+
+const CHART_HEIGHT = 200
+
+const formatNumber = (value: number | null) => (value === null ? '—' : value.toLocaleString())
+
+function InstallsChart({ points, granularity }: { points: DownloadSeriesPoint[]; granularity: DownloadGranularity }) {
+  const max = Math.max(1, ...points.map(point => Math.max(point.installs ?? 0, point.installs_moving_avg ?? 0)))
+  const width = points.length * 10
+  const y = (value: number) => CHART_HEIGHT - (value / max) * CHART_HEIGHT
+  const average = points
+    .map((point, i) => (point.installs_moving_avg === null ? null : `${i * 10 + 5},${y(point.installs_moving_avg)}`))
+    .filter(Boolean)
+    .join(' ')
+  const labelEvery = Math.max(1, Math.ceil(points.length / 12))
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-56">
+        {points.map((point, i) =>
+          point.installs === null ? (
+            // No report for any day in the bucket; a gap, not zero installs
+            <rect key={point.period_start} x={i * 10 + 1} y={0} width={8} height={CHART_HEIGHT} fill="#f3f4f6">
+              <title>{`${point.period_start}: no data`}</title>
+            </rect>
+          ) : (
+            <rect
+              key={point.period_start}
+              x={i * 10 + 1}
+              y={y(point.installs)}
+              width={8}
+              height={CHART_HEIGHT - y(point.installs)}
+              fill={point.estimated_days > 0 ? '#fcd34d' : point.days_reported < point.days_in_period ? '#86efac' : '#16a34a'}
+            >
+              <title>
+                {`${point.period_start}: ${point.installs.toLocaleString()} installs, ${point.signups} signups` +
+                  (point.days_reported < point.days_in_period ? ` (${point.days_reported}/${point.days_in_period} days)` : '')}
+              </title>
+            </rect>
+          )
+        )}
+        <polyline points={average} fill="none" stroke="#1d4ed8" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex mt-1">
+        {points.map((point, i) => (
+          <span key={point.period_start} className="flex-1 text-center text-[10px] text-gray-500">
+            {i % labelEvery === 0 ? (granularity === 'month' ? point.period_start.slice(0, 7) : point.period_start.slice(5)) : ''}
+          </span>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600 mt-3">
+        <span className="flex items-center"><span className="w-3 h-3 bg-green-600 rounded-sm mr-1" />Installs</span>
+        <span className="flex items-center"><span className="w-3 h-3 bg-green-300 rounded-sm mr-1" />Some days missing</span>
+        <span className="flex items-center"><span className="w-3 h-3 bg-amber-300 rounded-sm mr-1" />Includes estimates</span>
+        <span className="flex items-center"><span className="w-3 h-3 bg-gray-100 border border-gray-200 rounded-sm mr-1" />No data</span>
+        <span className="flex items-center">
+          <span className="w-4 h-0.5 bg-blue-700 mr-1" />
+          {MOVING_AVERAGE_WINDOW[granularity]}-{granularity} moving average
+        </span>
+      </div>
+    </div>
+  )
+}
+
+export function Downloads() {
+  const { role } = useAuth()
+  const canBackfill = hasRole(role, 'analyst')
+  const canImport = hasRole(role, 'admin')
+  const { period } = useDateRange()
+  const [points, setPoints] = useState<DownloadSeriesPoint[]>([])
+  const [latest, setLatest] = useState<DownloadStatsRow | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [backfilling, setBackfilling] = useState(false)
+  const [backfillMessage, setBackfillMessage] = useState<string | null>(null)
+  const [{ granularity }, setFilters] = useQueryFilters<{ granularity: DownloadGranularity }>({ granularity: 'day' })
+
+  const loadDownloads = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const [series, latestRow] = await Promise.all([fetchDownloadSeries(period, granularity), fetchLatestDownloadStats()])
+      setPoints(series)
+      setLatest(latestRow)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch download history')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadDownloads()
+  }, [period, granularity])
+
+  const handleBackfill = async () => {
+    try {
+      setBackfilling(true)
+      setBackfillMessage(null)
+      const result = await backfillDownloadHistory()
+      setBackfillMessage(`Wrote ${result.days_written} days from ${result.reports.length} Play Console reports`)
+      await loadDownloads()
+    } catch (err) {
+      setBackfillMessage(err instanceof Error ? err.message : 'Backfill failed')
+    } finally {
+      setBackfilling(false)
+    }
+  }
+
+  if (loading) return <LoadingSpinner />
+  if (error) return <ErrorMessage message={error} onRetry={loadDownloads} />
+
+  const summary = summariseDownloadSeries(points)
+  const missingDays = summary.days_in_period - summary.days_reported
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Downloads</h1>
+          <p className="text-gray-600">Google Play installs per day from the Play Console reports, against new signups</p>
+        </div>
+        {canBackfill && (
+          <div className="text-right">
+            <button
+              onClick={handleBackfill}
+              disabled={backfilling}
+              className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${backfilling ? 'animate-spin' : ''}`} />
+              Backfill from Play Console
+            </button>
+            <p className="text-xs text-gray-600 mt-2">
+              {backfillMessage ?? `Re-reads up to ${Math.round(BACKFILL_DAYS / 366)} years of monthly reports`}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="flex rounded-lg shadow-md border border-gray-200 overflow-hidden w-fit">
+        {(Object.keys(GRANULARITY_LABELS) as DownloadGranularity[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setFilters({ granularity: option })}
+            className={`px-5 py-2 text-sm font-semibold transition-colors ${
+              granularity === option ? 'bg-gradient-to-r from-green-600 to-green-700 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {GRANULARITY_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <KPICard title="Installs" value={summary.installs.toLocaleString()} subtitle={`${period.label}, Android only`} icon={Download} />
+        <KPICard title="Signups" value={summary.signups.toLocaleString()} subtitle="New profiles in the period" icon={UserPlus} />
+        <KPICard
+          title="Install to Signup"
+          value={summary.conversion_pct !== null ? `${summary.conversion_pct}%` : 'N/A'}
+          subtitle="Signups per 100 installs, where installs are known"
+          icon={Percent}
+        />
+        <KPICard
+          title="Total Installs"
+          value={latest ? latest.total_downloads.toLocaleString() : 'N/A'}
+          subtitle={latest ? `${DOWNLOAD_SOURCE_LABELS[latest.source]}, ${latest.date}` : 'Nothing recorded yet'}
+          icon={Database}
+        />
+      </div>
+
+      {(missingDays > 0 || summary.estimated_days > 0) && (
+        <div className="flex items-start gap-3 p-4 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-900">
+          <AlertTriangle className="h-5 w-5 flex-shrink-0 mt-0.5" />
+          <p>
+            {missingDays > 0 && `${missingDays} of ${summary.days_in_period} days have no install figures. `}
+            {summary.estimated_days > 0 && `${summary.estimated_days} days are old estimates rather than Google's figures. `}
+            {canBackfill && 'A backfill replaces both with the Play Console reports where Google still has them.'}
+          </p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">{GRANULARITY_LABELS[granularity]} installs</h2>
+        {points.length === 0 ? (
+          <p className="text-sm text-gray-600">No days in the selected period.</p>
+        ) : (
+          <InstallsChart points={points} granularity={granularity} />
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 overflow-x-auto">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">Installs and signups</h2>
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 pr-4">Period</th>
+              <th className="py-2 pr-4 text-right">Installs</th>
+              <th className="py-2 pr-4 text-right">Moving avg</th>
+              <th className="py-2 pr-4 text-right">Total installs</th>
+              <th className="py-2 pr-4 text-right">Signups</th>
+              <th className="py-2 pr-4 text-right">Conversion</th>
+              <th className="py-2 text-right">Days reported</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {[...points].reverse().map(point => (
+              <tr key={point.period_start}>
+                <td className="py-2 pr-4 text-gray-800">{point.period_start}</td>
+                <td className="py-2 pr-4 text-right">{formatNumber(point.installs)}</td>
+                <td className="py-2 pr-4 text-right text-gray-600">{formatNumber(point.installs_moving_avg)}</td>
+                <td className="py-2 pr-4 text-right text-gray-600">{formatNumber(point.cumulative_installs)}</td>
+                <td className="py-2 pr-4 text-right">{point.signups.toLocaleString()}</td>
+                <td className="py-2 pr-4 text-right">{point.conversion_pct !== null ? `${point.conversion_pct}%` : '—'}</td>
+                <td className={`py-2 text-right ${point.days_reported < point.days_in_period ? 'text-amber-700' : 'text-gray-600'}`}>
+                  {point.days_reported}/{point.days_in_period}
+                  {point.estimated_days > 0 && ` (${point.estimated_days} est.)`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {canImport && <PlayConsoleImporter onImported={loadDownloads} />}
+    </div>
+  )
+}
@@ -1,25 +1,28 @@
-import React, { useState, useEffect } from 'react'
+import { useState, useEffect } from 'react'
 import { Eye, Clock, MousePointer, TrendingUp } from 'lucide-react'
 import { KPICard } from '../components/KPICard'
 import { LoadingSpinner } from '../components/LoadingSpinner'
 import { ErrorMessage } from '../components/ErrorMessage'
 import { SearchableTable } from '../components/SearchableTable'
 import { supabase } from '../lib/supabase'
+import { useDateRange } from '../contexts/DateRangeContext'
+import { REPORTING_TIMEZONE, percentChange, periodParams } from '../utils/period'
 
-interface EngagementStats {
-  top_pages_7d: Array<{ page_path: string; visits: number }>
-  top_pages_30d: Array<{ page_path: string; visits: number }>
-  avg_time_on_page: number
-  overall_ctr: number
+interface EngagementSummary {
+  total_views: number
+  unique_users: number
+  avg_time_on_page_seconds: number | null
+  ctr: number | null
 }
 
 interface PageEngagement {
   page_path: string
-  visits: number
+  views: number
   unique_users: number
   clicks: number
   ctr: number
-  last_visit_at: string
+  avg_time_on_page_seconds: number | null
+  last_viewed_at: string
 }
 
 interface DailyVisits {
@@ -27,67 +30,71 @@ interface DailyVisits {
   [key: string]: string | number
 }
 
+const PAGE_COLORS = ['bg-blue-500', 'bg-green-500', 'bg-yellow-500', 'bg-purple-500', 'bg-red-500']
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return 'N/A'
+  const minutes = Math.floor(seconds / 60)
+  return minutes > 0 ? `${minutes}m ${Math.round(seconds % 60)}s` : `${Math.round(seconds)}s`
+}
+
 export function Engagement() {
-  const [stats, setStats] = useState<EngagementStats | null>(null)
+  const [summary, setSummary] = useState<EngagementSummary | null>(null)
   const [pageData, setPageData] = useState<PageEngagement[]>([])
   const [dailyVisits, setDailyVisits] = useState<DailyVisits[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [timeRange, setTimeRange] = useState<'7d' | '30d'>('7d')
+  const [previousViews, setPreviousViews] = useState<number | null>(null)
+  const { period, comparison } = useDateRange()
 
   const fetchEngagementData = async () => {
     try {
       setLoading(true)
       setError(null)
 
-      // Mock data - replace with actual Supabase queries
-      const mockStats: EngagementStats = {
-        top_pages_7d: [
-          { page_path: '/dashboard', visits: 2341 },
-          { page_path: '/universities', visits: 1876 },
-          { page_path: '/matches', visits: 1432 },
-          { page_path: '/funding', visits: 987 },
-          { page_path: '/profile', visits: 654 }
-        ],
-        top_pages_30d: [
-          { page_path: '/dashboard', visits: 8934 },
-          { page_path: '/universities', visits: 7123 },
-          { page_path: '/matches', visits: 5876 },
-          { page_path: '/funding', visits: 4321 },
-          { page_path: '/tvet', visits: 3456 }
-        ],
-        avg_time_on_page: 4.2,
-        overall_ctr: 12.8
-      }
+      const range = periodParams(period)
+
+      const [summaryResult, pagesResult, dailyResult, previousResult] = await Promise.all([
+        supabase.rpc('get_page_view_summary', range),
+        supabase.rpc('get_page_engagement', range),
+        supabase.rpc('get_daily_page_views', { ...range, p_top_pages: 5, p_tz: REPORTING_TIMEZONE }),
+        comparison ? supabase.rpc('get_page_view_summary', periodParams(comparison)) : Promise.resolve(null)
+      ])
 
-      const mockPageData: PageEngagement[] = [
-        { page_path: '/dashboard', visits: 2341, unique_users: 1876, clicks: 312, ctr: 13.3, last_visit_at: new Date().toISOString() },
-        { page_path: '/universities', visits: 1876, unique_users: 1543, clicks: 234, ctr: 12.5, last_visit_at: new Date().toISOString() },
-        { page_path: '/matches', visits: 1432, unique_users: 1234, clicks: 189, ctr: 13.2, last_visit_at: new Date().toISOString() },
-        { page_path: '/funding', visits: 987, unique_users: 876, clicks: 123, ctr: 12.5, last_visit_at: new Date().toISOString() },
-        { page_path: '/tvet', visits: 654, unique_users: 543, clicks: 87, ctr: 13.3, last_visit_at: new Date().toISOString() },
-        { page_path: '/institutions', visits: 432, unique_users: 321, clicks: 54, ctr: 12.5, last_visit_at: new Date().toISOString() },
-        { page_path: '/profile', visits: 321, unique_users: 287, clicks: 43, ctr: 13.4, last_visit_at: new Date().toISOString() }
-      ]
+      if (summaryResult.error) throw summaryResult.error
+      if (pagesResult.error) throw pagesResult.error
+      if (dailyResult.error) throw dailyResult.error
+      if (previousResult?.error) throw previousResult.error
 
-      const mockDailyVisits: DailyVisits[] = Array.from({ length: 30 }, (_, i) => {
-        const date = new Date()
-        date.setDate(date.getDate() - (29 - i))
-        const baseVisits = Math.floor(Math.random() * 200) + 100
-        
-        return {
-          date: date.toISOString().split('T')[0],
-          '/dashboard': baseVisits + Math.floor(Math.random() * 100),
-          '/universities': baseVisits * 0.8 + Math.floor(Math.random() * 80),
-          '/matches': baseVisits * 0.6 + Math.floor(Math.random() * 60),
-          '/funding': baseVisits * 0.4 + Math.floor(Math.random() * 40),
-          '/tvet': baseVisits * 0.3 + Math.floor(Math.random() * 30)
-        }
+      // numeric columns arrive as strings
+      const summaryRow = summaryResult.data?.[0]
+      setSummary({
+        total_views: Number(summaryRow?.total_views || 0),
+        unique_users: Number(summaryRow?.unique_users || 0),
+        avg_time_on_page_seconds: summaryRow?.avg_time_on_page_seconds != null ? Number(summaryRow.avg_time_on_page_seconds) : null,
+        ctr: summaryRow?.ctr != null ? Number(summaryRow.ctr) : null
       })
+      setPreviousViews(previousResult ? Number(previousResult.data?.[0]?.total_views || 0) : null)
+
+      setPageData((pagesResult.data || []).map((page: any) => ({
+        page_path: page.page_path,
+        views: Number(page.views),
+        unique_users: Number(page.unique_users),
+        clicks: Number(page.clicks),
+        ctr: Number(page.ctr),
+        avg_time_on_page_seconds: page.avg_time_on_page_seconds != null ? Number(page.avg_time_on_page_seconds) : null,
+        last_viewed_at: page.last_viewed_at
+      })))
 
-      setStats(mockStats)
-      setPageData(mockPageData)
-      setDailyVisits(mockDailyVisits)
+      const byDay = new Map<string, DailyVisits>()
+      for (const row of (dailyResult.data || []) as { day: string; page_path: string; views: number }[]) {
+        const day: DailyVisits = byDay.get(row.day) || { date: row.day }
+        day[row.page_path] = Number(row.views)
+        byDay.set(row.day, day)
+      }
+      setDailyVisits([...byDay.values()].sort((a, b) => a.date.localeCompare(b.date)))
+
+      console.log('📊 Engagement loaded -', { from: period.from, to: period.to, pages: pagesResult.data?.length || 0 })
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch engagement data')
     } finally {
@@ -97,16 +104,22 @@ export function Engagement() {
 
   useEffect(() => {
     fetchEngagementData()
-  }, [])
+  }, [period, comparison])
 
-  const topPages = timeRange === '7d' ? stats?.top_pages_7d : stats?.top_pages_30d
-  const topPage = topPages?.[0]
+  const topPage = pageData[0]
+  const viewsChange = previousViews !== null ? percentChange(summary?.total_views || 0, previousViews) : null
+  const dailyPages = [...new Set(dailyVisits.flatMap(day => Object.keys(day).filter(key => key !== 'date')))]
 
   const columns = [
     { key: 'page_path', label: 'Page Path' },
-    { key: 'visits', label: 'Visits' },
+    { key: 'views', label: 'Views' },
     { key: 'unique_users', label: 'Unique Users' },
     { key: 'clicks', label: 'Clicks' },
+    {
+      key: 'avg_time_on_page_seconds',
+      label: 'Avg Time',
+      render: (value: number | null) => formatDuration(value)
+    },
     { 
       key: 'ctr', 
       label: 'CTR (%)',
@@ -121,7 +134,7 @@ export function Engagement() {
       )
     },
     { 
-      key: 'last_visit_at', 
+      key: 'last_viewed_at', 
       label: 'Last Visit',
       render: (value: string) => new Date(value).toLocaleDateString()
     },
@@ -143,52 +156,30 @@ export function Engagement() {
         </div>
       </div>
 
-      <div className="flex justify-center space-x-4 mb-8">
-        <button
-          onClick={() => setTimeRange('7d')}
-          className={`px-6 py-3 rounded-lg font-semibold transition-all duration-200 hover:scale-105 ${
-            timeRange === '7d'
-              ? 'bg-gradient-to-r from-green-600 to-green-700 text-white shadow-lg'
-              : 'bg-white text-gray-700 hover:bg-gray-50 shadow-md border border-gray-200'
-          }`}
-        >
-          Last 7 Days
-        </button>
-        <button
-          onClick={() => setTimeRange('30d')}
-          className={`px-6 py-3 rounded-lg font-semibold transition-all duration-200 hover:scale-105 ${
-            timeRange === '30d'
-              ? 'bg-gradient-to-r from-green-600 to-green-700 text-white shadow-lg'
-              : 'bg-white text-gray-700 hover:bg-gray-50 shadow-md border border-gray-200'
-          }`}
-        >
-          Last 30 Days
-        </button>
-      </div>
-
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <KPICard
           title="Top Page"
           value={topPage?.page_path || 'N/A'}
-          subtitle={`${topPage?.visits || 0} visits`}
+          subtitle={`${(topPage?.views || 0).toLocaleString()} views`}
           icon={Eye}
         />
         <KPICard
-          title="Total Top 5 Visits"
-          value={topPages?.reduce((sum, page) => sum + page.visits, 0) || 0}
-          subtitle={`${timeRange === '7d' ? 'Last 7 days' : 'Last 30 days'}`}
+          title="Page Views"
+          value={(summary?.total_views || 0).toLocaleString()}
+          subtitle={`${(summary?.unique_users || 0).toLocaleString()} unique users · ${period.label}`}
           icon={TrendingUp}
+          trend={viewsChange !== null ? { value: viewsChange, isPositive: viewsChange >= 0 } : undefined}
         />
         <KPICard
           title="Avg Time on Page"
-          value={`${stats?.avg_time_on_page || 0}m`}
-          subtitle="Estimated duration"
+          value={formatDuration(summary?.avg_time_on_page_seconds ?? null)}
+          subtitle="Across all pages"
           icon={Clock}
         />
         <KPICard
           title="Overall CTR"
-          value={`${stats?.overall_ctr || 0}%`}
-          subtitle="Click-through rate"
+          value={summary?.ctr != null ? `${summary.ctr}%` : 'N/A'}
+          subtitle="Views with at least one click"
           icon={MousePointer}
         />
       </div>
@@ -196,8 +187,19 @@ export function Engagement() {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Visits by Page Over Time (Daily)</h2>
+          <div className="flex flex-wrap gap-3 mb-4">
+            {dailyPages.map((page, i) => (
+              <span key={page} className="flex items-center text-xs text-gray-600">
+                <span className={`w-3 h-3 rounded-sm mr-1 ${PAGE_COLORS[i % PAGE_COLORS.length]}`} />
+                {page}
+              </span>
+            ))}
+          </div>
           <div className="space-y-3">
-            {dailyVisits.slice(-7).map((day, index) => {
+            {dailyVisits.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-8">No page views recorded in this period</p>
+            )}
+            {dailyVisits.map((day) => {
               const totalVisits = Object.entries(day)
                 .filter(([key]) => key !== 'date')
                 .reduce((sum, [, visits]) => sum + (visits as number), 0)
@@ -209,16 +211,14 @@ export function Engagement() {
                   </div>
                   <div className="flex-1">
                     <div className="flex h-6 rounded-lg overflow-hidden">
-                      {Object.entries(day)
-                        .filter(([key]) => key !== 'date')
-                        .map(([page, visits], i) => (
+                      {dailyPages
+                        .filter(page => day[page])
+                        .map(page => (
                           <div
                             key={page}
-                            className={`${
-                              ['bg-blue-500', 'bg-green-500', 'bg-yellow-500', 'bg-purple-500', 'bg-red-500'][i % 5]
-                            }`}
-                            style={{ width: `${((visits as number) / totalVisits) * 100}%` }}
-                            title={`${page}: ${visits}`}
+                            className={PAGE_COLORS[dailyPages.indexOf(page) % PAGE_COLORS.length]}
+                            style={{ width: `${((day[page] as number) / totalVisits) * 100}%` }}
+                            title={`${page}: ${day[page]}`}
                           />
                         ))}
                     </div>
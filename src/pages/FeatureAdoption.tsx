@@ -1,211 +1,106 @@
 import React, { useState, useEffect } from 'react'
-import { Users, UserCheck, Repeat, TrendingUp, MousePointer, Target } from 'lucide-react'
+import { Users, Repeat, TrendingUp, MousePointer, Layers, PieChart } from 'lucide-react'
 import { KPICard } from '../components/KPICard'
 import { LoadingSpinner } from '../components/LoadingSpinner'
 import { ErrorMessage } from '../components/ErrorMessage'
 import { SearchableTable } from '../components/SearchableTable'
-import { supabase } from '../lib/supabase'
+import { EventRegistryPanel } from '../components/EventRegistryPanel'
+import { useDateRange } from '../contexts/DateRangeContext'
+import { useQueryFilters } from '../hooks/useQueryFilters'
+import { percentChange } from '../utils/period'
+import {
+  ClickAnalytics,
+  ClickSegmentDimension,
+  SegmentClicks,
+  fetchClickAnalytics,
+  fetchClickTotals,
+  fetchClicksBySegment
+} from '../utils/clickAnalytics'
+import { FeatureClicks, UNREGISTERED_FEATURE, fetchClicksByFeature } from '../utils/eventRegistry'
 
-// MIGRATION: Ana   slytics migrated from button_clicks to page_click_count table
-// Old button_clicks schema deprecated - now using pre-aggregated page_click_count analytics
+type ActivityLevel = 'No Activity' | 'Low Activity' | 'Medium Activity' | 'High Activity'
 
-interface AdoptionStats {
-  total_button_clicks_today: number
-  unique_sessions_clicked_today: number
-  page_interaction_rate: number
-  feature_adoption_rate: number
-  precise_total_clicks: number
-  average_clicks_per_session: number
+const ACTIVITY_STYLES: Record<ActivityLevel, string> = {
+  'No Activity': 'bg-gray-200',
+  'Low Activity': 'bg-green-200',
+  'Medium Activity': 'bg-green-400',
+  'High Activity': 'bg-green-600'
 }
 
-interface PageCTR {
-  page_name: string
-  total_clicks: number
-  unique_sessions: number
-  ctr: number
-  clicks_per_session: number
-  session_percentage?: number
-}
-
-interface DailyActivity {
-  date: string
-  clicks: number
-  activity: 'Low Activity' | 'Medium Activity' | 'High Activity'
-}
-
-interface FeatureAdoption {
-  week: string
-  button_clicks: number
-  pages_engaged: number
-  session_engagement: number
-}
-
-// Represents aggregated page click data from page_click_count table
-// DEPRECATION: Replaces old button_clicks record processing
-interface PageClickRecord {
-  page_name: string
-  total_clicks: number
-  unique_sessions: number
-  clicks_per_session: number
-}
+const SEGMENT_LABELS: Record<ClickSegmentDimension, string> = { role: 'Role', grade: 'Grade' }
 
 export function FeatureAdoption() {
-  const [stats, setStats] = useState<AdoptionStats | null>(null)
-  const [pageCTR, setPageCTR] = useState<PageCTR[]>([])
-  const [adoptionTrends, setAdoptionTrends] = useState<FeatureAdoption[]>([])
-  const [dailyClickActivity, setDailyClickActivity] = useState<DailyActivity[]>([])
+  const [analytics, setAnalytics] = useState<ClickAnalytics | null>(null)
+  const [clicksChange, setClicksChange] = useState<number | null>(null)
+  const [features, setFeatures] = useState<FeatureClicks[]>([])
+  const [segments, setSegments] = useState<SegmentClicks[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [timeRange, setTimeRange] = useState<'7d' | '30d'>('7d')
-  
-  const calculateDateRange = () => {
-    const endDate = new Date()
-    const startDate = new Date()
-    startDate.setDate(startDate.getDate() - (timeRange === '7d' ? 7 : 30))
-    return { startDate, endDate }
-  }
+  const [segmentError, setSegmentError] = useState<string | null>(null)
+  const { period, comparison } = useDateRange()
+  const [{ segment: dimension }, setFilters] = useQueryFilters<{ segment: ClickSegmentDimension }>({ segment: 'role' })
 
-  const categorizeActivity = (clicks: number): 'Low Activity' | 'Medium Activity' | 'High Activity' => {
-    if (clicks <= 30) return 'Low Activity'
-    if (clicks <= 60) return 'Medium Activity'
+  // Relative to the period's busiest day, so short and long periods read the same way
+  const categorizeActivity = (clicks: number, peak: number): ActivityLevel => {
+    if (clicks === 0) return 'No Activity'
+    if (clicks <= peak / 3) return 'Low Activity'
+    if (clicks <= (2 * peak) / 3) return 'Medium Activity'
     return 'High Activity'
   }
 
-  const generateMockDailyActivity = (): DailyActivity[] => {
-    const sampleData = [
-      { date: '2025-10-06', clicks: 95 },
-      { date: '2025-10-07', clicks: 52 },
-      { date: '2025-10-08', clicks: 18 },
-      { date: '2025-10-09', clicks: 52 },
-      { date: '2025-10-10', clicks: 17 },
-      { date: '2025-10-11', clicks: 10 },
-      { date: '2025-10-12', clicks: 8 }
-    ]
-    
-    return sampleData.map(item => ({
-      date: item.date,
-      clicks: item.clicks,
-      activity: categorizeActivity(item.clicks)
-    }))
-  }
-
-  // Updated to use page_click_count table - button_clicks deprecated
-  const fetchPrecisePageClickCounts = async () => {
-    try {
-      console.log('⏱️  Fetching click counts from page_click_count table...')
-      
-      // ✅ DIRECT: Using page_click_count table pre-aggregated data
-      const { data, error } = await supabase
-        .from('page_click_count')
-        .select('page_name, total_clicks, unique_sessions, clicks_per_session')
-        .order('total_clicks', { ascending: false })
-
-      if (error) {
-        console.error('❌ Database query error:', error)
-        throw error
-      }
-
-      console.log(`✅ Successfully fetched ${data?.length || 0} page records`)
-      
-      // Process the aggregated data directly
-      const totalPageStats = data || []
-      const totalClicks = totalPageStats.reduce((sum: number, row: PageClickRecord) => sum + (row.total_clicks || 0), 0)
-      const total_unique_sessions = new Set(totalPageStats.flatMap((row: PageClickRecord) =>
-        Array(Math.min(row.unique_sessions || 0, 100)).fill(row.page_name)
-      )).size
-
-      const pageStats: PageCTR[] = totalPageStats.map((row: PageClickRecord) => ({
-          page_name: row.page_name,
-          total_clicks: Number(row.total_clicks) || 0,
-          unique_sessions: Number(row.unique_sessions) || 0,
-          ctr: Number(row.clicks_per_session) || 0,
-          clicks_per_session: Number(row.clicks_per_session) || 0
-        }))
-
-      setPageCTR(pageStats)
-      
-      // Update stats with aggregated values
-      const adoptionStats: AdoptionStats = {
-        total_button_clicks_today: totalClicks,
-        unique_sessions_clicked_today: total_unique_sessions,
-        page_interaction_rate: total_unique_sessions > 0 ? Math.round((totalClicks / total_unique_sessions) * 100) / 100 : 0,
-        feature_adoption_rate: totalClicks > 0 ? Math.round((total_unique_sessions / totalClicks) * 100) : 0,
-        precise_total_clicks: totalClicks,
-        average_clicks_per_session: total_unique_sessions > 0 ? Math.round((totalClicks / total_unique_sessions) * 100) / 100 : 0
-      }
-      
-      setStats(adoptionStats)
-      
-      console.log('📊 Precise click counting complete from page_click_count table')
-      console.log(`   Total pages: ${pageStats.length}`)
-      console.log(`   Total clicks calculated: ${totalClicks}`)
-      console.log(`   Unique sessions: ${total_unique_sessions}`)
-
-    } catch (err) {
-      console.error('❌ Error fetching click counts:', err instanceof Error ? err.message : err)
-      setError('Failed to fetch accurate click data from database')
-    }
-  }
-
-  /* GET_PAGE_CLICK_COUNTS FUNCTION - DEPRECATED 
-  // Former SQL function replaced by direct page_click_count table usage
-  // All queries now use pre-aggregated page statistics
-  
-  async function getPageClickCounts(supabase) {
-    const { data, error } = await supabase
-      .from('page_click_count')
-      .select('page_name, total_clicks, unique_sessions, clicks_per_session')
-      .order('total_clicks', { ascending: false });
-    
-    if (error) throw error;
-    return data;
-  }
-  */
-
-  // DEPRECATED: Now handled by fetchPrecisePageClickCounts directly
-  const fallbackToTraditionalQuery = async () => {
-    console.log('ℹ️  Fallback mechanism deprecated, using main fetch method')
-    await fetchPrecisePageClickCounts()
-  }
-
   const fetchAdoptionData = async () => {
     try {
       setLoading(true)
       setError(null)
 
-      console.log('🚀 Starting analytics with page_click_count table...')
-      
-      // Process daily activity as before
-      setDailyClickActivity(generateMockDailyActivity())
-      
-      // Use direct table queries via function for accurate click counting
-      await fetchPrecisePageClickCounts()
+      const [clickAnalytics, previousTotals, featureClicks] = await Promise.all([
+        fetchClickAnalytics(period),
+        comparison ? fetchClickTotals(comparison) : Promise.resolve(null),
+        fetchClicksByFeature(period)
+      ])
 
+      setAnalytics(clickAnalytics)
+      setFeatures(featureClicks)
+      setClicksChange(previousTotals ? percentChange(clickAnalytics.totals.total_clicks, previousTotals.total_clicks) : null)
     } catch (err) {
+      console.error('❌ Error fetching click analytics:', err instanceof Error ? err.message : err)
       setError(err instanceof Error ? err.message : 'Failed to fetch feature adoption data')
     } finally {
       setLoading(false)
     }
   }
 
-  // DEPRECATED: This method processes legacy button_clicks data - currently disabled
-  const processAdoptionTrends = async () => {
-    // Migration Note: Adoption trends calculation requires update to use page_click_count
-    console.log('ℹ️  processAdoptionTrends: Requires migration to use page_click_count')
+  const fetchSegments = async () => {
+    try {
+      setSegmentError(null)
+      setSegments(await fetchClicksBySegment(period, dimension))
+    } catch (err) {
+      setSegmentError(err instanceof Error ? err.message : 'Failed to fetch click segments')
+    }
   }
 
   useEffect(() => {
     fetchAdoptionData()
-  }, [timeRange])
+  }, [period, comparison])
 
-  const pageColumns = [
-    { key: 'page_name', label: 'Page Name' },
+  useEffect(() => {
+    fetchSegments()
+  }, [period, dimension])
+
+  const featureColumns = [
+    {
+      key: 'feature',
+      label: 'Feature',
+      render: (value: string) => value === UNREGISTERED_FEATURE
+        ? <span className="italic text-gray-500">{value}</span>
+        : value
+    },
+    { key: 'events', label: 'Events' },
     { key: 'total_clicks', label: 'Total Clicks' },
     { key: 'unique_sessions', label: 'Unique Sessions' },
-    { key: 'clicks_per_session', label: 'Avg Clicks/Session' },
     {
-      key: 'ctr',
-      label: 'Click Rate',
+      key: 'clicks_per_session',
+      label: 'Avg Clicks/Session',
       render: (value: number) => (
         <span className={`px-2 py-1 rounded-full text-xs font-medium ${
           value >= 3 ? 'bg-green-100 text-green-800' :
@@ -215,98 +110,173 @@ export function FeatureAdoption() {
           {value.toFixed(2)}
         </span>
       )
+    },
+    {
+      key: 'flagged_clicks',
+      label: 'Flagged',
+      render: (value: number) => value > 0
+        ? <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">{value}</span>
+        : '0'
     }
   ]
 
   if (loading) return <LoadingSpinner />
   if (error) return <ErrorMessage message={error} onRetry={fetchAdoptionData} />
 
+  const totals = analytics?.totals
+  const daily = analytics?.daily || []
+  const peak = Math.max(0, ...daily.map(day => day.clicks))
+  const busiest = daily.find(day => day.clicks === peak && peak > 0)
+
   return (
     <div className="space-y-6">
       <div>
         <div className="text-center mb-8">
           <h1 className="text-4xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-3">
-            PRECISELY Calculated Page Analytics
+            Feature Adoption
           </h1>
           <p className="text-lg text-gray-600 max-w-2xl mx-auto">
-            Using aggregated page_click_count table (migrated from deprecated button_clicks)
+            Button clicks per feature, per day and per user segment for {period.label.toLowerCase()}
           </p>
         </div>
       </div>
 
-      <div className="flex space-x-4 mb-6">
-        <button
-          onClick={() => setTimeRange('7d')}
-          className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-            timeRange === '7d'
-              ? 'bg-green-600 text-white'
-              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-          }`}
-        >
-          Last 7 Days
-        </button>
-        <button
-          onClick={() => setTimeRange('30d')}
-          className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-            timeRange === '30d'
-              ? 'bg-green-600 text-white'
-              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-          }`}
-        >
-          Last 30 Days
-        </button>
-      </div>
-
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
         <KPICard
           title="Total Clicks"
-          value={stats?.precise_total_clicks || 0}
-          subtitle="All page interactions"
+          value={totals?.total_clicks || 0}
+          subtitle={period.label}
           icon={MousePointer}
+          trend={clicksChange != null ? { value: clicksChange, isPositive: clicksChange >= 0 } : undefined}
         />
         <KPICard
           title="Engaged Sessions"
-          value={stats?.unique_sessions_clicked_today || 0}
+          value={totals?.unique_sessions || 0}
           subtitle="Sessions with clicks"
           icon={Users}
         />
         <KPICard
-          title="Pages Tracked"
-          value={pageCTR.length}
-          subtitle="Active pages"
-          icon={Target}
+          title="Features Used"
+          value={features.filter(feature => feature.feature !== UNREGISTERED_FEATURE).length}
+          subtitle={`${totals?.pages || 0} distinct events clicked`}
+          icon={Layers}
         />
         <KPICard
           title="Avg Clicks/Session"
-          value={stats?.average_clicks_per_session || 0}
-          subtitle="User engagement"
+          value={totals && totals.unique_sessions > 0 ? Math.round((totals.total_clicks / totals.unique_sessions) * 100) / 100 : 0}
+          subtitle="Across all pages"
           icon={Repeat}
-          />
+        />
         <KPICard
-          title="Click Accuracy"
-          value="100%"
-          subtitle="Pre-aggregated data"
-          icon={UserCheck}
+          title="Busiest Day"
+          value={busiest ? busiest.clicks : 0}
+          subtitle={busiest ? new Date(`${busiest.date}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: '2-digit' }) : 'No clicks'}
+          icon={TrendingUp}
         />
       </div>
 
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+            <MousePointer className="h-5 w-5 mr-2 text-green-600" />
+            Daily Clicks ({period.label})
+          </h2>
+          <div className="space-y-2">
+            {daily.map(day => {
+              const activity = categorizeActivity(day.clicks, peak)
+              return (
+                <div key={day.date} className="flex items-center space-x-4">
+                  <div className="w-16 text-sm font-medium text-gray-700">
+                    {new Date(`${day.date}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: '2-digit' })}
+                  </div>
+                  <div className="flex-1 bg-gray-100 rounded h-4">
+                    <div
+                      className={`h-4 rounded ${ACTIVITY_STYLES[activity]}`}
+                      style={{ width: `${peak > 0 ? (day.clicks / peak) * 100 : 0}%` }}
+                      title={`${activity}: ${day.clicks} clicks`}
+                    />
+                  </div>
+                  <div className="w-12 text-sm font-semibold text-gray-700 text-right">{day.clicks}</div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+              <PieChart className="h-5 w-5 mr-2 text-green-600" />
+              Clicks by {SEGMENT_LABELS[dimension]}
+            </h2>
+            <div className="flex gap-2 text-sm">
+              {(Object.keys(SEGMENT_LABELS) as ClickSegmentDimension[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setFilters({ segment: option })}
+                  className={`px-3 py-1 rounded-full ${dimension === option ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                >
+                  {SEGMENT_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+          {segmentError ? (
+            <ErrorMessage message={segmentError} onRetry={fetchSegments} />
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-1 font-medium">{SEGMENT_LABELS[dimension]}</th>
+                  <th className="py-1 font-medium text-right">Clicks</th>
+                  <th className="py-1 font-medium text-right">Share</th>
+                  <th className="py-1 font-medium text-right">Users</th>
+                  <th className="py-1 font-medium pl-4">Top page</th>
+                </tr>
+              </thead>
+              <tbody>
+                {segments.map(segment => (
+                  <tr key={segment.segment} className="border-b border-gray-100">
+                    <td className="py-1 text-gray-900">{segment.segment}</td>
+                    <td className="py-1 text-right text-gray-700">{segment.total_clicks}</td>
+                    <td className="py-1 text-right text-gray-700">{segment.share_pct}%</td>
+                    <td className="py-1 text-right text-gray-700">{segment.unique_users}</td>
+                    <td className="py-1 pl-4 text-gray-700">{segment.top_page ?? '–'}</td>
+                  </tr>
+                ))}
+                {segments.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="py-6 text-center text-gray-500">No clicks in this period</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+          <p className="text-xs text-gray-500 mt-3">
+            Clicks are matched to a profile through their session; clicks without one are counted as Unknown.
+          </p>
+        </div>
+      </div>
+
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <div className="flex items-center justify-between mb-6">
-          <h2 className="text-xl font-semibold text-gray-900">Click-Through Rate by Page Name</h2>
+          <h2 className="text-xl font-semibold text-gray-900">Clicks by Feature</h2>
           <div className="text-sm text-gray-500">
-            {stats?.precise_total_clicks || 0} total clicks counted
+            {totals?.total_clicks || 0} clicks across {features.length} features
           </div>
         </div>
         <p className="text-sm text-gray-600 mb-6">
-          Data from page_click_count • Pre-aggregated statistics • Fast queries • 🚀 button_clicks table migrated
+          Events are filed under the feature they are registered to; events missing from the registry are grouped as {UNREGISTERED_FEATURE}.
         </p>
         <SearchableTable
-          data={pageCTR}
-          columns={pageColumns}
-          searchPlaceholder="Search pages by name..."
-          exportFilename="precise_page_click_counts"
+          data={features}
+          columns={featureColumns}
+          searchPlaceholder="Search features by name..."
+          exportFilename="feature_clicks"
         />
       </div>
+
+      <EventRegistryPanel period={period} onChange={fetchAdoptionData} />
     </div>
   )
 }
@@ -3,6 +3,7 @@ import { ExternalLink, Calendar, Globe } from 'lucide-react'
 import { LoadingSpinner } from '../components/LoadingSpinner'
 import { ErrorMessage } from '../components/ErrorMessage'
 import { supabase } from '../lib/supabase'
+import { useQueryFilters } from '../hooks/useQueryFilters'
 
 interface Scholarship {
   name: string
@@ -24,7 +25,7 @@ export function Funding() {
   const [bursaries, setBursaries] = useState<Bursary[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'scholarships' | 'bursaries'>('scholarships')
+  const [{ tab: activeTab }, setFilters] = useQueryFilters<{ tab: 'scholarships' | 'bursaries' }>({ tab: 'scholarships' })
   const [searchTerm, setSearchTerm] = useState('')
 
   const fetchFundingData = async () => {
@@ -112,7 +113,7 @@ export function Funding() {
 
       <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg w-fit">
         <button
-          onClick={() => setActiveTab('scholarships')}
+          onClick={() => setFilters({ tab: 'scholarships' })}
           className={`px-4 py-2 rounded-lg font-medium transition-colors ${
             activeTab === 'scholarships'
               ? 'bg-white text-green-700 shadow-sm'
@@ -122,7 +123,7 @@ export function Funding() {
           Scholarships ({scholarships.length})
         </button>
         <button
-          onClick={() => setActiveTab('bursaries')}
+          onClick={() => setFilters({ tab: 'bursaries' })}
           className={`px-4 py-2 rounded-lg font-medium transition-colors ${
             activeTab === 'bursaries'
               ? 'bg-white text-green-700 shadow-sm'
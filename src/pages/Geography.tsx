@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react'
+import { Map as MapIcon, Users, Award, Building2, AlertTriangle } from 'lucide-react'
+import { LoadingSpinner } from '../components/LoadingSpinner'
+import { ErrorMessage } from '../components/ErrorMessage'
+import { KPICard } from '../components/KPICard'
+import { ProvinceMap } from '../components/ProvinceMap'
+import { useQueryFilters } from '../hooks/useQueryFilters'
+import {
+  ProvinceCode,
+  ProvinceStats,
+  ProvinceSummary,
+  UNDERSERVED_GAP,
+  fetchProvinceStats
+} from '../utils/provinceGeography'
+
+type Metric = 'learners' | 'avg_aps' | 'institutions' | 'supply_gap'
+
+const METRICS: Record<Metric, string> = {
+  learners: 'Learners',
+  avg_aps: 'Average APS',
+  institutions: 'Institutions',
+  supply_gap: 'Supply gap'
+}
+
+// Light to dark green, for counts and APS
+const SEQUENTIAL = ['#dcfce7', '#bbf7d0', '#86efac', '#4ade80', '#16a34a']
+
+// Supply gap bands: well served, balanced, underserved, severely underserved
+const GAP_BANDS = [
+  { max: 0.8, color: '#86efac', label: 'Well served (< 0.8)' },
+  { max: UNDERSERVED_GAP, color: '#e5e7eb', label: `Balanced (0.8 – ${UNDERSERVED_GAP})` },
+  { max: 2, color: '#fdba74', label: `Underserved (${UNDERSERVED_GAP} – 2)` },
+  { max: Infinity, color: '#f87171', label: 'Severely underserved (2+ or no institutions)' }
+]
+
+const metricValue = (province: ProvinceStats, metric: Metric): number | null => {
+  if (metric === 'supply_gap') return province.learners > 0 && province.supply_gap === null ? Infinity : province.supply_gap
+  return province[metric]
+}
+
+const formatMetric = (value: number | null, metric: Metric): string => {
+  if (value === null) return 'N/A'
+  if (value === Infinity) return 'No institutions'
+  if (metric === 'supply_gap') return `${value.toFixed(2)}×`
+  return value.toLocaleString()
+}
+
+export function Geography() {
+  const [summary, setSummary] = useState<ProvinceSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selected, setSelected] = useState<ProvinceCode | null>(null)
+  const [{ metric }, setFilters] = useQueryFilters<{ metric: Metric }>({ metric: 'learners' })
+
+  const loadProvinceStats = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setSummary(await fetchProvinceStats())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch province statistics')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadProvinceStats()
+  }, [])
+
+  if (loading) return <LoadingSpinner />
+  if (error) return <ErrorMessage message={error} onRetry={loadProvinceStats} />
+  if (!summary) return null
+
+  const { provinces, unmatched } = summary
+  const values = provinces.map(province => metricValue(province, metric))
+  const maxValue = Math.max(0, ...values.filter((value): value is number => value !== null && Number.isFinite(value)))
+
+  const colorFor = (value: number | null): string | undefined => {
+    if (value === null) return undefined
+    if (metric === 'supply_gap') return GAP_BANDS.find(band => value < band.max)?.color ?? GAP_BANDS[GAP_BANDS.length - 1].color
+    if (maxValue === 0) return SEQUENTIAL[0]
+    return SEQUENTIAL[Math.min(SEQUENTIAL.length - 1, Math.floor((value / maxValue) * SEQUENTIAL.length))]
+  }
+
+  const fills: Partial<Record<ProvinceCode, string>> = {}
+  const labels: Partial<Record<ProvinceCode, string>> = {}
+  provinces.forEach((province, index) => {
+    fills[province.code] = colorFor(values[index])
+    labels[province.code] = formatMetric(values[index], metric)
+  })
+
+  const underserved = provinces.filter(province => province.underserved)
+  const totalLearners = provinces.reduce((sum, province) => sum + province.learners, 0)
+  const totalInstitutions = provinces.reduce((sum, province) => sum + province.institutions, 0)
+  const apsLearners = provinces.reduce((sum, province) => sum + province.learners_with_aps, 0)
+  const nationalAps = apsLearners > 0
+    ? Math.round(provinces.reduce((sum, province) => sum + (province.avg_aps || 0) * province.learners_with_aps, 0) / apsLearners * 10) / 10
+    : null
+  const detail = provinces.find(province => province.code === selected) || null
+  const unmatchedLearners = unmatched.reduce((sum, row) => sum + row.learners, 0)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Provincial Geography</h1>
+        <p className="text-gray-600">Where learners are, how they perform, and where institutions are thin on the ground</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <KPICard title="Learners" value={totalLearners} subtitle="With a recognised province" icon={Users} />
+        <KPICard title="National APS" value={nationalAps ?? 'N/A'} subtitle="Average across learners with marks" icon={Award} />
+        <KPICard title="Institutions" value={totalInstitutions} subtitle="In Institutions Information" icon={Building2} />
+        <KPICard
+          title="Underserved Provinces"
+          value={underserved.length}
+          subtitle={underserved.length > 0 ? underserved.map(province => province.code).join(', ') : 'None'}
+          icon={AlertTriangle}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div className="xl:col-span-2 bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <h2 className="text-xl font-bold text-gray-900 flex items-center">
+              <MapIcon className="h-5 w-5 mr-2 text-green-600" />
+              {METRICS[metric]} by province
+            </h2>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(METRICS) as Metric[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => setFilters({ metric: key })}
+                  className={`px-3 py-1 rounded-full text-sm ${
+                    metric === key ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {METRICS[key]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <ProvinceMap
+            fills={fills}
+            labels={labels}
+            highlighted={underserved.map(province => province.code)}
+            selected={selected}
+            onSelect={code => setSelected(code === selected ? null : code)}
+          />
+
+          <div className="flex flex-wrap gap-4 mt-4 text-xs text-gray-600">
+            {metric === 'supply_gap'
+              ? GAP_BANDS.map(band => (
+                  <span key={band.label} className="flex items-center">
+                    <span className="inline-block w-3 h-3 rounded-sm mr-1" style={{ backgroundColor: band.color }} />
+                    {band.label}
+                  </span>
+                ))
+              : (
+                  <span className="flex items-center">
+                    <span className="mr-2">0</span>
+                    {SEQUENTIAL.map(color => (
+                      <span key={color} className="inline-block w-6 h-3" style={{ backgroundColor: color }} />
+                    ))}
+                    <span className="ml-2">{formatMetric(maxValue, metric)}</span>
+                  </span>
+                )}
+            <span className="flex items-center">
+              <span className="inline-block w-3 h-3 rounded-sm mr-1 border-2 border-red-600" />
+              Underserved
+            </span>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Supply gap is a province's share of learners divided by its share of institutions; above {UNDERSERVED_GAP} the
+            province has noticeably fewer institutions than its learner numbers suggest. Boundaries are simplified.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+          {detail ? (
+            <>
+              <h2 className="text-xl font-bold text-gray-900 mb-4">{detail.name}</h2>
+              <dl className="grid grid-cols-2 gap-y-3 text-sm">
+                <dt className="text-gray-500">Learners</dt>
+                <dd className="text-right font-medium">{detail.learners.toLocaleString()} ({detail.learner_share}%)</dd>
+                <dt className="text-gray-500">Average APS</dt>
+                <dd className="text-right font-medium">{detail.avg_aps ?? 'N/A'}</dd>
+                <dt className="text-gray-500">Learners with APS</dt>
+                <dd className="text-right font-medium">{detail.learners_with_aps.toLocaleString()}</dd>
+                <dt className="text-gray-500">Institutions</dt>
+                <dd className="text-right font-medium">{detail.institutions.toLocaleString()} ({detail.institution_share}%)</dd>
+                <dt className="text-gray-500">Learners per institution</dt>
+                <dd className="text-right font-medium">{detail.learners_per_institution ?? 'N/A'}</dd>
+                <dt className="text-gray-500">Supply gap</dt>
+                <dd className={`text-right font-medium ${detail.underserved ? 'text-red-600' : ''}`}>
+                  {formatMetric(metricValue(detail, 'supply_gap'), 'supply_gap')}
+                </dd>
+              </dl>
+            </>
+          ) : (
+            <>
+              <h2 className="text-xl font-bold text-gray-900 mb-4">Supply gap ranking</h2>
+              <ol className="space-y-2 text-sm">
+                {[...provinces]
+                  .sort((a, b) => (metricValue(b, 'supply_gap') ?? -1) - (metricValue(a, 'supply_gap') ?? -1))
+                  .map(province => (
+                    <li key={province.code} className="flex items-center justify-between">
+                      <button onClick={() => setSelected(province.code)} className="text-left text-gray-800 hover:text-green-700">
+                        {province.name}
+                      </button>
+                      <span className={province.underserved ? 'font-semibold text-red-600' : 'text-gray-600'}>
+                        {formatMetric(metricValue(province, 'supply_gap'), 'supply_gap')}
+                      </span>
+                    </li>
+                  ))}
+              </ol>
+              <p className="text-xs text-gray-500 mt-4">Click a province on the map for its figures.</p>
+            </>
+          )}
+        </div>
+      </div>
+
+      {unmatched.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+          {unmatchedLearners.toLocaleString()} learners and {unmatched.reduce((sum, row) => sum + row.institutions, 0)} institutions
+          have a province that could not be recognised ({unmatched.slice(0, 5).map(row => `"${row.province}"`).join(', ')}
+          {unmatched.length > 5 ? ', …' : ''}) and are left off the map.
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,147 +1,66 @@
 
-import React, { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { 
   Users, 
   GraduationCap, 
   Building2, 
   Target,
-  TrendingUp, 
+  RefreshCw,
   BarChart3 
 } from 'lucide-react'
 import { KPICard } from '../components/KPICard'
 import { SearchableTable } from '../components/SearchableTable'
 import { LoadingSpinner } from '../components/LoadingSpinner'
 import { ErrorMessage } from '../components/ErrorMessage'
-import { supabase } from '../lib/supabase'
+import {
+  fetchLatestMatchResults,
+  runMatchingPipeline,
+  type ProgramMatchResult,
+  type ProgramMatchRun
+} from '../utils/matchingPipeline'
 
-// Type definitions for program matching interface
-interface ProgramMatch {
-  institution_name: string
-  institution_type: 'University' | 'TVET'
-  qualification: string
-  faculty: string
-  required_aps: number
-  qualified_students: number
-  pct_of_total: number
-}
+type ProgramMatch = ProgramMatchResult
 
-// Demonstration implementation that would use real-time data in production
+// Programme qualification counts computed by the matching pipeline and stored per run
 export function MatchingProfiles() {
   const [matches, setMatches] = useState<ProgramMatch[]>([])
-  const [stats, setStats] = useState({
-    total_students_with_valid_aps: 2204, // Consistent with Overview page real data
-    total_programs: 2660,
-    average_matches_per_student: 1350.5
-  })
-  const [isLoading, setIsLoading] = useState(false)
+  const [run, setRun] = useState<ProgramMatchRun | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [computing, setComputing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
 
-  // Simulation of real-time matching engine
-  const simulateRealTimeMatching = useMemo(() => {
-    const demoMatches: ProgramMatch[] = [
-      // Reflecting actual Top 20 data from your Supabase analysis
-      {
-        institution_name: 'Sefako Makgatho University',
-        institution_type: 'University',
-        qualification: 'Higher Certificate in Emergency Medical Care',
-        faculty: 'Faculty of Health Sciences',
-        required_aps: 15,               // REAL ACTUAL DATA!
-        qualified_students: 1730,        // Amazingly 70.7% acceptance rate!
-        pct_of_total: 70.7
-      },
-      {
-        institution_name: 'University of Venda',
-        institution_type: 'University',
-        qualification: 'Higher Certificate in Music',
-        faculty: 'Faculty of Arts and Humanities',
-        required_aps: 15,
-        qualified_students: 1730,
-        pct_of_total: 70.7
-      },
-      {
-        institution_name: 'North-West University',
-        institution_type: 'University',
-        qualification: 'Diploma in Music',
-        faculty: 'Faculty of Arts and Humanities',
-        required_aps: 18,
-        qualified_students: 1727,
-        pct_of_total: 70.6
-      },
-      {
-        institution_name: 'Walter Sisulu University',
-        institution_type: 'University',
-        qualification: 'Higher Certificate in Versatile Broadcasting',
-        faculty: 'Faculty of Arts and Humanities',
-        required_aps: 18,
-        qualified_students: 1727,
-        pct_of_total: 70.6
-      },
-      {
-        institution_name: 'Tshwane University of Technology',
-        institution_type: 'University',
-        qualification: 'Diploma in Marketing Management',
-        faculty: 'Faculty of Business and Commerce',
-        required_aps: 19,
-        qualified_students: 1723,
-        pct_of_total: 70.4
-      },
-      {
-        institution_name: 'Pretoria TVET College',
-        institution_type: 'TVET',
-        qualification: 'Diploma in Office Administration',
-        faculty: 'Office Technology Department',
-        required_aps: 16,
-        qualified_students: 1100,
-        pct_of_total: 45.0
-      }
-    ]
-    
-    return demoMatches.sort((a, b) => b.pct_of_total - a.pct_of_total)
-  }, [])
-
-  const fetchRealStatsData = async () => {
-    setIsLoading(true)
-    
+  const fetchLatestRun = async () => {
     try {
-      // Respect your actual database by retrieving real counts
-      const { data: userMarksData, error: marksError } = await supabase
-        .from('user_marks')
-        .select('user_id', { count: 'exact' })
-
-      // Track actual vs fallback states
-      let totalStudentsWithValidAps = 2204 // Default to match Overview's real data
-      
-      if (!marksError && userMarksData) {
-        // Consider using pre-approved datasets robustly instead risking fallbback pathways unsafe
-        totalStudentsWithValidAps = 2204 // Following consistent ratio acceptable
-      }
+      setLoading(true)
+      setError(null)
 
-      // Keep outputs traceable verified achievable functional coherency stable framework policies align configured records required
-      console.log(`🧮 Matching Pool Analysis Complete: Using consistent ${totalStudentsWithValidAps} for cohort continuity`)
-
-      setStats(prev => ({
-        ...prev,
-        total_students_with_valid_aps: totalStudentsWithValidAps
-      }))
+      const latest = await fetchLatestMatchResults()
+      setRun(latest.run)
+      setMatches(latest.results)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load match results')
+    } finally {
+      setLoading(false)
+    }
+  }
 
-      // Simulate other programmed data
-      setTimeout(() => {
-        const simulatedData = simulateRealTimeMatching
-        setMatches(simulatedData)
-        setIsLoading(false)
-      }, 300)
+  const recomputeMatches = async () => {
+    setComputing(true)
+    setError(null)
 
-    } catch (error) {
-      console.error('System fallthrough unlikely reachable threshold prepared mapped capability verification needed')
-      setTimeout(() => {
-        setMatches(simulateRealTimeMatching)
-        setIsLoading(false)
-      }, 300)
+    const result = await runMatchingPipeline()
+    if (!result.success) {
+      setError(result.error || 'Matching pipeline failed')
+    } else {
+      await fetchLatestRun()
     }
+
+    setComputing(false)
   }
 
   useEffect(() => {
-    fetchRealStatsData()
-  }, [simulateRealTimeMatching])
+    fetchLatestRun()
+  }, [])
 
   // Color coding for APS requirements per specification
   const getApsLevelColor = (aps: number) => {
@@ -244,16 +163,11 @@ export function MatchingProfiles() {
   const tvetMatches = useMemo(() => 
     matches.filter(m => m.institution_type === 'TVET'), [matches])
 
-  // Distribution chart data setup
-  const distributionChartData = [
-    { range: '0 matches', count: 21 },
-    { range: '1-5 matches', count: 620 },
-    { range: '6-10 matches', count: 965 },
-    { range: '11-20 matches', count: 512 },
-    { range: '21+ matches', count: 203 }
-  ]
+  const distribution = run?.match_distribution || []
+  const maxBucketCount = Math.max(1, ...distribution.map(bucket => bucket.count))
 
-  if (isLoading) return <LoadingSpinner />
+  if (loading) return <LoadingSpinner />
+  if (error && !computing) return <ErrorMessage message={error} onRetry={run ? fetchLatestRun : recomputeMatches} />
 
   return (
     <div className="space-y-8">
@@ -263,29 +177,62 @@ export function MatchingProfiles() {
           Program Qualification Analyzer
         </h1>
         <p className="text-xl text-gray-600 max-w-4xl mx-auto leading-relaxed">
-          Real-time APS-based program matching analysis showing exact student qualification counts. 
-          Calculated client-side from live data to provide immediate insights into program accessibility.
+          APS-based program matching across every student with marks, showing exact qualification counts 
+          for each university and TVET program.
         </p>
+        <div className="mt-6 flex items-center justify-center space-x-4">
+          <span className="text-sm text-gray-500">
+            {run
+              ? `Last computed: ${new Date(run.computed_at).toLocaleString('en-ZA', {
+                  year: 'numeric',
+                  month: 'short',
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit'
+                })}`
+              : 'Not computed yet'}
+          </span>
+          <button
+            onClick={recomputeMatches}
+            disabled={computing}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${computing ? 'animate-spin' : ''}`} />
+            {computing ? 'Computing...' : 'Refresh matches'}
+          </button>
+        </div>
       </div>
 
+      {!run ? (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-8 text-center">
+          <Target className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-yellow-800 mb-2">
+            No Match Results Yet
+          </h3>
+          <p className="text-yellow-700">
+            Run the matching pipeline to compute qualified student counts for every program.
+          </p>
+        </div>
+      ) : (
+      <>
       {/* KPI Cards Section */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <KPICard
           title="Matching Pool"
-          value={stats.total_students_with_valid_aps}
-          subtitle="Students with marks: All have APS"
+          value={run.total_students.toLocaleString()}
+          subtitle="Students with a valid APS"
           icon={Users}
         />
         <KPICard
           title="Available Programs"
-          value={stats.total_programs}
+          value={run.total_programs.toLocaleString()}
           subtitle="Universities + TVET combined"
           icon={GraduationCap}
         />
         <KPICard
           title="Average Matches per Student"
-          value={stats.average_matches_per_student}
-          subtitle="Typical student profile"
+          value={run.average_matches_per_student}
+          subtitle="Programs each student qualifies for"
           icon={Target}
         />
       </div>
@@ -354,29 +301,31 @@ export function MatchingProfiles() {
         )}
       </div>
 
-      {/* Distribution Charts Section */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 pt-4 border-t border-gray-200">
-        {/* Input data distribution visualizations live here (function complete, disabled in demo) */}
-      </div>
-
-      {/* Real Data Accuracy Panel */}
-      <div className="bg-gradient-to-r from-green-50 to-blue-50 border border-green-200 rounded-xl p-6 text-center">
-        <Target className="h-8 w-8 text-green-500 mx-auto mb-4" />
-        <h3 className="text-xl font-semibold text-green-800 mb-2">
-          Verified APS Data Accuracy
+      {/* Distribution Section */}
+      <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+        <h3 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+          <BarChart3 className="h-6 w-6 text-blue-500 mr-2" />
+          Matches per Student
         </h3>
-        <p className="text-green-700 mb-4">
-          Actually sourcing from <strong>{stats.total_students_with_valid_aps.toLocaleString()}</strong> real student marks in database.
-          Every student with user_marks entry == verified APS score calculation enabled.
-        </p>
-        <div className="text-sm text-green-600 font-medium">
-          <div className="inline-flex items-center bg-green-100 text-green-800 px-3 py-1 rounded-full text-sm font-medium">
-            <Target className="h-4 w-4 mr-1" />
-            Real Teacher APS Count: ✅ Activated
-          </div>
-          <p className="mt-3">Database confirms: user_marks presence = marks submitted = automatic APS capable matching</p>
+        <div className="space-y-4">
+          {distribution.map(bucket => (
+            <div key={bucket.range} className="flex items-center space-x-4">
+              <span className="w-36 text-sm font-medium text-gray-700">{bucket.range}</span>
+              <div className="flex-1 bg-gray-200 rounded-full h-4">
+                <div
+                  className="h-4 rounded-full bg-blue-500 transition-all duration-500"
+                  style={{ width: `${(bucket.count / maxBucketCount) * 100}%` }}
+                />
+              </div>
+              <span className="w-20 text-right text-sm font-bold text-gray-900">
+                {bucket.count.toLocaleString()}
+              </span>
+            </div>
+          ))}
         </div>
       </div>
+      </>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -3,160 +3,79 @@ import { Users, TrendingUp, Award, GraduationCap, UserCheck, User, Clock, Calend
 import { KPICard } from '../components/KPICard'
 import { LoadingSpinner } from '../components/LoadingSpinner'
 import { ErrorMessage } from '../components/ErrorMessage'
+import { MarksDistributionChart } from '../components/MarksDistributionChart'
 import { supabase } from '../lib/supabase'
-import { fetchDownloadStats } from '../utils/downloadStats'
+import { useDateRange } from '../contexts/DateRangeContext'
+import { REPORTING_TIMEZONE, percentChange, periodParams } from '../utils/period'
 
+// One row from get_overview_stats; *_previous fields cover the equal-length period before the selected one
 interface OverviewStats {
   total_users: number
   total_students_with_marks: number
   total_user_profiles: number
-  total_active_users: number
-  pct_ge_50: number
-  pct_ge_70: number
-  pct_ge_80: number
+  pct_ge_50: number | null
+  pct_ge_70: number | null
+  pct_ge_80: number | null
   total_sessions_all_time: number
-  // Activity metrics - separate today/yesterday/7d/30d
-  total_sessions_today: number         // Today 12AM to now
-  total_sessions_yesterday: number     // Yesterday 12AM to 12AM
-  total_sessions_7d: number
-  total_sessions_30d: number
-  total_sessions_prev_7d: number       // Previous 7-day period
-  distinct_users_today: number
-  distinct_users_yesterday: number
-  distinct_users_7d: number
-  distinct_users_30d: number
-  distinct_users_prev_7d: number
+  sessions_current: number
+  sessions_previous: number | null
+  distinct_users_current: number
+  distinct_users_previous: number | null
   learner_count: number
   parent_count: number
-  learners_active_today: number
-  learners_active_yesterday: number
-  learners_active_7d: number
-  learners_active_30d: number
-  parents_active_24h: number
-  parents_active_7d: number
-  parents_active_month: number
+  learners_active_current: number
+  learners_active_previous: number | null
+  parents_active_current: number
+  parents_active_previous: number | null
   total_downloads: number
 }
 
+const PREVIOUS_FIELDS = [
+  'sessions_previous',
+  'distinct_users_previous',
+  'learners_active_previous',
+  'parents_active_previous'
+] as const
+
+// KPICard trend for current vs previous; omitted when there is nothing to compare against
+const trendFor = (current: number, previous: number | null) => {
+  if (previous === null) return undefined
+  const change = percentChange(current, previous)
+  return change === null ? undefined : { value: change, isPositive: change >= 0 }
+}
+
 export function Overview() {
   const [stats, setStats] = useState<OverviewStats | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const { period, comparison } = useDateRange()
 
   const fetchOverviewStats = async () => {
     try {
       setLoading(true)
       setError(null)
 
-      const now = new Date()
-      
-      // Calculate precise day boundaries
-      const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate())
-      const yesterdayStart = new Date(todayStart.getTime() - 24 * 60 * 60 * 1000)
-      const yesterdayEnd = todayStart
-      const sevenDaysAgoStart = new Date(todayStart.getTime() - 7 * 24 * 60 * 60 * 1000)
-      const fourteenDaysAgoStart = new Date(todayStart.getTime() - 14 * 24 * 60 * 60 * 1000)
-      const thirtyDaysAgoStart = new Date(todayStart.getTime() - 30 * 24 * 60 * 60 * 1000)
-      const sixtyDaysAgoStart = new Date(todayStart.getTime() - 60 * 24 * 60 * 60 * 1000)
-      
-      console.log('Precise time ranges:', {
-        today: `${todayStart.toISOString()} to ${now.toISOString()}`,
-        yesterday: `${yesterdayStart.toISOString()} to ${yesterdayEnd.toISOString()}`,
-        last7d: `${sevenDaysAgoStart.toISOString()} to ${todayStart.toISOString()}`,
-        prev7d: `${fourteenDaysAgoStart.toISOString()} to ${sevenDaysAgoStart.toISOString()}`
+      const { data, error } = await supabase.rpc('get_overview_stats', {
+        ...periodParams(period),
+        p_tz: REPORTING_TIMEZONE
       })
 
-      // Fetch all session counts in parallel
-      const [
-        totalSessionsResult,
-        todaySessionsResult,
-        yesterdaySessionsResult,
-        last7dSessionsResult,
-        prev7dSessionsResult,
-        last30dSessionsResult,
-        userMarksResult,
-        totalProfilesResult,
-        learnerResult,
-        parentResult
-      ] = await Promise.all([
-        supabase.from('sessions').select('*', { count: 'exact', head: true }),
-        supabase.from('sessions').select('*', { count: 'exact', head: true })
-          .gte('start_time', todayStart.toISOString()),
-        supabase.from('sessions').select('*', { count: 'exact', head: true })
-          .gte('start_time', yesterdayStart.toISOString())
-          .lt('start_time', yesterdayEnd.toISOString()),
-        supabase.from('sessions').select('user_id')
-          .gte('start_time', sevenDaysAgoStart.toISOString())
-          .lt('start_time', todayStart.toISOString()),
-        supabase.from('sessions').select('user_id')
-          .gte('start_time', fourteenDaysAgoStart.toISOString())
-          .lt('start_time', sevenDaysAgoStart.toISOString()),
-        supabase.from('sessions').select('user_id')
-          .gte('start_time', thirtyDaysAgoStart.toISOString())
-          .lt('start_time', todayStart.toISOString()),
-        supabase.from('user_marks').select('*', { count: 'exact', head: true }),
-        supabase.from('profiles').select('*', { count: 'exact', head: true }),
-        supabase.from('profiles').select('*', { count: 'exact', head: true }).is('is_parent', false),
-        supabase.from('profiles').select('*', { count: 'exact', head: true }).is('is_parent', true)
-      ])
-
-      // Calculate unique users from data
-      const uniqueUsersToday = new Set(
-        (await supabase.from('sessions').select('user_id')
-          .gte('start_time', todayStart.toISOString())).data?.map((s: any) => s.user_id) || []
-      ).size
-
-      const uniqueUsersYesterday = new Set(
-        (await supabase.from('sessions').select('user_id')
-          .gte('start_time', yesterdayStart.toISOString())
-          .lt('start_time', yesterdayEnd.toISOString())).data?.map((s: any) => s.user_id) || []
-      ).size
+      if (error) throw error
 
-      const uniqueUsers7d = new Set(last7dSessionsResult.data?.map((s: any) => s.user_id) || []).size
-      const uniqueUsersPrev7d = new Set(prev7dSessionsResult.data?.map((s: any) => s.user_id) || []).size
-      const uniqueUsers30d = new Set(last30dSessionsResult.data?.map((s: any) => s.user_id) || []).size
+      const row = data?.[0]
+      if (!row) throw new Error('get_overview_stats returned no data')
 
-      const downloadStats = await fetchDownloadStats()
+      // bigint and numeric columns arrive as strings
+      const next = Object.fromEntries(
+        Object.entries(row).map(([key, value]) => [key, value === null ? null : Number(value)])
+      ) as unknown as OverviewStats
+      // Previous-period figures are only shown while comparison is on
+      if (!comparison) {
+        PREVIOUS_FIELDS.forEach(field => { next[field] = null })
+      }
 
-      console.log('Growth rate data:', {
-        today_sessions: todaySessionsResult.count,
-        yesterday_sessions: yesterdaySessionsResult.count,
-        today_users: uniqueUsersToday,
-        yesterday_users: uniqueUsersYesterday,
-        last7d_users: uniqueUsers7d,
-        prev7d_users: uniqueUsersPrev7d
-      })
-
-      setStats({
-        total_users: totalProfilesResult?.count || 0,
-        total_students_with_marks: userMarksResult.count || 0,
-        total_user_profiles: totalProfilesResult?.count || 0,
-        total_active_users: uniqueUsers30d,
-        pct_ge_50: 48.6,
-        pct_ge_70: 19.2,
-        pct_ge_80: 3.8,
-        total_sessions_all_time: totalSessionsResult.count || 42296,
-        total_sessions_today: todaySessionsResult.count || 0,
-        total_sessions_yesterday: yesterdaySessionsResult.count || 0,
-        total_sessions_7d: last7dSessionsResult.data?.length || 0,
-        total_sessions_30d: last30dSessionsResult.data?.length || 0,
-        total_sessions_prev_7d: prev7dSessionsResult.data?.length || 0,
-        distinct_users_today: uniqueUsersToday,
-        distinct_users_yesterday: uniqueUsersYesterday,
-        distinct_users_7d: uniqueUsers7d,
-        distinct_users_30d: uniqueUsers30d,
-        distinct_users_prev_7d: uniqueUsersPrev7d,
-        learner_count: learnerResult?.count || 2365,
-        parent_count: parentResult?.count || 1,
-        learners_active_today: uniqueUsersToday,
-        learners_active_yesterday: uniqueUsersYesterday,
-        learners_active_7d: uniqueUsers7d,
-        learners_active_30d: uniqueUsers30d,
-        parents_active_24h: 0,
-        parents_active_7d: 0,
-        parents_active_month: 1,
-        total_downloads: downloadStats.total_downloads
-      })
+      console.log('📊 Overview loaded -', { from: period.from, to: period.to, compare: !!comparison })
+      setStats(next)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load statistics')
     } finally {
@@ -166,7 +85,13 @@ export function Overview() {
 
   useEffect(() => {
     fetchOverviewStats()
-  }, [])
+  }, [period, comparison])
+
+  const growthValue = (current: number, previous: number | null) => {
+    const change = previous === null ? null : percentChange(current, previous)
+    return change === null ? 'N/A' : `${change > 0 ? '+' : ''}${change}%`
+  }
+  const comparisonLabel = comparison ? `vs ${comparison.label}` : 'Comparison off'
 
   if (loading) return <LoadingSpinner />
   if (error) return <ErrorMessage message={error} onRetry={fetchOverviewStats} />
@@ -187,24 +112,26 @@ export function Overview() {
         />
         <KPICard
           title="Above 50% Average"
-          value={`${stats?.pct_ge_50 || 0}%`}
+          value={stats?.pct_ge_50 != null ? `${stats.pct_ge_50}%` : 'N/A'}
           subtitle="Students achieving 50%+"
           icon={TrendingUp}
         />
         <KPICard
           title="Above 70% Average"
-          value={`${stats?.pct_ge_70 || 0}%`}
+          value={stats?.pct_ge_70 != null ? `${stats.pct_ge_70}%` : 'N/A'}
           subtitle="Students achieving 70%+"
           icon={Award}
         />
         <KPICard
           title="Above 80% Average"
-          value={`${stats?.pct_ge_80 || 0}%`}
+          value={stats?.pct_ge_80 != null ? `${stats.pct_ge_80}%` : 'N/A'}
           subtitle="Students achieving 80%+"
           icon={GraduationCap}
         />
       </div>
 
+      <MarksDistributionChart />
+
       <div className="pt-8 border-t border-gray-200">
         <h2 className="text-2xl font-bold text-gray-900 mb-6">Activity Overview</h2>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
@@ -215,61 +142,27 @@ export function Overview() {
             icon={Users}
           />
           <KPICard
-            title="Active Today"
-            value={stats?.distinct_users_today || 0}
-            subtitle="Unique users (today)"
+            title="Active Users"
+            value={stats?.distinct_users_current || 0}
+            subtitle={`Unique users (${period.label})`}
             icon={Clock}
+            trend={trendFor(stats?.distinct_users_current || 0, stats?.distinct_users_previous ?? null)}
           />
           <KPICard
-            title="Active Last 7 Days"
-            value={stats?.distinct_users_7d || 0}
-            subtitle="Unique users (past 7 days)"
+            title="Active Previous Period"
+            value={stats?.distinct_users_previous ?? 'N/A'}
+            subtitle={comparison ? `Unique users (${comparison.label})` : 'Comparison off'}
             icon={Calendar}
           />
           <KPICard
-            title="Active Last 30 Days"
-            value={stats?.distinct_users_30d || 0}
-            subtitle="Unique users (past 30 days)"
-            icon={TrendingUpIcon}
-          />
-        </div>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-6">
-          <KPICard
-            title="Daily Growth Rate"
-            value={`${(() => {
-              const today = stats?.distinct_users_today || 0
-              const yesterday = stats?.distinct_users_yesterday || 0
-              if (yesterday === 0) return '0.0'
-              return (((today - yesterday) / yesterday) * 100).toFixed(1)
-            })()}%`}
-            subtitle="Today vs yesterday"
-            icon={TrendingUpIcon}
-          />
-          <KPICard
-            title="Weekly Growth Rate"
-            value={`${(() => {
-              const last7d = stats?.distinct_users_7d || 0
-              const prev7d = stats?.distinct_users_prev_7d || 0
-              if (prev7d === 0) return '0.0'
-              return (((last7d - prev7d) / prev7d) * 100).toFixed(1)
-            })()}%`}
-            subtitle="Last 7d vs previous 7d"
-            icon={TrendingUpIcon}
-          />
-          <KPICard
-            title="Monthly Growth Rate"
-            value={`${(() => {
-              const last30d = stats?.distinct_users_30d || 0
-              const prev30d = (stats?.distinct_users_30d || 0) * 0.85
-              if (prev30d === 0) return '0.0'
-              return (((last30d - prev30d) / prev30d) * 100).toFixed(1)
-            })()}%`}
-            subtitle="Last 30d vs prior estimate"
+            title="User Growth"
+            value={growthValue(stats?.distinct_users_current || 0, stats?.distinct_users_previous ?? null)}
+            subtitle={comparisonLabel}
             icon={TrendingUpIcon}
           />
         </div>
         <div className="text-xs text-gray-500 text-center italic mt-4">
-          Daily: Today vs Yesterday | Weekly: Last 7d vs Previous 7d | Monthly: Estimated prior period
+          Periods run midnight to midnight, South African time. Growth compares with the previous period of the same length.
         </div>
       </div>
 
@@ -277,7 +170,7 @@ export function Overview() {
         <h2 className="text-2xl font-bold text-gray-900 mb-6">Learner and Parent Activity Overview</h2>
 
         <h3 className="text-lg font-semibold text-gray-700 mb-4">Learner Activity</h3>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
           <KPICard
             title="Total Learners"
             value={stats?.learner_count || 0}
@@ -285,62 +178,22 @@ export function Overview() {
             icon={SingleUser}
           />
           <KPICard
-            title="Active Today"
-            value={stats?.learners_active_today || 0}
-            subtitle="Learners (today)"
+            title="Active Learners"
+            value={stats?.learners_active_current || 0}
+            subtitle={`Learners (${period.label})`}
             icon={Clock}
+            trend={trendFor(stats?.learners_active_current || 0, stats?.learners_active_previous ?? null)}
           />
           <KPICard
-            title="Active Last 7 Days"
-            value={stats?.learners_active_7d || 0}
-            subtitle="Learners (past 7 days)"
-            icon={Calendar}
-          />
-          <KPICard
-            title="Active Last 30 Days"
-            value={stats?.learners_active_30d || 0}
-            subtitle="Learners (past 30 days)"
-            icon={TrendingUpIcon}
-          />
-        </div>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-          <KPICard
-            title="Daily Growth Rate"
-            value={`${(() => {
-              const today = stats?.learners_active_today || 0
-              const yesterday = stats?.learners_active_yesterday || 0
-              if (yesterday === 0) return '0.0'
-              return (((today - yesterday) / yesterday) * 100).toFixed(1)
-            })()}%`}
-            subtitle="Today vs yesterday"
-            icon={TrendingUpIcon}
-          />
-          <KPICard
-            title="Weekly Growth Rate"
-            value={`${(() => {
-              const last7d = stats?.learners_active_7d || 0
-              const prev7d = stats?.distinct_users_prev_7d || 0
-              if (prev7d === 0) return '0.0'
-              return (((last7d - prev7d) / prev7d) * 100).toFixed(1)
-            })()}%`}
-            subtitle="Last 7d vs previous 7d"
-            icon={TrendingUpIcon}
-          />
-          <KPICard
-            title="Monthly Growth Rate"
-            value={`${(() => {
-              const last30d = stats?.learners_active_30d || 0
-              const prev30d = (stats?.learners_active_30d || 0) * 0.85
-              if (prev30d === 0) return '0.0'
-              return (((last30d - prev30d) / prev30d) * 100).toFixed(1)
-            })()}%`}
-            subtitle="Last 30d vs prior estimate"
+            title="Learner Growth"
+            value={growthValue(stats?.learners_active_current || 0, stats?.learners_active_previous ?? null)}
+            subtitle={comparisonLabel}
             icon={TrendingUpIcon}
           />
         </div>
 
         <h3 className="text-lg font-semibold text-gray-700 mb-4">Parent Activity</h3>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           <KPICard
             title="Total Parents"
             value={stats?.parent_count || 0}
@@ -348,22 +201,17 @@ export function Overview() {
             icon={Users2}
           />
           <KPICard
-            title="Active Today"
-            value={stats?.parents_active_24h || 0}
-            subtitle="Parents (today)"
+            title="Active Parents"
+            value={stats?.parents_active_current || 0}
+            subtitle={`Parents (${period.label})`}
             icon={Clock}
+            trend={trendFor(stats?.parents_active_current || 0, stats?.parents_active_previous ?? null)}
           />
           <KPICard
-            title="Active Last 7 Days"
-            value={stats?.parents_active_7d || 0}
-            subtitle="Parents (past 7 days)"
-            icon={Calendar}
-          />
-          <KPICard
-            title="No. of Subs Monthly"
-            value={stats?.parents_active_month || 0}
-            subtitle="Parents subscribed monthly"
-            icon={Calendar}
+            title="Parent Growth"
+            value={growthValue(stats?.parents_active_current || 0, stats?.parents_active_previous ?? null)}
+            subtitle={comparisonLabel}
+            icon={TrendingUpIcon}
           />
         </div>
       </div>
@@ -378,60 +226,26 @@ export function Overview() {
             icon={Activity}
           />
           <KPICard
-            title="Sessions Today"
-            value={stats?.total_sessions_today || 0}
-            subtitle="Session count (today)"
+            title="Sessions"
+            value={stats?.sessions_current || 0}
+            subtitle={`Session count (${period.label})`}
             icon={Clock}
+            trend={trendFor(stats?.sessions_current || 0, stats?.sessions_previous ?? null)}
           />
           <KPICard
-            title="Sessions Last 7 Days"
-            value={stats?.total_sessions_7d || 0}
-            subtitle="Session count (past 7 days)"
+            title="Sessions Previous Period"
+            value={stats?.sessions_previous ?? 'N/A'}
+            subtitle={comparison ? `Session count (${comparison.label})` : 'Comparison off'}
             icon={Calendar}
           />
           <KPICard
-            title="Sessions Last 30 Days"
-            value={stats?.total_sessions_30d || 0}
-            subtitle="Session count (past 30 days)"
-            icon={TrendingUpIcon}
-          />
-        </div>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-6">
-          <KPICard
-            title="Daily Growth Rate"
-            value={`${(() => {
-              const today = stats?.total_sessions_today || 0
-              const yesterday = stats?.total_sessions_yesterday || 0
-              if (yesterday === 0) return '0.0'
-              return (((today - yesterday) / yesterday) * 100).toFixed(1)
-            })()}%`}
-            subtitle="Today vs yesterday"
-            icon={TrendingUpIcon}
-          />
-          <KPICard
-            title="Weekly Growth Rate"
-            value={`${(() => {
-              const last7d = stats?.total_sessions_7d || 0
-              const prev7d = stats?.total_sessions_prev_7d || 0
-              if (prev7d === 0) return '0.0'
-              return (((last7d - prev7d) / prev7d) * 100).toFixed(1)
-            })()}%`}
-            subtitle="Last 7d vs previous 7d"
-            icon={TrendingUpIcon}
-          />
-          <KPICard
-            title="Monthly Growth Rate"
-            value={`${(() => {
-              const last30d = stats?.total_sessions_30d || 0
-              const prev30d = (stats?.total_sessions_30d || 0) * 0.85
-              if (prev30d === 0) return '0.0'
-              return (((last30d - prev30d) / prev30d) * 100).toFixed(1)
-            })()}%`}
-            subtitle="Last 30d vs prior estimate"
+            title="Session Growth"
+            value={growthValue(stats?.sessions_current || 0, stats?.sessions_previous ?? null)}
+            subtitle={comparisonLabel}
             icon={TrendingUpIcon}
           />
         </div>
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react'
+import { UserPlus, Repeat, CalendarCheck, CalendarClock } from 'lucide-react'
+import { KPICard } from '../components/KPICard'
+import { LoadingSpinner } from '../components/LoadingSpinner'
+import { ErrorMessage } from '../components/ErrorMessage'
+import { supabase } from '../lib/supabase'
+import { useQueryFilters } from '../hooks/useQueryFilters'
+import { useDateRange } from '../contexts/DateRangeContext'
+import { REPORTING_TIMEZONE } from '../utils/period'
+
+type Granularity = 'week' | 'month'
+type Segment = 'all' | 'role' | 'province' | 'grade'
+
+interface RetentionCohort {
+  cohort_start: string
+  segment: string
+  cohort_size: number
+  d1_eligible: number
+  d1_returned: number
+  d1_rate: number | null
+  d7_eligible: number
+  d7_returned: number
+  d7_rate: number | null
+  d30_eligible: number
+  d30_returned: number
+  d30_rate: number | null
+}
+
+const RETENTION_DAYS = [1, 7, 30] as const
+type RetentionDay = typeof RETENTION_DAYS[number]
+
+const SEGMENT_LABELS: Record<Segment, string> = {
+  all: 'All users',
+  role: 'Role',
+  province: 'Province',
+  grade: 'Grade'
+}
+
+// Rate across several cohorts, weighted by the users who have reached day N
+const weightedRate = (cohorts: RetentionCohort[], day: RetentionDay) => {
+  const eligible = cohorts.reduce((sum, c) => sum + c[`d${day}_eligible`], 0)
+  const returned = cohorts.reduce((sum, c) => sum + c[`d${day}_returned`], 0)
+  return eligible > 0 ? Math.round((returned / eligible) * 1000) / 10 : null
+}
+
+const rateCellClass = (rate: number | null) => {
+  if (rate === null) return 'bg-gray-50 text-gray-400'
+  if (rate >= 40) return 'bg-green-600 text-white'
+  if (rate >= 25) return 'bg-green-400 text-white'
+  if (rate >= 15) return 'bg-green-200 text-green-900'
+  if (rate >= 5) return 'bg-green-100 text-green-800'
+  return 'bg-red-50 text-red-700'
+}
+
+const formatCohort = (cohortStart: string, granularity: Granularity) => {
+  const date = new Date(`${cohortStart}T00:00:00`)
+  return granularity === 'week'
+    ? `Week of ${date.toLocaleDateString('en-ZA', { day: 'numeric', month: 'short', year: 'numeric' })}`
+    : date.toLocaleDateString('en-ZA', { month: 'long', year: 'numeric' })
+}
+
+export function Retention() {
+  const [cohorts, setCohorts] = useState<RetentionCohort[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Cohorts are the users who signed up in the selected period
+  const { period } = useDateRange()
+  const [{ granularity, segment }, setFilters] = useQueryFilters<{ granularity: Granularity; segment: Segment }>({
+    granularity: 'week',
+    segment: 'all'
+  })
+
+  const fetchRetention = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error } = await supabase.rpc('get_retention_cohorts', {
+        p_granularity: granularity,
+        p_start: period.start.toISOString(),
+        p_end: period.end.toISOString(),
+        p_segment: segment === 'all' ? null : segment,
+        p_tz: REPORTING_TIMEZONE
+      })
+
+      if (error) throw error
+
+      // numeric columns arrive as strings
+      const toRate = (value: unknown) => (value != null ? Number(value) : null)
+      setCohorts((data || []).map((row: any) => ({
+        cohort_start: row.cohort_start,
+        segment: row.segment,
+        cohort_size: Number(row.cohort_size),
+        d1_eligible: Number(row.d1_eligible),
+        d1_returned: Number(row.d1_returned),
+        d1_rate: toRate(row.d1_rate),
+        d7_eligible: Number(row.d7_eligible),
+        d7_returned: Number(row.d7_returned),
+        d7_rate: toRate(row.d7_rate),
+        d30_eligible: Number(row.d30_eligible),
+        d30_returned: Number(row.d30_returned),
+        d30_rate: toRate(row.d30_rate)
+      })))
+
+      console.log('📊 Retention loaded -', { granularity, segment, rows: data?.length || 0 })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch retention data')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchRetention()
+  }, [period, granularity, segment])
+
+  const totalSignups = cohorts.reduce((sum, c) => sum + c.cohort_size, 0)
+  const rates = {
+    1: weightedRate(cohorts, 1),
+    7: weightedRate(cohorts, 7),
+    30: weightedRate(cohorts, 30)
+  }
+
+  if (loading) return <LoadingSpinner />
+  if (error) return <ErrorMessage message={error} onRetry={fetchRetention} />
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center mb-8">
+        <h1 className="text-4xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-3">
+          Cohort Retention
+        </h1>
+        <p className="text-lg text-gray-600 max-w-2xl mx-auto">
+          Share of each signup cohort that came back on day 1, 7 and 30 after joining
+        </p>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-4">
+        <div className="flex rounded-lg shadow-md border border-gray-200 overflow-hidden">
+          {(['week', 'month'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setFilters({ granularity: option })}
+              className={`px-5 py-2 text-sm font-semibold transition-colors ${
+                granularity === option ? 'bg-gradient-to-r from-green-600 to-green-700 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option === 'week' ? 'Weekly cohorts' : 'Monthly cohorts'}
+            </button>
+          ))}
+        </div>
+        <select
+          value={segment}
+          onChange={(e) => setFilters({ segment: e.target.value as Segment })}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-sm bg-white shadow-md focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        >
+          {(Object.keys(SEGMENT_LABELS) as Segment[]).map(option => (
+            <option key={option} value={option}>
+              {option === 'all' ? SEGMENT_LABELS[option] : `By ${SEGMENT_LABELS[option].toLowerCase()}`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <KPICard
+          title="Signups"
+          value={totalSignups.toLocaleString()}
+          subtitle={`${period.label}, ${new Set(cohorts.map(c => c.cohort_start)).size} ${granularity}ly cohorts`}
+          icon={UserPlus}
+        />
+        <KPICard
+          title="Day 1 Retention"
+          value={rates[1] !== null ? `${rates[1]}%` : 'N/A'}
+          subtitle="Returned the day after signup"
+          icon={Repeat}
+        />
+        <KPICard
+          title="Day 7 Retention"
+          value={rates[7] !== null ? `${rates[7]}%` : 'N/A'}
+          subtitle="Returned a week after signup"
+          icon={CalendarCheck}
+        />
+        <KPICard
+          title="Day 30 Retention"
+          value={rates[30] !== null ? `${rates[30]}%` : 'N/A'}
+          subtitle="Returned a month after signup"
+          icon={CalendarClock}
+        />
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-1">Return Rate by Cohort</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Day N counts a session started on the Nth day after signup (South African time).
+          Cells show – until a member of the cohort has reached that day; partial cohorts count only members who have.
+        </p>
+
+        {cohorts.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">No signups in this period</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Cohort</th>
+                  {segment !== 'all' && <th className="py-2 pr-4 font-medium">{SEGMENT_LABELS[segment]}</th>}
+                  <th className="py-2 pr-4 font-medium text-right">Users</th>
+                  {RETENTION_DAYS.map(day => (
+                    <th key={day} className="py-2 px-2 font-medium text-center w-24">D{day}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {cohorts.map(cohort => (
+                  <tr key={`${cohort.cohort_start}-${cohort.segment}`} className="border-b border-gray-100">
+                    <td className="py-2 pr-4 text-gray-900 whitespace-nowrap">{formatCohort(cohort.cohort_start, granularity)}</td>
+                    {segment !== 'all' && <td className="py-2 pr-4 text-gray-700">{cohort.segment}</td>}
+                    <td className="py-2 pr-4 text-right text-gray-700">{cohort.cohort_size.toLocaleString()}</td>
+                    {RETENTION_DAYS.map(day => {
+                      const rate = cohort[`d${day}_rate`]
+                      return (
+                        <td key={day} className="py-1 px-1">
+                          <div
+                            className={`rounded-md py-1.5 text-center font-medium ${rateCellClass(rate)}`}
+                            title={`${cohort[`d${day}_returned`]} of ${cohort[`d${day}_eligible`]} eligible users returned`}
+                          >
+                            {rate !== null ? `${rate}%` : '–'}
+                          </div>
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
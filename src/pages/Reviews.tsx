@@ -0,0 +1,392 @@
+import { useState, useEffect } from 'react'
+import { MessageSquare, Star, ThumbsDown, Reply, RefreshCw, Send, Save, X } from 'lucide-react'
+import { LoadingSpinner } from '../components/LoadingSpinner'
+import { ErrorMessage } from '../components/ErrorMessage'
+import { KPICard } from '../components/KPICard'
+import { useQueryFilters } from '../hooks/useQueryFilters'
+import { useAuth } from '../contexts/AuthContext'
+import { hasRole } from '../lib/roles'
+import { synchronizeDownloadStats } from '../utils/googlePlayAPI'
+import {
+  AppReview,
+  MAX_REPLY_LENGTH,
+  REVIEW_TOPICS,
+  ReplyStatus,
+  ReviewTopic,
+  Sentiment,
+  complaintThemes,
+  fetchAppReviews,
+  replyStatus,
+  saveReplyDraft,
+  sendReviewReply,
+  suggestedReply,
+  weeklyRatingTrend
+} from '../utils/appReviews'
+
+const TREND_WEEKS = 12
+const RECENT_DAYS = 30
+
+const SENTIMENT_STYLES: Record<Sentiment, string> = {
+  positive: 'bg-green-100 text-green-800',
+  neutral: 'bg-gray-100 text-gray-700',
+  negative: 'bg-red-100 text-red-800'
+}
+
+const STATUS_LABELS: Record<ReplyStatus, string> = {
+  needs_reply: 'Needs reply',
+  draft: 'Draft saved',
+  replied: 'Replied',
+  optional: 'No reply needed'
+}
+
+const ratingColor = (rating: number | null) =>
+  rating === null ? '#e5e7eb' : rating >= 4 ? '#16a34a' : rating >= 3 ? '#facc15' : '#ef4444'
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString()
+
+function Stars({ rating }: { rating: number | null }) {
+  if (rating === null) return <span className="text-xs text-gray-400">No rating</span>
+  return (
+    <span className="flex" aria-label={`${rating} stars`}>
+      {[1, 2, 3, 4, 5].map(value => (
+        <Star key={value} className={`h-4 w-4 ${value <= rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`} />
+      ))}
+    </span>
+  )
+}
+
+export function Reviews() {
+  const { role } = useAuth()
+  const canReply = hasRole(role, 'analyst')
+  const [reviews, setReviews] = useState<AppReview[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [syncing, setSyncing] = useState(false)
+  const [syncMessage, setSyncMessage] = useState<string | null>(null)
+  const [replyText, setReplyText] = useState('')
+  const [replyBusy, setReplyBusy] = useState(false)
+  const [replyError, setReplyError] = useState<string | null>(null)
+  const [{ sentiment, topic, status, review: selectedId }, setFilters] = useQueryFilters({
+    sentiment: '',
+    topic: '',
+    status: '',
+    review: ''
+  })
+
+  const loadReviews = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setReviews(await fetchAppReviews())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch reviews')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadReviews()
+  }, [])
+
+  const selected = reviews.find(review => review.review_id === selectedId) || null
+
+  useEffect(() => {
+    setReplyError(null)
+    setReplyText(selected ? selected.reply_draft ?? selected.developer_reply ?? suggestedReply(selected) : '')
+  }, [selectedId, loading])
+
+  const handleSync = async () => {
+    try {
+      setSyncing(true)
+      setSyncMessage(null)
+      const result = await synchronizeDownloadStats(7)
+      setSyncMessage(`Fetched ${result.reviews_fetched} reviews from the last seven days`)
+      await loadReviews()
+    } catch (err) {
+      setSyncMessage(err instanceof Error ? err.message : 'Sync failed')
+    } finally {
+      setSyncing(false)
+    }
+  }
+
+  const updateReview = (reviewId: string, changes: Partial<AppReview>) =>
+    setReviews(current => current.map(review => (review.review_id === reviewId ? { ...review, ...changes } : review)))
+
+  const handleSaveDraft = async () => {
+    if (!selected) return
+    try {
+      setReplyBusy(true)
+      setReplyError(null)
+      await saveReplyDraft(selected.review_id, replyText)
+      updateReview(selected.review_id, { reply_draft: replyText.trim() || null })
+    } catch (err) {
+      setReplyError(err instanceof Error ? err.message : 'Failed to save draft')
+    } finally {
+      setReplyBusy(false)
+    }
+  }
+
+  const handleSend = async () => {
+    if (!selected) return
+    if (!window.confirm('Post this reply publicly on Google Play?')) return
+    try {
+      setReplyBusy(true)
+      setReplyError(null)
+      const result = await sendReviewReply(selected.review_id, replyText)
+      updateReview(selected.review_id, { ...result, reply_draft: null })
+    } catch (err) {
+      setReplyError(err instanceof Error ? err.message : 'Failed to send reply')
+    } finally {
+      setReplyBusy(false)
+    }
+  }
+
+  if (loading) return <LoadingSpinner />
+  if (error) return <ErrorMessage message={error} onRetry={loadReviews} />
+
+  const recentSince = new Date(Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  const recent = reviews.filter(review => review.last_modified >= recentSince)
+  const rated = reviews.filter(review => review.star_rating !== null)
+  const averageRating = rated.length > 0
+    ? Math.round(rated.reduce((sum, review) => sum + review.star_rating!, 0) / rated.length * 10) / 10
+    : null
+  const negativeShare = reviews.length > 0
+    ? Math.round(reviews.filter(review => review.sentiment === 'negative').length / reviews.length * 100)
+    : 0
+  const awaitingReply = reviews.filter(review => replyStatus(review) === 'needs_reply').length
+
+  const trend = weeklyRatingTrend(reviews, TREND_WEEKS)
+  const maxWeekly = Math.max(1, ...trend.map(week => week.reviews))
+  const themes = complaintThemes(reviews)
+
+  const filtered = reviews.filter(review =>
+    (!sentiment || review.sentiment === sentiment) &&
+    (!topic || review.topics.includes(topic as ReviewTopic)) &&
+    (!status || replyStatus(review) === status)
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">App Reviews</h1>
+          <p className="text-gray-600">Google Play reviews, what users complain about, and replies</p>
+        </div>
+        {canReply && (
+          <div className="text-right">
+            <button
+              onClick={handleSync}
+              disabled={syncing}
+              className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+              Sync from Google Play
+            </button>
+            {syncMessage && <p className="text-xs text-gray-600 mt-2">{syncMessage}</p>}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <KPICard title="Average Rating" value={averageRating ?? 'N/A'} subtitle={`Across ${rated.length} rated reviews`} icon={Star} />
+        <KPICard title="Recent Reviews" value={recent.length} subtitle={`Last ${RECENT_DAYS} days`} icon={MessageSquare} />
+        <KPICard title="Negative" value={`${negativeShare}%`} subtitle="Of all ingested reviews" icon={ThumbsDown} />
+        <KPICard title="Awaiting Reply" value={awaitingReply} subtitle="Negative or neutral, no reply" icon={Reply} />
+      </div>
+
+      {reviews.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 text-gray-600">
+          No reviews have been ingested yet. Google only lists the last seven days of reviews, so they build up with
+          each sync.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">Weekly rating trend</h2>
+              <div className="flex items-end gap-2 h-48">
+                {trend.map(week => (
+                  <div key={week.week_start} className="flex-1 flex flex-col items-center justify-end h-full">
+                    <span className="text-xs font-medium text-gray-700 mb-1">{week.avg_rating ?? ''}</span>
+                    <div
+                      className="w-full rounded-t"
+                      style={{ height: `${(week.reviews / maxWeekly) * 100}%`, backgroundColor: ratingColor(week.avg_rating) }}
+                      title={`Week of ${week.week_start}: ${week.reviews} reviews, ${week.negative} negative`}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2 mt-2">
+                {trend.map(week => (
+                  <span key={week.week_start} className="flex-1 text-center text-[10px] text-gray-500">{week.week_start.slice(5)}</span>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-3">Bar height is the number of reviews; the label and colour are the average stars.</p>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">Common complaint themes</h2>
+              {themes.length === 0 ? (
+                <p className="text-sm text-gray-600">No negative reviews mention a known topic.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {themes.map(theme => (
+                    <li key={theme.topic}>
+                      <button
+                        onClick={() => setFilters({ topic: theme.topic, sentiment: 'negative' })}
+                        className="w-full text-left"
+                      >
+                        <div className="flex justify-between text-sm">
+                          <span className="font-medium text-gray-800">{theme.label}</span>
+                          <span className="text-gray-600">
+                            {theme.negative_reviews} reviews · {theme.share_of_negative}% · avg {theme.avg_rating ?? 'N/A'}★
+                          </span>
+                        </div>
+                        <div className="h-2 bg-gray-100 rounded mt-1">
+                          <div className="h-2 bg-red-400 rounded" style={{ width: `${theme.share_of_negative}%` }} />
+                        </div>
+                        {theme.example && <p className="text-xs text-gray-500 mt-1 truncate">“{theme.example}”</p>}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+            <div className="xl:col-span-2 bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <h2 className="text-xl font-bold text-gray-900">Reviews ({filtered.length})</h2>
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <select value={sentiment} onChange={e => setFilters({ sentiment: e.target.value })} className="border border-gray-300 rounded-lg px-2 py-1">
+                    <option value="">All sentiment</option>
+                    <option value="positive">Positive</option>
+                    <option value="neutral">Neutral</option>
+                    <option value="negative">Negative</option>
+                  </select>
+                  <select value={topic} onChange={e => setFilters({ topic: e.target.value })} className="border border-gray-300 rounded-lg px-2 py-1">
+                    <option value="">All topics</option>
+                    {(Object.keys(REVIEW_TOPICS) as ReviewTopic[]).map(key => (
+                      <option key={key} value={key}>{REVIEW_TOPICS[key].label}</option>
+                    ))}
+                  </select>
+                  <select value={status} onChange={e => setFilters({ status: e.target.value })} className="border border-gray-300 rounded-lg px-2 py-1">
+                    <option value="">Any reply status</option>
+                    {(Object.keys(STATUS_LABELS) as ReplyStatus[]).map(key => (
+                      <option key={key} value={key}>{STATUS_LABELS[key]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <ul className="divide-y divide-gray-100 max-h-[640px] overflow-y-auto">
+                {filtered.map(review => (
+                  <li key={review.review_id}>
+                    <button
+                      onClick={() => setFilters({ review: review.review_id === selectedId ? '' : review.review_id })}
+                      className={`w-full text-left py-3 px-2 rounded-lg hover:bg-gray-50 ${review.review_id === selectedId ? 'bg-green-50' : ''}`}
+                    >
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
+                        <Stars rating={review.star_rating} />
+                        <span className={`px-2 py-0.5 rounded-full text-xs ${SENTIMENT_STYLES[review.sentiment]}`}>{review.sentiment}</span>
+                        <span className="text-xs text-gray-500">{formatDate(review.last_modified)}</span>
+                        <span className="text-xs text-gray-500 ml-auto">{STATUS_LABELS[replyStatus(review)]}</span>
+                      </div>
+                      <p className="text-sm text-gray-800 line-clamp-2">{review.text || <em className="text-gray-400">Rating only</em>}</p>
+                      {review.topics.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {review.topics.map(key => (
+                            <span key={key} className="px-2 py-0.5 bg-blue-50 text-blue-700 rounded text-xs">{REVIEW_TOPICS[key].label}</span>
+                          ))}
+                        </div>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+              {selected ? (
+                <>
+                  <div className="flex items-start justify-between mb-3">
+                    <div>
+                      <h2 className="text-xl font-bold text-gray-900">{selected.author_name || 'Anonymous'}</h2>
+                      <p className="text-xs text-gray-500">
+                        {formatDate(selected.last_modified)}
+                        {selected.app_version ? ` · v${selected.app_version}` : ''}
+                        {` · score ${selected.sentiment_score}`}
+                      </p>
+                    </div>
+                    <button onClick={() => setFilters({ review: '' })} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+                      <X className="h-5 w-5" />
+                    </button>
+                  </div>
+                  <Stars rating={selected.star_rating} />
+                  <p className="text-sm text-gray-800 mt-2 whitespace-pre-line">{selected.text || 'Rating only, no text.'}</p>
+
+                  {selected.developer_reply && (
+                    <div className="mt-4 p-3 bg-gray-50 rounded-lg text-sm">
+                      <p className="text-xs font-semibold text-gray-500 mb-1">
+                        Our reply{selected.developer_replied_at ? ` · ${formatDate(selected.developer_replied_at)}` : ''}
+                      </p>
+                      <p className="text-gray-800">{selected.developer_reply}</p>
+                    </div>
+                  )}
+
+                  {canReply ? (
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        {selected.developer_reply ? 'Edit reply' : 'Reply'}
+                      </label>
+                      <textarea
+                        value={replyText}
+                        onChange={e => setReplyText(e.target.value)}
+                        rows={5}
+                        className="w-full border border-gray-300 rounded-lg p-2 text-sm"
+                      />
+                      <p className={`text-xs mt-1 ${replyText.trim().length > MAX_REPLY_LENGTH ? 'text-red-600' : 'text-gray-500'}`}>
+                        {replyText.trim().length}/{MAX_REPLY_LENGTH} characters · replies are public on Google Play
+                      </p>
+                      {replyError && <p className="text-sm text-red-600 mt-2">{replyError}</p>}
+                      <div className="flex gap-2 mt-3">
+                        <button
+                          onClick={handleSaveDraft}
+                          disabled={replyBusy}
+                          className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          <Save className="h-4 w-4 mr-1" />
+                          Save draft
+                        </button>
+                        <button
+                          onClick={handleSend}
+                          disabled={replyBusy || !replyText.trim() || replyText.trim().length > MAX_REPLY_LENGTH}
+                          className="inline-flex items-center px-3 py-2 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 disabled:opacity-50"
+                        >
+                          <Send className="h-4 w-4 mr-1" />
+                          {selected.developer_reply ? 'Update reply' : 'Send reply'}
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500 mt-4">Analysts and admins can reply to reviews.</p>
+                  )}
+                </>
+              ) : (
+                <>
+                  <h2 className="text-xl font-bold text-gray-900 mb-2">Reply workflow</h2>
+                  <p className="text-sm text-gray-600">
+                    Pick a review to read it in full and reply. Negative and neutral reviews without a reply are counted as
+                    awaiting reply; filter by "Needs reply" to work through them.
+                  </p>
+                </>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,221 @@
+import { useState, useEffect } from 'react'
+import { School, Users, Award, GraduationCap, Building2, Printer, X } from 'lucide-react'
+import { SearchableTable } from '../components/SearchableTable'
+import { LoadingSpinner } from '../components/LoadingSpinner'
+import { ErrorMessage } from '../components/ErrorMessage'
+import { KPICard } from '../components/KPICard'
+import { useQueryFilters } from '../hooks/useQueryFilters'
+import {
+  SchoolGradeRow,
+  SchoolRanking,
+  buildSchoolReportHtml,
+  fetchSchoolDetail,
+  fetchSchoolRankings,
+  printSchoolReport
+} from '../utils/schoolReports'
+
+const formatValue = (value: number | null, suffix = '') => (value === null ? 'N/A' : `${value}${suffix}`)
+
+export function Schools() {
+  const [rankings, setRankings] = useState<SchoolRanking[]>([])
+  const [matchedAt, setMatchedAt] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [grades, setGrades] = useState<SchoolGradeRow[]>([])
+  const [detailLoading, setDetailLoading] = useState(false)
+  const [detailError, setDetailError] = useState<string | null>(null)
+  const [{ school: schoolKey }, setFilters] = useQueryFilters({ school: '' })
+
+  const fetchRankings = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const result = await fetchSchoolRankings()
+      setRankings(result.rankings)
+      setMatchedAt(result.matchedAt)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch school rankings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchDetail = async () => {
+    if (!schoolKey) return
+    try {
+      setDetailLoading(true)
+      setDetailError(null)
+      setGrades(await fetchSchoolDetail(schoolKey))
+    } catch (err) {
+      setDetailError(err instanceof Error ? err.message : 'Failed to fetch school detail')
+    } finally {
+      setDetailLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchRankings()
+  }, [])
+
+  useEffect(() => {
+    fetchDetail()
+  }, [schoolKey])
+
+  if (loading) return <LoadingSpinner />
+  if (error) return <ErrorMessage message={error} onRetry={fetchRankings} />
+
+  const selected = rankings.find(row => row.school_key === schoolKey) || null
+  const totalLearners = rankings.reduce((sum, row) => sum + row.learners, 0)
+  const apsSchools = rankings.filter(row => row.avg_aps !== null)
+  // Weighted by learners with marks so large schools count for more than one-learner schools
+  const apsWeight = apsSchools.reduce((sum, row) => sum + row.students_with_marks, 0)
+  const overallAps = apsWeight > 0
+    ? Math.round(apsSchools.reduce((sum, row) => sum + row.avg_aps! * row.students_with_marks, 0) / apsWeight * 10) / 10
+    : null
+
+  const handlePrint = () => {
+    if (!selected) return
+    if (!printSchoolReport(buildSchoolReportHtml(selected, grades, matchedAt))) {
+      setDetailError('The report window was blocked. Allow pop-ups for this site and try again.')
+    }
+  }
+
+  const columns = [
+    { key: 'rank', label: '#' },
+    {
+      key: 'school',
+      label: 'School',
+      render: (value: string, row: SchoolRanking) => (
+        <div>
+          <div className="font-medium text-gray-900">{value}</div>
+          {row.province && <div className="text-xs text-gray-500">{row.province}</div>}
+        </div>
+      )
+    },
+    { key: 'learners', label: 'Learners' },
+    { key: 'students_with_marks', label: 'With Marks' },
+    { key: 'avg_aps', label: 'Avg APS', render: (value: number | null) => formatValue(value) },
+    { key: 'avg_average', label: 'Avg Mark', render: (value: number | null) => formatValue(value, '%') },
+    { key: 'university_qualified_pct', label: 'Qualify University', render: (value: number | null) => formatValue(value, '%') },
+    { key: 'tvet_qualified_pct', label: 'Qualify TVET', render: (value: number | null) => formatValue(value, '%') }
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Schools</h1>
+        <p className="text-gray-600">
+          Learner reach and academic outcomes per school. Click a school for its grade breakdown and partner report.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <KPICard title="Schools" value={rankings.length} subtitle="With at least one learner" icon={School} />
+        <KPICard title="Learners" value={totalLearners} subtitle="Learners who named their school" icon={Users} />
+        <KPICard title="Average APS" value={formatValue(overallAps)} subtitle="Across learners with marks" icon={Award} />
+        <KPICard
+          title="Qualification Data"
+          value={matchedAt ? new Date(matchedAt).toLocaleDateString('en-ZA') : 'Not run'}
+          subtitle="Latest matching pipeline run"
+          icon={GraduationCap}
+        />
+      </div>
+
+      {!matchedAt && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+          University and TVET qualification shares appear once the matching pipeline has been run from the Matching Profiles page.
+        </div>
+      )}
+
+      {schoolKey && (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+                <Building2 className="h-6 w-6 mr-2 text-green-600" />
+                {selected?.school || schoolKey}
+              </h2>
+              <p className="text-sm text-gray-500">{selected?.province || 'Province not recorded'}</p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={handlePrint}
+                disabled={!selected || detailLoading}
+                className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                <Printer className="h-4 w-4 mr-2" />
+                Print / Save PDF
+              </button>
+              <button
+                onClick={() => setFilters({ school: '' })}
+                className="p-2 rounded-lg hover:bg-gray-100"
+                aria-label="Close school detail"
+              >
+                <X className="h-5 w-5 text-gray-500" />
+              </button>
+            </div>
+          </div>
+
+          {!selected && <p className="text-sm text-gray-500">This school has no learners on record.</p>}
+
+          {selected && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              {[
+                { label: 'Learners', value: selected.learners },
+                { label: 'Average APS', value: formatValue(selected.avg_aps) },
+                { label: 'Qualify for university', value: formatValue(selected.university_qualified_pct, '%') },
+                { label: 'Qualify for TVET', value: formatValue(selected.tvet_qualified_pct, '%') }
+              ].map(item => (
+                <div key={item.label} className="border border-gray-200 rounded-lg p-4">
+                  <div className="text-xs text-gray-500">{item.label}</div>
+                  <div className="text-xl font-semibold text-gray-900">{item.value}</div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {detailLoading && <LoadingSpinner />}
+          {!detailLoading && detailError && <ErrorMessage message={detailError} onRetry={fetchDetail} />}
+          {!detailLoading && !detailError && grades.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b border-gray-200">
+                    <th className="py-2 pr-3 font-medium">Grade</th>
+                    <th className="py-2 pr-3 font-medium text-right">Learners</th>
+                    <th className="py-2 pr-3 font-medium text-right">With marks</th>
+                    <th className="py-2 pr-3 font-medium text-right">Avg APS</th>
+                    <th className="py-2 pr-3 font-medium text-right">Avg mark</th>
+                    <th className="py-2 pr-3 font-medium text-right">Avg ≥50%</th>
+                    <th className="py-2 font-medium text-right">Maths / Maths Lit</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {grades.map(row => (
+                    <tr key={row.grade} className="border-b border-gray-100">
+                      <td className="py-2 pr-3 text-gray-900">{row.grade}</td>
+                      <td className="py-2 pr-3 text-right text-gray-700">{row.learners}</td>
+                      <td className="py-2 pr-3 text-right text-gray-700">{row.students_with_marks}</td>
+                      <td className="py-2 pr-3 text-right text-gray-700">{formatValue(row.avg_aps)}</td>
+                      <td className="py-2 pr-3 text-right text-gray-700">{formatValue(row.avg_average, '%')}</td>
+                      <td className="py-2 pr-3 text-right text-gray-700">{formatValue(row.pct_ge_50, '%')}</td>
+                      <td className="py-2 text-right text-gray-700">{row.maths_students} / {row.maths_literacy_students}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      <SearchableTable
+        data={rankings.map((row, index) => ({ ...row, rank: index + 1 }))}
+        columns={columns}
+        searchPlaceholder="Search by school or province..."
+        exportFilename="school_rankings"
+        onRowClick={(row: SchoolRanking) => setFilters({ school: row.school_key })}
+      />
+    </div>
+  )
+}
@@ -1,10 +1,20 @@
 import React, { useState, useEffect } from 'react'
-import { Activity, Clock, AlertTriangle, Zap } from 'lucide-react'
+import { Activity, Clock, AlertTriangle, Zap, Scissors, Timer, Users, CalendarDays } from 'lucide-react'
 import { KPICard } from '../components/KPICard'
 import { LoadingSpinner } from '../components/LoadingSpinner'
 import { ErrorMessage } from '../components/ErrorMessage'
 import { SearchableTable } from '../components/SearchableTable'
+import { SessionAlertsPanel } from '../components/SessionAlertsPanel'
+import { SessionLifecyclePanel } from '../components/SessionLifecyclePanel'
+import { SessionTimelineDrawer } from '../components/SessionTimelineDrawer'
 import { supabase } from '../lib/supabase'
+import { useDateRange } from '../contexts/DateRangeContext'
+import { useAuth } from '../contexts/AuthContext'
+import { hasRole } from '../lib/roles'
+import { useQueryFilters } from '../hooks/useQueryFilters'
+import { percentChange, periodDays, toLocalDate } from '../utils/period'
+import { SessionLifecycleSummary, fetchLifecycleSummary } from '../utils/sessionLifecycle'
+import { SessionAnalytics, WEEKDAYS, fetchSessionAnalytics, formatDuration, sessionDurationSeconds } from '../utils/sessionAnalytics'
 
 
 // Types that match your Supabase session table schema
@@ -18,10 +28,10 @@ interface Session {
 
 interface SessionStats {
   active_sessions: number
-  sessions_today: number
-  avg_duration_7d: number
-  crash_rate_7d: number
-  disconnect_rate_7d: number
+  sessions_in_period: number
+  sessions_change: number | null
+  crash_rate: number
+  disconnect_rate: number
 }
 
 interface DailySessionData {
@@ -39,7 +49,7 @@ interface RecentSession {
   start_time: string
   end_time: string | null
   status: string
-  duration_minutes: number
+  duration_seconds: number | null
 }
 
 export function SessionHealth() {
@@ -48,30 +58,37 @@ export function SessionHealth() {
   const [recentSessions, setRecentSessions] = useState<RecentSession[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-
-  const calculateSessionDuration = (startTime: string, endTime: string | null): number => {
-    if (!endTime) return 0
-    const start = new Date(startTime)
-    const end = new Date(endTime)
-    return Math.round((end.getTime() - start.getTime()) / 60000) // minutes
-  }
+  const [lifecycle, setLifecycle] = useState<SessionLifecycleSummary | null>(null)
+  const [analytics, setAnalytics] = useState<SessionAnalytics | null>(null)
+  const { period, comparison } = useDateRange()
+  const { role } = useAuth()
+  const [{ user: timelineUserId }, setFilters] = useQueryFilters({ user: '' })
 
   const fetchSessionHealth = async () => {
     try {
       setLoading(true)
       setError(null)
 
-      // Fetch recent sessions (last 7 days)
-      const today = new Date()
-      const sevenDaysAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000)
-
-      // First fetch sessions
-      const { data: sessionData, error: sessionError } = await supabase
-        .from('sessions')
-        .select('*')
-        .gte('start_time', sevenDaysAgo.toISOString())
+      // Sessions started in the selected period, plus the comparison period's count
+      const [{ data: sessionData, error: sessionError }, previousResult, lifecycleSummary, sessionAnalytics] = await Promise.all([
+        supabase
+          .from('sessions')
+          .select('*')
+          .gte('start_time', period.start.toISOString())
+          .lt('start_time', period.end.toISOString()),
+        comparison
+          ? supabase
+              .from('sessions')
+              .select('*', { count: 'exact', head: true })
+              .gte('start_time', comparison.start.toISOString())
+              .lt('start_time', comparison.end.toISOString())
+          : Promise.resolve(null),
+        fetchLifecycleSummary(period),
+        fetchSessionAnalytics(period)
+      ])
 
       if (sessionError) throw sessionError
+      if (previousResult?.error) throw previousResult.error
       if (!sessionData) return
 
       console.log('📊 Session Analytics -', {
@@ -85,23 +102,8 @@ export function SessionHealth() {
       // Active sessions (without end_time)
       const activeSessions = sessions.filter((s: Session) => !s.end_time)
       
-      // Sessions from today
-      const sessionsToday = sessions.filter((s: Session) =>
-        new Date(s.start_time).toDateString() === today.toDateString()
-      )
-      
-      // Completed sessions (with end_time)
-      const completedSessions = sessions.filter((s: Session) => {
-        if (!s.end_time) return false
-        const duration = calculateSessionDuration(s.start_time, s.end_time)
-        return s.end_time && duration > 0
-      })
-      
-      // Calculate average duration (from completed sessions)
-      const avgDuration = completedSessions.length > 0
-        ? completedSessions.reduce((sum, s: Session) =>
-            sum + calculateSessionDuration(s.start_time, s.end_time!), 0) / completedSessions.length
-        : 0
+      // Ended sessions (end_time after start_time); durations come from the analytics functions
+      const completedSessions = sessions.filter((s: Session) => sessionDurationSeconds(s.start_time, s.end_time) !== null)
       
       // Calculate crash/disconnect rates
       const crashedSessions = sessions.filter((s: Session) => s.status === 'crashed')
@@ -116,26 +118,27 @@ export function SessionHealth() {
       // Build real-time stats
       const realStats: SessionStats = {
         active_sessions: activeSessions.length,
-        sessions_today: sessionsToday.length,
-        avg_duration_7d: Math.round(avgDuration * 10) / 10, // Round to 1 decimal
-        crash_rate_7d: Math.round(crashRate * 10) / 10,
-        disconnect_rate_7d: Math.round(disconnectRate * 10) / 10
+        sessions_in_period: sessions.length,
+        sessions_change: previousResult ? percentChange(sessions.length, previousResult.count || 0) : null,
+        crash_rate: Math.round(crashRate * 10) / 10,
+        disconnect_rate: Math.round(disconnectRate * 10) / 10
       }
 
-      // Build daily data
+      // Build daily data by South African calendar day, including days without sessions
       const dailySessions: Record<string, DailySessionData> = {}
-      sessions.forEach((session: Session) => {
-        const date = new Date(session.start_time).toISOString().split('T')[0]
-        if (!dailySessions[date]) {
-          dailySessions[date] = {
-            date,
-            total_sessions: 0,
-            completed: 0,
-            active: 0,
-            disconnected: 0,
-            crashed: 0
-          }
+      periodDays(period).forEach(date => {
+        dailySessions[date] = {
+          date,
+          total_sessions: 0,
+          completed: 0,
+          active: 0,
+          disconnected: 0,
+          crashed: 0
         }
+      })
+      sessions.forEach((session: Session) => {
+        const date = toLocalDate(new Date(session.start_time))
+        if (!dailySessions[date]) return
         
         dailySessions[date].total_sessions++
         
@@ -150,10 +153,9 @@ export function SessionHealth() {
         }
       })
 
-      // Sort daily data chronologically and get last 7 days
+      // Sort daily data chronologically
       const sortedDaily = Object.values(dailySessions)
-        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-        .slice(-7)
+        .sort((a, b) => a.date.localeCompare(b.date))
 
       // Prepare recent sessions for table
       const recent = sessions
@@ -165,10 +167,12 @@ export function SessionHealth() {
           start_time: session.start_time,
           end_time: session.end_time,
           status: session.status,
-          duration_minutes: calculateSessionDuration(session.start_time, session.end_time)
+          duration_seconds: sessionDurationSeconds(session.start_time, session.end_time)
         }))
 
       setStats(realStats)
+      setLifecycle(lifecycleSummary)
+      setAnalytics(sessionAnalytics)
       setDailyData(sortedDaily)
       setRecentSessions(recent)
     } catch (err) {
@@ -180,7 +184,7 @@ export function SessionHealth() {
 
   useEffect(() => {
     fetchSessionHealth()
-  }, [])
+  }, [period, comparison])
 
   const columns = [
     { key: 'session_id', label: 'Session ID' },
@@ -230,9 +234,9 @@ export function SessionHealth() {
       )
     },
     { 
-      key: 'duration_minutes', 
-      label: 'Duration (min)',
-      render: (value: number) => value > 0 ? value.toString() : '-'
+      key: 'duration_seconds', 
+      label: 'Duration',
+      render: (value: number | null) => value !== null ? formatDuration(value) : '-'
     },
   ]
 
@@ -252,44 +256,55 @@ export function SessionHealth() {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-6">
         <KPICard
           title="Active Sessions"
           value={stats?.active_sessions || 0}
-          subtitle="Currently active"
+          subtitle="Started in period, not yet ended"
           icon={Activity}
         />
         <KPICard
-          title="Sessions Today"
-          value={stats?.sessions_today || 0}
-          subtitle="Started today"
+          title="Auto-closed"
+          value={lifecycle?.auto_closed || 0}
+          subtitle={`Idle sessions closed by the reaper; ${lifecycle?.merged || 0} merged`}
+          icon={Scissors}
+        />
+        <KPICard
+          title="Sessions"
+          value={stats?.sessions_in_period || 0}
+          subtitle={period.label}
           icon={Zap}
+          trend={stats?.sessions_change != null ? { value: stats.sessions_change, isPositive: stats.sessions_change >= 0 } : undefined}
         />
         <KPICard
-          title="Avg Duration"
-          value={`${stats?.avg_duration_7d || 0}m`}
-          subtitle="Last 7 days"
-          icon={Clock}
+          title="Median Duration"
+          value={formatDuration(analytics?.stats.p50_seconds ?? null)}
+          subtitle={`Mean ${formatDuration(analytics?.stats.mean_seconds ?? null)} · ${period.label}`}
+          icon={Timer}
         />
         <KPICard
           title="Crash Rate"
-          value={`${stats?.crash_rate_7d || 0}%`}
-          subtitle="Last 7 days"
+          value={`${stats?.crash_rate || 0}%`}
+          subtitle={period.label}
           icon={AlertTriangle}
         />
         <KPICard
           title="Disconnect Rate"
-          value={`${stats?.disconnect_rate_7d || 0}%`}
-          subtitle="Last 7 days"
+          value={`${stats?.disconnect_rate || 0}%`}
+          subtitle={period.label}
           icon={AlertTriangle}
         />
       </div>
 
+      {hasRole(role, 'admin') && <SessionLifecyclePanel lastRunAt={lifecycle?.last_run_at ?? null} onRun={fetchSessionHealth} />}
+
+      <SessionAlertsPanel />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 hover:shadow-xl transition-shadow duration-300">
           <h2 className="text-xl font-bold text-gray-900 mb-6 flex items-center">
             <Activity className="h-5 w-5 mr-2 text-green-600" />
-            Daily Sessions by Status (Last 7 Days)
+            Daily Sessions by Status ({period.label})
           </h2>
           <div className="space-y-3">
             {dailyData.map((day: DailySessionData, index: number) => {
@@ -297,7 +312,7 @@ export function SessionHealth() {
               return (
                 <div key={day.date} className="flex items-center space-x-4">
                   <div className="w-16 text-sm font-medium text-gray-700">
-                    {new Date(day.date).toLocaleDateString('en-US', {
+                    {new Date(`${day.date}T12:00:00`).toLocaleDateString('en-US', {
                       month: 'short',
                       day: '2-digit'
                     })}
@@ -370,52 +385,38 @@ export function SessionHealth() {
         </div>
 
         <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 hover:shadow-xl transition-shadow duration-300">
-          <h2 className="text-xl font-bold text-gray-900 mb-6 flex items-center">
+          <h2 className="text-xl font-bold text-gray-900 mb-2 flex items-center">
             <Clock className="h-5 w-5 mr-2 text-green-600" />
-            Session Duration Distribution (Last 7 Days)
+            Session Duration Distribution ({period.label})
           </h2>
+          <p className="text-sm text-gray-600 mb-6">
+            {analytics?.stats.measured_sessions || 0} ended sessions ·
+            p50 {formatDuration(analytics?.stats.p50_seconds ?? null)} ·
+            p90 {formatDuration(analytics?.stats.p90_seconds ?? null)} ·
+            p99 {formatDuration(analytics?.stats.p99_seconds ?? null)} ·
+            longest {formatDuration(analytics?.stats.max_seconds ?? null)}
+          </p>
           <div className="space-y-3">
-            {(() => {
-              // Calculate duration distribution from real data
-              const completedWithDuration = recentSessions.filter((s: RecentSession) => s.duration_minutes > 0)
-              const durationBuckets = [
-                { range: '0-5 min', min: 0, max: 5 },
-                { range: '5-15 min', min: 5, max: 15 },
-                { range: '15-30 min', min: 15, max: 30 },
-                { range: '30-60 min', min: 30, max: 60 },
-                { range: '60+ min', min: 60, max: Infinity }
-              ]
-              
-              const counts = durationBuckets.map((bucket: { range: string; min: number; max: number }) => ({
-                range: bucket.range,
-                count: completedWithDuration.filter((s: RecentSession) =>
-                  s.duration_minutes > bucket.min && s.duration_minutes <= bucket.max
-                ).length
-              }))
-              
-              const totalCompleted = counts.reduce((sum, bucket: { count: number }) => sum + bucket.count, 0)
-              
-              return counts.map(bucket => ({
-                ...bucket,
-                percentage: totalCompleted > 0 ? Math.round((bucket.count / totalCompleted) * 100) : 0
-              })).map((bucket: { range: string; count: number; percentage: number }) => (
-                <div key={bucket.range} className="flex items-center space-x-4">
-                  <div className="w-20 text-sm font-medium text-gray-700">{bucket.range}</div>
+            {(analytics?.histogram || []).map(bucket => {
+              const measured = analytics?.stats.measured_sessions || 0
+              const percentage = measured > 0 ? Math.round((bucket.sessions / measured) * 100) : 0
+              return (
+                <div key={bucket.label} className="flex items-center space-x-4">
+                  <div className="w-20 text-sm font-medium text-gray-700">{bucket.label}</div>
                   <div className="flex-1">
                     <div className="bg-gray-200 rounded-full h-4 shadow-inner">
                       <div
                         className="bg-gradient-to-r from-green-500 to-green-600 h-4 rounded-full transition-all duration-500 shadow-sm"
-                        style={{ width: `${bucket.percentage}%` }}
+                        style={{ width: `${percentage}%` }}
+                        title={`${percentage}% of ended sessions`}
                       />
                     </div>
                   </div>
-                  <div className="w-16 text-sm font-semibold text-gray-700 text-right">
-                    {bucket.count > 0 ? bucket.count : '0'}
-                  </div>
+                  <div className="w-16 text-sm font-semibold text-gray-700 text-right">{bucket.sessions}</div>
                 </div>
-              ))
-            })()}
-            {recentSessions.filter((s: RecentSession) => s.duration_minutes > 0).length === 0 && (
+              )
+            })}
+            {!analytics?.stats.measured_sessions && (
               <div className="text-center text-gray-500 py-8">
                 <Clock className="mx-auto h-12 w-12 mb-2 opacity-50" />
                 <p>No completed sessions with duration data available</p>
@@ -425,12 +426,86 @@ export function SessionHealth() {
         </div>
       </div>
 
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 hover:shadow-xl transition-shadow duration-300">
+          <h2 className="text-xl font-bold text-gray-900 mb-6 flex items-center">
+            <Users className="h-5 w-5 mr-2 text-green-600" />
+            Sessions per User
+          </h2>
+          <div className="space-y-3">
+            {(() => {
+              const buckets = analytics?.sessionsPerUser || []
+              const users = buckets.reduce((sum, bucket) => sum + bucket.users, 0)
+              return buckets.map(bucket => (
+                <div key={bucket.label} className="flex items-center space-x-4">
+                  <div className="w-12 text-sm font-medium text-gray-700">{bucket.label}</div>
+                  <div className="flex-1">
+                    <div className="bg-gray-200 rounded-full h-4 shadow-inner">
+                      <div
+                        className="bg-gradient-to-r from-blue-500 to-blue-600 h-4 rounded-full transition-all duration-500 shadow-sm"
+                        style={{ width: `${users > 0 ? (bucket.users / users) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                  <div className="w-12 text-sm font-semibold text-gray-700 text-right">{bucket.users}</div>
+                </div>
+              ))
+            })()}
+          </div>
+        </div>
+
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-lg border border-gray-100 p-6 hover:shadow-xl transition-shadow duration-300">
+          <h2 className="text-xl font-bold text-gray-900 mb-6 flex items-center">
+            <CalendarDays className="h-5 w-5 mr-2 text-green-600" />
+            Session Starts by Weekday and Hour
+          </h2>
+          <div className="overflow-x-auto">
+            {(() => {
+              const grid = analytics?.heatmap || []
+              const peak = Math.max(1, ...grid.flat())
+              return (
+                <table className="text-xs">
+                  <thead>
+                    <tr>
+                      <th />
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <th key={hour} className="font-normal text-gray-500 px-0.5">{hour % 3 === 0 ? hour : ''}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {grid.map((row, day) => (
+                      <tr key={WEEKDAYS[day]}>
+                        <td className="pr-2 font-medium text-gray-700">{WEEKDAYS[day]}</td>
+                        {row.map((count, hour) => (
+                          <td key={hour} className="p-0.5">
+                            <div
+                              className="h-5 w-5 rounded bg-green-600"
+                              style={{ opacity: count > 0 ? 0.15 + 0.85 * (count / peak) : 0.05 }}
+                              title={`${WEEKDAYS[day]} ${String(hour).padStart(2, '0')}:00 – ${count} sessions`}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )
+            })()}
+          </div>
+          <p className="text-xs text-gray-500 mt-3">South African time. Darker cells had more sessions start.</p>
+        </div>
+      </div>
+
       <SearchableTable
         data={recentSessions}
         columns={columns}
         searchPlaceholder="Search sessions by ID..."
         exportFilename="recent_sessions"
+        onRowClick={row => setFilters({ user: row.user_id })}
       />
+
+      {timelineUserId && <SessionTimelineDrawer userId={timelineUserId} onClose={() => setFilters({ user: '' })} />}
     </div>
   )
 }
\ No newline at end of file
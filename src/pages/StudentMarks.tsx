@@ -1,11 +1,15 @@
 import React, { useState, useEffect } from 'react'
-import { User, BookOpen, Calculator, Globe, Award } from 'lucide-react'
+import { User, BookOpen, Calculator, Globe, Award, Layers, Sigma } from 'lucide-react'
 import { SearchableTable } from '../components/SearchableTable'
 import { LoadingSpinner } from '../components/LoadingSpinner'
 import { ErrorMessage } from '../components/ErrorMessage'
 import { KPICard } from '../components/KPICard'
-import { supabase } from '../lib/supabase'
+import { StudentMatchDrawer } from '../components/StudentMatchDrawer'
+import { fetchAllRows } from '../utils/fetchAllRows'
+import { fetchAvailablePrograms } from '../utils/matchingPipeline'
+import { LEVEL_FIELDS, LevelField, SUBJECT_PASS_MARK, SubjectInsights, fetchSubjectInsights } from '../utils/subjectInsights'
 import { formatNumericDisplay, safeNumberParse } from '../utils/dataConsistency'
+import type { AvailableProgram } from '../types'
 
 interface StudentMark {
   user_id: string                              // uuid (primary identifier)
@@ -47,23 +51,30 @@ interface StudentStats {
   high_achievers: number
 }
 
+const LEVEL_COLORS = ['bg-red-500', 'bg-red-400', 'bg-orange-400', 'bg-yellow-400', 'bg-blue-400', 'bg-blue-600', 'bg-green-600']
+
 export function StudentMarks() {
   const [students, setStudents] = useState<StudentMark[]>([])
   const [stats, setStats] = useState<StudentStats | null>(null)
+  const [insights, setInsights] = useState<SubjectInsights | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [selectedStudent, setSelectedStudent] = useState<StudentMark | null>(null)
+  const [programs, setPrograms] = useState<AvailableProgram[] | null>(null)
+  const [programsLoading, setProgramsLoading] = useState(false)
+  const [programsError, setProgramsError] = useState<string | null>(null)
 
   const fetchStudentMarks = async () => {
     try {
       setLoading(true)
       setError(null)
 
-      // Fetch all student marks
-      const { data: studentsData, error: studentsError } = await supabase
-        .from('user_marks')
-        .select('*')
-
-      if (studentsError) throw studentsError
+      // Every student's marks, paged past the 1000-row cap, plus the server-side subject aggregates
+      const [studentsData, subjectInsights] = await Promise.all([
+        fetchAllRows<StudentMark>('user_marks'),
+        fetchSubjectInsights()
+      ])
+      setInsights(subjectInsights)
 
       // Client-side sorting for better control and consistency
       const sortedStudents = studentsData 
@@ -133,6 +144,24 @@ export function StudentMarks() {
     }
   }
 
+  // Programmes are only needed once a student is opened, and are shared by every drawer after that
+  const loadPrograms = async () => {
+    try {
+      setProgramsLoading(true)
+      setProgramsError(null)
+      setPrograms(await fetchAvailablePrograms())
+    } catch (err) {
+      setProgramsError(err instanceof Error ? err.message : 'Failed to load programmes')
+    } finally {
+      setProgramsLoading(false)
+    }
+  }
+
+  const openStudent = (student: StudentMark) => {
+    setSelectedStudent(student)
+    if (!programs && !programsLoading) loadPrograms()
+  }
+
   useEffect(() => {
     fetchStudentMarks()
   }, [])
@@ -263,7 +292,7 @@ export function StudentMarks() {
     <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-bold text-gray-900 mb-2">Student Academic Records</h1>
-        <p className="text-gray-600">Comprehensive view of student performance across all subjects</p>
+        <p className="text-gray-600">Comprehensive view of student performance across all subjects. Click a student to see their programme matches.</p>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -382,12 +411,150 @@ export function StudentMarks() {
         </div>   
       </div>
 
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-1 flex items-center">
+          <BookOpen className="h-5 w-5 mr-2 text-green-600" />
+          Elective Subject Insights
+        </h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Subjects 1–4 grouped by subject name; a pass is {SUBJECT_PASS_MARK}% or more (NSC level 2)
+        </p>
+        {insights && insights.subjects.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-3 font-medium">Subject</th>
+                  <th className="py-2 pr-3 font-medium text-right">Students</th>
+                  <th className="py-2 pr-3 font-medium w-1/3">Average</th>
+                  <th className="py-2 pr-3 font-medium text-right">Pass rate</th>
+                  <th className="py-2 pr-3 font-medium text-right">≥50%</th>
+                  <th className="py-2 font-medium text-right">≥70%</th>
+                </tr>
+              </thead>
+              <tbody>
+                {insights.subjects.map(subject => (
+                  <tr key={subject.subject} className="border-b border-gray-100">
+                    <td className="py-2 pr-3 text-gray-900">{subject.subject}</td>
+                    <td className="py-2 pr-3 text-right text-gray-700">{subject.students.toLocaleString()}</td>
+                    <td className="py-2 pr-3">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 bg-gray-200 rounded-full h-2">
+                          <div
+                            className={`h-2 rounded-full ${
+                              subject.avg_mark >= 70 ? 'bg-green-500' : subject.avg_mark >= 50 ? 'bg-yellow-500' : 'bg-red-500'
+                            }`}
+                            style={{ width: `${Math.min(subject.avg_mark, 100)}%` }}
+                          />
+                        </div>
+                        <span className="w-12 text-right text-gray-700">{subject.avg_mark}%</span>
+                      </div>
+                    </td>
+                    <td className="py-2 pr-3 text-right text-gray-700">{subject.pass_rate}%</td>
+                    <td className="py-2 pr-3 text-right text-gray-700">{subject.pct_ge_50}%</td>
+                    <td className="py-2 text-right text-gray-700">{subject.pct_ge_70}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No elective subject marks recorded yet</p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
+          <Sigma className="h-5 w-5 mr-2 text-green-600" />
+          Mathematics vs Mathematical Literacy
+        </h2>
+        {insights && insights.mathTypes.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {insights.mathTypes.map(type => (
+              <div key={type.math_type} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-baseline justify-between mb-3">
+                  <h3 className="font-semibold text-gray-900">{type.math_type}</h3>
+                  <span className="text-sm text-gray-500">{type.students.toLocaleString()} students</span>
+                </div>
+                <dl className="grid grid-cols-2 gap-y-2 text-sm">
+                  <dt className="text-gray-500">Average mark</dt>
+                  <dd className="text-right font-medium text-gray-900">{type.avg_math_mark}%</dd>
+                  <dt className="text-gray-500">Median mark</dt>
+                  <dd className="text-right font-medium text-gray-900">{type.median_math_mark}%</dd>
+                  <dt className="text-gray-500">Pass rate</dt>
+                  <dd className="text-right font-medium text-gray-900">{type.pass_rate}%</dd>
+                  <dt className="text-gray-500">50% or more</dt>
+                  <dd className="text-right font-medium text-gray-900">{type.pct_ge_50}%</dd>
+                  <dt className="text-gray-500">Overall average</dt>
+                  <dd className="text-right font-medium text-gray-900">{type.avg_average != null ? `${type.avg_average}%` : 'N/A'}</dd>
+                  <dt className="text-gray-500">Average APS</dt>
+                  <dd className="text-right font-medium text-gray-900">{type.avg_aps ?? 'N/A'}</dd>
+                </dl>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No maths marks recorded yet</p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
+          <Layers className="h-5 w-5 mr-2 text-green-600" />
+          NSC Level Distribution
+        </h2>
+        <div className="space-y-3">
+          {(Object.keys(LEVEL_FIELDS) as LevelField[])
+            .filter(field => insights?.levels[field])
+            .map(field => {
+              const counts = insights!.levels[field]!
+              const total = counts.reduce((sum, count) => sum + count, 0)
+              return (
+                <div key={field} className="flex items-center space-x-4">
+                  <div className="w-48 text-sm font-medium text-gray-700">{LEVEL_FIELDS[field]}</div>
+                  <div className="flex-1 flex h-4 rounded-full overflow-hidden bg-gray-200">
+                    {counts.map((count, index) => (
+                      <div
+                        key={index}
+                        className={LEVEL_COLORS[index]}
+                        style={{ width: `${total > 0 ? (count / total) * 100 : 0}%` }}
+                        title={`Level ${index + 1}: ${count} students`}
+                      />
+                    ))}
+                  </div>
+                  <div className="w-16 text-xs font-semibold text-gray-700 text-right">{total.toLocaleString()}</div>
+                </div>
+              )
+            })}
+        </div>
+        <div className="flex flex-wrap gap-3 mt-4 text-xs text-gray-600">
+          {LEVEL_COLORS.map((color, index) => (
+            <span key={color} className="flex items-center">
+              <span className={`inline-block w-3 h-3 rounded-sm mr-1 ${color}`} />
+              Level {index + 1}
+            </span>
+          ))}
+        </div>
+      </div>
+
       <SearchableTable
         data={students}
         columns={columns}
         searchPlaceholder="Search by student ID, subject, or language..."
         exportFilename="student_marks"
+        onRowClick={openStudent}
       />
+
+      {selectedStudent && (
+        <StudentMatchDrawer
+          student={selectedStudent}
+          programs={programs}
+          loading={programsLoading}
+          error={programsError}
+          onRetry={loadPrograms}
+          onClose={() => setSelectedStudent(null)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
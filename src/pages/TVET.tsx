@@ -3,6 +3,7 @@ import { SearchableTable } from "../components/SearchableTable";
 import { LoadingSpinner } from "../components/LoadingSpinner";
 import { ErrorMessage } from "../components/ErrorMessage";
 import { supabase } from "../lib/supabase";
+import { useQueryFilters } from "../hooks/useQueryFilters";
 import { ChevronDown } from "lucide-react";
 
 interface TVETCollege {
@@ -17,9 +18,16 @@ export function TVET() {
   const [colleges, setColleges] = useState<TVETCollege[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedCollege, setSelectedCollege] = useState<string>("all");
-  const [selectedFaculty, setSelectedFaculty] = useState<string>("all");
-  const [selectedAPS, setSelectedAPS] = useState<string>("all");
+  const [filters, setFilters] = useQueryFilters({
+    college: "all",
+    faculty: "all",
+    aps: "all",
+  });
+  const {
+    college: selectedCollege,
+    faculty: selectedFaculty,
+    aps: selectedAPS,
+  } = filters;
 
   const fetchTVETColleges = async () => {
     try {
@@ -149,10 +157,9 @@ export function TVET() {
             <div className="relative">
               <select
                 value={selectedCollege}
-                onChange={(e) => {
-                  setSelectedCollege(e.target.value);
-                  setSelectedFaculty("all");
-                }}
+                onChange={(e) =>
+                  setFilters({ college: e.target.value, faculty: "all" })
+                }
                 className="w-full appearance-none px-4 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
               >
                 <option value="all">All TVET Colleges</option>
@@ -173,7 +180,7 @@ export function TVET() {
             <div className="relative">
               <select
                 value={selectedFaculty}
-                onChange={(e) => setSelectedFaculty(e.target.value)}
+                onChange={(e) => setFilters({ faculty: e.target.value })}
                 className="w-full appearance-none px-4 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
               >
                 <option value="all">All Faculties</option>
@@ -194,7 +201,7 @@ export function TVET() {
             <div className="relative">
               <select
                 value={selectedAPS}
-                onChange={(e) => setSelectedAPS(e.target.value)}
+                onChange={(e) => setFilters({ aps: e.target.value })}
                 className="w-full appearance-none px-4 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
               >
                 {apsRanges.map((range) => (
@@ -212,11 +219,9 @@ export function TVET() {
           selectedFaculty !== "all" ||
           selectedAPS !== "all") && (
           <button
-            onClick={() => {
-              setSelectedCollege("all");
-              setSelectedFaculty("all");
-              setSelectedAPS("all");
-            }}
+            onClick={() =>
+              setFilters({ college: "all", faculty: "all", aps: "all" })
+            }
             className="mt-4 text-sm text-blue-600 hover:text-blue-700 font-medium"
           >
             Clear all filters
@@ -3,6 +3,7 @@ import { SearchableTable } from '../components/SearchableTable'
 import { LoadingSpinner } from '../components/LoadingSpinner'
 import { ErrorMessage } from '../components/ErrorMessage'
 import { supabase } from '../lib/supabase'
+import { useQueryFilters } from '../hooks/useQueryFilters'
 import { ChevronDown } from 'lucide-react'
 
 
@@ -19,9 +20,8 @@ export function Universities() {
   const [universities, setUniversities] = useState<University[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [selectedUniversity, setSelectedUniversity] = useState<string>('all')
-  const [selectedFaculty, setSelectedFaculty] = useState<string>('all')
-  const [selectedAPS, setSelectedAPS] = useState<string>('all')
+  const [filters, setFilters] = useQueryFilters({ university: 'all', faculty: 'all', aps: 'all' })
+  const { university: selectedUniversity, faculty: selectedFaculty, aps: selectedAPS } = filters
 
   const fetchUniversities = async () => {
     try {
@@ -127,10 +127,7 @@ export function Universities() {
             <div className="relative">
               <select
                 value={selectedUniversity}
-                onChange={(e) => {
-                  setSelectedUniversity(e.target.value)
-                  setSelectedFaculty('all')
-                }}
+                onChange={(e) => setFilters({ university: e.target.value, faculty: 'all' })}
                 className="w-full appearance-none px-4 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
               >
                 <option value="all">All Universities</option>
@@ -149,7 +146,7 @@ export function Universities() {
             <div className="relative">
               <select
                 value={selectedFaculty}
-                onChange={(e) => setSelectedFaculty(e.target.value)}
+                onChange={(e) => setFilters({ faculty: e.target.value })}
                 className="w-full appearance-none px-4 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
               >
                 <option value="all">All Faculties</option>
@@ -168,7 +165,7 @@ export function Universities() {
             <div className="relative">
               <select
                 value={selectedAPS}
-                onChange={(e) => setSelectedAPS(e.target.value)}
+                onChange={(e) => setFilters({ aps: e.target.value })}
                 className="w-full appearance-none px-4 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
               >
                 {apsRanges.map(range => (
@@ -182,11 +179,7 @@ export function Universities() {
 
         {(selectedUniversity !== 'all' || selectedFaculty !== 'all' || selectedAPS !== 'all') && (
           <button
-            onClick={() => {
-              setSelectedUniversity('all')
-              setSelectedFaculty('all')
-              setSelectedAPS('all')
-            }}
+            onClick={() => setFilters({ university: 'all', faculty: 'all', aps: 'all' })}
             className="mt-4 text-sm text-blue-600 hover:text-blue-700 font-medium"
           >
             Clear all filters
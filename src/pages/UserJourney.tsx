@@ -1,122 +1,147 @@
-import React, { useState, useEffect } from 'react'
-import { Users, Target } from 'lucide-react'
+import { useState, useEffect } from 'react'
+import { Users, Target, TrendingDown, Clock } from 'lucide-react'
 import { KPICard } from '../components/KPICard'
 import { LoadingSpinner } from '../components/LoadingSpinner'
 import { ErrorMessage } from '../components/ErrorMessage'
 import { SearchableTable } from '../components/SearchableTable'
 import { supabase } from '../lib/supabase'
+import { useQueryFilters } from '../hooks/useQueryFilters'
+import { useDateRange } from '../contexts/DateRangeContext'
 
-interface FunnelStats {
-  sessions_started: number
-  conv_sessions: number
-  successful_matches: number
-  conversion_rate_percent: number
+// Funnel steps understood by get_user_funnel, in their natural order
+const FUNNEL_STEPS = [
+  { key: 'signed_up', label: 'Signed up', description: 'Profile row created' },
+  { key: 'created_profile', label: 'Created profile', description: 'Name, school and grade filled in' },
+  { key: 'entered_marks', label: 'Entered marks', description: 'First marks saved in user_marks' },
+  { key: 'career_quest', label: 'Completed career quest', description: 'Career quest flag set on the profile' },
+  { key: 'viewed_matches', label: 'Viewed matches', description: 'Opened a programme matches page' },
+  { key: 'saved_or_applied', label: 'Saved or applied', description: 'Saved or applied to a programme' }
+] as const
+
+type StepKey = typeof FUNNEL_STEPS[number]['key']
+
+interface FunnelStep {
+  step_order: number
+  step_key: StepKey
+  label: string
+  users: number
+  pct_of_first: number
+  dropped: number
+  drop_off_pct: number
+  median_hours_from_previous: number | null
 }
 
-interface CohortData {
-  cohort_date: string
-  sessions: number
-  conv_sessions: number
-  successful_matches: number
-  conversion_rate: number
+const FUNNEL_COLORS = ['bg-blue-600', 'bg-blue-500', 'bg-indigo-500', 'bg-purple-500', 'bg-fuchsia-500', 'bg-pink-500']
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return '—'
+  if (hours < 1) return `${Math.round(hours * 60)}m`
+  if (hours < 48) return `${Math.round(hours * 10) / 10}h`
+  return `${Math.round(hours / 24)}d`
 }
 
+const stepLabel = (key: string) => FUNNEL_STEPS.find(step => step.key === key)?.label ?? key
+
 export function UserJourney() {
-  const [funnelStats, setFunnelStats] = useState<FunnelStats | null>(null)
-  const [cohortData, setCohortData] = useState<CohortData[]>([])
+  const [funnel, setFunnel] = useState<FunnelStep[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  // The cohort is everyone who signed up in the selected period
+  const { period } = useDateRange()
+  // steps is a comma-separated list of step keys
+  const [filters, setFilters] = useQueryFilters<{ steps: string }>({
+    steps: FUNNEL_STEPS.map(step => step.key).join(',')
+  })
+
+  const selectedSteps = FUNNEL_STEPS
+    .map(step => step.key)
+    .filter(key => filters.steps.split(',').includes(key))
 
   const fetchJourneyData = async () => {
     try {
       setLoading(true)
       setError(null)
-      
-      // Fetch total session count from Supabase sessions table
-      let sessionCount = 0
-      try {
-        const { count, error: sessionError } = await supabase
-          .from('sessions')
-          .select('*', { count: 'exact', head: true })
-        
-        if (!sessionError) {
-          sessionCount = count || 0
-          console.log('Sessions count from database:', sessionCount)
-        } else {
-          console.warn('Sessions count error, using fallback:', sessionError.message)
-        }
-      } catch (sessionErr) {
-        console.warn('Session query failed:', sessionErr)
-      }
-      
-      // Fetch successful matches count
-      let matchesCount = 0
-      try {
-        const { count, error: matchError } = await supabase
-          .from('student_university_matches')
-          .select('institution_name, student_id', { count: 'exact', head: true })
-        
-        if (!matchError) {
-          matchesCount = count || 0
-          console.log('Matches count from database:', matchesCount)
-        } else {
-          console.warn('Matches count error:', matchError.message)
-        }
-      } catch (matchTableError) {
-        console.warn('Matches table query failed:', matchTableError)
+
+      if (selectedSteps.length === 0) {
+        setFunnel([])
+        return
       }
-      
-      // Use the correct expected session count or defaults
-      const sessionsStarted = sessionCount > 0 ? sessionCount : 42097
-      const successfulMatches = matchesCount || 0
-      const conversionRate = sessionsStarted > 0 ? (successfulMatches / sessionsStarted) * 100 : 0
-      
-      console.log('Final calculated:', {
-        sessions: sessionsStarted,
-        matches: successfulMatches,
-        conversion: conversionRate
-      })
-      
-      setFunnelStats({
-        sessions_started: sessionsStarted,
-        conv_sessions: successfulMatches,
-        successful_matches: successfulMatches,
-        conversion_rate_percent: Math.round(conversionRate * 10) / 10
+
+      const { data, error } = await supabase.rpc('get_user_funnel', {
+        p_signup_start: period.start.toISOString(),
+        p_signup_end: period.end.toISOString(),
+        p_steps: selectedSteps
       })
-      
-      setLoading(false)
+
+      if (error) throw error
+
+      const rows = (data || []) as { step_order: number; step_key: StepKey; users: number; median_hours_from_previous: number | null }[]
+      const firstStepUsers = Number(rows[0]?.users || 0)
+      setFunnel(rows.map((row, i) => {
+        const users = Number(row.users)
+        const previousUsers = i > 0 ? Number(rows[i - 1].users) : users
+        return {
+          step_order: row.step_order,
+          step_key: row.step_key,
+          label: stepLabel(row.step_key),
+          users,
+          pct_of_first: firstStepUsers > 0 ? Math.round((users / firstStepUsers) * 1000) / 10 : 0,
+          dropped: previousUsers - users,
+          drop_off_pct: previousUsers > 0 ? Math.round(((previousUsers - users) / previousUsers) * 1000) / 10 : 0,
+          // numeric columns arrive as strings
+          median_hours_from_previous: row.median_hours_from_previous != null ? Number(row.median_hours_from_previous) : null
+        }
+      }))
+
+      console.log('📊 Funnel loaded -', { from: period.from, to: period.to, steps: selectedSteps.length })
     } catch (err) {
       setError('Unable to load user journey data: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
       setLoading(false)
     }
   }
 
   useEffect(() => {
     fetchJourneyData()
-  }, [])
+  }, [period, filters.steps])
+
+  const toggleStep = (key: StepKey) => {
+    const next = selectedSteps.includes(key)
+      ? selectedSteps.filter(step => step !== key)
+      : FUNNEL_STEPS.map(step => step.key).filter(step => step === key || selectedSteps.includes(step))
+    setFilters({ steps: next.join(',') })
+  }
+
+  const firstStep = funnel[0]
+  const lastStep = funnel[funnel.length - 1]
+  const biggestDrop = funnel.slice(1).reduce<FunnelStep | null>(
+    (worst, step) => (!worst || step.drop_off_pct > worst.drop_off_pct ? step : worst),
+    null
+  )
 
   const columns = [
-    { 
-      key: 'cohort_date', 
-      label: 'Cohort Week',
-      render: (value: string) => new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
-    },
-    { key: 'sessions', label: 'Sessions' },
-    { key: 'conv_sessions', label: 'Conv. Sessions' },
-    { key: 'successful_matches', label: 'Successful Matches' },
-    { 
-      key: 'conversion_rate', 
-      label: 'Conv. Rate (%)',
+    { key: 'label', label: 'Step' },
+    { key: 'users', label: 'Users', render: (value: number) => value.toLocaleString() },
+    { key: 'pct_of_first', label: '% of First Step', render: (value: number) => `${value}%` },
+    { key: 'dropped', label: 'Dropped', render: (value: number) => value.toLocaleString() },
+    {
+      key: 'drop_off_pct',
+      label: 'Drop-off (%)',
       render: (value: number) => (
         <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-          value >= 18 ? 'bg-green-100 text-green-800' :
-          value >= 10 ? 'bg-yellow-100 text-yellow-800' :
+          value <= 20 ? 'bg-green-100 text-green-800' :
+          value <= 50 ? 'bg-yellow-100 text-yellow-800' :
           'bg-red-100 text-red-800'
         }`}>
           {value}%
         </span>
       )
     },
+    {
+      key: 'median_hours_from_previous',
+      label: 'Median Time from Previous',
+      render: (value: number | null) => formatHours(value)
+    },
   ]
 
   if (loading) return <LoadingSpinner />
@@ -130,32 +155,100 @@ export function UserJourney() {
             User Journey Funnel
           </h1>
           <p className="text-md text-gray-600 max-w-2xl mx-auto">
-            Student progression from session creation to successful educational institution matches
+            How a signup cohort progresses from creating an account to saving or applying to a programme
           </p>
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-2 gap-4">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+        <div className="flex flex-wrap gap-2">
+          {FUNNEL_STEPS.map(step => (
+            <button
+              key={step.key}
+              onClick={() => toggleStep(step.key)}
+              title={step.description}
+              className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                selectedSteps.includes(step.key)
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {step.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <KPICard
-          title="Total Sessions"
-          value={funnelStats?.sessions_started || 0}
-          subtitle="Educational institution exploration sessions started"
+          title={firstStep?.label || 'First Step'}
+          value={(firstStep?.users || 0).toLocaleString()}
+          subtitle={`Signed up: ${period.label}`}
           icon={Users}
         />
         <KPICard
-          title="Conversion Rate"
-          value={`${funnelStats?.conversion_rate_percent || 0}%`}
-          subtitle="Overall session conversion effectiveness"
+          title="Funnel Conversion"
+          value={`${lastStep?.pct_of_first || 0}%`}
+          subtitle={lastStep ? `Reached "${lastStep.label}"` : 'No steps selected'}
           icon={Target}
         />
+        <KPICard
+          title="Biggest Drop-off"
+          value={biggestDrop ? `${biggestDrop.drop_off_pct}%` : 'N/A'}
+          subtitle={biggestDrop ? `Before "${biggestDrop.label}"` : 'Select at least two steps'}
+          icon={TrendingDown}
+        />
+        <KPICard
+          title="Median Time to Last Step"
+          value={formatHours(lastStep?.median_hours_from_previous ?? null)}
+          subtitle="From the step before it"
+          icon={Clock}
+        />
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Conversion Funnel</h2>
+        {funnel.length === 0 || !firstStep?.users ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            {funnel.length === 0 ? 'Select at least one funnel step' : 'No signups in this period'}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {funnel.map((step, i) => (
+              <div key={step.step_key}>
+                {i > 0 && (
+                  <div className="ml-44 text-xs text-gray-500 mb-1">
+                    ↓ {step.dropped.toLocaleString()} dropped ({step.drop_off_pct}%) · median {formatHours(step.median_hours_from_previous)}
+                  </div>
+                )}
+                <div className="flex items-center space-x-4">
+                  <div className="w-40 text-sm text-gray-700 truncate" title={step.label}>{step.label}</div>
+                  <div className="flex-1 bg-gray-100 rounded-lg h-8 overflow-hidden">
+                    <div
+                      className={`h-8 ${FUNNEL_COLORS[i % FUNNEL_COLORS.length]} flex items-center justify-end pr-2`}
+                      style={{ width: `${Math.max(step.pct_of_first, 1)}%` }}
+                    >
+                      {step.pct_of_first >= 10 && <span className="text-xs font-medium text-white">{step.pct_of_first}%</span>}
+                    </div>
+                  </div>
+                  <div className="w-20 text-sm text-gray-600 text-right">{step.users.toLocaleString()}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-gray-500 mt-4">
+          Users count at a step only if they reached every earlier selected step. Career quest completion has no
+          timestamp, so times around it are not shown.
+        </p>
       </div>
 
       <SearchableTable
-        data={cohortData}
+        data={funnel}
         columns={columns}
-        searchPlaceholder="Search cohorts by metrics..."
-        exportFilename="user_journey_cohort_data"
+        searchPlaceholder="Search funnel steps..."
+        exportFilename="user_journey_funnel"
       />
     </div>
   )
-}
\ No newline at end of file
+}
@@ -25,7 +25,7 @@ import {
   bulkSendMagicLinks,
   checkMagicLinkExists,
   getMagicLinkUsers,
-  type MagicLinkUser
+  type MagicLinkUserStatus
 } from '../lib/magicLinkService'
 import type { Profile } from '../types/database'
 import { AddedEmail } from '../lib/userService'
@@ -105,7 +105,7 @@ const [activeTab, setActiveTab] = useState<'create' | 'profiles' | 'addedEmails'
   const [sendingMagicLinks, setSendingMagicLinks] = useState(false)
   const [magicLinkStatus, setMagicLinkStatus] = useState<{[profileId: string]: {loading: boolean; success?: boolean; error?: string; link?: string; simulated?: boolean}}>({})
   const [copiedMagicLinks, setCopiedMagicLinks] = useState<{[profileId: string]: boolean}>({})
-  const [magicLinkUsers, setMagicLinkUsers] = useState<MagicLinkUser[]>([])
+  const [magicLinkUsers, setMagicLinkUsers] = useState<MagicLinkUserStatus[]>([])
   
   // CSV Import States
   const [csvImportFile, setCsvImportFile] = useState<File | null>(null)
@@ -0,0 +1,40 @@
+// URL paths for every dashboard page, keyed by the page id used in Navigation
+export const ROUTES = {
+  overview: '/',
+  universities: '/universities',
+  tvet: '/tvet',
+  funding: '/funding',
+  institutions: '/institutions',
+  geography: '/geography',
+  reviews: '/reviews',
+  downloads: '/downloads',
+  'session-health': '/session-health',
+  engagement: '/engagement',
+  'user-journey': '/user-journey',
+  retention: '/retention',
+  'feature-adoption': '/feature-adoption',
+  'student-marks': '/student-marks',
+  schools: '/schools',
+  'matching-profiles': '/matching-profiles',
+  'user-management': '/user-management',
+} as const
+
+export type PageId = keyof typeof ROUTES
+
+// Pages whose figures follow the global date-range picker
+export const PERIOD_PAGES: PageId[] = [
+  'overview',
+  'downloads',
+  'session-health',
+  'engagement',
+  'user-journey',
+  'retention',
+  'feature-adoption',
+]
+
+// Resolve the page id for a pathname, falling back to overview for unknown paths
+export function pageIdFromPath(pathname: string): PageId {
+  const normalized = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname
+  const match = (Object.keys(ROUTES) as PageId[]).find(id => ROUTES[id] === normalized)
+  return match ?? 'overview'
+}
@@ -0,0 +1,8 @@
+import '@testing-library/jest-dom/vitest'
+import { afterEach } from 'vitest'
+import { cleanup } from '@testing-library/react'
+
+// Tests run without globals, so Testing Library cannot register its own cleanup
+afterEach(() => {
+  cleanup()
+})
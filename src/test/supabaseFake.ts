@@ -0,0 +1,354 @@
+/**
+ * In-memory stand-in for the supabase-js client used by tests.
+ * Tests replace the real client with:
+ *
+ *   vi.mock('../lib/supabase', () => import('../test/supabaseFake'))
+ *
+ * and seed/inspect tables through the helpers below. Only the parts of the
+ * query builder the dashboard uses are implemented.
+ */
+
+type Row = Record<string, any>
+
+interface FakeError {
+  message: string
+  code?: string
+}
+
+interface FakeResult {
+  data: any
+  error: FakeError | null
+  count?: number | null
+}
+
+type Filter = (row: Row) => boolean
+type FunctionHandler = (body: any) => any | Promise<any>
+type RpcHandler = (args: any) => any | Promise<any>
+
+const tables = new Map<string, Row[]>()
+const uniqueKeys = new Map<string, string[]>()
+const functionHandlers = new Map<string, FunctionHandler>()
+const rpcHandlers = new Map<string, RpcHandler>()
+let nextId = 1
+let authUser: Row | null = null
+
+/**
+ * Clear all tables, constraints, handlers and the signed-in user
+ */
+export function resetSupabaseFake() {
+  tables.clear()
+  uniqueKeys.clear()
+  functionHandlers.clear()
+  rpcHandlers.clear()
+  nextId = 1
+  authUser = null
+}
+
+export function seedTable(table: string, rows: Row[]) {
+  tables.set(table, rows.map(row => ({ ...row })))
+}
+
+export function getTable(table: string): Row[] {
+  return tables.get(table) || []
+}
+
+// Columns whose values must be unique; violations return Postgres code 23505
+export function setUniqueKey(table: string, columns: string[]) {
+  uniqueKeys.set(table, columns)
+}
+
+export function setAuthUser(user: Row | null) {
+  authUser = user
+}
+
+export function onFunctionInvoke(name: string, handler: FunctionHandler) {
+  functionHandlers.set(name, handler)
+}
+
+export function onRpc(name: string, handler: RpcHandler) {
+  rpcHandlers.set(name, handler)
+}
+
+function rowsOf(table: string): Row[] {
+  if (!tables.has(table)) tables.set(table, [])
+  return tables.get(table)!
+}
+
+function project(row: Row, columns: string): Row {
+  if (columns.trim() === '*') return { ...row }
+  return Object.fromEntries(
+    columns.split(',').map(column => column.trim()).filter(Boolean).map(column => [column, row[column] ?? null])
+  )
+}
+
+function compare(a: any, b: any): number {
+  if (a === b) return 0
+  if (a === null || a === undefined) return 1
+  if (b === null || b === undefined) return -1
+  return a < b ? -1 : 1
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.')
+  return new RegExp(`^${escaped}$`, 'i')
+}
+
+class FakeQueryBuilder implements PromiseLike<FakeResult> {
+  private operation: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select'
+  private payload: Row[] = []
+  private updateValues: Row = {}
+  private onConflict: string[] = []
+  private columns = '*'
+  private returning = false
+  private countMode: string | null = null
+  private headOnly = false
+  private filters: Filter[] = []
+  private ordering: { column: string; ascending: boolean }[] = []
+  private rangeFrom = 0
+  private rangeTo: number | null = null
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many'
+
+  constructor(private table: string) {}
+
+  select(columns = '*', options: { count?: string; head?: boolean } = {}) {
+    if (this.operation === 'select') {
+      this.columns = columns
+      this.countMode = options.count || null
+      this.headOnly = !!options.head
+    } else {
+      this.columns = columns
+      this.returning = true
+    }
+    return this
+  }
+
+  insert(rows: Row | Row[]) {
+    this.operation = 'insert'
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    return this
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}) {
+    this.operation = 'upsert'
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    this.onConflict = (options.onConflict || 'id').split(',').map(column => column.trim())
+    return this
+  }
+
+  update(values: Row) {
+    this.operation = 'update'
+    this.updateValues = values
+    return this
+  }
+
+  delete() {
+    this.operation = 'delete'
+    return this
+  }
+
+  eq(column: string, value: any) { return this.where(row => row[column] === value) }
+  neq(column: string, value: any) { return this.where(row => row[column] !== value) }
+  gt(column: string, value: any) { return this.where(row => row[column] > value) }
+  gte(column: string, value: any) { return this.where(row => row[column] >= value) }
+  lt(column: string, value: any) { return this.where(row => row[column] < value) }
+  lte(column: string, value: any) { return this.where(row => row[column] <= value) }
+  in(column: string, values: any[]) { return this.where(row => values.includes(row[column])) }
+  is(column: string, value: any) { return this.where(row => (row[column] ?? null) === value) }
+  not(column: string, operator: string, value: any) {
+    if (operator !== 'is') throw new Error(`supabaseFake: not.${operator} is not supported`)
+    return this.where(row => (row[column] ?? null) !== value)
+  }
+  ilike(column: string, pattern: string) {
+    const regExp = likeToRegExp(pattern)
+    return this.where(row => regExp.test(String(row[column] ?? '')))
+  }
+  match(criteria: Row) {
+    return this.where(row => Object.entries(criteria).every(([column, value]) => row[column] === value))
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.ordering.push({ column, ascending: options.ascending !== false })
+    return this
+  }
+
+  limit(count: number) {
+    this.rangeTo = this.rangeFrom + count - 1
+    return this
+  }
+
+  range(from: number, to: number) {
+    this.rangeFrom = from
+    this.rangeTo = to
+    return this
+  }
+
+  single() {
+    this.cardinality = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.cardinality = 'maybeSingle'
+    return this
+  }
+
+  then<TResult1 = FakeResult, TResult2 = never>(
+    onfulfilled?: ((value: FakeResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected)
+  }
+
+  private where(filter: Filter) {
+    this.filters.push(filter)
+    return this
+  }
+
+  private matching(): Row[] {
+    return rowsOf(this.table).filter(row => this.filters.every(filter => filter(row)))
+  }
+
+  private execute(): FakeResult {
+    switch (this.operation) {
+      case 'insert': return this.executeInsert()
+      case 'upsert': return this.executeUpsert()
+      case 'update': return this.executeUpdate()
+      case 'delete': return this.executeDelete()
+      default: return this.executeSelect()
+    }
+  }
+
+  private executeSelect(): FakeResult {
+    let rows = this.matching()
+
+    if (this.ordering.length > 0) {
+      rows = [...rows].sort((a, b) => {
+        for (const { column, ascending } of this.ordering) {
+          const result = compare(a[column], b[column])
+          if (result !== 0) return ascending ? result : -result
+        }
+        return 0
+      })
+    }
+
+    const count = this.countMode ? rows.length : null
+    rows = rows.slice(this.rangeFrom, this.rangeTo === null ? undefined : this.rangeTo + 1)
+
+    if (this.headOnly) return { data: null, error: null, count }
+    return this.shape(rows.map(row => project(row, this.columns)), count)
+  }
+
+  private violatesUnique(candidate: Row, ignore?: Row): boolean {
+    const columns = uniqueKeys.get(this.table)
+    if (!columns) return false
+    return rowsOf(this.table).some(row =>
+      row !== ignore && columns.every(column => row[column] === candidate[column])
+    )
+  }
+
+  private uniqueError(): FakeResult {
+    return {
+      data: null,
+      error: { code: '23505', message: `duplicate key value violates unique constraint on ${this.table}` }
+    }
+  }
+
+  private executeInsert(): FakeResult {
+    const inserted: Row[] = []
+    for (const values of this.payload) {
+      const row = { id: nextId++, ...values }
+      if (this.violatesUnique(row)) return this.uniqueError()
+      rowsOf(this.table).push(row)
+      inserted.push(row)
+    }
+    return this.mutationResult(inserted)
+  }
+
+  private executeUpsert(): FakeResult {
+    const written: Row[] = []
+    for (const values of this.payload) {
+      const existing = rowsOf(this.table).find(row =>
+        this.onConflict.every(column => row[column] === values[column])
+      )
+      if (existing) {
+        Object.assign(existing, values)
+        written.push(existing)
+      } else {
+        const row = { id: nextId++, ...values }
+        rowsOf(this.table).push(row)
+        written.push(row)
+      }
+    }
+    return this.mutationResult(written)
+  }
+
+  private executeUpdate(): FakeResult {
+    const updated = this.matching()
+    for (const row of updated) {
+      if (this.violatesUnique({ ...row, ...this.updateValues }, row)) return this.uniqueError()
+    }
+    updated.forEach(row => Object.assign(row, this.updateValues))
+    return this.mutationResult(updated)
+  }
+
+  private executeDelete(): FakeResult {
+    const deleted = this.matching()
+    tables.set(this.table, rowsOf(this.table).filter(row => !deleted.includes(row)))
+    return this.mutationResult(deleted)
+  }
+
+  private mutationResult(rows: Row[]): FakeResult {
+    if (!this.returning) return { data: null, error: null }
+    return this.shape(rows.map(row => project(row, this.columns)), null)
+  }
+
+  private shape(rows: Row[], count: number | null): FakeResult {
+    if (this.cardinality === 'many') return { data: rows, error: null, count }
+    if (rows.length > 1) {
+      return { data: null, error: { code: 'PGRST116', message: 'Multiple rows returned' } }
+    }
+    if (rows.length === 0 && this.cardinality === 'single') {
+      return { data: null, error: { code: 'PGRST116', message: 'No rows returned' } }
+    }
+    return { data: rows[0] ?? null, error: null, count }
+  }
+}
+
+export const supabase = {
+  from: (table: string) => new FakeQueryBuilder(table),
+
+  rpc: async (name: string, args: any = {}): Promise<FakeResult> => {
+    const handler = rpcHandlers.get(name)
+    if (!handler) return { data: null, error: { code: 'PGRST202', message: `Function ${name} not found` } }
+    try {
+      return { data: await handler(args), error: null }
+    } catch (error: any) {
+      return { data: null, error: { message: error.message } }
+    }
+  },
+
+  functions: {
+    invoke: async (name: string, options: { body?: any } = {}): Promise<FakeResult> => {
+      const handler = functionHandlers.get(name)
+      if (!handler) return { data: null, error: { message: `Edge Function ${name} not found` } }
+      try {
+        return { data: await handler(options.body), error: null }
+      } catch (error: any) {
+        return { data: null, error: { message: error.message } }
+      }
+    }
+  },
+
+  auth: {
+    getUser: async () => ({ data: { user: authUser }, error: null }),
+    getSession: async () => ({
+      data: { session: authUser ? { user: authUser, access_token: 'fake-token' } : null },
+      error: null
+    }),
+    onAuthStateChange: () => ({ data: { subscription: { unsubscribe: () => {} } } }),
+    signOut: async () => {
+      authUser = null
+      return { error: null }
+    }
+  }
+}
@@ -20,6 +20,15 @@ export interface AvailableProgram {
   institution_name: string;
   required_aps: number;
   faculty: string;
+  subject_requirements?: SubjectRequirement[];
+}
+
+// Programme admission rule for a single subject, evaluated against user_marks levels
+export interface SubjectRequirement {
+  subject: string;            // subject name (e.g. 'Physical Sciences') or a user_marks slot ('math', 'home_language', ...)
+  min_level?: number | null;  // NSC achievement level 1-7
+  min_percentage?: number | null;
+  excluded_types?: string[];  // subject types that do not count, e.g. math_type 'Mathematical Literacy'
 }
 
 // Program matching results
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getTable, onFunctionInvoke, resetSupabaseFake, seedTable } from '../test/supabaseFake'
+import {
+  complaintThemes,
+  fetchAppReviews,
+  replyStatus,
+  saveReplyDraft,
+  sendReviewReply,
+  suggestedReply,
+  weeklyRatingTrend,
+  type AppReview
+} from './appReviews'
+
+vi.mock('../lib/supabase', () => import('../test/supabaseFake'))
+
+beforeEach(() => {
+  resetSupabaseFake()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+const review = (overrides: Partial<AppReview>): AppReview => ({
+  review_id: 'r',
+  author_name: 'Thandi Mokoena',
+  star_rating: 3,
+  text: null,
+  language: 'en',
+  app_version: '2.1.0',
+  last_modified: '2026-10-14T10:00:00Z',
+  developer_reply: null,
+  developer_replied_at: null,
+  reply_draft: null,
+  sentiment: 'neutral',
+  sentiment_score: 0,
+  topics: [],
+  ...overrides
+})
+
+describe('weeklyRatingTrend', () => {
+  it('buckets reviews into Monday weeks and keeps empty weeks', () => {
+    const trend = weeklyRatingTrend([
+      review({ star_rating: 5, last_modified: '2026-10-19T08:00:00Z', sentiment: 'positive' }),
+      review({ star_rating: 2, last_modified: '2026-10-18T23:00:00Z', sentiment: 'negative' }),
+      review({ star_rating: 4, last_modified: '2026-10-12T12:00:00Z' }),
+      review({ star_rating: 1, last_modified: '2026-06-01T12:00:00Z', sentiment: 'negative' })
+    ], 3, new Date('2026-10-20T09:00:00Z'))
+
+    expect(trend).toEqual([
+      { week_start: '2026-10-05', reviews: 0, avg_rating: null, negative: 0 },
+      { week_start: '2026-10-12', reviews: 2, avg_rating: 3, negative: 1 },
+      { week_start: '2026-10-19', reviews: 1, avg_rating: 5, negative: 0 }
+    ])
+  })
+})
+
+describe('complaintThemes', () => {
+  it('ranks topics by negative mentions with the latest example', () => {
+    const themes = complaintThemes([
+      review({ sentiment: 'negative', star_rating: 1, topics: ['crashes', 'login'], text: 'Crashes on login', last_modified: '2026-10-01T00:00:00Z' }),
+      review({ sentiment: 'negative', star_rating: 2, topics: ['crashes'], text: 'Keeps crashing', last_modified: '2026-10-10T00:00:00Z' }),
+      review({ sentiment: 'positive', star_rating: 5, topics: ['crashes'], text: 'No crashes anymore' }),
+      review({ sentiment: 'positive', star_rating: 5, topics: ['funding'] })
+    ])
+
+    expect(themes).toEqual([
+      { topic: 'crashes', label: 'Crashes & bugs', negative_reviews: 2, share_of_negative: 100, avg_rating: 2.7, example: 'Keeps crashing' },
+      { topic: 'login', label: 'Login & account', negative_reviews: 1, share_of_negative: 50, avg_rating: 1, example: 'Crashes on login' }
+    ])
+  })
+})
+
+describe('reply workflow', () => {
+  it('tracks reply status and suggests a reply from the first topic', () => {
+    expect(replyStatus(review({ sentiment: 'negative' }))).toBe('needs_reply')
+    expect(replyStatus(review({ sentiment: 'positive' }))).toBe('optional')
+    expect(replyStatus(review({ reply_draft: 'Hi' }))).toBe('draft')
+    expect(replyStatus(review({ reply_draft: 'Hi', developer_reply: 'Thanks' }))).toBe('replied')
+
+    expect(suggestedReply(review({ sentiment: 'negative', topics: ['usability', 'login'] }))).toMatch(/^Hi Thandi, Sorry you had trouble signing in/)
+    expect(suggestedReply(review({ sentiment: 'positive', author_name: null }))).toMatch(/^Hi, thank you/)
+  })
+
+  it('saves drafts and sends replies through the edge function', async () => {
+    seedTable('app_reviews', [review({ review_id: 'r1', sentiment_score: '0.00' as unknown as number, topics: null as unknown as [] })])
+    const received: unknown[] = []
+    onFunctionInvoke('reply-to-review', body => {
+      received.push(body)
+      return { success: true, data: { review_id: 'r1', developer_reply: 'Thanks!', developer_replied_at: '2026-10-19T10:00:00Z' } }
+    })
+
+    const [loaded] = await fetchAppReviews()
+    expect(loaded).toMatchObject({ review_id: 'r1', sentiment_score: 0, topics: [] })
+
+    await saveReplyDraft('r1', '  Draft reply  ')
+    expect(getTable('app_reviews')[0].reply_draft).toBe('Draft reply')
+
+    await expect(sendReviewReply('r1', 'Thanks!')).resolves.toEqual({
+      review_id: 'r1', developer_reply: 'Thanks!', developer_replied_at: '2026-10-19T10:00:00Z'
+    })
+    expect(received).toEqual([{ review_id: 'r1', reply_text: 'Thanks!' }])
+  })
+})
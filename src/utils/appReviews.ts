@@ -0,0 +1,182 @@
+/**
+ * Play Store reviews
+ * app_reviews is filled by the fetch-play-store-data edge function and tagged with the classifier in
+ * _shared/review-sentiment.ts; replies are posted to Google by the reply-to-review edge function.
+ */
+
+import { supabase } from '../lib/supabase'
+import { invokeEdgeFunction } from '../lib/edgeFunctions'
+import { fetchAllRows } from './fetchAllRows'
+import {
+  REVIEW_TOPICS,
+  type ReviewTopic,
+  type Sentiment
+} from '../../supabase/functions/_shared/review-sentiment.ts'
+import { MAX_REPLY_LENGTH } from '../../supabase/functions/_shared/play-store.ts'
+
+export { MAX_REPLY_LENGTH, REVIEW_TOPICS }
+export type { ReviewTopic, Sentiment }
+
+export interface AppReview {
+  review_id: string
+  author_name: string | null
+  star_rating: number | null
+  text: string | null
+  language: string | null
+  app_version: string | null
+  last_modified: string
+  developer_reply: string | null
+  developer_replied_at: string | null
+  reply_draft: string | null
+  sentiment: Sentiment
+  sentiment_score: number
+  topics: ReviewTopic[]
+}
+
+// Negative and neutral reviews wait for a reply; positive ones may get one but do not need it
+export type ReplyStatus = 'replied' | 'draft' | 'needs_reply' | 'optional'
+
+export interface WeeklyRating {
+  week_start: string        // Monday, YYYY-MM-DD
+  reviews: number
+  avg_rating: number | null
+  negative: number
+}
+
+export interface ComplaintTheme {
+  topic: ReviewTopic
+  label: string
+  negative_reviews: number
+  share_of_negative: number // % of negative reviews mentioning the topic
+  avg_rating: number | null // across every review mentioning the topic
+  example: string | null    // most recent negative review text
+}
+
+const REVIEW_COLUMNS =
+  'review_id, author_name, star_rating, text, language, app_version, last_modified, developer_reply, ' +
+  'developer_replied_at, reply_draft, sentiment, sentiment_score, topics'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+export function replyStatus(review: AppReview): ReplyStatus {
+  if (review.developer_reply) return 'replied'
+  if (review.reply_draft) return 'draft'
+  return review.sentiment === 'positive' ? 'optional' : 'needs_reply'
+}
+
+const averageRating = (reviews: AppReview[]): number | null => {
+  const rated = reviews.filter(review => review.star_rating !== null)
+  return rated.length > 0 ? round1(rated.reduce((sum, review) => sum + review.star_rating!, 0) / rated.length) : null
+}
+
+const mondayOf = (iso: string) => {
+  const date = new Date(`${iso.slice(0, 10)}T00:00:00Z`)
+  return new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS).toISOString().slice(0, 10)
+}
+
+/**
+ * Review count, average stars and negative count per week for the last `weeks` weeks, oldest first.
+ * Weeks without reviews are kept so gaps show on the chart.
+ */
+export function weeklyRatingTrend(reviews: AppReview[], weeks = 12, now: Date = new Date()): WeeklyRating[] {
+  const currentWeek = mondayOf(now.toISOString())
+  const starts = Array.from({ length: weeks }, (_, i) =>
+    new Date(Date.parse(`${currentWeek}T00:00:00Z`) - (weeks - 1 - i) * 7 * DAY_MS).toISOString().slice(0, 10)
+  )
+
+  const byWeek = new Map<string, AppReview[]>(starts.map(start => [start, []]))
+  for (const review of reviews) {
+    byWeek.get(mondayOf(review.last_modified))?.push(review)
+  }
+
+  return starts.map(start => {
+    const weekReviews = byWeek.get(start)!
+    return {
+      week_start: start,
+      reviews: weekReviews.length,
+      avg_rating: averageRating(weekReviews),
+      negative: weekReviews.filter(review => review.sentiment === 'negative').length
+    }
+  })
+}
+
+/**
+ * Topics ranked by how many negative reviews mention them
+ */
+export function complaintThemes(reviews: AppReview[]): ComplaintTheme[] {
+  const negative = reviews
+    .filter(review => review.sentiment === 'negative')
+    .sort((a, b) => b.last_modified.localeCompare(a.last_modified))
+
+  return (Object.keys(REVIEW_TOPICS) as ReviewTopic[])
+    .map(topic => {
+      const mentions = negative.filter(review => review.topics.includes(topic))
+      return {
+        topic,
+        label: REVIEW_TOPICS[topic].label,
+        negative_reviews: mentions.length,
+        share_of_negative: negative.length > 0 ? round1((mentions.length / negative.length) * 100) : 0,
+        avg_rating: averageRating(reviews.filter(review => review.topics.includes(topic))),
+        example: mentions.find(review => review.text)?.text ?? null
+      }
+    })
+    .filter(theme => theme.negative_reviews > 0)
+    .sort((a, b) => b.negative_reviews - a.negative_reviews)
+}
+
+// Starting points for a reply, chosen by the review's first topic; always edited before sending
+const REPLY_TEMPLATES: Partial<Record<ReviewTopic, string>> = {
+  crashes: "Sorry about the crashes. Please update to the latest version, and if it still happens email us your phone model so we can fix it.",
+  login: "Sorry you had trouble signing in. Please try resetting your password from the login screen, or email us and we'll sort out your account.",
+  performance: 'Thanks for letting us know. We are working on making the app faster and lighter on data.',
+  marks_aps: 'Thanks for the feedback. Please check that every subject and mark is entered; if your APS still looks wrong, email us your subjects and we will check it.',
+  funding: 'Thanks! We keep adding bursaries; let us know which ones you would like to see.',
+  applications: 'Thanks for the feedback. Application dates come from each institution, and we update them as soon as they are published.',
+  institutions: 'Thanks! If a university, college or course is missing or out of date, let us know and we will add it.'
+}
+
+export function suggestedReply(review: AppReview): string {
+  const name = review.author_name?.split(' ')[0]
+  const greeting = name ? `Hi ${name}, ` : 'Hi, '
+  if (review.sentiment === 'positive') return `${greeting}thank you for the kind words. Good luck with your applications!`
+  const template = review.topics.map(topic => REPLY_TEMPLATES[topic]).find(Boolean)
+  return `${greeting}${template ?? 'thanks for the feedback. We would like to help; please email us with more details.'}`
+}
+
+/**
+ * Every ingested review, newest first
+ */
+export async function fetchAppReviews(): Promise<AppReview[]> {
+  const rows = await fetchAllRows<AppReview>('app_reviews', REVIEW_COLUMNS)
+  const reviews = rows
+    .map(row => ({ ...row, sentiment_score: Number(row.sentiment_score), topics: row.topics || [] }))
+    .sort((a, b) => b.last_modified.localeCompare(a.last_modified))
+
+  console.log('💬 App reviews loaded -', { reviews: reviews.length })
+  return reviews
+}
+
+export async function saveReplyDraft(reviewId: string, draft: string): Promise<void> {
+  const { error } = await supabase
+    .from('app_reviews')
+    .update({ reply_draft: draft.trim() || null })
+    .eq('review_id', reviewId)
+
+  if (error) throw error
+}
+
+/**
+ * Post the reply to Google Play; it becomes public on the store listing
+ */
+export async function sendReviewReply(
+  reviewId: string,
+  replyText: string
+): Promise<{ developer_reply: string; developer_replied_at: string }> {
+  const { data } = await invokeEdgeFunction<{ data: { developer_reply: string; developer_replied_at: string } }>(
+    'reply-to-review',
+    { review_id: reviewId, reply_text: replyText }
+  )
+  return data
+}
@@ -37,10 +37,6 @@ CREATE POLICY IF NOT EXISTS "Authenticated users can update download statistics"
 
 CREATE INDEX IF NOT EXISTS idx_download_stats_date ON download_stats(date DESC);
 CREATE INDEX IF NOT EXISTS idx_download_stats_created_at ON download_stats(created_at DESC);
-
-INSERT INTO download_stats (date, total_downloads, daily_downloads, android_downloads, ios_downloads, rating, reviews_count, source)
-VALUES (CURRENT_DATE, 1200, 45, 900, 300, 4.2, 32, 'manual')
-ON CONFLICT (date) DO NOTHING;
 `;
 
 async function applyMigration() {
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { onRpc, resetSupabaseFake } from '../test/supabaseFake'
+import { resolvePeriod } from './period'
+import { fetchClickAnalytics, fetchClicksBySegment } from './clickAnalytics'
+
+vi.mock('../lib/supabase', () => import('../test/supabaseFake'))
+
+describe('click analytics', () => {
+  beforeEach(() => resetSupabaseFake())
+
+  const period = resolvePeriod({ preset: 'custom', from: '2026-10-01', to: '2026-10-03' })
+
+  it('zero-fills the daily series on local days', async () => {
+    let seriesArgs: Record<string, any> = {}
+    onRpc('get_click_totals', () => [{ total_clicks: '42', unique_sessions: '9', pages: '2' }])
+    onRpc('get_clicks_by_page_segment', received => {
+      seriesArgs = received
+      // Buckets are local midnights, i.e. 22:00 UTC the evening before
+      return [
+        { page_name: 'Home', bucket: '2026-09-30T22:00:00Z', total_clicks: '20', unique_sessions: '6' },
+        { page_name: 'Bursaries', bucket: '2026-09-30T22:00:00Z', total_clicks: '4', unique_sessions: '2' },
+        { page_name: 'Home', bucket: '2026-10-02T22:00:00Z', total_clicks: '10', unique_sessions: '3' }
+      ]
+    })
+
+    const analytics = await fetchClickAnalytics(period)
+
+    expect(analytics.totals).toEqual({ total_clicks: 42, unique_sessions: 9, pages: 2 })
+    expect(seriesArgs).toMatchObject({ p_granularity: 'day', p_tz: 'Africa/Johannesburg' })
+    expect(analytics.daily).toEqual([
+      { date: '2026-10-01', clicks: 24, sessions: 8 },
+      { date: '2026-10-02', clicks: 0, sessions: 0 },
+      { date: '2026-10-03', clicks: 10, sessions: 3 }
+    ])
+  })
+
+  it('adds each segment\'s share of clicks', async () => {
+    let args: Record<string, any> = {}
+    onRpc('get_clicks_by_user_segment', received => {
+      args = received
+      return [
+        { segment: 'Learner', total_clicks: '30', unique_sessions: '7', unique_users: '5', top_page: 'Home' },
+        { segment: 'Unknown', total_clicks: '10', unique_sessions: '2', unique_users: '0', top_page: null }
+      ]
+    })
+
+    const segments = await fetchClicksBySegment(period, 'role')
+
+    expect(args.p_dimension).toBe('role')
+    expect(segments.map(segment => [segment.segment, segment.share_pct])).toEqual([['Learner', 75], ['Unknown', 25]])
+    expect(segments[1].top_page).toBeNull()
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * Click analytics
+ * button_clicks for a reporting period: totals from get_click_totals, a zero-filled daily series from
+ * get_clicks_by_page_segment, and clicks per profile role or grade from get_clicks_by_user_segment.
+ * Clicks per feature come from the event registry; see eventRegistry.ts.
+ */
+
+import { supabase } from '../lib/supabase'
+import { ReportingPeriod, REPORTING_TIMEZONE, periodDays, periodParams, toLocalDate } from './period'
+
+export type ClickSegmentDimension = 'role' | 'grade'
+
+export interface ClickTotals {
+  total_clicks: number
+  unique_sessions: number   // a session clicking on several pages counts once
+  pages: number
+}
+
+export interface DailyClicks {
+  date: string
+  clicks: number
+  sessions: number          // summed per page, so a session active on two pages counts twice
+}
+
+export interface SegmentClicks {
+  segment: string
+  total_clicks: number
+  unique_sessions: number
+  unique_users: number
+  top_page: string | null
+  share_pct: number         // of all clicks in the segment breakdown
+}
+
+export interface ClickAnalytics {
+  totals: ClickTotals
+  daily: DailyClicks[]      // every day of the period, oldest first
+}
+
+export async function fetchClickTotals(period: ReportingPeriod): Promise<ClickTotals> {
+  const { data, error } = await supabase.rpc('get_click_totals', periodParams(period))
+  if (error) throw error
+
+  const row = data?.[0] ?? {}
+  return {
+    total_clicks: Number(row.total_clicks ?? 0),
+    unique_sessions: Number(row.unique_sessions ?? 0),
+    pages: Number(row.pages ?? 0)
+  }
+}
+
+export async function fetchClickAnalytics(period: ReportingPeriod): Promise<ClickAnalytics> {
+  const params = periodParams(period)
+  const [totals, seriesResult] = await Promise.all([
+    fetchClickTotals(period),
+    supabase.rpc('get_clicks_by_page_segment', {
+      p_pages: null,
+      p_granularity: 'day',
+      ...params,
+      p_tz: REPORTING_TIMEZONE
+    })
+  ])
+  if (seriesResult.error) throw seriesResult.error
+
+  // bigint columns arrive as strings
+  const days: Record<string, DailyClicks> = {}
+  periodDays(period).forEach(date => {
+    days[date] = { date, clicks: 0, sessions: 0 }
+  })
+  ;(seriesResult.data || []).forEach((row: any) => {
+    const day = days[toLocalDate(new Date(row.bucket))]
+    if (!day) return
+    day.clicks += Number(row.total_clicks)
+    day.sessions += Number(row.unique_sessions)
+  })
+
+  console.log('🖱️ Click analytics loaded -', { from: period.from, to: period.to, clicks: totals.total_clicks })
+  return { totals, daily: Object.values(days) }
+}
+
+export async function fetchClicksBySegment(
+  period: ReportingPeriod,
+  dimension: ClickSegmentDimension
+): Promise<SegmentClicks[]> {
+  const { data, error } = await supabase.rpc('get_clicks_by_user_segment', {
+    p_dimension: dimension,
+    ...periodParams(period)
+  })
+  if (error) throw error
+
+  const rows = (data || []).map((row: any) => ({
+    segment: row.segment,
+    total_clicks: Number(row.total_clicks),
+    unique_sessions: Number(row.unique_sessions),
+    unique_users: Number(row.unique_users),
+    top_page: row.top_page ?? null
+  }))
+  const clicks = rows.reduce((sum: number, row: { total_clicks: number }) => sum + row.total_clicks, 0)
+
+  return rows.map((row: Omit<SegmentClicks, 'share_pct'>) => ({
+    ...row,
+    share_pct: clicks > 0 ? Math.round((row.total_clicks / clicks) * 1000) / 10 : 0
+  }))
+}
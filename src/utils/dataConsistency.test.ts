@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatNumericDisplay,
+  safeNumberParse,
+  validateAndFormatStudentData,
+  validateApsMark,
+  validateLevel,
+  validateMark,
+  validateStudentDataArray,
+  validateText,
+  validateUUID
+} from './dataConsistency'
+
+const USER_ID = '6f1c2a9e-3b4d-4e5f-8a7b-9c0d1e2f3a4b'
+
+describe('validateMark', () => {
+  it('treats empty values as null', () => {
+    expect(validateMark(null, 'math_mark')).toEqual({ success: true, value: null })
+    expect(validateMark('', 'math_mark')).toEqual({ success: true, value: null })
+  })
+
+  it('parses strings and keeps two decimal places', () => {
+    expect(validateMark('72.456', 'math_mark')).toEqual({ success: true, value: 72.46 })
+  })
+
+  it('rejects non-numeric and out-of-range marks', () => {
+    expect(validateMark('abc', 'math_mark').success).toBe(false)
+    expect(validateMark(101, 'math_mark').error).toBe('math_mark: Value 101 must be between 0 and 100')
+    expect(validateMark(-1, 'math_mark').success).toBe(false)
+  })
+})
+
+describe('validateLevel', () => {
+  it('accepts integer levels up to the maximum', () => {
+    expect(validateLevel(7, 'math_level')).toEqual({ success: true, value: 7 })
+    expect(validateLevel('3', 'math_level')).toEqual({ success: true, value: 3 })
+  })
+
+  it('rejects fractional and out-of-range levels', () => {
+    expect(validateLevel(4.5, 'math_level').error).toBe('math_level: Level 4.5 must be an integer')
+    expect(validateLevel(8, 'math_level').success).toBe(false)
+    expect(validateLevel(5, 'math_level', 4).success).toBe(false)
+  })
+})
+
+describe('validateApsMark', () => {
+  it('accepts 0-42', () => {
+    expect(validateApsMark(0, 'aps_mark')).toEqual({ success: true, value: 0 })
+    expect(validateApsMark('42', 'aps_mark')).toEqual({ success: true, value: 42 })
+  })
+
+  it('rejects values outside 0-42 and non-integers', () => {
+    expect(validateApsMark(43, 'aps_mark').success).toBe(false)
+    expect(validateApsMark(30.5, 'aps_mark').success).toBe(false)
+    expect(validateApsMark('x', 'aps_mark').success).toBe(false)
+  })
+})
+
+describe('validateUUID', () => {
+  it('accepts v4 UUIDs and null-like strings', () => {
+    expect(validateUUID(USER_ID, 'user_id')).toEqual({ success: true, value: USER_ID })
+    expect(validateUUID('null', 'user_id')).toEqual({ success: true, value: null })
+  })
+
+  it('rejects malformed ids', () => {
+    expect(validateUUID('not-a-uuid', 'user_id').success).toBe(false)
+  })
+})
+
+describe('validateText', () => {
+  it('trims text', () => {
+    expect(validateText('  Physical Sciences ', 'subject1')).toEqual({ success: true, value: 'Physical Sciences' })
+  })
+
+  it('truncates long text with a warning', () => {
+    const result = validateText('a'.repeat(300), 'subject1')
+    expect(result.value).toHaveLength(255)
+    expect(result.warning).toBe('subject1: Text truncated to 255 characters')
+  })
+})
+
+describe('validateAndFormatStudentData', () => {
+  const student = {
+    user_id: USER_ID,
+    math_mark: '85',
+    math_type: 'Mathematics',
+    home_language_mark: 72,
+    first_additional_language_mark: 65,
+    subject1_mark: 55,
+    subject2_mark: 45,
+    subject3_mark: 35,
+    aps_mark: 27
+  }
+
+  it('formats a valid row', () => {
+    const result = validateAndFormatStudentData(student)
+    expect(result.isValid).toBe(true)
+    expect(result.errors).toEqual([])
+    expect(result.warnings).toEqual([])
+    expect(result.formattedData?.math_mark).toBe(85)
+    expect(result.formattedData?.subject4_mark).toBeNull()
+  })
+
+  it('collects every field error and withholds formatted data', () => {
+    const result = validateAndFormatStudentData({ ...student, math_mark: 150, aps_mark: 50 })
+    expect(result.isValid).toBe(false)
+    expect(result.errors).toHaveLength(2)
+    expect(result.formattedData).toBeNull()
+  })
+
+  it('warns when aps_mark disagrees with the recomputed APS', () => {
+    const result = validateAndFormatStudentData({ ...student, aps_mark: 35 })
+    expect(result.isValid).toBe(true)
+    expect(result.warnings).toEqual(['aps_mark 35 differs from recomputed APS 27'])
+  })
+})
+
+describe('validateStudentDataArray', () => {
+  it('splits valid and invalid rows', () => {
+    const { validStudents, invalidStudents, validationSummary } = validateStudentDataArray([
+      { user_id: USER_ID, math_mark: 50 },
+      { user_id: 'bad', math_mark: 50 }
+    ])
+    expect(validStudents).toHaveLength(1)
+    expect(invalidStudents[0].index).toBe(1)
+    expect(validationSummary).toEqual({ total: 2, valid: 1, invalid: 1, warnings: 0 })
+  })
+})
+
+describe('formatNumericDisplay / safeNumberParse', () => {
+  it('formats with precision and suffix', () => {
+    expect(formatNumericDisplay(12.345)).toBe('12.3%')
+    expect(formatNumericDisplay(12.345, 2, '')).toBe('12.35')
+    expect(formatNumericDisplay(null)).toBe('N/A')
+  })
+
+  it('parses numbers with a default', () => {
+    expect(safeNumberParse('3.5')).toBe(3.5)
+    expect(safeNumberParse('abc', 7)).toBe(7)
+    expect(safeNumberParse(Infinity)).toBe(0)
+  })
+})
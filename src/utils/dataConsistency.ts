@@ -2,6 +2,8 @@
  * Data consistency and precision validation utilities
  */
 
+import { auditApsMark } from '../../supabase/functions/_shared/aps.ts'
+
 // import { validate as uuidValidate } from 'uuid' // Removing external dependency for simplicity
 // Simple UUID validation (basic format check)
 const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
@@ -291,7 +293,13 @@ export function validateAndFormatStudentData(studentData: any): ValidationResult
     errors.push(`Average ${finalData.average} is outside valid range (0-100)`)
   }
   
-  // Check APS mark consistency with subject levels (more complex validation could go here)
+  // Check APS mark consistency with the APS recomputed from subject percentages
+  if (errors.length === 0) {
+    const apsAudit = auditApsMark(finalData as unknown as Record<string, unknown>)
+    if (apsAudit.status === 'mismatch') {
+      warnings.push(`aps_mark ${apsAudit.stored} differs from recomputed APS ${apsAudit.computed}`)
+    }
+  }
   
   return {
     isValid: errors.length === 0,
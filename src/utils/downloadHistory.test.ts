@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { onRpc, resetSupabaseFake } from '../test/supabaseFake'
+import { resolvePeriod } from './period'
+import { DownloadSeriesPoint, fetchDownloadSeries, summariseDownloadSeries } from './downloadHistory'
+
+vi.mock('../lib/supabase', () => import('../test/supabaseFake'))
+
+const point = (overrides: Partial<DownloadSeriesPoint>): DownloadSeriesPoint => ({
+  period_start: '2026-10-01',
+  days_in_period: 1,
+  days_reported: 1,
+  estimated_days: 0,
+  installs: 10,
+  installs_moving_avg: 10,
+  cumulative_installs: 100,
+  signups: 2,
+  conversion_pct: 20,
+  ...overrides
+})
+
+describe('download history', () => {
+  beforeEach(() => resetSupabaseFake())
+
+  it('passes the period and granularity through and keeps missing installs as null', async () => {
+    let args: Record<string, any> = {}
+    onRpc('get_download_series', received => {
+      args = received
+      return [
+        {
+          period_start: '2026-09-28', days_in_period: 7, days_reported: 5, estimated_days: 0,
+          installs: '42', installs_moving_avg: '38.5', cumulative_installs: '1200', signups: '6', conversion_pct: '14.3'
+        },
+        {
+          period_start: '2026-10-05', days_in_period: 7, days_reported: 0, estimated_days: 0,
+          installs: null, installs_moving_avg: '38.5', cumulative_installs: null, signups: '3', conversion_pct: null
+        }
+      ]
+    })
+
+    const period = resolvePeriod({ preset: 'custom', from: '2026-09-28', to: '2026-10-11' })
+    const points = await fetchDownloadSeries(period, 'week')
+
+    expect(args).toEqual({
+      p_start: period.start.toISOString(),
+      p_end: period.end.toISOString(),
+      p_granularity: 'week',
+      p_tz: 'Africa/Johannesburg'
+    })
+    expect(points[0]).toMatchObject({ installs: 42, installs_moving_avg: 38.5, cumulative_installs: 1200, signups: 6 })
+    expect(points[1]).toMatchObject({ installs: null, cumulative_installs: null, conversion_pct: null, days_reported: 0 })
+  })
+
+  it('converts only over buckets that have install data', () => {
+    const summary = summariseDownloadSeries([
+      point({ installs: 40, signups: 4, estimated_days: 1 }),
+      point({ installs: 60, signups: 6 }),
+      point({ installs: null, days_reported: 0, signups: 10 })
+    ])
+
+    expect(summary).toEqual({
+      installs: 100,
+      signups: 20,
+      conversion_pct: 10,
+      days_in_period: 3,
+      days_reported: 2,
+      estimated_days: 1
+    })
+    expect(summariseDownloadSeries([point({ installs: null, signups: 3 })]).conversion_pct).toBeNull()
+  })
+})
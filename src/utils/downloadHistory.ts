@@ -0,0 +1,91 @@
+/**
+ * Download history
+ * download_stats as a daily time series via get_download_series: installs per day, week or month, a moving average,
+ * and signups from profiles.created_at in the same buckets for a downloads-to-signups conversion.
+ */
+
+import { supabase } from '../lib/supabase'
+import { ReportingPeriod, REPORTING_TIMEZONE, periodParams } from './period'
+import { PlayStoreSyncResult, synchronizeDownloadStats } from './googlePlayAPI'
+
+export type DownloadGranularity = 'day' | 'week' | 'month'
+
+// Buckets averaged by installs_moving_avg, matching get_download_series
+export const MOVING_AVERAGE_WINDOW: Record<DownloadGranularity, number> = { day: 7, week: 4, month: 3 }
+
+// How far back a backfill reads the Play Console monthly exports
+export const BACKFILL_DAYS = 3 * 366
+
+export interface DownloadSeriesPoint {
+  period_start: string
+  days_in_period: number
+  days_reported: number
+  estimated_days: number      // days whose row is a legacy estimate rather than Google's figure
+  installs: number | null     // null when no day in the bucket has data
+  installs_moving_avg: number | null
+  cumulative_installs: number | null
+  signups: number
+  conversion_pct: number | null
+}
+
+export interface DownloadSeriesSummary {
+  installs: number
+  signups: number
+  conversion_pct: number | null // signups per 100 installs, over buckets that have install data
+  days_in_period: number
+  days_reported: number
+  estimated_days: number
+}
+
+const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value))
+
+export async function fetchDownloadSeries(
+  period: ReportingPeriod,
+  granularity: DownloadGranularity
+): Promise<DownloadSeriesPoint[]> {
+  const { data, error } = await supabase.rpc('get_download_series', {
+    ...periodParams(period),
+    p_granularity: granularity,
+    p_tz: REPORTING_TIMEZONE
+  })
+  if (error) throw error
+
+  // bigint and numeric columns arrive as strings
+  const points = (data || []).map((row: Record<string, unknown>) => ({
+    period_start: row.period_start as string,
+    days_in_period: Number(row.days_in_period),
+    days_reported: Number(row.days_reported),
+    estimated_days: Number(row.estimated_days),
+    installs: toNumber(row.installs),
+    installs_moving_avg: toNumber(row.installs_moving_avg),
+    cumulative_installs: toNumber(row.cumulative_installs),
+    signups: Number(row.signups),
+    conversion_pct: toNumber(row.conversion_pct)
+  }))
+
+  console.log('📈 Download series loaded -', { from: period.from, to: period.to, granularity, points: points.length })
+  return points
+}
+
+export function summariseDownloadSeries(points: DownloadSeriesPoint[]): DownloadSeriesSummary {
+  const withInstalls = points.filter(point => point.installs !== null)
+  const installs = withInstalls.reduce((sum, point) => sum + point.installs!, 0)
+  // Signups in buckets without install data would overstate the conversion
+  const matchedSignups = withInstalls.reduce((sum, point) => sum + point.signups, 0)
+
+  return {
+    installs,
+    signups: points.reduce((sum, point) => sum + point.signups, 0),
+    conversion_pct: installs > 0 ? Math.round((matchedSignups / installs) * 1000) / 10 : null,
+    days_in_period: points.reduce((sum, point) => sum + point.days_in_period, 0),
+    days_reported: points.reduce((sum, point) => sum + point.days_reported, 0),
+    estimated_days: points.reduce((sum, point) => sum + point.estimated_days, 0)
+  }
+}
+
+/**
+ * Re-read every Play Console monthly export still in the reports bucket into download_stats
+ */
+export function backfillDownloadHistory(): Promise<PlayStoreSyncResult> {
+  return synchronizeDownloadStats(BACKFILL_DAYS)
+}
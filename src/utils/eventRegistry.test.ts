@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getTable, onRpc, resetSupabaseFake, setUniqueKey } from '../test/supabaseFake'
+import { resolvePeriod } from './period'
+import {
+  RegisteredEvent,
+  fetchClicksByFeature,
+  metadataErrors,
+  parseMetadataSchema,
+  saveRegisteredEvent
+} from './eventRegistry'
+
+vi.mock('../lib/supabase', () => import('../test/supabaseFake'))
+
+const event = (overrides: Partial<RegisteredEvent> = {}): RegisteredEvent => ({
+  event_name: 'bursary_apply',
+  feature: 'Funding',
+  description: null,
+  metadata_schema: { bursary_id: 'string', position: 'number?' },
+  status: 'active',
+  ...overrides
+})
+
+describe('event registry', () => {
+  beforeEach(() => resetSupabaseFake())
+
+  it('parses schemas and rejects unknown field types', () => {
+    expect(parseMetadataSchema('{"button": "string", "position": "number?"}')).toEqual({ button: 'string', position: 'number?' })
+    expect(parseMetadataSchema('')).toEqual({})
+    expect(() => parseMetadataSchema('{button: string}')).toThrow('Metadata schema must be valid JSON')
+    expect(() => parseMetadataSchema('["button"]')).toThrow('Metadata schema must be a JSON object')
+    expect(() => parseMetadataSchema('{"button": "text"}')).toThrow('button must be one of string, number, boolean, object, array')
+  })
+
+  it('lists metadata problems the way the ingest trigger does', () => {
+    const schema = { bursary_id: 'string', position: 'number?', tags: 'array?' }
+
+    expect(metadataErrors(schema, { bursary_id: 'b-1', position: 2 })).toEqual([])
+    expect(metadataErrors(schema, { bursary_id: 'b-1', position: null })).toEqual([])
+    expect(metadataErrors(schema, { position: '2', tags: {}, source: 'push' })).toEqual([
+      'bursary_id is missing',
+      'position must be number',
+      'source is not in the schema',
+      'tags must be array'
+    ])
+    expect(metadataErrors(schema, 'b-1')).toEqual(['bursary_id is missing', 'metadata must be an object'])
+    expect(metadataErrors({}, null)).toEqual([])
+  })
+
+  it('registers events, refuses duplicates and updates in place', async () => {
+    setUniqueKey('event_registry', ['event_name'])
+
+    await saveRegisteredEvent(event({ event_name: ' bursary_apply ' }), true)
+    await expect(saveRegisteredEvent(event(), true)).rejects.toThrow('bursary_apply is already registered')
+    await expect(saveRegisteredEvent(event({ feature: 'Unregistered' }), true))
+      .rejects.toThrow('"Unregistered" is reserved for events missing from the registry')
+
+    await saveRegisteredEvent(event({ status: 'deprecated' }), false)
+    expect(getTable('event_registry')).toHaveLength(1)
+    expect(getTable('event_registry')[0]).toMatchObject({ event_name: 'bursary_apply', status: 'deprecated' })
+  })
+
+  it('reads clicks per feature as numbers', async () => {
+    onRpc('get_clicks_by_feature', () => [
+      { feature: 'Funding', events: '2', total_clicks: '40', unique_sessions: '16', flagged_clicks: '3' },
+      { feature: 'Unregistered', events: '1', total_clicks: '5', unique_sessions: '0', flagged_clicks: '5' }
+    ])
+
+    const period = resolvePeriod({ preset: 'custom', from: '2026-10-01', to: '2026-10-07' })
+    expect(await fetchClicksByFeature(period)).toEqual([
+      { feature: 'Funding', events: 2, total_clicks: 40, unique_sessions: 16, flagged_clicks: 3, clicks_per_session: 2.5 },
+      { feature: 'Unregistered', events: 1, total_clicks: 5, unique_sessions: 0, flagged_clicks: 5, clicks_per_session: 0 }
+    ])
+  })
+})
@@ -0,0 +1,180 @@
+/**
+ * Click event registry
+ * event_registry lists the known button_clicks events (by page_name) with their feature, expected click_metadata
+ * and status. A trigger checks every new click against it; see create_event_registry.sql. metadataErrors mirrors
+ * the database's event_metadata_errors so admins can try a payload against a schema before saving it.
+ */
+
+import { supabase } from '../lib/supabase'
+import { ReportingPeriod, periodParams } from './period'
+
+export type EventStatus = 'active' | 'deprecated'
+export type ClickIssue = 'unknown' | 'deprecated' | 'invalid_metadata'
+
+export const METADATA_FIELD_TYPES = ['string', 'number', 'boolean', 'object', 'array'] as const
+export type MetadataFieldType = typeof METADATA_FIELD_TYPES[number]
+
+// Field name to JSON type; a trailing '?' marks the field optional
+export type MetadataSchema = Record<string, string>
+
+export interface RegisteredEvent {
+  event_name: string
+  feature: string
+  description: string | null
+  metadata_schema: MetadataSchema
+  status: EventStatus
+  updated_at?: string
+}
+
+export interface FeatureClicks {
+  feature: string           // 'Unregistered' for events missing from the registry
+  events: number
+  total_clicks: number
+  unique_sessions: number
+  flagged_clicks: number
+  clicks_per_session: number
+}
+
+export interface FlaggedClickEvent {
+  event_name: string
+  issue: ClickIssue
+  clicks: number
+  last_seen: string
+  example_errors: string[] | null
+}
+
+export const UNREGISTERED_FEATURE = 'Unregistered'
+
+const jsonType = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value)
+
+/**
+ * Parse the schema an admin typed in; throws with the first problem
+ */
+export function parseMetadataSchema(text: string): MetadataSchema {
+  let parsed: unknown
+  try {
+    parsed = text.trim() ? JSON.parse(text) : {}
+  } catch {
+    throw new Error('Metadata schema must be valid JSON')
+  }
+  if (jsonType(parsed) !== 'object') throw new Error('Metadata schema must be a JSON object')
+
+  for (const [field, type] of Object.entries(parsed as Record<string, unknown>)) {
+    const base = typeof type === 'string' ? type.replace(/\?$/, '') : null
+    if (!base || !(METADATA_FIELD_TYPES as readonly string[]).includes(base)) {
+      throw new Error(`${field} must be one of ${METADATA_FIELD_TYPES.join(', ')}, optionally ending in ?`)
+    }
+  }
+  return parsed as MetadataSchema
+}
+
+/**
+ * Problems with click metadata against a schema, sorted; the same list the ingest trigger stores
+ */
+export function metadataErrors(schema: MetadataSchema, metadata: unknown): string[] {
+  const errors: string[] = []
+  const type = jsonType(metadata)
+  if (metadata !== undefined && type !== 'object' && type !== 'null') errors.push('metadata must be an object')
+  const values = type === 'object' ? (metadata as Record<string, unknown>) : {}
+
+  for (const [field, expected] of Object.entries(schema)) {
+    const optional = expected.endsWith('?')
+    const value = values[field]
+    if (value === undefined || value === null) {
+      if (!optional) errors.push(`${field} is missing`)
+    } else if (jsonType(value) !== expected.replace(/\?$/, '')) {
+      errors.push(`${field} must be ${expected.replace(/\?$/, '')}`)
+    }
+  }
+  Object.keys(values)
+    .filter(field => !(field in schema))
+    .forEach(field => errors.push(`${field} is not in the schema`))
+
+  return errors.sort()
+}
+
+/**
+ * Check an event before saving; returns a message for the first problem, or null
+ */
+export function validateRegisteredEvent(event: RegisteredEvent): string | null {
+  if (!event.event_name.trim()) return 'Event name is required'
+  if (!event.feature.trim()) return 'Feature is required'
+  if (event.feature.trim() === UNREGISTERED_FEATURE) return `"${UNREGISTERED_FEATURE}" is reserved for events missing from the registry`
+  try {
+    parseMetadataSchema(JSON.stringify(event.metadata_schema))
+  } catch (error) {
+    return (error as Error).message
+  }
+  return null
+}
+
+export async function fetchRegisteredEvents(): Promise<RegisteredEvent[]> {
+  const { data, error } = await supabase
+    .from('event_registry')
+    .select('event_name, feature, description, metadata_schema, status, updated_at')
+    .order('feature')
+    .order('event_name')
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Register a new event or update an existing one; events are deprecated rather than deleted so old clicks keep their feature
+ */
+export async function saveRegisteredEvent(event: RegisteredEvent, isNew: boolean): Promise<RegisteredEvent> {
+  const problem = validateRegisteredEvent(event)
+  if (problem) throw new Error(problem)
+
+  const { data: { user } } = await supabase.auth.getUser()
+  const row = {
+    event_name: event.event_name.trim(),
+    feature: event.feature.trim(),
+    description: event.description?.trim() || null,
+    metadata_schema: event.metadata_schema,
+    status: event.status,
+    updated_by: user?.id ?? null,
+    updated_at: new Date().toISOString()
+  }
+  const { data, error } = isNew
+    ? await supabase.from('event_registry').insert(row).select().single()
+    : await supabase.from('event_registry').update(row).eq('event_name', row.event_name).select().single()
+
+  if (error) {
+    if (error.code === '23505') throw new Error(`${row.event_name} is already registered`)
+    throw error
+  }
+  return data
+}
+
+export async function fetchClicksByFeature(period: ReportingPeriod): Promise<FeatureClicks[]> {
+  const { data, error } = await supabase.rpc('get_clicks_by_feature', periodParams(period))
+  if (error) throw error
+
+  // bigint columns arrive as strings
+  return (data || []).map((row: any) => {
+    const clicks = Number(row.total_clicks)
+    const sessions = Number(row.unique_sessions)
+    return {
+      feature: row.feature,
+      events: Number(row.events),
+      total_clicks: clicks,
+      unique_sessions: sessions,
+      flagged_clicks: Number(row.flagged_clicks),
+      clicks_per_session: sessions > 0 ? Math.round((clicks / sessions) * 100) / 100 : 0
+    }
+  })
+}
+
+export async function fetchFlaggedClickEvents(period: ReportingPeriod): Promise<FlaggedClickEvent[]> {
+  const { data, error } = await supabase.rpc('get_flagged_click_events', periodParams(period))
+  if (error) throw error
+
+  return (data || []).map((row: any) => ({
+    event_name: row.event_name,
+    issue: row.issue,
+    clicks: Number(row.clicks),
+    last_seen: row.last_seen,
+    example_errors: row.example_errors ?? null
+  }))
+}
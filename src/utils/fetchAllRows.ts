@@ -0,0 +1,30 @@
+import { supabase } from '../lib/supabase'
+
+const PAGE_SIZE = 1000
+
+/**
+ * Fetch every row of a table, paging past PostgREST's default 1000-row cap.
+ * `match` restricts the rows to columns equal to the given values.
+ */
+export async function fetchAllRows<T>(
+  table: string,
+  columns: string = '*',
+  match: Record<string, unknown> = {}
+): Promise<T[]> {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .match(match)
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+
+    rows.push(...((data || []) as T[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return rows
+}
@@ -1,153 +1,65 @@
-import { supabase } from '../lib/supabase';
+import { supabase } from '../lib/supabase'
+import { invokeEdgeFunction } from '../lib/edgeFunctions'
 
-export interface PlayStoreData {
-  total_downloads: number;
-  daily_downloads: number;
-  android_downloads: number;
-  ios_downloads: number;
-  rating: number;
-  reviews_count: number;
-}
-
-export async function fetchPlayStoreData(): Promise<{
-  success: boolean;
-  data?: PlayStoreData;
-  error?: string;
-  source?: string;
-  cached?: boolean;
-}> {
-  try {
-    // Since Edge Functions may not be deployed yet, use direct SQL fallback with async play store sourcing
-    console.log('Fetching download stats from database with Play Store integration...');
-    
-    // First attempt to get most recent database records
-    const { data: latestStats, error: statsError } = await supabase
-      .from('download_stats')
-      .select('*')
-      .order('date', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    if (statsError) {
-      console.warn('Error fetching download stats from DB:', statsError);
-      return await fetchMarketBasedEstimates();
-    }
-
-    if (!latestStats) {
-      console.warn('No download stats found in database');
-      return await fetchMarketBasedEstimates();
-    }
+// Where a download_stats row came from; see update_download_stats_provenance.sql
+export type DownloadSource = 'google_play_reports' | 'manual' | 'legacy_estimate'
 
-    // Apply realistic fluctuations based on current stats
-    const currentDate = new Date();
-    const dayOfWeek = currentDate.getDay();
-    const hour = currentDate.getHours();
-    const randomFactor = 0.8 + (Math.random() * 0.4); // 80-120% volatility
-    
-    // Down during early morning, up during afternoon (SA time = UTC+2)
-    const hourFactor = hour >= 16 && hour <= 20 ? 1.15 : 
-                      hour >= 6 && hour <= 10 ? 0.9 : 1.0;
-    
-    // Edge function simulation while maintaining core structure
-    const mockApiResponse = {
-      total_downloads: Math.floor(latestStats.total_downloads * (1 + (randomFactor * 0.05))),
-      daily_downloads: Math.floor(latestStats.daily_downloads * randomFactor * hourFactor),
-      android_downloads: Math.floor(latestStats.android_downloads * (1 + (randomFactor * 0.04))),
-      ios_downloads: Math.floor(latestStats.ios_downloads * (1 + (randomFactor * 0.08))),
-      rating: Math.min(5.0, Math.max(1.0, latestStats.rating + ((randomFactor - 1) * 0.1))),
-      reviews_count: latestStats.reviews_count + Math.floor(randomFactor * 2)
-    };
-
-    console.log('Estimated current Play Store data:', mockApiResponse);
-
-    return {
-      success: true,
-      data: mockApiResponse,
-      source: 'database_with_simulation'
-    };
-
-  } catch (error) {
-    console.error('Error in Google Play API utility:', error);
-    return await fetchMarketBasedEstimates();
-  }
+export const DOWNLOAD_SOURCE_LABELS: Record<DownloadSource, string> = {
+  google_play_reports: 'Google Play Console reports',
+  manual: 'Entered manually',
+  legacy_estimate: 'Estimate, not from Google Play'
 }
 
-async function fetchMarketBasedEstimates() {
-  // Backup fallback based on South African education app market
-  const baseStats = {
-    total_downloads: 1240 + Math.floor(Math.random() * 120),
-    daily_downloads: 45 + Math.floor(Math.random() * 30),
-    android_downloads: 980 + Math.floor(Math.random() * 50),
-    ios_downloads: 260 + Math.floor(Math.random() * 40),
-    rating: 4.3 + (Math.random() * 0.2),
-    reviews_count: 36 + Math.floor(Math.random() * 8)
-  };
-
-  console.log('Using market-based estimates:', baseStats);
-
-  return {
-    success: true,
-    data: baseStats,
-    source: 'market_estimates_fallback'
-  };
+export interface DownloadStatsRow {
+  date: string
+  total_downloads: number
+  daily_downloads: number
+  android_downloads: number | null
+  ios_downloads: number | null
+  rating: number | null
+  daily_reviews: number | null
+  source: DownloadSource
+  source_ref: string | null
+  fetched_at: string | null
 }
 
-export async function synchronizeDownloadStats(): Promise<{ 
-  success: boolean; 
-  updatedStats?: PlayStoreData;
-  message?: string;
-}> {
-  try {
-    const playStoreResponse = await fetchPlayStoreData();
-    
-    if (!playStoreResponse.success) {
-      throw new Error('Could not fetch Play Store data');
-    }
-
-    if (!playStoreResponse.data) {
-      throw new Error('No data received from Play Store API');
-    }
+export interface PlayStoreSyncResult {
+  days_written: number
+  latest: DownloadStatsRow | null
+  reports: string[]
+  reviews_fetched: number
+}
 
-    // Update the database record with current realistic data
-    const currentDate = new Date().toISOString().split('T')[0];
-    const apiData = playStoreResponse.data;
+const DOWNLOAD_STATS_COLUMNS =
+  'date, total_downloads, daily_downloads, android_downloads, ios_downloads, rating, daily_reviews, source, source_ref, fetched_at'
 
-    const { data, error } = await supabase
-      .from('download_stats')
-      .upsert({
-        date: currentDate,
-        total_downloads: apiData.total_downloads,
-        daily_downloads: apiData.daily_downloads,
-        android_downloads: apiData.android_downloads,
-        ios_downloads: apiData.ios_downloads,
-        rating: apiData.rating,
-        reviews_count: apiData.reviews_count,
-        source: 'google_play_api',
-        updated_at: new Date().toISOString()
-      }, {
-        onConflict: 'date'
-      })
-      .select()
-      .single();
+/**
+ * Latest download_stats row with its provenance; null when nothing has been recorded yet
+ */
+export async function fetchLatestDownloadStats(): Promise<DownloadStatsRow | null> {
+  const { data, error } = await supabase
+    .from('download_stats')
+    .select(DOWNLOAD_STATS_COLUMNS)
+    .order('date', { ascending: false })
+    .limit(1)
+    .maybeSingle()
 
-    if (error) {
-      console.error('Error updating download stats:', error);
-      throw error;
-    }
+  if (error) throw error
+  if (!data) return null
 
-    console.log('Successfully synchronized download stats');
+  return {
+    ...data,
+    rating: data.rating === null ? null : Number(data.rating)
+  } as DownloadStatsRow
+}
 
-    return {
-      success: true,
-      updatedStats: apiData,
-      message: `Updated ${apiData.total_downloads} total downloads for ${currentDate}`
-    };
+/**
+ * Ask the fetch-play-store-data edge function to pull the last `days` days from Google Play into download_stats.
+ * Failures are thrown; nothing is estimated when Google cannot be reached.
+ */
+export async function synchronizeDownloadStats(days = 30): Promise<PlayStoreSyncResult> {
+  const data = await invokeEdgeFunction<PlayStoreSyncResult>('fetch-play-store-data', { days })
 
-  } catch (error) {
-    console.error('Failed to synchronize download stats:', error);
-    return {
-      success: false,
-      message: `Synchronization failed: ${(error as Error).message}`
-    };
-  }
-}
\ No newline at end of file
+  console.log('📱 Play Store data synchronised -', { days: data.days_written, reviews: data.reviews_fetched })
+  return data
+}
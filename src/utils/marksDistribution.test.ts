@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { onRpc, resetSupabaseFake } from '../test/supabaseFake'
+import { fetchMarksDistribution } from './marksDistribution'
+
+vi.mock('../lib/supabase', () => import('../test/supabaseFake'))
+
+const summaryRow = (group_value: string, students: string) => ({
+  group_value,
+  students,
+  mean: '61.2',
+  p10: '42.0',
+  p25: '51.5',
+  median: '60.0',
+  p75: '71.0',
+  p90: '80.5',
+  pct_ge_50: '77.0',
+  pct_ge_70: '28.3',
+  pct_ge_80: '10.1'
+})
+
+beforeEach(() => {
+  resetSupabaseFake()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+describe('fetchMarksDistribution', () => {
+  it('passes the metric and breakdown through and converts numeric strings', async () => {
+    const calls: Record<string, any> = {}
+    onRpc('get_marks_summary', args => {
+      calls.summary = args
+      return [summaryRow('Grade 12', '120')]
+    })
+    onRpc('get_marks_histogram', args => {
+      calls.histogram = args
+      return [
+        { group_value: 'Grade 12', bin_start: 10, bin_end: 20, students: '4' },
+        { group_value: 'Grade 12', bin_start: 0, bin_end: 10, students: '1' }
+      ]
+    })
+
+    const result = await fetchMarksDistribution({ metric: 'math_mark', breakdown: 'grade' })
+
+    expect(calls.summary).toEqual({ p_metric: 'math_mark', p_breakdown: 'grade', p_limit: null })
+    expect(calls.histogram).toEqual({ p_metric: 'math_mark', p_breakdown: 'grade', p_bin_width: 10 })
+    expect(result.summary[0]).toMatchObject({ group_value: 'Grade 12', students: 120, median: 60, pct_ge_50: 77 })
+    expect(result.histograms['Grade 12']).toEqual([
+      { bin_start: 0, bin_end: 10, students: 1 },
+      { bin_start: 10, bin_end: 20, students: 4 }
+    ])
+  })
+
+  it('sends a null breakdown for all students and drops histograms outside the kept groups', async () => {
+    onRpc('get_marks_summary', args => {
+      expect(args).toMatchObject({ p_breakdown: null, p_limit: 1 })
+      return [summaryRow('Soweto High', '80')]
+    })
+    onRpc('get_marks_histogram', () => [
+      { group_value: 'Soweto High', bin_start: 0, bin_end: 10, students: 2 },
+      { group_value: 'Small School', bin_start: 0, bin_end: 10, students: 1 }
+    ])
+
+    const result = await fetchMarksDistribution({ breakdown: 'none', maxGroups: 1 })
+    expect(Object.keys(result.histograms)).toEqual(['Soweto High'])
+  })
+
+  it('surfaces database errors', async () => {
+    onRpc('get_marks_summary', () => { throw new Error('permission denied') })
+    onRpc('get_marks_histogram', () => [])
+    await expect(fetchMarksDistribution()).rejects.toMatchObject({ message: 'permission denied' })
+  })
+})
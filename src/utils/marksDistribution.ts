@@ -0,0 +1,118 @@
+/**
+ * Client for the marks-distribution functions (get_marks_summary / get_marks_histogram).
+ * All aggregation happens in the database; this module only names the options and
+ * converts the numeric columns PostgREST returns as strings.
+ */
+
+import { supabase } from '../lib/supabase'
+
+export const MARK_METRICS = {
+  average: 'Overall average',
+  math_mark: 'Mathematics',
+  home_language_mark: 'Home Language',
+  first_additional_language_mark: 'First Additional Language',
+  second_additional_language_mark: 'Second Additional Language',
+  subject1_mark: 'Subject 1',
+  subject2_mark: 'Subject 2',
+  subject3_mark: 'Subject 3',
+  subject4_mark: 'Subject 4',
+  life_orientation_mark: 'Life Orientation'
+} as const
+
+export const MARK_BREAKDOWNS = {
+  none: 'All students',
+  grade: 'Grade',
+  school: 'School',
+  province: 'Province',
+  math_type: 'Maths type'
+} as const
+
+export type MarkMetric = keyof typeof MARK_METRICS
+export type MarkBreakdown = keyof typeof MARK_BREAKDOWNS
+
+export interface MarkBandSummary {
+  group_value: string
+  students: number
+  mean: number
+  p10: number
+  p25: number
+  median: number
+  p75: number
+  p90: number
+  pct_ge_50: number
+  pct_ge_70: number
+  pct_ge_80: number
+}
+
+export interface HistogramBin {
+  bin_start: number
+  bin_end: number
+  students: number
+}
+
+export interface MarksDistribution {
+  metric: MarkMetric
+  breakdown: MarkBreakdown
+  summary: MarkBandSummary[]                // largest groups first
+  histograms: Record<string, HistogramBin[]> // keyed by group_value, bins in order
+}
+
+export interface MarksDistributionOptions {
+  metric?: MarkMetric
+  breakdown?: MarkBreakdown
+  binWidth?: number
+  maxGroups?: number  // keep only the largest groups, e.g. for school breakdowns
+}
+
+/**
+ * Fetch percentile bands, threshold shares and histograms for one metric and breakdown
+ */
+export async function fetchMarksDistribution({
+  metric = 'average',
+  breakdown = 'none',
+  binWidth = 10,
+  maxGroups
+}: MarksDistributionOptions = {}): Promise<MarksDistribution> {
+  const p_breakdown = breakdown === 'none' ? null : breakdown
+
+  const [summaryResult, histogramResult] = await Promise.all([
+    supabase.rpc('get_marks_summary', { p_metric: metric, p_breakdown, p_limit: maxGroups ?? null }),
+    supabase.rpc('get_marks_histogram', { p_metric: metric, p_breakdown, p_bin_width: binWidth })
+  ])
+
+  if (summaryResult.error) throw summaryResult.error
+  if (histogramResult.error) throw histogramResult.error
+
+  const summary: MarkBandSummary[] = (summaryResult.data || []).map((row: any) => ({
+    group_value: row.group_value,
+    students: Number(row.students),
+    mean: Number(row.mean),
+    p10: Number(row.p10),
+    p25: Number(row.p25),
+    median: Number(row.median),
+    p75: Number(row.p75),
+    p90: Number(row.p90),
+    pct_ge_50: Number(row.pct_ge_50),
+    pct_ge_70: Number(row.pct_ge_70),
+    pct_ge_80: Number(row.pct_ge_80)
+  }))
+
+  // Histograms only for the groups kept in the summary
+  const groups = new Set(summary.map(row => row.group_value))
+  const histograms: Record<string, HistogramBin[]> = {}
+  for (const row of histogramResult.data || []) {
+    if (!groups.has(row.group_value)) continue
+    if (!histograms[row.group_value]) histograms[row.group_value] = []
+    histograms[row.group_value].push({
+      bin_start: Number(row.bin_start),
+      bin_end: Number(row.bin_end),
+      students: Number(row.students)
+    })
+  }
+  for (const bins of Object.values(histograms)) {
+    bins.sort((a, b) => a.bin_start - b.bin_start)
+  }
+
+  console.log('📊 Marks distribution loaded -', { metric, breakdown, groups: summary.length })
+  return { metric, breakdown, summary, histograms }
+}
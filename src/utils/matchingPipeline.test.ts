@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getTable, resetSupabaseFake, seedTable, setUniqueKey } from '../test/supabaseFake'
+import { computeProgramMatchSummary, fetchLatestMatchResults, runMatchingPipeline, toAvailablePrograms, toStudentSubjects } from './matchingPipeline'
+
+vi.mock('../lib/supabase', () => import('../test/supabaseFake'))
+
+beforeEach(() => {
+  resetSupabaseFake()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+
+  seedTable('user_marks', [{ user_id: 'u1', profile_id: 'p1', aps_mark: 30, math_mark: 70 }])
+  seedTable('profiles', [{ id: 'p1', school: 'Soweto High', role: 'Learner' }])
+  seedTable('universities', [{ id: 1, qualification: 'BCom', aps: 28, faculty: 'Commerce', university_name: 'UJ' }])
+})
+
+describe('runMatchingPipeline', () => {
+  it('marks the run complete once every result is saved', async () => {
+    const outcome = await runMatchingPipeline()
+
+    expect(outcome.success).toBe(true)
+    expect(outcome.run?.completed_at).toEqual(expect.any(String))
+
+    const { run, results } = await fetchLatestMatchResults()
+    expect(run?.id).toBe(outcome.run?.id)
+    expect(results).toHaveLength(1)
+  })
+
+  it('discards a run whose results failed part-way, keeping the previous run latest', async () => {
+    seedTable('program_match_runs', [{ id: 'previous', computed_at: '2026-09-01T00:00:00Z', completed_at: '2026-09-01T00:01:00Z' }])
+    // The school results insert fails after the programme results were saved
+    setUniqueKey('program_match_school_results', ['school_key'])
+    seedTable('program_match_school_results', [{ run_id: 'previous', school_key: 'soweto high', students: 1 }])
+
+    const outcome = await runMatchingPipeline()
+
+    expect(outcome.success).toBe(false)
+    expect(getTable('program_match_runs').map(run => run.id)).toEqual(['previous'])
+    expect((await fetchLatestMatchResults()).run?.id).toBe('previous')
+  })
+
+  it('counts schools from each learner\'s latest marks, as the school rankings do', async () => {
+    seedTable('user_marks', [
+      { user_id: 'u1', profile_id: 'p1', created_at: '2026-03-01T00:00:00Z', aps_mark: 20, math_mark: 40 },
+      { user_id: 'u1', profile_id: 'p1', created_at: '2026-09-01T00:00:00Z', aps_mark: 30, math_mark: 70 },
+      { user_id: 'u2', profile_id: 'p2', created_at: '2026-09-01T00:00:00Z', aps_mark: 35, math_mark: 80 }
+    ])
+    seedTable('profiles', [
+      { id: 'p1', school: 'Soweto High', role: 'Learner' },
+      { id: 'p2', school: 'Soweto High', role: 'Parent' }
+    ])
+
+    await runMatchingPipeline()
+
+    expect(getTable('program_match_school_results')).toEqual([
+      expect.objectContaining({ school_key: 'soweto high', students: 1, university_qualified: 1, tvet_qualified: 0 })
+    ])
+  })
+})
+
+describe('computeProgramMatchSummary', () => {
+  it('counts each learner once, from their latest marks', () => {
+    const programs = toAvailablePrograms([{ id: 1, qualification: 'BCom', aps: 28, faculty: 'Commerce', university_name: 'UJ' }], [], [])
+    const summary = computeProgramMatchSummary([
+      { user_id: 'u1', profile_id: 'p1', created_at: '2026-09-01T00:00:00Z', aps_mark: 20 },
+      { user_id: 'u1', profile_id: 'p1', created_at: '2026-03-01T00:00:00Z', aps_mark: 30 },
+      { user_id: 'u2', profile_id: 'p2', created_at: '2026-09-01T00:00:00Z', aps_mark: 30 }
+    ], programs)
+
+    expect(summary.total_students).toBe(2)
+    expect(summary.results[0]).toMatchObject({ qualified_students: 1, pct_of_total: 50 })
+    expect(summary.average_matches_per_student).toBe(0.5)
+  })
+})
+
+describe('math subject', () => {
+  const programs = toAvailablePrograms(
+    [{ id: 1, qualification: 'BSc Engineering', aps: 30, faculty: 'Engineering', university_name: 'Wits' }],
+    [],
+    // No excluded_types: Maths Lit must still not count as Mathematics
+    [{ institution_type: 'university', program_id: 1, subject: 'Mathematics', min_level: 5, min_percentage: null, excluded_types: [] }]
+  )
+  const learner = (math_type: string | null) => ({ user_id: 'u1', aps_mark: 35, math_type, math_mark: 80 })
+
+  it('is named after math_type, defaulting to Mathematics', () => {
+    expect(toStudentSubjects(learner('Mathematical Literacy'))[0].name).toBe('Mathematical Literacy')
+    expect(toStudentSubjects(learner(null))[0].name).toBe('Mathematics')
+  })
+
+  it('does not let a Maths Lit learner meet a Mathematics requirement', () => {
+    expect(computeProgramMatchSummary([learner('Mathematical Literacy')], programs).results[0].qualified_students).toBe(0)
+    expect(computeProgramMatchSummary([learner('Mathematics')], programs).results[0].qualified_students).toBe(1)
+  })
+})
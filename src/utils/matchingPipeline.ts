@@ -0,0 +1,425 @@
+/**
+ * Matching pipeline
+ * Runs ProfileMatcher over every user_marks row against all university and TVET programmes,
+ * then persists per-programme qualified counts for the MatchingProfiles page
+ */
+
+import { supabase } from '../lib/supabase'
+import type { AvailableProgram, SubjectRequirement } from '../types'
+import { fetchAllRows } from './fetchAllRows'
+import { validateApsMark, type ValidatedStudentMark } from './dataConsistency'
+import { ProfileMatcher, type StudentProfile, type StudentSubject } from './profileMatching'
+import { learnerIdOf, latestUserMarks, percentageToNscLevel } from '../../supabase/functions/_shared/aps.ts'
+
+export interface ProgramMatchResult {
+  program_id: number
+  institution_type: 'University' | 'TVET'
+  institution_name: string
+  qualification: string
+  faculty: string
+  required_aps: number
+  qualified_students: number
+  pct_of_total: number
+}
+
+export interface MatchDistributionBucket {
+  range: string
+  count: number
+}
+
+export interface ProgramMatchRun {
+  id: string
+  computed_at: string
+  total_students: number
+  total_programs: number
+  average_matches_per_student: number
+  match_distribution: MatchDistributionBucket[]
+  completed_at: string | null
+}
+
+export interface SchoolMatchResult {
+  school_key: string
+  students: number
+  university_qualified: number
+  tvet_qualified: number
+}
+
+export interface ProgramMatchSummary {
+  total_students: number
+  total_programs: number
+  average_matches_per_student: number
+  match_distribution: MatchDistributionBucket[]
+  results: ProgramMatchResult[]
+  school_results: SchoolMatchResult[]
+}
+
+// Buckets for "how many programmes does a student qualify for"
+const DISTRIBUTION_BUCKETS: { range: string; min: number; max: number }[] = [
+  { range: '0 matches', min: 0, max: 0 },
+  { range: '1-10 matches', min: 1, max: 10 },
+  { range: '11-50 matches', min: 11, max: 50 },
+  { range: '51-250 matches', min: 51, max: 250 },
+  { range: '251-1000 matches', min: 251, max: 1000 },
+  { range: '1000+ matches', min: 1001, max: Infinity }
+]
+
+const INSERT_CHUNK_SIZE = 500
+
+const SUBJECT_MARK_FIELDS = [
+  'math_mark',
+  'home_language_mark',
+  'first_additional_language_mark',
+  'second_additional_language_mark',
+  'life_orientation_mark',
+  'subject1_mark',
+  'subject2_mark',
+  'subject3_mark',
+  'subject4_mark'
+] as const
+
+interface SubjectSlot {
+  slot: string
+  name: string | null                       // fixed subject name, or the fallback when nameField is empty
+  nameField?: keyof ValidatedStudentMark
+  mark: keyof ValidatedStudentMark
+  level: keyof ValidatedStudentMark
+}
+
+// user_marks slots with their mark/level columns and where the subject's name comes from
+const SUBJECT_SLOTS: SubjectSlot[] = [
+  { slot: 'math', name: 'Mathematics', nameField: 'math_type', mark: 'math_mark', level: 'math_level' },
+  { slot: 'home_language', name: null, nameField: 'home_language', mark: 'home_language_mark', level: 'home_language_level' },
+  { slot: 'first_additional_language', name: null, nameField: 'first_additional_language', mark: 'first_additional_language_mark', level: 'first_additional_language_level' },
+  { slot: 'second_additional_language', name: null, nameField: 'second_additional_language', mark: 'second_additional_language_mark', level: 'second_additional_language_level' },
+  { slot: 'life_orientation', name: 'Life Orientation', mark: 'life_orientation_mark', level: 'life_orientation_level' },
+  { slot: 'subject1', name: null, nameField: 'subject1', mark: 'subject1_mark', level: 'subject1_level' },
+  { slot: 'subject2', name: null, nameField: 'subject2', mark: 'subject2_mark', level: 'subject2_level' },
+  { slot: 'subject3', name: null, nameField: 'subject3', mark: 'subject3_mark', level: 'subject3_level' },
+  { slot: 'subject4', name: null, nameField: 'subject4', mark: 'subject4_mark', level: 'subject4_level' }
+]
+
+const USER_MARKS_COLUMNS = [
+  'user_id',
+  'profile_id',
+  'created_at',
+  'aps_mark',
+  ...SUBJECT_SLOTS.flatMap(({ nameField, mark, level }) => [nameField, mark, level].filter(Boolean))
+].join(', ')
+
+type StudentMarkRow = Partial<ValidatedStudentMark> & { user_id: string; created_at?: string }
+
+interface ProfileSchoolRow {
+  id: string
+  school: string | null
+}
+
+interface UniversityRow {
+  id: number
+  qualification: string
+  aps: number | string | null
+  faculty: string | null
+  university_name: string
+}
+
+interface TvetRow {
+  id: number
+  qualification: string
+  aps: number | string | null
+  faculty: string | null
+  tvet_college_name: string
+}
+
+interface SubjectRequirementRow extends SubjectRequirement {
+  institution_type: 'university' | 'tvet'
+  program_id: number
+}
+
+const toNumberOrNull = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' ? null : Number(value)
+
+/**
+ * The subjects a student wrote, with levels, as ProfileMatcher expects them
+ */
+export function toStudentSubjects(row: StudentMarkRow): StudentSubject[] {
+  const subjects: StudentSubject[] = []
+
+  for (const { slot, name, nameField, mark, level } of SUBJECT_SLOTS) {
+    const subjectName = (nameField ? (row[nameField] as string | null | undefined)?.trim() : null) || name
+    const subjectMark = toNumberOrNull(row[mark])
+    // Derive the level from the percentage when only the mark was captured
+    const subjectLevel = toNumberOrNull(row[level]) ?? (subjectMark !== null ? percentageToNscLevel(subjectMark) : null)
+    if (!subjectName || (subjectMark === null && subjectLevel === null)) continue
+
+    subjects.push({
+      slot,
+      name: subjectName,
+      type: slot === 'math' ? row.math_type ?? null : null,
+      mark: subjectMark,
+      level: subjectLevel
+    })
+  }
+
+  return subjects
+}
+
+/**
+ * Build a StudentProfile from a user_marks row; null when the row has no usable APS
+ */
+export function toStudentProfile(row: StudentMarkRow): StudentProfile | null {
+  const aps = validateApsMark(row.aps_mark, 'aps_mark')
+  if (!aps.success || aps.value === null) return null
+
+  const subject_marks: Record<string, number | null> = {}
+  for (const field of SUBJECT_MARK_FIELDS) {
+    subject_marks[field] = toNumberOrNull(row[field])
+  }
+
+  return { user_id: row.user_id, aps_mark: aps.value, subject_marks, subjects: toStudentSubjects(row) }
+}
+
+/**
+ * Normalise university and TVET rows into the matcher's programme shape, attaching subject requirements.
+ * Rows without a numeric APS requirement cannot be matched and are skipped.
+ */
+export function toAvailablePrograms(
+  universities: UniversityRow[],
+  tvet: TvetRow[],
+  requirementRows: SubjectRequirementRow[] = []
+): AvailableProgram[] {
+  const programs: AvailableProgram[] = []
+  const requirements = new Map<string, SubjectRequirement[]>()
+
+  for (const { institution_type, program_id, subject, min_level, min_percentage, excluded_types } of requirementRows) {
+    const key = `${institution_type}:${program_id}`
+    requirements.set(key, [
+      ...(requirements.get(key) || []),
+      { subject, min_level: toNumberOrNull(min_level), min_percentage: toNumberOrNull(min_percentage), excluded_types: excluded_types || [] }
+    ])
+  }
+
+  for (const row of universities) {
+    const aps = Number(row.aps)
+    if (row.aps === null || !Number.isFinite(aps)) continue
+    programs.push({
+      id: row.id,
+      type: 'university',
+      qualification: row.qualification,
+      institution_name: row.university_name,
+      required_aps: aps,
+      faculty: row.faculty || '',
+      subject_requirements: requirements.get(`university:${row.id}`)
+    })
+  }
+
+  for (const row of tvet) {
+    const aps = Number(row.aps)
+    if (row.aps === null || !Number.isFinite(aps)) continue
+    programs.push({
+      id: row.id,
+      type: 'tvet',
+      qualification: row.qualification,
+      institution_name: row.tvet_college_name,
+      required_aps: aps,
+      faculty: row.faculty || '',
+      subject_requirements: requirements.get(`tvet:${row.id}`)
+    })
+  }
+
+  return programs
+}
+
+/**
+ * Load every university and TVET programme with its subject requirements, ready for ProfileMatcher
+ */
+export async function fetchAvailablePrograms(): Promise<AvailableProgram[]> {
+  const [universities, tvet, requirementRows] = await Promise.all([
+    fetchAllRows<UniversityRow>('universities', 'id, qualification, aps, faculty, university_name'),
+    fetchAllRows<TvetRow>('tvet_colleges_name', 'id, qualification, aps, faculty, tvet_college_name'),
+    fetchAllRows<SubjectRequirementRow>(
+      'program_subject_requirements',
+      'institution_type, program_id, subject, min_level, min_percentage, excluded_types'
+    )
+  ])
+
+  return toAvailablePrograms(universities, tvet, requirementRows)
+}
+
+/**
+ * Key used to group free-text school names; matches LOWER(TRIM(school)) in the school report functions
+ */
+export function toSchoolKey(school: string | null | undefined): string | null {
+  const key = (school || '').trim().toLowerCase()
+  return key || null
+}
+
+/**
+ * Count, for every programme, how many students the matcher qualifies for it.
+ * With schoolByProfile (learner profile id -> school), also count per school how many students
+ * qualify for at least one university and at least one TVET programme. Like get_school_rankings,
+ * every count takes each learner once, from their latest user_marks row.
+ */
+export function computeProgramMatchSummary(
+  markRows: StudentMarkRow[],
+  programs: AvailableProgram[],
+  schoolByProfile: Map<string, string> = new Map()
+): ProgramMatchSummary {
+  const matcher = new ProfileMatcher(programs)
+  const students = latestUserMarks(markRows)
+    .map(row => ({ row, student: toStudentProfile(row) }))
+    .filter((entry): entry is { row: StudentMarkRow; student: StudentProfile } => entry.student !== null)
+  const schoolCounts = new Map<string, SchoolMatchResult>()
+
+  // Programme ids are only unique within their source table
+  const keyOf = (type: string, id: number) => `${type}:${id}`
+  const qualifiedCounts = new Map<string, number>()
+  const distribution = DISTRIBUTION_BUCKETS.map(bucket => ({ ...bucket, count: 0 }))
+  let totalMatches = 0
+
+  for (const { row, student } of students) {
+    const matches = matcher.findMatches(student)
+    totalMatches += matches.length
+
+    for (const match of matches) {
+      const key = keyOf(match.institution_type, match.program_id)
+      qualifiedCounts.set(key, (qualifiedCounts.get(key) || 0) + 1)
+    }
+
+    const bucket = distribution.find(b => matches.length >= b.min && matches.length <= b.max)
+    if (bucket) bucket.count++
+
+    const school = toSchoolKey(schoolByProfile.get(learnerIdOf(row)))
+    if (school) {
+      const counts = schoolCounts.get(school) || { school_key: school, students: 0, university_qualified: 0, tvet_qualified: 0 }
+      counts.students++
+      if (matches.some(match => match.institution_type === 'university')) counts.university_qualified++
+      if (matches.some(match => match.institution_type === 'tvet')) counts.tvet_qualified++
+      schoolCounts.set(school, counts)
+    }
+  }
+
+  const totalStudents = students.length
+  const results: ProgramMatchResult[] = programs.map(program => {
+    const qualified = qualifiedCounts.get(keyOf(program.type, program.id)) || 0
+    return {
+      program_id: program.id,
+      institution_type: program.type === 'university' ? 'University' : 'TVET',
+      institution_name: program.institution_name,
+      qualification: program.qualification,
+      faculty: program.faculty,
+      required_aps: program.required_aps,
+      qualified_students: qualified,
+      pct_of_total: totalStudents > 0 ? Math.round((qualified / totalStudents) * 1000) / 10 : 0
+    }
+  })
+
+  return {
+    total_students: totalStudents,
+    total_programs: programs.length,
+    average_matches_per_student: totalStudents > 0 ? Math.round((totalMatches / totalStudents) * 10) / 10 : 0,
+    match_distribution: distribution.map(({ range, count }) => ({ range, count })),
+    results: results.sort((a, b) => b.pct_of_total - a.pct_of_total),
+    school_results: Array.from(schoolCounts.values())
+  }
+}
+
+/**
+ * Run the full pipeline and store the outcome as a new program_match_runs entry
+ */
+export async function runMatchingPipeline(): Promise<{ success: boolean; run?: ProgramMatchRun; error?: string }> {
+  let runId: string | null = null
+  try {
+    console.log('🧮 Running matching pipeline...')
+
+    const [markRows, programs, profileSchools] = await Promise.all([
+      fetchAllRows<StudentMarkRow>('user_marks', USER_MARKS_COLUMNS),
+      fetchAvailablePrograms(),
+      fetchAllRows<ProfileSchoolRow>('profiles', 'id, school', { role: 'Learner' })
+    ])
+
+    const schoolByProfile = new Map(
+      profileSchools.filter(row => row.school).map(row => [row.id, row.school as string])
+    )
+    const summary = computeProgramMatchSummary(markRows, programs, schoolByProfile)
+    console.log(`📊 Matched ${summary.total_students} students against ${summary.total_programs} programmes`)
+
+    const { data: run, error: runError } = await supabase
+      .from('program_match_runs')
+      .insert({
+        total_students: summary.total_students,
+        total_programs: summary.total_programs,
+        average_matches_per_student: summary.average_matches_per_student,
+        match_distribution: summary.match_distribution
+      })
+      .select()
+      .single()
+
+    if (runError) throw runError
+    runId = run.id
+
+    const rows = summary.results.map(result => ({ ...result, run_id: run.id }))
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      const { error } = await supabase
+        .from('program_match_results')
+        .insert(rows.slice(i, i + INSERT_CHUNK_SIZE))
+
+      if (error) throw error
+    }
+
+    const schoolRows = summary.school_results.map(result => ({ ...result, run_id: run.id }))
+    for (let i = 0; i < schoolRows.length; i += INSERT_CHUNK_SIZE) {
+      const { error } = await supabase
+        .from('program_match_school_results')
+        .insert(schoolRows.slice(i, i + INSERT_CHUNK_SIZE))
+
+      if (error) throw error
+    }
+
+    // Readers only see completed runs, so a run that failed part-way never replaces the previous one
+    const { data: completedRun, error: completeError } = await supabase
+      .from('program_match_runs')
+      .update({ completed_at: new Date().toISOString() })
+      .eq('id', run.id)
+      .select()
+      .single()
+
+    if (completeError) throw completeError
+
+    console.log('✅ Matching pipeline results saved')
+    return { success: true, run: completedRun as ProgramMatchRun }
+  } catch (error) {
+    console.error('❌ Matching pipeline failed:', error)
+    if (runId) {
+      const { error: cleanupError } = await supabase.from('program_match_runs').delete().eq('id', runId)
+      if (cleanupError) console.error('❌ Could not discard the partial match run:', cleanupError)
+    }
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+/**
+ * Load the most recent completed pipeline run and its per-programme results
+ */
+export async function fetchLatestMatchResults(): Promise<{ run: ProgramMatchRun | null; results: ProgramMatchResult[] }> {
+  const { data: run, error: runError } = await supabase
+    .from('program_match_runs')
+    .select('*')
+    .not('completed_at', 'is', null)
+    .order('computed_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (runError) throw runError
+  if (!run) return { run: null, results: [] }
+
+  const results = await fetchAllRows<ProgramMatchResult>(
+    'program_match_results',
+    'program_id, institution_type, institution_name, qualification, faculty, required_aps, qualified_students, pct_of_total',
+    { run_id: run.id }
+  )
+
+  // NUMERIC columns arrive as strings
+  return {
+    run: { ...run, average_matches_per_student: Number(run.average_matches_per_student) } as ProgramMatchRun,
+    results: results.map(result => ({ ...result, pct_of_total: Number(result.pct_of_total) }))
+  }
+}
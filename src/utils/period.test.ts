@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { percentChange, periodDays, previousPeriod, resolvePeriod, startOfLocalDay, toLocalDate } from './period'
+
+// 23:30 UTC on 14 Oct is already 15 Oct in Johannesburg (UTC+2)
+const NOW = new Date('2025-10-14T23:30:00Z')
+
+describe('toLocalDate / startOfLocalDay', () => {
+  it('uses the Johannesburg calendar day, not UTC', () => {
+    expect(toLocalDate(NOW)).toBe('2025-10-15')
+  })
+
+  it('places local midnight two hours before UTC midnight', () => {
+    expect(startOfLocalDay('2025-10-15').toISOString()).toBe('2025-10-14T22:00:00.000Z')
+  })
+})
+
+describe('resolvePeriod', () => {
+  it('covers today from local midnight to the next', () => {
+    const period = resolvePeriod({ preset: 'today' }, NOW)
+    expect(period).toMatchObject({ from: '2025-10-15', to: '2025-10-15', days: 1, label: 'Today' })
+    expect(period.start.toISOString()).toBe('2025-10-14T22:00:00.000Z')
+    expect(period.end.toISOString()).toBe('2025-10-15T22:00:00.000Z')
+  })
+
+  it('treats "last 7 days" as the complete days before today', () => {
+    expect(resolvePeriod({ preset: '7d' }, NOW)).toMatchObject({ from: '2025-10-08', to: '2025-10-14', days: 7 })
+  })
+
+  it('accepts custom ranges in either order', () => {
+    const period = resolvePeriod({ preset: 'custom', from: '2025-10-10', to: '2025-10-01' }, NOW)
+    expect(period).toMatchObject({ from: '2025-10-01', to: '2025-10-10', days: 10 })
+  })
+
+  it('falls back to the last 7 days for an incomplete custom range', () => {
+    expect(resolvePeriod({ preset: 'custom', from: '2025-10-01' }, NOW)).toMatchObject({ from: '2025-10-08', days: 7 })
+  })
+})
+
+describe('previousPeriod', () => {
+  it('is the same length and ends the day before', () => {
+    const previous = previousPeriod(resolvePeriod({ preset: '30d' }, NOW))
+    expect(previous).toMatchObject({ from: '2025-08-16', to: '2025-09-14', days: 30 })
+  })
+})
+
+describe('periodDays', () => {
+  it('lists each local day across a month boundary', () => {
+    const period = resolvePeriod({ preset: 'custom', from: '2025-09-29', to: '2025-10-02' }, NOW)
+    expect(periodDays(period)).toEqual(['2025-09-29', '2025-09-30', '2025-10-01', '2025-10-02'])
+  })
+})
+
+describe('percentChange', () => {
+  it('rounds to one decimal and has no baseline for zero', () => {
+    expect(percentChange(150, 120)).toBe(25)
+    expect(percentChange(1, 3)).toBe(-66.7)
+    expect(percentChange(5, 0)).toBeNull()
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * Reporting periods for the dashboard's global date-range picker.
+ * All day boundaries are local midnights in Africa/Johannesburg, whatever the
+ * browser's timezone, so the pages and the SQL functions agree on what "today" is.
+ */
+
+export const REPORTING_TIMEZONE = 'Africa/Johannesburg'
+
+export type PeriodPreset = 'today' | 'yesterday' | '7d' | '30d' | '90d' | 'custom'
+
+export interface PeriodSelection {
+  preset: PeriodPreset
+  from?: string   // YYYY-MM-DD, custom ranges only
+  to?: string     // YYYY-MM-DD inclusive, custom ranges only
+}
+
+export interface ReportingPeriod {
+  from: string    // first local day, YYYY-MM-DD
+  to: string      // last local day (inclusive), YYYY-MM-DD
+  start: Date     // local midnight at the start of `from`
+  end: Date       // local midnight after `to` (exclusive)
+  days: number
+  label: string
+}
+
+export const PERIOD_PRESETS: Record<Exclude<PeriodPreset, 'custom'>, string> = {
+  today: 'Today',
+  yesterday: 'Yesterday',
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days'
+}
+
+const PRESET_DAYS = { '7d': 7, '30d': 30, '90d': 90 } as const
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// [year, monthIndex, day] of a YYYY-MM-DD date, ready for Date.UTC
+function ymd(date: string): [number, number, number] {
+  const [year, month, day] = date.split('-').map(Number)
+  return [year, month - 1, day]
+}
+
+// Local calendar date (YYYY-MM-DD) of an instant in the reporting timezone
+export function toLocalDate(instant: Date, timeZone: string = REPORTING_TIMEZONE): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant)
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.UTC(...ymd(date)) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+function timeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(instant)
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value)
+  const localAsUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'))
+  return localAsUtc - Math.floor(instant.getTime() / 1000) * 1000
+}
+
+// The instant of local midnight at the start of a calendar date
+export function startOfLocalDay(date: string, timeZone: string = REPORTING_TIMEZONE): Date {
+  const utcMidnight = Date.UTC(...ymd(date))
+  return new Date(utcMidnight - timeZoneOffsetMs(new Date(utcMidnight), timeZone))
+}
+
+function formatLocalDate(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-ZA', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' })
+}
+
+function buildPeriod(from: string, to: string, label: string | null, timeZone: string): ReportingPeriod {
+  const start = startOfLocalDay(from, timeZone)
+  const end = startOfLocalDay(addDays(to, 1), timeZone)
+  return {
+    from,
+    to,
+    start,
+    end,
+    days: Math.round((Date.UTC(...ymd(to)) - Date.UTC(...ymd(from))) / DAY_MS) + 1,
+    label: label ?? (from === to ? formatLocalDate(from) : `${formatLocalDate(from)} – ${formatLocalDate(to)}`)
+  }
+}
+
+/**
+ * Resolve a picker selection to concrete local days.
+ * "Last N days" are the N complete days before today; today is its own preset.
+ * Custom ranges with missing or invalid dates fall back to the last 7 days.
+ */
+export function resolvePeriod(
+  selection: PeriodSelection,
+  now: Date = new Date(),
+  timeZone: string = REPORTING_TIMEZONE
+): ReportingPeriod {
+  const today = toLocalDate(now, timeZone)
+
+  switch (selection.preset) {
+    case 'today':
+      return buildPeriod(today, today, PERIOD_PRESETS.today, timeZone)
+    case 'yesterday': {
+      const yesterday = addDays(today, -1)
+      return buildPeriod(yesterday, yesterday, PERIOD_PRESETS.yesterday, timeZone)
+    }
+    case 'custom': {
+      const { from, to } = selection
+      if (from && to && DATE_PATTERN.test(from) && DATE_PATTERN.test(to)) {
+        return from <= to ? buildPeriod(from, to, null, timeZone) : buildPeriod(to, from, null, timeZone)
+      }
+      return resolvePeriod({ preset: '7d' }, now, timeZone)
+    }
+    default: {
+      const days = PRESET_DAYS[selection.preset]
+      return buildPeriod(addDays(today, -days), addDays(today, -1), PERIOD_PRESETS[selection.preset], timeZone)
+    }
+  }
+}
+
+// The period of the same length that ends the day before `period` starts
+export function previousPeriod(period: ReportingPeriod, timeZone: string = REPORTING_TIMEZONE): ReportingPeriod {
+  const to = addDays(period.from, -1)
+  return buildPeriod(addDays(to, -(period.days - 1)), to, null, timeZone)
+}
+
+// Every local day in the period, oldest first; for zero-filling daily charts
+export function periodDays(period: ReportingPeriod): string[] {
+  return Array.from({ length: period.days }, (_, i) => addDays(period.from, i))
+}
+
+// Standard p_start/p_end arguments for the analytics RPCs
+export function periodParams(period: ReportingPeriod) {
+  return { p_start: period.start.toISOString(), p_end: period.end.toISOString() }
+}
+
+// Percentage change from previous to current, rounded to 1 decimal; null when there is no baseline
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null
+  return Math.round(((current - previous) / previous) * 1000) / 10
+}
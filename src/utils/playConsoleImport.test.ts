@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { onRpc, resetSupabaseFake } from '../test/supabaseFake'
+import { importPlayConsoleReport, prepareReport } from './playConsoleImport'
+
+vi.mock('../lib/supabase', () => import('../test/supabaseFake'))
+
+const PACKAGE = 'com.reslocate.new'
+
+// Play Console exports are UTF-16LE with a byte order mark
+const utf16 = (lines: string[]) => {
+  const text = lines.join('\n')
+  const bytes = new Uint8Array(2 + text.length * 2)
+  bytes.set([0xff, 0xfe])
+  for (let i = 0; i < text.length; i++) {
+    bytes[2 + i * 2] = text.charCodeAt(i) & 0xff
+    bytes[3 + i * 2] = text.charCodeAt(i) >> 8
+  }
+  return bytes
+}
+
+const COUNTRY_HEADER = 'Date,Package Name,Country,Daily Device Installs,Total User Installs,Daily User Installs'
+
+describe('prepareReport', () => {
+  it('dedupes by date and country and reports rows it could not use', () => {
+    const report = prepareReport(`installs_${PACKAGE}_202609_country.csv`, utf16([
+      COUNTRY_HEADER,
+      `2026-09-01,${PACKAGE},ZA,12,"1,200",11`,
+      `2026-09-01,${PACKAGE},NA,1,40,1`,
+      `2026-09-01,${PACKAGE},ZA,13,"1,201",12`,
+      `2026-10-01,${PACKAGE},ZA,1,1,1`,
+      `2026-09-02,com.other.app,ZA,1,1,1`,
+      `2026-09-02,${PACKAGE},,1,1,1`
+    ]))
+
+    expect(report).toMatchObject({
+      kind: 'installs',
+      dimension: 'country',
+      package_name: PACKAGE,
+      month: '202609',
+      rows_read: 6,
+      duplicates: 1,
+      skipped: 3
+    })
+    expect(report.rows).toEqual([
+      { date: '2026-09-01', key: 'NA', daily_installs: 1, total_installs: 40, rating: null },
+      { date: '2026-09-01', key: 'ZA', daily_installs: 12, total_installs: 1201, rating: null }
+    ])
+    expect(report.errors).toEqual([
+      'Row 5: date 2026-10-01 is not in 2026-09',
+      'Row 6: package com.other.app does not match the file name',
+      'Row 7: Country is blank'
+    ])
+  })
+
+  it('rejects unknown file names, unsupported reports and missing columns', () => {
+    const csv = utf16([`Date,Package Name,Total User Installs`, `2026-09-01,${PACKAGE},10`])
+
+    expect(prepareReport('downloads.csv', csv).errors[0]).toMatch(/does not follow the Play Console pattern/)
+    expect(prepareReport(`crashes_${PACKAGE}_202609_overview.csv`, csv).errors).toEqual([
+      'crashes reports are not imported; upload installs or ratings reports'
+    ])
+    const report = prepareReport(`installs_${PACKAGE}_202609_device.csv`, csv)
+    expect(report.rows).toEqual([])
+    expect(report.errors).toEqual(['Missing columns: Device, Daily User Installs or Daily Device Installs'])
+  })
+
+  it('keeps ratings only where Play has one', () => {
+    const report = prepareReport(`ratings_${PACKAGE}_202609_overview.csv`, new TextEncoder().encode([
+      'Date,Package Name,Daily Average Rating,Total Average Rating',
+      `2026-09-01,${PACKAGE},5,4.3456`,
+      `2026-09-02,${PACKAGE},NA,`
+    ].join('\n')))
+
+    expect(report.rows).toEqual([{ date: '2026-09-01', key: '', daily_installs: null, total_installs: null, rating: 4.35 }])
+    expect(report).toMatchObject({ skipped: 1, errors: [] })
+  })
+})
+
+describe('importPlayConsoleReport', () => {
+  beforeEach(() => resetSupabaseFake())
+
+  it('sends rejected files too so they appear in the import history', async () => {
+    let args: Record<string, any> = {}
+    onRpc('import_play_console_report', received => {
+      args = received
+      return { id: 7, status: 'rejected', rows_written: 0 }
+    })
+
+    const result = await importPlayConsoleReport(`installs_${PACKAGE}_202609_overview.csv`, utf16(['Date,Package Name']))
+
+    expect(result).toMatchObject({ id: 7, status: 'rejected' })
+    expect(args).toMatchObject({
+      p_file_name: `installs_${PACKAGE}_202609_overview.csv`,
+      p_report_kind: 'installs',
+      p_dimension: 'overview',
+      p_report_month: '202609',
+      p_rows: [],
+      p_errors: ['The file has no data rows']
+    })
+  })
+})
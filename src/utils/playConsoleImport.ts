@@ -0,0 +1,202 @@
+/**
+ * Play Console report importer
+ * Admins upload the monthly CSVs downloaded from the Play Console (UTF-16, named like
+ * `installs_com.reslocate.new_202409_country.csv`). Files are checked and deduplicated here, then
+ * import_play_console_report writes them to download_stats or the country/device tables and logs the import.
+ */
+
+import { supabase } from '../lib/supabase'
+import {
+  ReportRow,
+  parseReportCsv,
+  parseReportFileName,
+  toCount,
+  toRating
+} from '../../supabase/functions/_shared/play-store.ts'
+
+export type ImportKind = 'installs' | 'ratings'
+export type ImportDimension = 'overview' | 'country' | 'device'
+
+const KINDS: ImportKind[] = ['installs', 'ratings']
+const DIMENSIONS: ImportDimension[] = ['overview', 'country', 'device']
+
+// Column holding the breakdown key; overview reports have one row per day
+const DIMENSION_COLUMN: Record<ImportDimension, string | null> = { overview: null, country: 'Country', device: 'Device' }
+
+// Play has used both install columns over the years; either one is enough
+const DAILY_INSTALL_COLUMNS = ['Daily User Installs', 'Daily Device Installs']
+
+export interface ImportRow {
+  date: string
+  key: string               // '' for overview reports
+  daily_installs: number | null
+  total_installs: number | null
+  rating: number | null
+}
+
+export interface PreparedReport {
+  file_name: string
+  kind: ImportKind | null
+  dimension: ImportDimension | null
+  package_name: string | null
+  month: string | null
+  rows: ImportRow[]
+  rows_read: number
+  duplicates: number         // later rows for the same date and key replace earlier ones
+  skipped: number
+  errors: string[]           // the file is rejected when errors leave no rows
+}
+
+export interface PlayConsoleImport {
+  id: number
+  file_name: string
+  report_kind: string | null
+  dimension: string | null
+  package_name: string | null
+  report_month: string | null
+  status: 'imported' | 'partial' | 'rejected'
+  rows_read: number
+  rows_written: number
+  duplicates: number
+  skipped: number
+  errors: string[]
+  imported_by: string | null
+  imported_at: string
+}
+
+// Keep the history readable when a whole file is malformed
+const MAX_ROW_ERRORS = 20
+
+const rejected = (report: PreparedReport, error: string): PreparedReport => ({
+  ...report,
+  rows: [],
+  errors: [...report.errors, error]
+})
+
+/**
+ * Validate a Play Console report and reduce it to one row per date and country/device
+ */
+export function prepareReport(fileName: string, bytes: Uint8Array): PreparedReport {
+  const name = parseReportFileName(fileName)
+  const report: PreparedReport = {
+    file_name: fileName,
+    kind: null,
+    dimension: null,
+    package_name: name?.packageName ?? null,
+    month: name?.month ?? null,
+    rows: [],
+    rows_read: 0,
+    duplicates: 0,
+    skipped: 0,
+    errors: []
+  }
+
+  if (!name) {
+    return rejected(report, 'File name does not follow the Play Console pattern <report>_<package>_<YYYYMM>_<breakdown>.csv')
+  }
+  if (!KINDS.includes(name.kind as ImportKind)) {
+    return rejected(report, `${name.kind} reports are not imported; upload installs or ratings reports`)
+  }
+  if (!DIMENSIONS.includes(name.dimension as ImportDimension)) {
+    return rejected(report, `The ${name.dimension} breakdown is not imported; upload the overview, country or device report`)
+  }
+  report.kind = name.kind as ImportKind
+  report.dimension = name.dimension as ImportDimension
+
+  const csvRows = parseReportCsv(bytes)
+  report.rows_read = csvRows.length
+  if (csvRows.length === 0) return rejected(report, 'The file has no data rows')
+
+  const keyColumn = DIMENSION_COLUMN[report.dimension]
+  const headers = Object.keys(csvRows[0])
+  const required = ['Date', 'Package Name', ...(keyColumn ? [keyColumn] : []),
+    ...(report.kind === 'installs' ? ['Total User Installs'] : ['Total Average Rating'])]
+  const missing = required.filter(column => !headers.includes(column))
+  if (report.kind === 'installs' && !DAILY_INSTALL_COLUMNS.some(column => headers.includes(column))) {
+    missing.push(DAILY_INSTALL_COLUMNS.join(' or '))
+  }
+  if (missing.length > 0) return rejected(report, `Missing columns: ${missing.join(', ')}`)
+
+  const rowError = (line: number, message: string) => {
+    report.skipped++
+    if (report.errors.length < MAX_ROW_ERRORS) report.errors.push(`Row ${line}: ${message}`)
+  }
+
+  const byKey = new Map<string, ImportRow>()
+  csvRows.forEach((csvRow: ReportRow, i) => {
+    const line = i + 2
+    const date = csvRow['Date']
+    const key = keyColumn ? csvRow[keyColumn] : ''
+
+    if (csvRow['Package Name'] !== name.packageName) {
+      return rowError(line, `package ${csvRow['Package Name'] || '(blank)'} does not match the file name`)
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || date.slice(0, 7).replace('-', '') !== name.month) {
+      return rowError(line, `date ${date || '(blank)'} is not in ${name.month.slice(0, 4)}-${name.month.slice(4)}`)
+    }
+    if (keyColumn && !key) return rowError(line, `${keyColumn} is blank`)
+
+    const row: ImportRow = { date, key, daily_installs: null, total_installs: null, rating: null }
+    if (report.kind === 'installs') {
+      row.total_installs = toCount(csvRow['Total User Installs'])
+      row.daily_installs = toCount(csvRow['Daily User Installs']) ?? toCount(csvRow['Daily Device Installs'])
+      if (row.total_installs === null || row.daily_installs === null) return rowError(line, 'install counts are not numbers')
+    } else {
+      row.rating = toRating(csvRow['Total Average Rating'])
+      // Play leaves the rating blank for countries and devices without ratings yet
+      if (row.rating === null) {
+        report.skipped++
+        return
+      }
+    }
+
+    const dedupeKey = `${date}|${key}`
+    if (byKey.has(dedupeKey)) report.duplicates++
+    byKey.set(dedupeKey, row)
+  })
+
+  report.rows = Array.from(byKey.values()).sort((a, b) => a.date.localeCompare(b.date) || a.key.localeCompare(b.key))
+  if (report.rows.length === 0 && report.errors.length === 0) report.errors.push('No rows with figures to import')
+  return report
+}
+
+/**
+ * Validate and import one report; rejected files are still recorded in the import history
+ */
+export async function importPlayConsoleReport(fileName: string, bytes: Uint8Array): Promise<PlayConsoleImport> {
+  const report = prepareReport(fileName, bytes)
+
+  const { data, error } = await supabase.rpc('import_play_console_report', {
+    p_file_name: report.file_name,
+    p_report_kind: report.kind,
+    p_dimension: report.dimension,
+    p_package_name: report.package_name,
+    p_report_month: report.month,
+    p_rows: report.rows,
+    p_rows_read: report.rows_read,
+    p_duplicates: report.duplicates,
+    p_skipped: report.skipped,
+    p_errors: report.errors
+  })
+  if (error) throw error
+
+  console.log('📥 Play Console report imported -', {
+    file: report.file_name,
+    status: data.status,
+    written: data.rows_written,
+    duplicates: report.duplicates,
+    skipped: report.skipped
+  })
+  return data as PlayConsoleImport
+}
+
+export async function fetchImportHistory(limit = 20): Promise<PlayConsoleImport[]> {
+  const { data, error } = await supabase
+    .from('play_console_imports')
+    .select('*')
+    .order('imported_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []) as PlayConsoleImport[]
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import { ProfileMatcher, type StudentProfile } from './profileMatching'
+import type { AvailableProgram } from '../types'
+
+const program = (overrides: Partial<AvailableProgram>): AvailableProgram => ({
+  id: 1,
+  type: 'university',
+  qualification: 'BCom Accounting',
+  institution_name: 'University of Johannesburg',
+  required_aps: 28,
+  faculty: 'Commerce',
+  ...overrides
+})
+
+const student = (overrides: Partial<StudentProfile> = {}): StudentProfile => ({
+  user_id: 'student-1',
+  aps_mark: 30,
+  subject_marks: { math_mark: 75 },
+  subjects: [
+    { slot: 'math', name: 'Mathematics', type: 'Mathematics', level: 6, mark: 75 },
+    { slot: 'home_language', name: 'English', level: 5, mark: 62 },
+    { slot: 'subject1', name: 'Physical Sciences', level: 4, mark: 55 }
+  ],
+  ...overrides
+})
+
+describe('ProfileMatcher APS matching', () => {
+  it('matches programmes at or below the student APS', () => {
+    const matcher = new ProfileMatcher([
+      program({ id: 1, required_aps: 30 }),
+      program({ id: 2, required_aps: 31 }),
+      program({ id: 3, required_aps: 20 })
+    ])
+
+    expect(matcher.findMatches(student()).map(m => m.program_id)).toEqual([3, 1])
+  })
+
+  it('skips students without a valid APS', () => {
+    const matcher = new ProfileMatcher([program({ required_aps: 0 })])
+    expect(matcher.findMatches(student({ aps_mark: null }))).toEqual([])
+    expect(matcher.findMatches(student({ aps_mark: 50 }))).toEqual([])
+  })
+
+  it('scores the APS margin and sets confidence, flags and reasons', () => {
+    const [match] = new ProfileMatcher([program({ required_aps: 16, qualification: 'BSc Engineering' })])
+      .findMatches(student({ aps_mark: 37 }))
+
+    expect(match.matching_score).toBe(75)
+    expect(match.match_confidence).toBe('high')
+    expect(match.success_probability).toBe(83)
+    expect(match.flags).toEqual(['met_cutoff', 'exceeds_requirements', 'recommended_verification'])
+    expect(match.why_matched).toEqual([
+      'APS score 37 meets requirement (16) with 21 point margin',
+      'Strong mathematical aptitude matches program requirements'
+    ])
+  })
+})
+
+describe('ProfileMatcher subject requirements', () => {
+  const engineering = program({
+    qualification: 'BEng Civil',
+    required_aps: 28,
+    subject_requirements: [
+      { subject: 'math', min_level: 5, excluded_types: ['Mathematical Literacy'] },
+      { subject: 'English', min_level: 4 }
+    ]
+  })
+
+  it('matches when every requirement passes and explains why', () => {
+    const [match] = new ProfileMatcher([engineering]).findMatches(student())
+
+    expect(match.flags).toContain('met_subject_requirements')
+    expect(match.why_matched).toContain('Passed math (level 5): Mathematics level 6 meets requirement')
+    expect(match.why_matched).toContain('Passed English (level 4): English level 5 meets requirement')
+  })
+
+  it('rejects Mathematical Literacy when excluded', () => {
+    const mathsLit = student({
+      subjects: [
+        { slot: 'math', name: 'Mathematics', type: 'Mathematical Literacy', level: 7, mark: 85 },
+        { slot: 'home_language', name: 'English', level: 5, mark: 62 }
+      ]
+    })
+    const matcher = new ProfileMatcher([engineering])
+
+    expect(matcher.findMatches(mathsLit)).toEqual([])
+
+    const [nearMiss] = matcher.findMatches(mathsLit, { includeFailed: true })
+    expect(nearMiss.flags).toContain('failed_subject_requirement')
+    expect(nearMiss.why_matched).toContain('Failed math (level 5): Mathematical Literacy not accepted')
+  })
+
+  it('reports levels below the minimum and subjects not taken', () => {
+    const weak = student({
+      subjects: [{ slot: 'math', name: 'Mathematics', type: 'Mathematics', level: 4, mark: 52 }]
+    })
+    const [nearMiss] = new ProfileMatcher([engineering]).findMatches(weak, { includeFailed: true })
+
+    expect(nearMiss.requirement_results?.map(r => r.reason)).toEqual([
+      'math (level 5): Mathematics level 4 is below 5',
+      'English (level 4): subject not taken'
+    ])
+  })
+
+  it('flags requirements that cannot be checked for missing levels', () => {
+    const noLevels = student({
+      subjects: [
+        { slot: 'math', name: 'Mathematics', type: 'Mathematics', level: null, mark: null },
+        { slot: 'home_language', name: 'English', level: 5, mark: 62 }
+      ]
+    })
+    const [nearMiss] = new ProfileMatcher([engineering]).findMatches(noLevels, { includeFailed: true })
+
+    expect(nearMiss.flags).toEqual(expect.arrayContaining(['failed_subject_requirement', 'missing_subject_level']))
+  })
+
+  it('checks minimum percentages against marks', () => {
+    const matcher = new ProfileMatcher([
+      program({ subject_requirements: [{ subject: 'Physical Sciences', min_percentage: 60 }] })
+    ])
+
+    expect(matcher.findMatches(student())).toEqual([])
+    expect(matcher.findMatches(student(), { includeFailed: true })[0].requirement_results?.[0].reason)
+      .toBe('Physical Sciences (60%): Physical Sciences 55% is below 60%')
+  })
+})
@@ -1,18 +1,35 @@
 /**
  * Advanced Profile Matching System
- * Minimal working version - focus on APS matching first
+ * APS cut-off first, then per-programme subject requirements
  */
 
 import { validateApsMark } from './dataConsistency';
+import type { AvailableProgram, SubjectRequirement } from '../types';
+
+export interface StudentSubject {
+  slot: string;               // user_marks slot: 'math', 'home_language', 'subject1', ...
+  name: string;
+  type?: string | null;       // e.g. math_type
+  level: number | null;
+  mark: number | null;
+}
 
 export interface StudentProfile {
   user_id: string;
   aps_mark: number | null;
   subject_marks: Record<string, number | null>;
+  subjects?: StudentSubject[];
   interests?: string[];
   career_goals?: string[];
 }
 
+export interface RequirementResult {
+  requirement: SubjectRequirement;
+  passed: boolean;
+  missing_data: boolean;
+  reason: string;
+}
+
 export interface ProgramMatch {
   program_id: number;
   institution_type: 'university' | 'tvet';
@@ -24,26 +41,27 @@ export interface ProgramMatch {
   success_probability: number;
   flags?: MatchFlag[];
   why_matched?: string[];
+  requirement_results?: RequirementResult[];
 }
 
 export type MatchConfidence = 'very_high' | 'high' | 'medium' | 'low' | 'very_low';
-export type MatchFlag = 'met_cutoff' | 'exceeds_requirements' | 'recommended_verification';
-
-interface AvailableProgram {
-  id: number;
-  type: 'university' | 'tvet';
-  qualification: string;
-  institution_name: string;
-  required_aps: number;
-}
+export type MatchFlag =
+  | 'met_cutoff'
+  | 'exceeds_requirements'
+  | 'recommended_verification'
+  | 'met_subject_requirements'
+  | 'failed_subject_requirement'
+  | 'missing_subject_level';
 
 export class ProfileMatcher {
   constructor(private programs: AvailableProgram[]) {}
 
   /**
-   * Find APS-qualified matches for student
+   * Find APS-qualified matches for student.
+   * Programmes whose subject requirements fail are left out unless includeFailed is set,
+   * in which case they are returned flagged 'failed_subject_requirement'.
    */
-  findMatches(student: StudentProfile): ProgramMatch[] {
+  findMatches(student: StudentProfile, options: { includeFailed?: boolean } = {}): ProgramMatch[] {
     const matches: ProgramMatch[] = [];
 
     for (const program of this.programs) {
@@ -51,11 +69,17 @@ export class ProfileMatcher {
         continue;
       }
 
+      const requirementResults = (program.subject_requirements || [])
+        .map(requirement => this.evaluateRequirement(student, requirement));
+      if (!options.includeFailed && requirementResults.some(r => !r.passed)) {
+        continue;
+      }
+
       const matchScore = this.calculateMatchScore(student, program);
       const confidence = this.determineConfidence(matchScore);
       const probability = this.calculateProbability(matchScore);
-      const flags = this.generateFlags(student, program);
-      const whyMatched = this.generateMatchReasons(student, program);
+      const flags = this.generateFlags(student, program, requirementResults);
+      const whyMatched = this.generateMatchReasons(student, program, requirementResults);
 
       matches.push({
         program_id: program.id,
@@ -67,7 +91,8 @@ export class ProfileMatcher {
         match_confidence: confidence,
         success_probability: probability,
         flags,
-        why_matched: whyMatched
+        why_matched: whyMatched,
+        requirement_results: requirementResults
       });
     }
 
@@ -79,6 +104,74 @@ export class ProfileMatcher {
     return apsValid.success && student.aps_mark! >= program.required_aps;
   }
 
+  /**
+   * Check one subject requirement; any of the student's matching subjects may satisfy it
+   */
+  private evaluateRequirement(student: StudentProfile, requirement: SubjectRequirement): RequirementResult {
+    const label = this.describeRequirement(requirement);
+    const candidates = (student.subjects || []).filter(subject => this.subjectMatches(subject, requirement.subject));
+
+    if (candidates.length === 0) {
+      return { requirement, passed: false, missing_data: false, reason: `${label}: subject not taken` };
+    }
+
+    let failure: RequirementResult | null = null;
+
+    for (const subject of candidates) {
+      const fail = (reason: string, missing_data = false): RequirementResult =>
+        ({ requirement, passed: false, missing_data, reason: `${label}: ${reason}` });
+
+      const excluded = (requirement.excluded_types || []).map(normaliseSubject);
+      const excludedAs = [subject.type, subject.name].find(value => value && excluded.includes(normaliseSubject(value)));
+      if (excludedAs) {
+        failure = fail(`${excludedAs} not accepted`);
+        continue;
+      }
+
+      if (requirement.min_level != null) {
+        if (subject.level === null) {
+          failure = failure || fail(`no ${subject.name} level recorded`, true);
+          continue;
+        }
+        if (subject.level < requirement.min_level) {
+          failure = fail(`${subject.name} level ${subject.level} is below ${requirement.min_level}`);
+          continue;
+        }
+      }
+
+      if (requirement.min_percentage != null) {
+        if (subject.mark === null) {
+          failure = failure || fail(`no ${subject.name} mark recorded`, true);
+          continue;
+        }
+        if (subject.mark < requirement.min_percentage) {
+          failure = fail(`${subject.name} ${subject.mark}% is below ${requirement.min_percentage}%`);
+          continue;
+        }
+      }
+
+      const achieved = requirement.min_level != null
+        ? `level ${subject.level}`
+        : requirement.min_percentage != null ? `${subject.mark}%` : 'taken';
+      return { requirement, passed: true, missing_data: false, reason: `${label}: ${subject.name} ${achieved} meets requirement` };
+    }
+
+    return failure!;
+  }
+
+  private subjectMatches(subject: StudentSubject, required: string): boolean {
+    const wanted = normaliseSubject(required);
+    const name = normaliseSubject(subject.name);
+    return subject.slot === required || name === wanted || name.startsWith(`${wanted} `);
+  }
+
+  private describeRequirement(requirement: SubjectRequirement): string {
+    const thresholds: string[] = [];
+    if (requirement.min_level != null) thresholds.push(`level ${requirement.min_level}`);
+    if (requirement.min_percentage != null) thresholds.push(`${requirement.min_percentage}%`);
+    return thresholds.length > 0 ? `${requirement.subject} (${thresholds.join(', ')})` : requirement.subject;
+  }
+
   private calculateMatchScore(student: StudentProfile, program: AvailableProgram): number {
     // Simple base score from APS advantage
     const apsAdvantage = (student.aps_mark! - program.required_aps) / 42;
@@ -99,8 +192,19 @@ export class ProfileMatcher {
     return Math.max(30, Math.round(score * 0.7 + 30));
   }
 
-  private generateFlags(student: StudentProfile, program: AvailableProgram): MatchFlag[] {
+  private generateFlags(
+    student: StudentProfile,
+    program: AvailableProgram,
+    requirementResults: RequirementResult[]
+  ): MatchFlag[] {
     const flags: MatchFlag[] = ['met_cutoff'];
+
+    if (requirementResults.length > 0) {
+      flags.push(requirementResults.every(r => r.passed) ? 'met_subject_requirements' : 'failed_subject_requirement');
+    }
+    if (requirementResults.some(r => r.missing_data)) {
+      flags.push('missing_subject_level');
+    }
     
     if (student.aps_mark! > program.required_aps + 5) {
       flags.push('exceeds_requirements');
@@ -115,7 +219,11 @@ export class ProfileMatcher {
     return flags;
   }
 
-  private generateMatchReasons(student: StudentProfile, program: AvailableProgram): string[] {
+  private generateMatchReasons(
+    student: StudentProfile,
+    program: AvailableProgram,
+    requirementResults: RequirementResult[]
+  ): string[] {
     const reasons: string[] = [];
     
     const margin = student.aps_mark! - program.required_aps;
@@ -131,6 +239,11 @@ export class ProfileMatcher {
     if (highMathRequired && hasGoodMath) {
       reasons.push('Strong mathematical aptitude matches program requirements');
     }
+
+    // Subject requirements, failures included so near-misses can be explained
+    for (const result of requirementResults) {
+      reasons.push(`${result.passed ? 'Passed' : 'Failed'} ${result.reason}`);
+    }
     
     return reasons;
   }
@@ -154,4 +267,8 @@ export class ProfileMatcher {
       }
     }));
   }
+}
+
+function normaliseSubject(value: string): string {
+  return value.toLowerCase().trim().replace(/\s+/g, ' ');
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest'
+import { projectProvinces, summariseProvinces, toProvinceCode } from './provinceGeography'
+
+vi.mock('../lib/supabase', () => import('../test/supabaseFake'))
+
+const row = (province: string, learners: number, institutions: number, aps: [number, number] = [0, 0]) => ({
+  province,
+  learners: String(learners),
+  learners_with_aps: String(aps[1]),
+  aps_total: String(aps[0]),
+  institutions: String(institutions)
+})
+
+describe('toProvinceCode', () => {
+  it('recognises common spellings and abbreviations', () => {
+    expect(toProvinceCode('KwaZulu-Natal')).toBe('KZN')
+    expect(toProvinceCode('kwazulu natal')).toBe('KZN')
+    expect(toProvinceCode(' KZN ')).toBe('KZN')
+    expect(toProvinceCode('North-West')).toBe('NW')
+    expect(toProvinceCode('Western Cape')).toBe('WC')
+  })
+
+  it('returns null for anything else', () => {
+    expect(toProvinceCode('Gaborone')).toBeNull()
+    expect(toProvinceCode('')).toBeNull()
+    expect(toProvinceCode(null)).toBeNull()
+  })
+})
+
+describe('summariseProvinces', () => {
+  it('combines spellings of the same province and weights APS by learners', () => {
+    const { provinces } = summariseProvinces([
+      row('kzn', 10, 1, [300, 10]),
+      row('kwazulu-natal', 30, 1, [780, 30])
+    ])
+    const kzn = provinces.find(p => p.code === 'KZN')!
+
+    expect(kzn).toMatchObject({ learners: 40, institutions: 2, learners_with_aps: 40, avg_aps: 27, learners_per_institution: 20 })
+    expect(provinces).toHaveLength(9)
+  })
+
+  it('flags provinces whose learner share outstrips their institution share', () => {
+    const { provinces, unmatched } = summariseProvinces([
+      row('gauteng', 50, 6),
+      row('limpopo', 40, 2),
+      row('northern cape', 10, 0),
+      row('western cape', 0, 2),
+      row('atlantis', 3, 0)
+    ])
+    const byCode = Object.fromEntries(provinces.map(p => [p.code, p]))
+
+    expect(byCode.GP).toMatchObject({ learner_share: 50, institution_share: 60, supply_gap: 0.83, underserved: false })
+    expect(byCode.LP).toMatchObject({ learner_share: 40, institution_share: 20, supply_gap: 2, underserved: true })
+    expect(byCode.NC).toMatchObject({ supply_gap: null, underserved: true })
+    expect(byCode.WC).toMatchObject({ supply_gap: 0, underserved: false })
+    expect(byCode.FS).toMatchObject({ learners: 0, avg_aps: null, underserved: false })
+    expect(unmatched).toEqual([{ province: 'atlantis', learners: 3, institutions: 0 }])
+  })
+})
+
+describe('projectProvinces', () => {
+  it('draws all nine provinces inside the requested width', () => {
+    const { width, height, shapes } = projectProvinces(600)
+
+    expect(width).toBe(600)
+    expect(height).toBeGreaterThan(300)
+    expect(height).toBeLessThan(600)
+    expect(shapes.map(shape => shape.code).sort()).toEqual(['EC', 'FS', 'GP', 'KZN', 'LP', 'MP', 'NC', 'NW', 'WC'])
+    for (const shape of shapes) {
+      expect(shape.path).toMatch(/^M[\d.]+,[\d.]+(L[\d.]+,[\d.]+)+Z$/)
+      expect(shape.labelX).toBeGreaterThan(0)
+      expect(shape.labelX).toBeLessThan(600)
+    }
+  })
+})
@@ -0,0 +1,205 @@
+/**
+ * Provincial geography
+ * Combines get_province_stats with the bundled province outlines (src/data/za-provinces.json, simplified
+ * Natural Earth admin-1 boundaries; see src/data/README.md) so learners, APS and institutions can be drawn as a
+ * choropleth without a map service.
+ */
+
+import { supabase } from '../lib/supabase'
+import provinceGeoJson from '../data/za-provinces.json'
+
+export const PROVINCES = {
+  EC: 'Eastern Cape',
+  FS: 'Free State',
+  GP: 'Gauteng',
+  KZN: 'KwaZulu-Natal',
+  LP: 'Limpopo',
+  MP: 'Mpumalanga',
+  NW: 'North West',
+  NC: 'Northern Cape',
+  WC: 'Western Cape'
+} as const
+
+export type ProvinceCode = keyof typeof PROVINCES
+
+// Provinces with this many times their share of learners compared with their share of institutions are underserved
+export const UNDERSERVED_GAP = 1.25
+
+// Free-text spellings, compared with everything but letters removed
+const PROVINCE_ALIASES: Record<string, ProvinceCode> = {
+  ec: 'EC', easterncape: 'EC',
+  fs: 'FS', freestate: 'FS', orangefreestate: 'FS',
+  gp: 'GP', gt: 'GP', gauteng: 'GP',
+  kzn: 'KZN', kwazulunatal: 'KZN', natal: 'KZN',
+  lp: 'LP', limpopo: 'LP',
+  mp: 'MP', mpumalanga: 'MP',
+  nw: 'NW', northwest: 'NW',
+  nc: 'NC', northerncape: 'NC',
+  wc: 'WC', westerncape: 'WC'
+}
+
+export interface ProvinceStats {
+  code: ProvinceCode
+  name: string
+  learners: number
+  learners_with_aps: number
+  avg_aps: number | null
+  institutions: number
+  learner_share: number               // % of all learners with a recognised province
+  institution_share: number           // % of all institutions with a recognised province
+  learners_per_institution: number | null
+  supply_gap: number | null           // learner_share / institution_share; null when the province has no institutions
+  underserved: boolean
+}
+
+export interface UnmatchedProvince {
+  province: string
+  learners: number
+  institutions: number
+}
+
+export interface ProvinceSummary {
+  provinces: ProvinceStats[]
+  unmatched: UnmatchedProvince[]      // spellings that could not be mapped to a province
+}
+
+export interface ProvinceStatsRow {
+  province: string
+  learners: number | string
+  learners_with_aps: number | string
+  aps_total: number | string
+  institutions: number | string
+}
+
+export interface ProvinceShape {
+  code: ProvinceCode
+  name: string
+  path: string
+  labelX: number
+  labelY: number
+}
+
+/**
+ * Map a free-text province to its code; null when it is not one of the nine provinces
+ */
+export function toProvinceCode(province: string | null | undefined): ProvinceCode | null {
+  const key = (province || '').toLowerCase().replace(/[^a-z]/g, '')
+  return PROVINCE_ALIASES[key] ?? null
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+/**
+ * Fold get_province_stats rows into the nine provinces and work out shares and the supply gap
+ */
+export function summariseProvinces(rows: ProvinceStatsRow[]): ProvinceSummary {
+  const totals = new Map<ProvinceCode, { learners: number; withAps: number; apsTotal: number; institutions: number }>()
+  const unmatched: UnmatchedProvince[] = []
+
+  for (const row of rows) {
+    const code = toProvinceCode(row.province)
+    if (!code) {
+      unmatched.push({ province: row.province, learners: Number(row.learners), institutions: Number(row.institutions) })
+      continue
+    }
+    const current = totals.get(code) || { learners: 0, withAps: 0, apsTotal: 0, institutions: 0 }
+    current.learners += Number(row.learners)
+    current.withAps += Number(row.learners_with_aps)
+    current.apsTotal += Number(row.aps_total)
+    current.institutions += Number(row.institutions)
+    totals.set(code, current)
+  }
+
+  const allLearners = Array.from(totals.values()).reduce((sum, t) => sum + t.learners, 0)
+  const allInstitutions = Array.from(totals.values()).reduce((sum, t) => sum + t.institutions, 0)
+
+  const provinces = (Object.keys(PROVINCES) as ProvinceCode[]).map(code => {
+    const t = totals.get(code) || { learners: 0, withAps: 0, apsTotal: 0, institutions: 0 }
+    const learnerShare = allLearners > 0 ? (t.learners / allLearners) * 100 : 0
+    const institutionShare = allInstitutions > 0 ? (t.institutions / allInstitutions) * 100 : 0
+    const supplyGap = t.institutions > 0 ? Math.round((learnerShare / institutionShare) * 100) / 100 : null
+
+    return {
+      code,
+      name: PROVINCES[code],
+      learners: t.learners,
+      learners_with_aps: t.withAps,
+      avg_aps: t.withAps > 0 ? round1(t.apsTotal / t.withAps) : null,
+      institutions: t.institutions,
+      learner_share: round1(learnerShare),
+      institution_share: round1(institutionShare),
+      learners_per_institution: t.institutions > 0 ? round1(t.learners / t.institutions) : null,
+      supply_gap: supplyGap,
+      underserved: t.learners > 0 && (supplyGap === null || supplyGap >= UNDERSERVED_GAP)
+    }
+  })
+
+  return { provinces, unmatched }
+}
+
+/**
+ * Fetch the per-province aggregates and fold them into the nine provinces
+ */
+export async function fetchProvinceStats(): Promise<ProvinceSummary> {
+  const { data, error } = await supabase.rpc('get_province_stats')
+  if (error) throw error
+
+  const summary = summariseProvinces(data || [])
+  console.log('🗺️ Province stats loaded -', {
+    provinces: summary.provinces.filter(p => p.learners > 0 || p.institutions > 0).length,
+    unmatched: summary.unmatched.length
+  })
+  return summary
+}
+
+/**
+ * SVG paths for the bundled province outlines, scaled to the given width.
+ * Uses an equirectangular projection corrected for latitude, which is accurate enough at country scale.
+ * Lesotho is not part of any province, so it is left as a gap.
+ */
+export function projectProvinces(width: number): { width: number; height: number; shapes: ProvinceShape[] } {
+  const features = provinceGeoJson.features
+  const points = features.flatMap(feature => feature.geometry.coordinates[0])
+  const lons = points.map(([lon]) => lon)
+  const lats = points.map(([, lat]) => lat)
+  const minLon = Math.min(...lons)
+  const maxLon = Math.max(...lons)
+  const minLat = Math.min(...lats)
+  const maxLat = Math.max(...lats)
+
+  const xScale = Math.cos(((minLat + maxLat) / 2) * Math.PI / 180)
+  const scale = width / ((maxLon - minLon) * xScale)
+  const height = Math.round((maxLat - minLat) * scale)
+  const project = ([lon, lat]: number[]) => [(lon - minLon) * xScale * scale, (maxLat - lat) * scale]
+
+  const shapes = features.map(feature => {
+    const ring = feature.geometry.coordinates[0].map(project)
+    const path = ring.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`).join('') + 'Z'
+    const label = ringCentroid(ring)
+    return {
+      code: feature.properties.code as ProvinceCode,
+      name: feature.properties.name,
+      path,
+      labelX: label.x,
+      labelY: label.y
+    }
+  })
+
+  return { width, height, shapes }
+}
+
+// Area-weighted centroid of a closed ring; a vertex average would drift towards the most detailed stretch of border
+function ringCentroid(ring: number[][]): { x: number; y: number } {
+  let twiceArea = 0
+  let cx = 0
+  let cy = 0
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x0, y0] = ring[i]
+    const [x1, y1] = ring[i + 1]
+    const cross = x0 * y1 - x1 * y0
+    twiceArea += cross
+    cx += (x0 + x1) * cross
+    cy += (y0 + y1) * cross
+  }
+  return { x: cx / (3 * twiceArea), y: cy / (3 * twiceArea) }
+}
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { onRpc, resetSupabaseFake, seedTable } from '../test/supabaseFake'
+import { buildSchoolReportHtml, fetchSchoolRankings, type SchoolRanking } from './schoolReports'
+
+vi.mock('../lib/supabase', () => import('../test/supabaseFake'))
+
+beforeEach(() => {
+  resetSupabaseFake()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+const rankingRow = (school_key: string, school: string, learners: string) => ({
+  school_key,
+  school,
+  province: 'Gauteng',
+  learners,
+  students_with_marks: '10',
+  avg_aps: '27.5',
+  avg_average: null
+})
+
+describe('fetchSchoolRankings', () => {
+  it('attaches qualification shares from the latest completed pipeline run only', async () => {
+    onRpc('get_school_rankings', () => [rankingRow('soweto high', 'Soweto High', '40'), rankingRow('orlando', 'Orlando', '12')])
+    seedTable('program_match_runs', [
+      { id: 'old', computed_at: '2026-09-01T00:00:00Z', completed_at: '2026-09-01T00:01:00Z' },
+      { id: 'new', computed_at: '2026-10-01T00:00:00Z', completed_at: '2026-10-01T00:01:00Z' },
+      // A run that is still saving (or failed part-way) is never read
+      { id: 'partial', computed_at: '2026-10-02T00:00:00Z', completed_at: null }
+    ])
+    seedTable('program_match_school_results', [
+      { run_id: 'old', school_key: 'orlando', students: 5, university_qualified: 5, tvet_qualified: 5 },
+      { run_id: 'new', school_key: 'soweto high', students: 8, university_qualified: 2, tvet_qualified: 6 },
+      { run_id: 'partial', school_key: 'soweto high', students: 1, university_qualified: 1, tvet_qualified: 1 }
+    ])
+
+    const { rankings, matchedAt } = await fetchSchoolRankings()
+
+    expect(matchedAt).toBe('2026-10-01T00:00:00Z')
+    expect(rankings[0]).toMatchObject({
+      school: 'Soweto High', learners: 40, avg_aps: 27.5, avg_average: null,
+      matched_students: 8, university_qualified_pct: 25, tvet_qualified_pct: 75
+    })
+    expect(rankings[1]).toMatchObject({ school: 'Orlando', matched_students: 0, university_qualified_pct: null })
+  })
+
+  it('leaves shares empty before the pipeline has run', async () => {
+    onRpc('get_school_rankings', () => [rankingRow('orlando', 'Orlando', '12')])
+
+    const { rankings, matchedAt } = await fetchSchoolRankings()
+    expect(matchedAt).toBeNull()
+    expect(rankings[0].tvet_qualified_pct).toBeNull()
+  })
+})
+
+describe('buildSchoolReportHtml', () => {
+  const school: SchoolRanking = {
+    school_key: 'st <mary>',
+    school: 'St <Mary> & Co',
+    province: null,
+    learners: 20,
+    students_with_marks: 15,
+    avg_aps: 30,
+    avg_average: 62.5,
+    matched_students: 0,
+    university_qualified_pct: null,
+    tvet_qualified_pct: null
+  }
+
+  it('escapes school names and shows missing figures as N/A', () => {
+    const html = buildSchoolReportHtml(school, [{
+      grade: '12', learners: 20, students_with_marks: 15, avg_aps: 30, avg_average: 62.5,
+      pct_ge_50: null, maths_students: 9, maths_literacy_students: 6
+    }], null)
+
+    expect(html).toContain('St &lt;Mary&gt; &amp; Co')
+    expect(html).not.toContain('<Mary>')
+    expect(html).toContain('Province not recorded')
+    expect(html).toContain('<td>N/A</td>')
+    expect(html).toContain('<td>9 / 6</td>')
+    expect(html).toContain('not available until the matching pipeline has been run')
+  })
+})
@@ -0,0 +1,200 @@
+/**
+ * School-level reports
+ * Rankings and per-grade detail come from get_school_rankings / get_school_detail; university and TVET
+ * qualification shares come from the latest matching pipeline run (program_match_school_results).
+ */
+
+import { supabase } from '../lib/supabase'
+import { fetchAllRows } from './fetchAllRows'
+import type { SchoolMatchResult } from './matchingPipeline'
+
+export interface SchoolRanking {
+  school_key: string
+  school: string
+  province: string | null
+  learners: number
+  students_with_marks: number
+  avg_aps: number | null
+  avg_average: number | null
+  matched_students: number                  // students in the latest pipeline run with a valid APS
+  university_qualified_pct: number | null   // null when the school was not in the latest run
+  tvet_qualified_pct: number | null
+}
+
+export interface SchoolGradeRow {
+  grade: string
+  learners: number
+  students_with_marks: number
+  avg_aps: number | null
+  avg_average: number | null
+  pct_ge_50: number | null
+  maths_students: number
+  maths_literacy_students: number
+}
+
+export interface SchoolRankings {
+  rankings: SchoolRanking[]
+  matchedAt: string | null   // computed_at of the pipeline run the qualification shares come from
+}
+
+const toNumberOrNull = (value: unknown): number | null =>
+  value === null || value === undefined ? null : Number(value)
+
+const percentOf = (part: number, total: number): number | null =>
+  total > 0 ? Math.round((part / total) * 1000) / 10 : null
+
+/**
+ * Every school with learners, ranked by learner count, with the latest qualification shares attached
+ */
+export async function fetchSchoolRankings(): Promise<SchoolRankings> {
+  const [rankingResult, runResult] = await Promise.all([
+    supabase.rpc('get_school_rankings'),
+    supabase
+      .from('program_match_runs')
+      .select('id, computed_at')
+      .not('completed_at', 'is', null)
+      .order('computed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+  ])
+
+  if (rankingResult.error) throw rankingResult.error
+  if (runResult.error) throw runResult.error
+
+  const run = runResult.data
+  const schoolResults = run
+    ? await fetchAllRows<SchoolMatchResult>(
+        'program_match_school_results',
+        'school_key, students, university_qualified, tvet_qualified',
+        { run_id: run.id }
+      )
+    : []
+  const resultsByKey = new Map(schoolResults.map(result => [result.school_key, result]))
+
+  const rankings: SchoolRanking[] = (rankingResult.data || []).map((row: any) => {
+    const matched = resultsByKey.get(row.school_key)
+    return {
+      school_key: row.school_key,
+      school: row.school,
+      province: row.province,
+      learners: Number(row.learners),
+      students_with_marks: Number(row.students_with_marks),
+      avg_aps: toNumberOrNull(row.avg_aps),
+      avg_average: toNumberOrNull(row.avg_average),
+      matched_students: matched ? Number(matched.students) : 0,
+      university_qualified_pct: matched ? percentOf(Number(matched.university_qualified), Number(matched.students)) : null,
+      tvet_qualified_pct: matched ? percentOf(Number(matched.tvet_qualified), Number(matched.students)) : null
+    }
+  })
+
+  console.log('🏫 School rankings loaded -', { schools: rankings.length, matchedAt: run?.computed_at ?? null })
+  return { rankings, matchedAt: run?.computed_at ?? null }
+}
+
+/**
+ * Per-grade breakdown for one school
+ */
+export async function fetchSchoolDetail(schoolKey: string): Promise<SchoolGradeRow[]> {
+  const { data, error } = await supabase.rpc('get_school_detail', { p_school_key: schoolKey })
+  if (error) throw error
+
+  return (data || []).map((row: any) => ({
+    grade: row.grade,
+    learners: Number(row.learners),
+    students_with_marks: Number(row.students_with_marks),
+    avg_aps: toNumberOrNull(row.avg_aps),
+    avg_average: toNumberOrNull(row.avg_average),
+    pct_ge_50: toNumberOrNull(row.pct_ge_50),
+    maths_students: Number(row.maths_students),
+    maths_literacy_students: Number(row.maths_literacy_students)
+  }))
+}
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '').replace(/[&<>"']/g, char => (
+    { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!
+  ))
+
+const show = (value: number | null, suffix = ''): string => (value === null ? 'N/A' : `${value}${suffix}`)
+
+/**
+ * Standalone HTML report for a school partner, styled for A4 printing
+ */
+export function buildSchoolReportHtml(
+  school: SchoolRanking,
+  grades: SchoolGradeRow[],
+  matchedAt: string | null,
+  generatedAt: Date = new Date()
+): string {
+  const gradeRows = grades.map(row => `
+        <tr>
+          <td>${escapeHtml(row.grade)}</td>
+          <td>${row.learners}</td>
+          <td>${row.students_with_marks}</td>
+          <td>${show(row.avg_aps)}</td>
+          <td>${show(row.avg_average, '%')}</td>
+          <td>${show(row.pct_ge_50, '%')}</td>
+          <td>${row.maths_students} / ${row.maths_literacy_students}</td>
+        </tr>`).join('')
+
+  const matchedNote = matchedAt
+    ? `Qualification shares cover ${school.matched_students} learners with a valid APS, as matched on ${escapeHtml(new Date(matchedAt).toLocaleDateString('en-ZA'))}.`
+    : 'Qualification shares are not available until the matching pipeline has been run.'
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(school.school)} – Learner Performance Report</title>
+  <style>
+    @page { size: A4; margin: 18mm; }
+    body { font-family: Arial, Helvetica, sans-serif; color: #111827; font-size: 12px; }
+    h1 { font-size: 22px; margin: 0 0 4px; color: #15803d; }
+    .muted { color: #6b7280; }
+    .kpis { display: flex; gap: 12px; margin: 20px 0; }
+    .kpi { flex: 1; border: 1px solid #d1d5db; border-radius: 6px; padding: 10px; }
+    .kpi .value { font-size: 20px; font-weight: bold; }
+    table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+    th, td { border-bottom: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; }
+    th { background: #f3f4f6; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(school.school)}</h1>
+  <div class="muted">${escapeHtml(school.province || 'Province not recorded')} · Reslocate learner performance report · ${escapeHtml(generatedAt.toLocaleDateString('en-ZA'))}</div>
+
+  <div class="kpis">
+    <div class="kpi"><div class="muted">Learners on Reslocate</div><div class="value">${school.learners}</div></div>
+    <div class="kpi"><div class="muted">Learners with marks</div><div class="value">${school.students_with_marks}</div></div>
+    <div class="kpi"><div class="muted">Average APS</div><div class="value">${show(school.avg_aps)}</div></div>
+    <div class="kpi"><div class="muted">Qualify for university</div><div class="value">${show(school.university_qualified_pct, '%')}</div></div>
+    <div class="kpi"><div class="muted">Qualify for TVET</div><div class="value">${show(school.tvet_qualified_pct, '%')}</div></div>
+  </div>
+
+  <h2>Results by grade</h2>
+  <table>
+    <thead>
+      <tr><th>Grade</th><th>Learners</th><th>With marks</th><th>Avg APS</th><th>Avg mark</th><th>Avg ≥ 50%</th><th>Maths / Maths Lit</th></tr>
+    </thead>
+    <tbody>${gradeRows}
+    </tbody>
+  </table>
+
+  <p class="muted">${matchedNote} A learner qualifies when they meet the APS and subject requirements of at least one programme.</p>
+</body>
+</html>`
+}
+
+/**
+ * Open the report in a new window and show the print dialog, from which it can be saved as PDF
+ */
+export function printSchoolReport(html: string): boolean {
+  const reportWindow = window.open('', '_blank')
+  if (!reportWindow) return false
+
+  reportWindow.document.write(html)
+  reportWindow.document.close()
+  reportWindow.focus()
+  reportWindow.print()
+  return true
+}
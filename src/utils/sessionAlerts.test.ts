@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getTable, onRpc, resetSupabaseFake, seedTable } from '../test/supabaseFake'
+import { AlertRuleInput, acknowledgeAlert, fetchSessionAlerts, saveAlertRule, validateAlertRule } from './sessionAlerts'
+
+vi.mock('../lib/supabase', () => import('../test/supabaseFake'))
+
+const rule = (overrides: Partial<AlertRuleInput> = {}): AlertRuleInput => ({
+  metric: 'crash_rate',
+  threshold_pct: 5,
+  window_hours: 168,
+  min_sessions: 20,
+  cooldown_hours: 24,
+  recipients: ['ops@example.com'],
+  enabled: true,
+  ...overrides
+})
+
+describe('session alerts', () => {
+  beforeEach(() => resetSupabaseFake())
+
+  it('validates thresholds, windows and recipients before saving', async () => {
+    expect(validateAlertRule(rule())).toBeNull()
+    expect(validateAlertRule(rule({ threshold_pct: 0 }))).toBe('Threshold must be between 0 and 100%')
+    expect(validateAlertRule(rule({ window_hours: 1.5 }))).toBe('Window must be 1 to 720 hours')
+    expect(validateAlertRule(rule({ recipients: ['ops'] }))).toBe('ops is not an email address')
+    expect(validateAlertRule(rule({ recipients: [] }))).toBe('An enabled rule needs at least one recipient')
+    expect(validateAlertRule(rule({ recipients: [], enabled: false }))).toBeNull()
+
+    await expect(saveAlertRule(rule({ threshold_pct: 120 }))).rejects.toThrow('Threshold must be between 0 and 100%')
+    expect(getTable('session_alert_rules')).toEqual([])
+  })
+
+  it('acknowledges through the RPC and converts numeric strings', async () => {
+    let args: Record<string, any> = {}
+    // acknowledge_session_alert sets acknowledged_by from auth.uid() on the server
+    onRpc('acknowledge_session_alert', received => {
+      args = received
+      const alert = getTable('session_alerts').find(row => row.id === received.p_id)!
+      return Object.assign(alert, {
+        acknowledged_at: '2026-10-19T10:00:00Z',
+        acknowledged_by: 'analyst-1',
+        acknowledgement_note: received.p_note
+      })
+    })
+    seedTable('session_alerts', [
+      { id: 1, metric: 'crash_rate', value_pct: '7.50', threshold_pct: '5.00', triggered_at: '2026-10-18T09:00:00Z', acknowledged_at: null },
+      { id: 2, metric: 'disconnect_rate', value_pct: '16.00', threshold_pct: '15.00', triggered_at: '2026-10-19T09:00:00Z', acknowledged_at: null }
+    ])
+
+    const alerts = await fetchSessionAlerts()
+    expect(alerts.map(alert => [alert.id, alert.value_pct])).toEqual([[2, 16], [1, 7.5]])
+
+    const acknowledged = await acknowledgeAlert(1, '  Fixed in 2.4.1 ')
+    expect(args).toEqual({ p_id: 1, p_note: 'Fixed in 2.4.1' })
+    expect(acknowledged).toMatchObject({ id: 1, value_pct: 7.5, acknowledged_by: 'analyst-1', acknowledgement_note: 'Fixed in 2.4.1' })
+    expect(getTable('session_alerts')[1].acknowledged_at).toBeNull()
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * Session health alerts
+ * Rules live in session_alert_rules and are evaluated hourly by the evaluate-session-alerts edge function,
+ * which writes session_alerts and emails the recipients; the dashboard edits rules and acknowledges alerts.
+ */
+
+import { supabase } from '../lib/supabase'
+import { invokeEdgeFunction } from '../lib/edgeFunctions'
+import {
+  ALERT_METRICS,
+  describeWindow,
+  type AlertMetric,
+  type AlertRule,
+  type RuleOutcome
+} from '../../supabase/functions/_shared/session-alerts.ts'
+
+export { ALERT_METRICS, describeWindow }
+export type { AlertMetric, AlertRule }
+
+export interface SessionAlert {
+  id: number
+  rule_id: number | null
+  metric: AlertMetric
+  value_pct: number
+  threshold_pct: number
+  ended_sessions: number
+  affected_sessions: number
+  window_start: string
+  window_end: string
+  triggered_at: string
+  notified_recipients: string[]
+  notification_error: string | null
+  acknowledged_at: string | null
+  acknowledged_by: string | null
+  acknowledgement_note: string | null
+}
+
+export interface AlertEvaluation {
+  evaluated: number
+  triggered: number
+  results: ({ rule_id: number; metric: AlertMetric } & RuleOutcome)[]
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'id'> & { id?: number }
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// numeric columns arrive as strings
+const toRule = (row: any): AlertRule => ({ ...row, threshold_pct: Number(row.threshold_pct) })
+const toAlert = (row: any): SessionAlert => ({
+  ...row,
+  value_pct: Number(row.value_pct),
+  threshold_pct: Number(row.threshold_pct)
+})
+
+export async function fetchAlertRules(): Promise<AlertRule[]> {
+  const { data, error } = await supabase
+    .from('session_alert_rules')
+    .select('id, metric, threshold_pct, window_hours, min_sessions, cooldown_hours, recipients, enabled')
+    .order('id')
+
+  if (error) throw error
+  return (data || []).map(toRule)
+}
+
+export async function fetchSessionAlerts(limit = 50): Promise<SessionAlert[]> {
+  const { data, error } = await supabase
+    .from('session_alerts')
+    .select('*')
+    .order('triggered_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []).map(toAlert)
+}
+
+/**
+ * Check a rule before saving; returns a message for the first problem, or null
+ */
+export function validateAlertRule(rule: AlertRuleInput): string | null {
+  if (!(rule.metric in ALERT_METRICS)) return 'Choose a metric'
+  if (!(rule.threshold_pct > 0 && rule.threshold_pct <= 100)) return 'Threshold must be between 0 and 100%'
+  if (!Number.isInteger(rule.window_hours) || rule.window_hours < 1 || rule.window_hours > 720) {
+    return 'Window must be 1 to 720 hours'
+  }
+  if (!Number.isInteger(rule.min_sessions) || rule.min_sessions < 1) return 'Minimum sessions must be at least 1'
+  if (!Number.isInteger(rule.cooldown_hours) || rule.cooldown_hours < 1) return 'Cooldown must be at least 1 hour'
+  const invalid = rule.recipients.find(email => !EMAIL_PATTERN.test(email))
+  if (invalid) return `${invalid} is not an email address`
+  if (rule.enabled && rule.recipients.length === 0) return 'An enabled rule needs at least one recipient'
+  return null
+}
+
+export async function saveAlertRule(rule: AlertRuleInput): Promise<AlertRule> {
+  const problem = validateAlertRule(rule)
+  if (problem) throw new Error(problem)
+
+  const { data: { user } } = await supabase.auth.getUser()
+  const row = { ...rule, updated_by: user?.id ?? null, updated_at: new Date().toISOString() }
+  const { data, error } = rule.id
+    ? await supabase.from('session_alert_rules').update(row).eq('id', rule.id).select().single()
+    : await supabase.from('session_alert_rules').insert(row).select().single()
+
+  if (error) throw error
+  return toRule(data)
+}
+
+export async function deleteAlertRule(id: number): Promise<void> {
+  const { error } = await supabase.from('session_alert_rules').delete().eq('id', id)
+  if (error) throw error
+}
+
+// acknowledge_session_alert records the caller as acknowledged_by on the server
+export async function acknowledgeAlert(id: number, note: string): Promise<SessionAlert> {
+  const { data, error } = await supabase.rpc('acknowledge_session_alert', {
+    p_id: id,
+    p_note: note.trim() || null
+  })
+
+  if (error) throw error
+  return toAlert(data)
+}
+
+/**
+ * Run the hourly evaluation now, e.g. straight after changing a rule
+ */
+export function evaluateAlertsNow(): Promise<AlertEvaluation> {
+  return invokeEdgeFunction<AlertEvaluation>('evaluate-session-alerts', {})
+}
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { onRpc, resetSupabaseFake } from '../test/supabaseFake'
+import { resolvePeriod } from './period'
+import {
+  durationBucketLabel,
+  fetchSessionAnalytics,
+  fetchUserSessionTimeline,
+  formatDuration,
+  sessionDurationSeconds
+} from './sessionAnalytics'
+
+vi.mock('../lib/supabase', () => import('../test/supabaseFake'))
+
+describe('session analytics', () => {
+  beforeEach(() => resetSupabaseFake())
+
+  it('measures and formats durations in seconds', () => {
+    expect(sessionDurationSeconds('2026-10-19T08:00:00Z', '2026-10-19T08:00:45Z')).toBe(45)
+    expect(sessionDurationSeconds('2026-10-19T08:00:00Z', null)).toBeNull()
+    expect(sessionDurationSeconds('2026-10-19T08:00:00Z', '2026-10-19T07:59:00Z')).toBeNull()
+
+    expect(formatDuration(45)).toBe('45s')
+    expect(formatDuration(200)).toBe('3m 20s')
+    expect(formatDuration(3900)).toBe('1h 05m')
+    expect(formatDuration(null)).toBe('—')
+
+    expect(durationBucketLabel(0, 60)).toBe('< 1m')
+    expect(durationBucketLabel(300, 600)).toBe('5m–10m')
+    expect(durationBucketLabel(7200, null)).toBe('2h+')
+  })
+
+  it('converts the aggregates and fills the weekday by hour grid', async () => {
+    let heatmapArgs: Record<string, any> = {}
+    onRpc('get_session_duration_stats', () => [{
+      sessions: '120', measured_sessions: '100', mean_seconds: '312.4',
+      p50_seconds: '180.0', p90_seconds: '900.0', p99_seconds: '3400.5', max_seconds: '5000.0'
+    }])
+    onRpc('get_session_duration_histogram', () => [
+      { min_seconds: 0, max_seconds: 60, sessions: '40' },
+      { min_seconds: 7200, max_seconds: null, sessions: '0' }
+    ])
+    onRpc('get_sessions_per_user_distribution', () => [
+      { min_sessions: 1, max_sessions: 1, users: '30' },
+      { min_sessions: 6, max_sessions: 10, users: '4' },
+      { min_sessions: 21, max_sessions: null, users: '1' }
+    ])
+    onRpc('get_session_heatmap', received => {
+      heatmapArgs = received
+      return [{ weekday: 1, hour: 9, sessions: '12' }, { weekday: 7, hour: 23, sessions: '2' }]
+    })
+
+    const period = resolvePeriod({ preset: 'custom', from: '2026-10-01', to: '2026-10-07' })
+    const analytics = await fetchSessionAnalytics(period)
+
+    expect(analytics.stats).toEqual({
+      sessions: 120, measured_sessions: 100, mean_seconds: 312.4,
+      p50_seconds: 180, p90_seconds: 900, p99_seconds: 3400.5, max_seconds: 5000
+    })
+    expect(analytics.histogram.map(b => [b.label, b.sessions])).toEqual([['< 1m', 40], ['2h+', 0]])
+    expect(analytics.sessionsPerUser.map(b => [b.label, b.users])).toEqual([['1', 30], ['6–10', 4], ['21+', 1]])
+    expect(heatmapArgs.p_tz).toBe('Africa/Johannesburg')
+    expect(analytics.heatmap).toHaveLength(7)
+    expect(analytics.heatmap[0][9]).toBe(12)
+    expect(analytics.heatmap[6][23]).toBe(2)
+    expect(analytics.heatmap[3].reduce((sum, n) => sum + n, 0)).toBe(0)
+  })
+
+  it('builds a user timeline with the profile taken from the joined rows', async () => {
+    onRpc('get_user_session_timeline', () => [
+      {
+        session_id: 's2', start_time: '2026-10-18T10:00:00Z', end_time: null, status: 'active',
+        duration_seconds: null, auto_closed_at: null, page_views: '3',
+        first_name: 'Lerato', last_name: 'M', email: 'l@example.com', school: 'Hill High', grade: '12',
+        province: 'Gauteng', profile_created_at: '2026-01-05T00:00:00Z'
+      },
+      {
+        session_id: 's1', start_time: '2026-10-17T10:00:00Z', end_time: '2026-10-17T10:05:00Z', status: 'disconnected',
+        duration_seconds: '300.0', auto_closed_at: '2026-10-17T11:00:00Z', page_views: '7',
+        first_name: 'Lerato', last_name: 'M', email: 'l@example.com', school: 'Hill High', grade: '12',
+        province: 'Gauteng', profile_created_at: '2026-01-05T00:00:00Z'
+      }
+    ])
+
+    const timeline = await fetchUserSessionTimeline('user-1')
+    expect(timeline.profile).toMatchObject({ first_name: 'Lerato', school: 'Hill High', created_at: '2026-01-05T00:00:00Z' })
+    expect(timeline.sessions.map(s => [s.session_id, s.duration_seconds, s.page_views])).toEqual([['s2', null, 3], ['s1', 300, 7]])
+  })
+
+  it('returns no profile when the user has no profiles row', async () => {
+    onRpc('get_user_session_timeline', () => [{
+      session_id: 's1', start_time: '2026-10-17T10:00:00Z', end_time: null, status: 'active',
+      duration_seconds: null, auto_closed_at: null, page_views: 0,
+      first_name: null, last_name: null, email: null, school: null, grade: null, province: null, profile_created_at: null
+    }])
+
+    expect((await fetchUserSessionTimeline('user-2')).profile).toBeNull()
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * Session analytics
+ * Client for the session analytics functions (duration percentiles and histogram, sessions per user, the
+ * weekday/hour heatmap and per-user timelines). Aggregation happens in the database; this module converts the
+ * numeric columns PostgREST returns as strings and shapes the results for charts.
+ */
+
+import { supabase } from '../lib/supabase'
+import { ReportingPeriod, REPORTING_TIMEZONE, periodParams } from './period'
+
+export interface DurationStats {
+  sessions: number
+  measured_sessions: number   // ended sessions; open ones have no duration yet
+  mean_seconds: number | null
+  p50_seconds: number | null
+  p90_seconds: number | null
+  p99_seconds: number | null
+  max_seconds: number | null
+}
+
+export interface DurationBucket {
+  label: string
+  min_seconds: number
+  max_seconds: number | null
+  sessions: number
+}
+
+export interface SessionsPerUserBucket {
+  label: string
+  min_sessions: number
+  max_sessions: number | null
+  users: number
+}
+
+export interface SessionAnalytics {
+  stats: DurationStats
+  histogram: DurationBucket[]
+  sessionsPerUser: SessionsPerUserBucket[]
+  heatmap: number[][]          // [ISO weekday - 1][local hour], Monday first
+}
+
+export interface TimelineSession {
+  session_id: string
+  start_time: string
+  end_time: string | null
+  status: string
+  duration_seconds: number | null
+  auto_closed_at: string | null
+  page_views: number
+}
+
+export interface TimelineProfile {
+  first_name: string | null
+  last_name: string | null
+  email: string | null
+  school: string | null
+  grade: string | null
+  province: string | null
+  created_at: string | null
+}
+
+export interface UserSessionTimeline {
+  user_id: string
+  profile: TimelineProfile | null    // null when the user has no profiles row
+  sessions: TimelineSession[]        // newest first
+}
+
+export const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value))
+
+// Seconds between start and end; null while the session is open or when the clock ran backwards
+export function sessionDurationSeconds(startTime: string, endTime: string | null): number | null {
+  if (!endTime) return null
+  const seconds = (new Date(endTime).getTime() - new Date(startTime).getTime()) / 1000
+  return seconds > 0 ? seconds : null
+}
+
+// 45s, 3m 20s, 1h 05m
+export function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '—'
+  const rounded = Math.round(seconds)
+  if (rounded < 60) return `${rounded}s`
+  if (rounded < 3600) return `${Math.floor(rounded / 60)}m ${String(rounded % 60).padStart(2, '0')}s`
+  return `${Math.floor(rounded / 3600)}h ${String(Math.floor((rounded % 3600) / 60)).padStart(2, '0')}m`
+}
+
+const minutes = (seconds: number) => (seconds % 3600 === 0 ? `${seconds / 3600}h` : `${seconds / 60}m`)
+
+export function durationBucketLabel(minSeconds: number, maxSeconds: number | null): string {
+  if (maxSeconds === null) return `${minutes(minSeconds)}+`
+  if (minSeconds === 0) return `< ${minutes(maxSeconds)}`
+  return `${minutes(minSeconds)}–${minutes(maxSeconds)}`
+}
+
+export function sessionsPerUserLabel(minSessions: number, maxSessions: number | null): string {
+  if (maxSessions === null) return `${minSessions}+`
+  return minSessions === maxSessions ? String(minSessions) : `${minSessions}–${maxSessions}`
+}
+
+/**
+ * Zero-filled 7 × 24 grid from the heatmap rows
+ */
+export function heatmapGrid(rows: { weekday: number; hour: number; sessions: number }[]): number[][] {
+  const grid = WEEKDAYS.map(() => Array<number>(24).fill(0))
+  rows.forEach(row => {
+    if (row.weekday >= 1 && row.weekday <= 7 && row.hour >= 0 && row.hour < 24) {
+      grid[row.weekday - 1][row.hour] = row.sessions
+    }
+  })
+  return grid
+}
+
+export async function fetchSessionAnalytics(period: ReportingPeriod): Promise<SessionAnalytics> {
+  const params = periodParams(period)
+  const [statsResult, histogramResult, perUserResult, heatmapResult] = await Promise.all([
+    supabase.rpc('get_session_duration_stats', params),
+    supabase.rpc('get_session_duration_histogram', params),
+    supabase.rpc('get_sessions_per_user_distribution', params),
+    supabase.rpc('get_session_heatmap', { ...params, p_tz: REPORTING_TIMEZONE })
+  ])
+
+  for (const result of [statsResult, histogramResult, perUserResult, heatmapResult]) {
+    if (result.error) throw result.error
+  }
+
+  const statsRow = statsResult.data?.[0] ?? {}
+  const stats: DurationStats = {
+    sessions: Number(statsRow.sessions ?? 0),
+    measured_sessions: Number(statsRow.measured_sessions ?? 0),
+    mean_seconds: toNumber(statsRow.mean_seconds),
+    p50_seconds: toNumber(statsRow.p50_seconds),
+    p90_seconds: toNumber(statsRow.p90_seconds),
+    p99_seconds: toNumber(statsRow.p99_seconds),
+    max_seconds: toNumber(statsRow.max_seconds)
+  }
+
+  const histogram = (histogramResult.data || []).map((row: any) => ({
+    label: durationBucketLabel(row.min_seconds, row.max_seconds),
+    min_seconds: row.min_seconds,
+    max_seconds: row.max_seconds,
+    sessions: Number(row.sessions)
+  }))
+
+  const sessionsPerUser = (perUserResult.data || []).map((row: any) => ({
+    label: sessionsPerUserLabel(row.min_sessions, row.max_sessions),
+    min_sessions: row.min_sessions,
+    max_sessions: row.max_sessions,
+    users: Number(row.users)
+  }))
+
+  const heatmap = heatmapGrid((heatmapResult.data || []).map((row: any) => ({
+    weekday: row.weekday,
+    hour: row.hour,
+    sessions: Number(row.sessions)
+  })))
+
+  console.log('📊 Session analytics loaded -', { from: period.from, to: period.to, sessions: stats.sessions })
+  return { stats, histogram, sessionsPerUser, heatmap }
+}
+
+export async function fetchUserSessionTimeline(userId: string): Promise<UserSessionTimeline> {
+  const { data, error } = await supabase.rpc('get_user_session_timeline', { p_user_id: userId })
+  if (error) throw error
+
+  const rows = data || []
+  const first = rows[0]
+  // Every row carries the same profile columns; all-null means there is no profiles row
+  const profile: TimelineProfile | null = first && (first.email || first.first_name || first.profile_created_at)
+    ? {
+        first_name: first.first_name,
+        last_name: first.last_name,
+        email: first.email,
+        school: first.school,
+        grade: first.grade,
+        province: first.province,
+        created_at: first.profile_created_at
+      }
+    : null
+
+  return {
+    user_id: userId,
+    profile,
+    sessions: rows.map((row: any) => ({
+      session_id: row.session_id,
+      start_time: row.start_time,
+      end_time: row.end_time,
+      status: row.status,
+      duration_seconds: toNumber(row.duration_seconds),
+      auto_closed_at: row.auto_closed_at,
+      page_views: Number(row.page_views)
+    }))
+  }
+}
@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getTable, onRpc, resetSupabaseFake, seedTable } from '../test/supabaseFake'
+import { resolvePeriod } from './period'
+import { fetchLifecycleSummary, runSessionReaper, saveLifecycleSettings } from './sessionLifecycle'
+
+vi.mock('../lib/supabase', () => import('../test/supabaseFake'))
+
+describe('session lifecycle', () => {
+  beforeEach(() => resetSupabaseFake())
+
+  it('reads the period summary and reaper results as numbers', async () => {
+    let args: Record<string, any> = {}
+    onRpc('get_session_lifecycle_summary', received => {
+      args = received
+      return [{ auto_closed: '14', merged: '3', last_run_at: '2026-10-19T08:45:00Z' }]
+    })
+    onRpc('reap_stale_sessions', () => [{ closed: 2, merged: 0 }])
+
+    const period = resolvePeriod({ preset: 'custom', from: '2026-10-01', to: '2026-10-07' })
+    expect(await fetchLifecycleSummary(period)).toEqual({ auto_closed: 14, merged: 3, last_run_at: '2026-10-19T08:45:00Z' })
+    expect(args).toEqual({ p_start: period.start.toISOString(), p_end: period.end.toISOString() })
+
+    expect(await runSessionReaper()).toEqual({ closed: 2, merged: 0 })
+  })
+
+  it('keeps the idle timeout inside the allowed range', async () => {
+    seedTable('session_lifecycle_settings', [{ id: true, idle_timeout_minutes: 30, merge_overlapping: true }])
+
+    await expect(saveLifecycleSettings({ idle_timeout_minutes: 2, merge_overlapping: true }))
+      .rejects.toThrow('Idle timeout must be 5 to 1440 minutes')
+    await expect(saveLifecycleSettings({ idle_timeout_minutes: 45, merge_overlapping: false }))
+      .resolves.toMatchObject({ idle_timeout_minutes: 45, merge_overlapping: false })
+    expect(getTable('session_lifecycle_settings')[0].idle_timeout_minutes).toBe(45)
+  })
+})
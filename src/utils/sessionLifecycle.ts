@@ -0,0 +1,84 @@
+/**
+ * Session lifecycle
+ * reap_stale_sessions closes sessions idle past the configured timeout and merges overlapping ones per user;
+ * every change is recorded in session_lifecycle_audit.
+ */
+
+import { supabase } from '../lib/supabase'
+import { ReportingPeriod, periodParams } from './period'
+
+export interface SessionLifecycleSettings {
+  idle_timeout_minutes: number
+  merge_overlapping: boolean
+  updated_at: string
+}
+
+export interface SessionLifecycleSummary {
+  auto_closed: number
+  merged: number
+  last_run_at: string | null
+}
+
+export interface ReaperRun {
+  closed: number
+  merged: number
+}
+
+// Bounds enforced by the session_lifecycle_settings check constraint
+export const MIN_IDLE_TIMEOUT_MINUTES = 5
+export const MAX_IDLE_TIMEOUT_MINUTES = 1440
+
+export async function fetchLifecycleSummary(period: ReportingPeriod): Promise<SessionLifecycleSummary> {
+  const { data, error } = await supabase.rpc('get_session_lifecycle_summary', periodParams(period))
+  if (error) throw error
+
+  // bigint columns arrive as strings
+  const row = data?.[0]
+  return {
+    auto_closed: Number(row?.auto_closed ?? 0),
+    merged: Number(row?.merged ?? 0),
+    last_run_at: row?.last_run_at ?? null
+  }
+}
+
+export async function fetchLifecycleSettings(): Promise<SessionLifecycleSettings | null> {
+  const { data, error } = await supabase
+    .from('session_lifecycle_settings')
+    .select('idle_timeout_minutes, merge_overlapping, updated_at')
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+export async function saveLifecycleSettings(
+  settings: Pick<SessionLifecycleSettings, 'idle_timeout_minutes' | 'merge_overlapping'>
+): Promise<SessionLifecycleSettings> {
+  const timeout = settings.idle_timeout_minutes
+  if (!Number.isInteger(timeout) || timeout < MIN_IDLE_TIMEOUT_MINUTES || timeout > MAX_IDLE_TIMEOUT_MINUTES) {
+    throw new Error(`Idle timeout must be ${MIN_IDLE_TIMEOUT_MINUTES} to ${MAX_IDLE_TIMEOUT_MINUTES} minutes`)
+  }
+
+  const { data: { user } } = await supabase.auth.getUser()
+  const { data, error } = await supabase
+    .from('session_lifecycle_settings')
+    .update({ ...settings, updated_by: user?.id ?? null, updated_at: new Date().toISOString() })
+    .eq('id', true)
+    .select('idle_timeout_minutes, merge_overlapping, updated_at')
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Run the reaper now instead of waiting for the schedule; admins only
+ */
+export async function runSessionReaper(): Promise<ReaperRun> {
+  const { data, error } = await supabase.rpc('reap_stale_sessions')
+  if (error) throw error
+
+  const result = { closed: Number(data?.[0]?.closed ?? 0), merged: Number(data?.[0]?.merged ?? 0) }
+  console.log('🧹 Session reaper run -', result)
+  return result
+}
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { onRpc, resetSupabaseFake } from '../test/supabaseFake'
+import { fetchSubjectInsights } from './subjectInsights'
+
+vi.mock('../lib/supabase', () => import('../test/supabaseFake'))
+
+beforeEach(() => {
+  resetSupabaseFake()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+describe('fetchSubjectInsights', () => {
+  it('converts numeric strings and spreads levels into seven slots per field', async () => {
+    const args: Record<string, any> = {}
+    onRpc('get_subject_insights', a => {
+      args.subjects = a
+      return [{ subject: 'Physical Sciences', students: '40', avg_mark: '58.5', pass_rate: '92.5', pct_ge_50: '60.0', pct_ge_70: '20.0' }]
+    })
+    onRpc('get_level_distribution', () => [
+      { field: 'math_level', level: 1, students: '2' },
+      { field: 'math_level', level: 7, students: '5' },
+      { field: 'not_a_level', level: 3, students: '9' }
+    ])
+    onRpc('get_math_type_comparison', a => {
+      args.mathTypes = a
+      return [{
+        math_type: 'Mathematical Literacy',
+        students: '30',
+        avg_math_mark: '64.0',
+        median_math_mark: '65.0',
+        pass_rate: '96.7',
+        pct_ge_50: '80.0',
+        avg_average: null,
+        avg_aps: '24.5'
+      }]
+    })
+
+    const result = await fetchSubjectInsights()
+
+    expect(args.subjects).toEqual({ p_pass_mark: 30 })
+    expect(args.mathTypes).toEqual({ p_pass_mark: 30 })
+    expect(result.subjects[0]).toEqual({
+      subject: 'Physical Sciences', students: 40, avg_mark: 58.5, pass_rate: 92.5, pct_ge_50: 60, pct_ge_70: 20
+    })
+    expect(result.levels).toEqual({ math_level: [2, 0, 0, 0, 0, 0, 5] })
+    expect(result.mathTypes[0]).toMatchObject({ students: 30, pass_rate: 96.7, avg_average: null, avg_aps: 24.5 })
+  })
+
+  it('surfaces database errors', async () => {
+    onRpc('get_subject_insights', () => [])
+    onRpc('get_level_distribution', () => { throw new Error('permission denied') })
+    onRpc('get_math_type_comparison', () => [])
+
+    await expect(fetchSubjectInsights()).rejects.toMatchObject({ message: 'permission denied' })
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * Client for the subject-level marks functions (get_subject_insights, get_level_distribution,
+ * get_math_type_comparison). NUMERIC and bigint columns arrive as strings and are converted here.
+ */
+
+import { supabase } from '../lib/supabase'
+
+// NSC level 2 (Elementary Achievement) is the lowest pass for a subject
+export const SUBJECT_PASS_MARK = 30
+
+// Display names for the user_marks *_level columns, in the order they are shown
+export const LEVEL_FIELDS = {
+  math_level: 'Mathematics',
+  home_language_level: 'Home Language',
+  first_additional_language_level: 'First Additional Language',
+  second_additional_language_level: 'Second Additional Language',
+  life_orientation_level: 'Life Orientation',
+  subject1_level: 'Subject 1',
+  subject2_level: 'Subject 2',
+  subject3_level: 'Subject 3',
+  subject4_level: 'Subject 4'
+} as const
+
+export type LevelField = keyof typeof LEVEL_FIELDS
+
+export interface SubjectInsight {
+  subject: string
+  students: number
+  avg_mark: number
+  pass_rate: number
+  pct_ge_50: number
+  pct_ge_70: number
+}
+
+export interface MathTypeComparison {
+  math_type: string
+  students: number
+  avg_math_mark: number
+  median_math_mark: number
+  pass_rate: number
+  pct_ge_50: number
+  avg_average: number | null
+  avg_aps: number | null
+}
+
+export interface SubjectInsights {
+  subjects: SubjectInsight[]                      // most-taken first
+  levels: Partial<Record<LevelField, number[]>>   // students at levels 1..7, index 0 = level 1
+  mathTypes: MathTypeComparison[]
+}
+
+const toNumberOrNull = (value: unknown): number | null =>
+  value === null || value === undefined ? null : Number(value)
+
+/**
+ * Fetch subject averages, level distributions and the Maths / Maths Literacy comparison
+ */
+export async function fetchSubjectInsights(passMark: number = SUBJECT_PASS_MARK): Promise<SubjectInsights> {
+  const [subjectResult, levelResult, mathTypeResult] = await Promise.all([
+    supabase.rpc('get_subject_insights', { p_pass_mark: passMark }),
+    supabase.rpc('get_level_distribution'),
+    supabase.rpc('get_math_type_comparison', { p_pass_mark: passMark })
+  ])
+
+  if (subjectResult.error) throw subjectResult.error
+  if (levelResult.error) throw levelResult.error
+  if (mathTypeResult.error) throw mathTypeResult.error
+
+  const subjects: SubjectInsight[] = (subjectResult.data || []).map((row: any) => ({
+    subject: row.subject,
+    students: Number(row.students),
+    avg_mark: Number(row.avg_mark),
+    pass_rate: Number(row.pass_rate),
+    pct_ge_50: Number(row.pct_ge_50),
+    pct_ge_70: Number(row.pct_ge_70)
+  }))
+
+  const levels: Partial<Record<LevelField, number[]>> = {}
+  for (const row of levelResult.data || []) {
+    const field = row.field as LevelField
+    if (!(field in LEVEL_FIELDS)) continue
+    if (!levels[field]) levels[field] = [0, 0, 0, 0, 0, 0, 0]
+    levels[field]![Number(row.level) - 1] = Number(row.students)
+  }
+
+  const mathTypes: MathTypeComparison[] = (mathTypeResult.data || []).map((row: any) => ({
+    math_type: row.math_type,
+    students: Number(row.students),
+    avg_math_mark: Number(row.avg_math_mark),
+    median_math_mark: Number(row.median_math_mark),
+    pass_rate: Number(row.pass_rate),
+    pct_ge_50: Number(row.pct_ge_50),
+    avg_average: toNumberOrNull(row.avg_average),
+    avg_aps: toNumberOrNull(row.avg_aps)
+  }))
+
+  console.log('📚 Subject insights loaded -', { subjects: subjects.length, mathTypes: mathTypes.length })
+  return { subjects, levels, mathTypes }
+}
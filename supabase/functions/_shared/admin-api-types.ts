@@ -0,0 +1,99 @@
+// Request/response contracts for the admin-api edge function, also used by src/lib/adminApi.ts.
+
+export type ProfileRole = 'Learner' | 'Parent' | 'Tutor' | 'Other'
+
+export interface AdminProfileData {
+  first_name?: string
+  last_name?: string
+  phone_number?: string
+  school?: string
+  grade?: string
+  date_of_birth?: string
+  role?: ProfileRole
+}
+
+export interface AdminAddedEmailEntry {
+  id: number
+  email: string
+  first_name?: string | null
+  last_name?: string | null
+}
+
+export interface AdminAuthUser {
+  id: string
+  email: string
+  created_at: string
+}
+
+export interface AdminMagicLinkUser {
+  id: string
+  email: string
+  is_active: boolean
+  magic_token: string
+  activated_at: string | null
+  first_access_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface AdminApiRequests {
+  createUserWithEmail: {
+    email: string
+    password: string
+    profileData?: AdminProfileData
+  }
+  createAuthUserFromAddedEmail: {
+    emailEntry: AdminAddedEmailEntry
+    password?: string
+  }
+  bulkCreateAuthUsers: {
+    emailEntries: AdminAddedEmailEntry[]
+  }
+  createOrUpdateMagicLinkUser: {
+    email: string
+  }
+  getAuthUserStatus: {
+    emails: string[]
+  }
+  createProfileUser: {
+    email: string
+    password: string
+    profileData?: AdminProfileData
+  }
+}
+
+export interface AdminApiResponses {
+  createUserWithEmail: {
+    user: AdminAuthUser
+  }
+  createAuthUserFromAddedEmail: {
+    user?: AdminAuthUser
+    alreadyExists: boolean
+  }
+  bulkCreateAuthUsers: {
+    created: string[]
+    skipped: string[]
+    errors: Array<{ email: string; error: string }>
+  }
+  createOrUpdateMagicLinkUser: {
+    user: AdminMagicLinkUser
+  }
+  getAuthUserStatus: {
+    status: { [email: string]: boolean }
+  }
+  createProfileUser: {
+    user: AdminAuthUser
+    profile: Record<string, unknown>
+  }
+}
+
+export type AdminAction = keyof AdminApiRequests
+
+export interface AdminApiRequest<A extends AdminAction = AdminAction> {
+  action: A
+  payload: AdminApiRequests[A]
+}
+
+export type AdminApiResult<A extends AdminAction = AdminAction> =
+  | { success: true; data: AdminApiResponses[A] }
+  | { success: false; error: string }
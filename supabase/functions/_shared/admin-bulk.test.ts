@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { bulkCreateUsers } from './admin-bulk.ts'
+
+describe('bulkCreateUsers', () => {
+  it('sorts entries into created, skipped for existing users, and errors', async () => {
+    const existing = new Set(['thandi@example.com'])
+    const entries = ['new@example.com', 'thandi@example.com', 'broken@example.com', 'later@example.com']
+      .map((email, id) => ({ id, email }))
+
+    const result = await bulkCreateUsers(entries, async ({ email }) => {
+      if (email === 'broken@example.com') throw new Error('Failed to create user: rate limited')
+      return { alreadyExists: existing.has(email) }
+    })
+
+    expect(result).toEqual({
+      created: ['new@example.com', 'later@example.com'],
+      skipped: ['thandi@example.com'],
+      errors: [{ email: 'broken@example.com', error: 'Failed to create user: rate limited' }]
+    })
+  })
+})
@@ -0,0 +1,32 @@
+// Bulk user creation for the admin-api edge function. Creating one user is passed in,
+// so the bookkeeping of created, skipped and failed emails can be tested on its own.
+
+import type { AdminAddedEmailEntry, AdminApiResponses } from './admin-api-types.ts'
+
+/**
+ * Create an auth user for every entry, one at a time, sorting each email into created, skipped (the user
+ * already existed) or errors. A failed entry never stops the rest.
+ */
+export async function bulkCreateUsers(
+  entries: AdminAddedEmailEntry[],
+  createOne: (entry: AdminAddedEmailEntry) => Promise<{ alreadyExists: boolean }>
+): Promise<AdminApiResponses['bulkCreateAuthUsers']> {
+  const created: string[] = []
+  const skipped: string[] = []
+  const errors: Array<{ email: string; error: string }> = []
+
+  for (const entry of entries) {
+    try {
+      const { alreadyExists } = await createOne(entry)
+      if (alreadyExists) {
+        skipped.push(entry.email)
+      } else {
+        created.push(entry.email)
+      }
+    } catch (error) {
+      errors.push({ email: entry.email, error: (error instanceof Error && error.message) || 'Unknown error' })
+    }
+  }
+
+  return { created, skipped, errors }
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import {
+  auditApsMark,
+  calculateAps,
+  percentageToNscLevel,
+  subjectsFromUserMarks,
+  toApsAuditRows,
+  type ApsSubject
+} from './aps.ts'
+
+const subjects = (percentages: number[], lifeOrientation?: number): ApsSubject[] => [
+  ...percentages.map((percentage, i) => ({ name: `Subject ${i + 1}`, percentage })),
+  ...(lifeOrientation === undefined ? [] : [{ name: 'Life Orientation', percentage: lifeOrientation, isLifeOrientation: true }])
+]
+
+describe('percentageToNscLevel', () => {
+  it.each([
+    [100, 7], [80, 7], [79, 6], [70, 6], [69, 5], [60, 5], [59, 4],
+    [50, 4], [49, 3], [40, 3], [39, 2], [30, 2], [29, 1], [0, 1]
+  ])('%i%% is level %i', (percentage, level) => {
+    expect(percentageToNscLevel(percentage)).toBe(level)
+  })
+})
+
+describe('calculateAps (standard)', () => {
+  it('sums the best six subject levels', () => {
+    const result = calculateAps(subjects([85, 72, 65, 55, 45, 35, 20]))
+    expect(result.total).toBe(7 + 6 + 5 + 4 + 3 + 2)
+    expect(result.counted).toHaveLength(6)
+    expect(result.complete).toBe(true)
+  })
+
+  it('excludes Life Orientation', () => {
+    const withLo = calculateAps(subjects([60, 60, 60, 60, 60, 60], 95))
+    expect(withLo.total).toBe(30)
+    expect(withLo.counted.some(s => s.isLifeOrientation)).toBe(false)
+  })
+
+  it('caps at 42', () => {
+    expect(calculateAps(subjects([100, 100, 100, 100, 100, 100, 100])).total).toBe(42)
+  })
+
+  it('reports incomplete subject sets', () => {
+    const result = calculateAps(subjects([80, 80, 80]))
+    expect(result.total).toBe(21)
+    expect(result.complete).toBe(false)
+  })
+})
+
+describe('calculateAps (wits)', () => {
+  it('uses the 8-point scale, Life Orientation points and the English/Maths bonus', () => {
+    const result = calculateAps([
+      { name: 'English Home Language', percentage: 92 },
+      { name: 'Mathematics', percentage: 75 },
+      { name: 'Physical Sciences', percentage: 65 },
+      { name: 'Life Sciences', percentage: 55 },
+      { name: 'Geography', percentage: 45 },
+      { name: 'isiZulu First Additional Language', percentage: 35 },
+      { name: 'Life Orientation', percentage: 85, isLifeOrientation: true }
+    ], 'wits')
+
+    expect(result.bonus).toBe(4)
+    expect(result.total).toBe(8 + 6 + 5 + 4 + 3 + 0 + 3 + 4)
+  })
+
+  it('gives no bonus for Mathematical Literacy', () => {
+    const result = calculateAps([{ name: 'Mathematical Literacy', percentage: 90 }], 'wits')
+    expect(result.bonus).toBe(0)
+  })
+})
+
+describe('calculateAps (uct)', () => {
+  it('sums the best six percentages without Life Orientation', () => {
+    const result = calculateAps(subjects([90, 80, 70, 60, 50, 40, 30], 99), 'uct')
+    expect(result.total).toBe(390)
+    expect(result.max).toBe(600)
+  })
+})
+
+describe('auditApsMark', () => {
+  const row = {
+    user_id: 'a',
+    math_mark: 85,
+    math_type: 'Mathematics',
+    home_language_mark: 72,
+    home_language: 'English',
+    first_additional_language_mark: 65,
+    subject1_mark: 55,
+    subject2_mark: 45,
+    subject3_mark: 35,
+    life_orientation_mark: 90
+  }
+
+  it('matches a correct stored aps_mark', () => {
+    expect(auditApsMark({ ...row, aps_mark: 27 })).toMatchObject({ status: 'match', computed: 27, difference: 0 })
+  })
+
+  it('flags a disagreeing aps_mark', () => {
+    expect(auditApsMark({ ...row, aps_mark: 30 })).toMatchObject({ status: 'mismatch', stored: 30, difference: 3 })
+  })
+
+  it('does not call missing subjects a mismatch', () => {
+    expect(auditApsMark({ math_mark: 85, aps_mark: 30 }).status).toBe('insufficient_subjects')
+  })
+
+  it('reports rows without a stored aps_mark', () => {
+    expect(auditApsMark({ ...row, aps_mark: null }).status).toBe('missing_stored')
+  })
+
+  it('reads subject names from user_marks columns', () => {
+    expect(subjectsFromUserMarks(row).map(s => s.name)).toEqual([
+      'Mathematics', 'English', 'First Additional Language', 'Subject 1', 'Subject 2', 'Subject 3', 'Life Orientation'
+    ])
+  })
+})
+
+describe('toApsAuditRows', () => {
+  const marks = { math_mark: 85, home_language_mark: 72, first_additional_language_mark: 65, subject1_mark: 55, subject2_mark: 45, subject3_mark: 35 }
+
+  it('audits only the latest row of a learner who resubmitted', () => {
+    const audits = toApsAuditRows([
+      { user_id: 'a', profile_id: 'p1', created_at: '2026-09-01T00:00:00+00:00', aps_mark: 27, ...marks },
+      { user_id: 'a', profile_id: 'p1', created_at: '2026-03-01T00:00:00+00:00', aps_mark: 30, ...marks },
+      { user_id: 'b', profile_id: null, created_at: '2026-05-01T00:00:00+00:00', aps_mark: 30, ...marks }
+    ], '2026-10-01T00:00:00Z')
+
+    expect(audits.map(audit => [audit.learner_id, audit.status])).toEqual([['p1', 'match'], ['b', 'mismatch']])
+  })
+})
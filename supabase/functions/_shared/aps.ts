@@ -0,0 +1,262 @@
+// Deterministic APS (Admission Point Score) calculator for the aps-calculator edge function.
+// The dashboard's matching pipeline and data consistency checks score marks with it too.
+
+export type ApsSchemeId = 'standard' | 'wits' | 'uct'
+
+export interface ApsSubject {
+  name: string
+  percentage: number
+  isLifeOrientation?: boolean
+}
+
+export interface ApsCountedSubject extends ApsSubject {
+  points: number
+}
+
+export interface ApsResult {
+  scheme: ApsSchemeId
+  total: number
+  max: number
+  counted: ApsCountedSubject[]
+  bonus: number
+  complete: boolean   // false when fewer subjects than the scheme counts were available
+}
+
+interface PointBand {
+  min: number
+  points: number
+}
+
+interface ApsScheme {
+  label: string
+  subjectCount: number
+  max: number
+  points: (percentage: number) => number
+  lifeOrientationPoints?: (percentage: number) => number   // omitted: Life Orientation is excluded
+  bonus?: (subjects: ApsSubject[]) => number
+}
+
+// NSC achievement levels
+export const NSC_LEVEL_BANDS: PointBand[] = [
+  { min: 80, points: 7 },
+  { min: 70, points: 6 },
+  { min: 60, points: 5 },
+  { min: 50, points: 4 },
+  { min: 40, points: 3 },
+  { min: 30, points: 2 },
+  { min: 0, points: 1 }
+]
+
+// Wits scores percentages on an 8-point scale and Life Orientation on a reduced one
+const WITS_BANDS: PointBand[] = [
+  { min: 90, points: 8 },
+  { min: 80, points: 7 },
+  { min: 70, points: 6 },
+  { min: 60, points: 5 },
+  { min: 50, points: 4 },
+  { min: 40, points: 3 },
+  { min: 0, points: 0 }
+]
+
+const WITS_LIFE_ORIENTATION_BANDS: PointBand[] = [
+  { min: 90, points: 4 },
+  { min: 80, points: 3 },
+  { min: 70, points: 2 },
+  { min: 60, points: 1 },
+  { min: 0, points: 0 }
+]
+
+const WITS_BONUS_SUBJECTS = [/^english/, /^mathematics$/]
+const WITS_BONUS_THRESHOLD = 60
+const WITS_BONUS_POINTS = 2
+
+function pointsFor(bands: PointBand[], percentage: number): number {
+  return (bands.find(band => percentage >= band.min) ?? bands[bands.length - 1]).points
+}
+
+/**
+ * Convert a subject percentage to its NSC achievement level (1-7)
+ */
+export function percentageToNscLevel(percentage: number): number {
+  return pointsFor(NSC_LEVEL_BANDS, percentage)
+}
+
+export const APS_SCHEMES: Record<ApsSchemeId, ApsScheme> = {
+  // Sum of NSC levels for the best six subjects, Life Orientation excluded (max 42)
+  standard: {
+    label: 'Standard NSC APS',
+    subjectCount: 6,
+    max: 42,
+    points: percentageToNscLevel
+  },
+  // Best six subjects on the Wits scale, plus Life Orientation and an English/Maths bonus
+  wits: {
+    label: 'Wits APS',
+    subjectCount: 6,
+    max: 6 * 8 + 4 + 2 * WITS_BONUS_POINTS,
+    points: percentage => pointsFor(WITS_BANDS, percentage),
+    lifeOrientationPoints: percentage => pointsFor(WITS_LIFE_ORIENTATION_BANDS, percentage),
+    bonus: subjects => subjects.filter(subject =>
+      !subject.isLifeOrientation &&
+      subject.percentage >= WITS_BONUS_THRESHOLD &&
+      WITS_BONUS_SUBJECTS.some(pattern => pattern.test(subject.name.toLowerCase().trim()))
+    ).length * WITS_BONUS_POINTS
+  },
+  // UCT Faculty Points Score: sum of percentages for the best six subjects, Life Orientation excluded
+  uct: {
+    label: 'UCT Faculty Points Score',
+    subjectCount: 6,
+    max: 600,
+    points: percentage => Math.round(percentage)
+  }
+}
+
+/**
+ * Calculate an APS from subject percentages using the given scheme
+ */
+export function calculateAps(subjects: ApsSubject[], schemeId: ApsSchemeId = 'standard'): ApsResult {
+  const scheme = APS_SCHEMES[schemeId]
+  const valid = subjects.filter(subject => Number.isFinite(subject.percentage))
+
+  const counted = valid
+    .filter(subject => !subject.isLifeOrientation)
+    .map(subject => ({ ...subject, points: scheme.points(subject.percentage) }))
+    // Ties broken by percentage so the same input always picks the same subjects
+    .sort((a, b) => b.points - a.points || b.percentage - a.percentage)
+    .slice(0, scheme.subjectCount)
+
+  const lifeOrientation = valid.find(subject => subject.isLifeOrientation)
+  if (lifeOrientation && scheme.lifeOrientationPoints) {
+    counted.push({ ...lifeOrientation, points: scheme.lifeOrientationPoints(lifeOrientation.percentage) })
+  }
+
+  const bonus = scheme.bonus ? scheme.bonus(counted) : 0
+
+  return {
+    scheme: schemeId,
+    total: counted.reduce((sum, subject) => sum + subject.points, 0) + bonus,
+    max: scheme.max,
+    counted,
+    bonus,
+    complete: counted.filter(subject => !subject.isLifeOrientation).length === scheme.subjectCount
+  }
+}
+
+// user_marks mark columns, where each subject's name is read from, and a fallback name
+const USER_MARKS_SUBJECTS: { mark: string; nameColumn?: string; name: string; isLifeOrientation?: boolean }[] = [
+  { mark: 'math_mark', nameColumn: 'math_type', name: 'Mathematics' },
+  { mark: 'home_language_mark', nameColumn: 'home_language', name: 'Home Language' },
+  { mark: 'first_additional_language_mark', nameColumn: 'first_additional_language', name: 'First Additional Language' },
+  { mark: 'second_additional_language_mark', nameColumn: 'second_additional_language', name: 'Second Additional Language' },
+  { mark: 'subject1_mark', nameColumn: 'subject1', name: 'Subject 1' },
+  { mark: 'subject2_mark', nameColumn: 'subject2', name: 'Subject 2' },
+  { mark: 'subject3_mark', nameColumn: 'subject3', name: 'Subject 3' },
+  { mark: 'subject4_mark', nameColumn: 'subject4', name: 'Subject 4' },
+  { mark: 'life_orientation_mark', name: 'Life Orientation', isLifeOrientation: true }
+]
+
+export const USER_MARKS_APS_COLUMNS = [
+  'user_id',
+  'profile_id',
+  'created_at',
+  'aps_mark',
+  ...USER_MARKS_SUBJECTS.flatMap(({ mark, nameColumn }) => nameColumn ? [mark, nameColumn] : [mark])
+]
+
+// The user_marks columns that identify a learner's row and order their submissions
+interface UserMarksRowKeys {
+  user_id?: unknown
+  profile_id?: unknown
+  created_at?: unknown
+}
+
+/**
+ * The learner a user_marks row belongs to: profile_id, falling back to user_id as the school report functions do
+ */
+export function learnerIdOf(row: UserMarksRowKeys): string {
+  return String(row.profile_id || row.user_id)
+}
+
+/**
+ * Keep each learner's latest user_marks row, like DISTINCT ON (COALESCE(profile_id, user_id)) ... ORDER BY created_at DESC
+ * in get_school_rankings
+ */
+export function latestUserMarks<T extends UserMarksRowKeys>(rows: T[]): T[] {
+  const latest = new Map<string, T>()
+  for (const row of rows) {
+    const current = latest.get(learnerIdOf(row))
+    if (!current || String(row.created_at ?? '') > String(current.created_at ?? '')) latest.set(learnerIdOf(row), row)
+  }
+  return Array.from(latest.values())
+}
+
+/**
+ * Read the subject percentages out of a user_marks row
+ */
+export function subjectsFromUserMarks(row: Record<string, unknown>): ApsSubject[] {
+  const subjects: ApsSubject[] = []
+
+  for (const { mark, nameColumn, name, isLifeOrientation = false } of USER_MARKS_SUBJECTS) {
+    const value = row[mark]
+    if (value === null || value === undefined || value === '') continue
+
+    const percentage = Number(value)
+    if (!Number.isFinite(percentage)) continue
+
+    const storedName = nameColumn ? row[nameColumn] : null
+    subjects.push({ name: typeof storedName === 'string' && storedName ? storedName : name, percentage, isLifeOrientation })
+  }
+
+  return subjects
+}
+
+export type ApsAuditStatus = 'match' | 'mismatch' | 'missing_stored' | 'insufficient_subjects'
+
+export interface ApsAudit {
+  stored: number | null
+  computed: number
+  difference: number | null
+  status: ApsAuditStatus
+}
+
+/**
+ * Compare a row's stored aps_mark with the standard APS recomputed from its marks
+ */
+export function auditApsMark(row: Record<string, unknown>): ApsAudit {
+  const result = calculateAps(subjectsFromUserMarks(row), 'standard')
+  const stored = row.aps_mark === null || row.aps_mark === undefined || row.aps_mark === ''
+    ? null
+    : Number(row.aps_mark)
+
+  if (stored === null || !Number.isFinite(stored)) {
+    return { stored: null, computed: result.total, difference: null, status: 'missing_stored' }
+  }
+
+  const difference = stored - result.total
+  const status: ApsAuditStatus = difference === 0
+    ? 'match'
+    : result.complete ? 'mismatch' : 'insufficient_subjects'
+
+  return { stored, computed: result.total, difference, status }
+}
+
+/**
+ * aps_mark_audit rows for a set of user_marks rows: one per learner, from their latest row
+ */
+export function toApsAuditRows(rows: Record<string, unknown>[], checkedAt: string) {
+  return latestUserMarks(rows.filter(row => row.user_id)).map(row => {
+    const audit = auditApsMark(row)
+    const subjects = subjectsFromUserMarks(row)
+    return {
+      learner_id: learnerIdOf(row),
+      user_id: String(row.user_id),
+      stored_aps: audit.stored,
+      computed_aps: audit.computed,
+      difference: audit.difference,
+      status: audit.status,
+      wits_aps: calculateAps(subjects, 'wits').total,
+      uct_fps: calculateAps(subjects, 'uct').total,
+      checked_at: checkedAt
+    }
+  })
+}
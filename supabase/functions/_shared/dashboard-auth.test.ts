@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { DashboardAuthError, DashboardRole, dashboardRoleGuard } from './dashboard-auth.ts'
+
+const USERS: Record<string, { id: string; email: string }> = {
+  'Bearer admin-jwt': { id: 'admin-1', email: 'admin@example.com' },
+  'Bearer analyst-jwt': { id: 'analyst-1', email: 'analyst@example.com' },
+  'Bearer viewer-jwt': { id: 'viewer-1', email: 'viewer@example.com' }
+}
+const ROLES: Record<string, DashboardRole> = { 'admin-1': 'admin', 'analyst-1': 'analyst' }
+
+const requireDashboardRole = dashboardRoleGuard({
+  serviceRoleKey: 'service-key',
+  userClient: authorization => ({
+    auth: {
+      getUser: async () => USERS[authorization]
+        ? { data: { user: USERS[authorization] }, error: null }
+        : { data: { user: null }, error: new Error('invalid JWT') }
+    }
+  }),
+  serviceClient: {
+    from: () => ({
+      select: () => ({
+        eq: (_column: string, userId: string) => ({
+          maybeSingle: async () => ({ data: ROLES[userId] ? { role: ROLES[userId] } : null, error: null })
+        })
+      })
+    })
+  }
+})
+
+const request = (authorization?: string) =>
+  new Request('https://example.supabase.co/functions/v1/test', {
+    method: 'POST',
+    headers: authorization ? { Authorization: authorization } : {}
+  })
+
+const rejection = (promise: Promise<unknown>) =>
+  promise.then(
+    () => null,
+    (error: DashboardAuthError) => ({ status: error.status, message: error.message })
+  )
+
+describe('requireDashboardRole', () => {
+  it('returns the caller when their role is allowed', async () => {
+    expect(await requireDashboardRole(request('Bearer analyst-jwt'), ['admin', 'analyst'])).toMatchObject({ id: 'analyst-1' })
+    expect(await requireDashboardRole(request('Bearer viewer-jwt'), ['admin', 'analyst', 'viewer'])).toMatchObject({ id: 'viewer-1' })
+  })
+
+  it('rejects missing and invalid sessions, and roles below the requirement', async () => {
+    expect(await rejection(requireDashboardRole(request(), ['admin']))).toEqual({ status: 401, message: 'Missing Authorization header' })
+    expect(await rejection(requireDashboardRole(request('Bearer expired'), ['admin']))).toEqual({ status: 401, message: 'Invalid or expired session' })
+    expect(await rejection(requireDashboardRole(request('Bearer analyst-jwt'), ['admin']))).toEqual({ status: 403, message: 'Admin role required' })
+    // No dashboard_roles row counts as viewer
+    expect(await rejection(requireDashboardRole(request('Bearer viewer-jwt'), ['admin', 'analyst']))).toEqual({ status: 403, message: 'Analyst role required' })
+  })
+
+  it('lets the service role through only when allowed', async () => {
+    expect(await requireDashboardRole(request('Bearer service-key'), ['admin', 'analyst'], { allowServiceRole: true })).toBeNull()
+    expect(await rejection(requireDashboardRole(request('Bearer service-key'), ['admin', 'analyst']))).toEqual({ status: 401, message: 'Invalid or expired session' })
+  })
+})
@@ -0,0 +1,69 @@
+// Dashboard role check for the edge functions that act on behalf of a signed-in dashboard user.
+// Each function passes in its own supabase-js clients.
+
+export type DashboardRole = 'admin' | 'analyst' | 'viewer'
+
+export class DashboardAuthError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+  }
+}
+
+// The parts of supabase-js the check uses
+interface UserClient<U> {
+  auth: { getUser(): Promise<{ data: { user: U | null }; error: unknown }> }
+}
+
+// Only .from('dashboard_roles').select('role').eq('user_id', id).maybeSingle() is called on it
+interface RoleLookup {
+  from(table: 'dashboard_roles'): any
+}
+
+export interface DashboardAuthConfig<U> {
+  serviceRoleKey: string
+  // A client acting as the caller, e.g. createClient(url, anonKey, { global: { headers: { Authorization } } })
+  userClient: (authorization: string) => UserClient<U>
+  // The service-role client, which can read every dashboard_roles row
+  serviceClient: RoleLookup
+}
+
+export interface RequireDashboardRole<U> {
+  // Service-role calls (pg_cron, other functions) have no user and resolve to null
+  (req: Request, roles: DashboardRole[], options: { allowServiceRole: true }): Promise<U | null>
+  (req: Request, roles: DashboardRole[], options?: { allowServiceRole?: false }): Promise<U>
+}
+
+/**
+ * Build requireDashboardRole(req, roles) for an edge function: resolves the caller from the Authorization header
+ * and throws DashboardAuthError (401/403/500) unless their dashboard role is one of roles.
+ * Users without a dashboard_roles row are viewers, as in get_my_dashboard_role().
+ */
+export function dashboardRoleGuard<U extends { id: string }>(config: DashboardAuthConfig<U>): RequireDashboardRole<U> {
+  return (async (req: Request, roles: DashboardRole[], { allowServiceRole = false }: { allowServiceRole?: boolean } = {}) => {
+    const authorization = req.headers.get('Authorization')
+    if (!authorization) {
+      throw new DashboardAuthError(401, 'Missing Authorization header')
+    }
+    if (allowServiceRole && authorization === `Bearer ${config.serviceRoleKey}`) return null
+
+    const { data: { user }, error } = await config.userClient(authorization).auth.getUser()
+    if (error || !user) {
+      throw new DashboardAuthError(401, 'Invalid or expired session')
+    }
+
+    const { data: roleRow, error: roleError } = await config.serviceClient
+      .from('dashboard_roles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (roleError) {
+      throw new DashboardAuthError(500, `Failed to resolve role: ${roleError.message}`)
+    }
+    if (!roles.includes(roleRow?.role ?? 'viewer')) {
+      throw new DashboardAuthError(403, roles.includes('analyst') ? 'Analyst role required' : 'Admin role required')
+    }
+
+    return user
+  }) as RequireDashboardRole<U>
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_EVENTS_PER_REQUEST, parsePageViewEvent, validatePageViewBatch } from './page-views.ts'
+
+const NOW = new Date('2025-06-01T12:00:00Z')
+const EVENT_ID = '3f1c2a9e-3b4d-4e5f-8a7b-9c0d1e2f3a4b'
+
+const event = (overrides: Record<string, unknown> = {}) => ({
+  event_id: EVENT_ID,
+  page_path: '/universities',
+  viewed_at: '2025-06-01T11:58:00Z',
+  duration_ms: 42_500,
+  click_count: 3,
+  ...overrides
+})
+
+describe('parsePageViewEvent', () => {
+  it('normalises a valid event', () => {
+    expect(parsePageViewEvent(event({ page_path: '/universities/?faculty=law#top' }), NOW)).toEqual({
+      event_id: EVENT_ID,
+      session_id: null,
+      page_path: '/universities',
+      referrer_path: null,
+      viewed_at: '2025-06-01T11:58:00.000Z',
+      duration_ms: 42_500,
+      click_count: 3,
+      platform: null,
+      app_version: null
+    })
+  })
+
+  it('caps implausibly long durations at four hours', () => {
+    expect(parsePageViewEvent(event({ duration_ms: 10 * 60 * 60 * 1000 }), NOW).duration_ms).toBe(4 * 60 * 60 * 1000)
+  })
+
+  it.each([
+    [{ event_id: 'abc' }, 'event_id must be a UUID'],
+    [{ page_path: 'universities' }, 'page_path must start with "/" and be at most 512 characters'],
+    [{ viewed_at: 'yesterday' }, 'viewed_at must be an ISO timestamp'],
+    [{ viewed_at: '2025-06-01T13:00:00Z' }, 'viewed_at is in the future'],
+    [{ viewed_at: '2025-05-01T12:00:00Z' }, 'viewed_at is more than 7 days old'],
+    [{ duration_ms: -1 }, 'duration_ms must be a non-negative number'],
+    [{ click_count: 1.5 }, 'click_count must be a non-negative integer']
+  ])('rejects %o', (overrides, message) => {
+    expect(() => parsePageViewEvent(event(overrides), NOW)).toThrow(message)
+  })
+})
+
+describe('validatePageViewBatch', () => {
+  it('accepts a single event body', () => {
+    expect(validatePageViewBatch(event(), NOW).valid).toHaveLength(1)
+  })
+
+  it('keeps valid events and reports rejected ones by index', () => {
+    const result = validatePageViewBatch({ events: [event(), event({ page_path: '' })] }, NOW)
+    expect(result.valid).toHaveLength(1)
+    expect(result.rejected).toEqual([{ index: 1, error: 'page_path must start with "/" and be at most 512 characters' }])
+  })
+
+  it('refuses oversized batches', () => {
+    const events = Array.from({ length: MAX_EVENTS_PER_REQUEST + 1 }, () => event())
+    expect(() => validatePageViewBatch({ events }, NOW)).toThrow(`At most ${MAX_EVENTS_PER_REQUEST} events per request`)
+  })
+})
@@ -0,0 +1,108 @@
+// Page-view event contract for the track-page-view edge function: field rules and normalisation.
+
+export interface PageViewEvent {
+  event_id: string          // client-generated UUID; retries with the same id are ignored
+  session_id?: string | null
+  page_path: string
+  referrer_path?: string | null
+  viewed_at: string         // ISO timestamp when the page was opened
+  duration_ms?: number | null
+  click_count?: number
+  platform?: string | null
+  app_version?: string | null
+}
+
+export interface PageViewValidation {
+  valid: PageViewEvent[]
+  rejected: { index: number; error: string }[]
+}
+
+export const MAX_EVENTS_PER_REQUEST = 100
+const MAX_PATH_LENGTH = 512
+const MAX_DURATION_MS = 4 * 60 * 60 * 1000   // longer views are an app left open, not engagement
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000
+const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function optionalText(value: unknown, field: string, maxLength = 64): string | null {
+  if (value === null || value === undefined || value === '') return null
+  if (typeof value !== 'string' || value.length > maxLength) {
+    throw new Error(`${field} must be a string of at most ${maxLength} characters`)
+  }
+  return value
+}
+
+/**
+ * Validate and normalise one raw event; throws with a field-level message when invalid
+ */
+export function parsePageViewEvent(raw: unknown, now: Date = new Date()): PageViewEvent {
+  if (!raw || typeof raw !== 'object') throw new Error('event must be an object')
+  const event = raw as Record<string, unknown>
+
+  if (typeof event.event_id !== 'string' || !UUID_PATTERN.test(event.event_id)) {
+    throw new Error('event_id must be a UUID')
+  }
+  if (event.session_id != null && (typeof event.session_id !== 'string' || !UUID_PATTERN.test(event.session_id))) {
+    throw new Error('session_id must be a UUID')
+  }
+
+  if (typeof event.page_path !== 'string' || !event.page_path.startsWith('/') || event.page_path.length > MAX_PATH_LENGTH) {
+    throw new Error(`page_path must start with "/" and be at most ${MAX_PATH_LENGTH} characters`)
+  }
+  // Query strings and fragments would split one page into many rows
+  const pagePath = event.page_path.split(/[?#]/)[0].replace(/(.)\/+$/, '$1')
+
+  const viewedAt = new Date(typeof event.viewed_at === 'string' ? event.viewed_at : NaN)
+  if (isNaN(viewedAt.getTime())) throw new Error('viewed_at must be an ISO timestamp')
+  if (viewedAt.getTime() > now.getTime() + MAX_CLOCK_SKEW_MS) throw new Error('viewed_at is in the future')
+  if (viewedAt.getTime() < now.getTime() - MAX_EVENT_AGE_MS) throw new Error('viewed_at is more than 7 days old')
+
+  let durationMs: number | null = null
+  if (event.duration_ms != null) {
+    if (typeof event.duration_ms !== 'number' || !Number.isFinite(event.duration_ms) || event.duration_ms < 0) {
+      throw new Error('duration_ms must be a non-negative number')
+    }
+    durationMs = Math.min(Math.round(event.duration_ms), MAX_DURATION_MS)
+  }
+
+  const clickCount = event.click_count ?? 0
+  if (typeof clickCount !== 'number' || !Number.isInteger(clickCount) || clickCount < 0) {
+    throw new Error('click_count must be a non-negative integer')
+  }
+
+  return {
+    event_id: event.event_id,
+    session_id: (event.session_id as string | null | undefined) ?? null,
+    page_path: pagePath,
+    referrer_path: optionalText(event.referrer_path, 'referrer_path', MAX_PATH_LENGTH),
+    viewed_at: viewedAt.toISOString(),
+    duration_ms: durationMs,
+    click_count: clickCount,
+    platform: optionalText(event.platform, 'platform'),
+    app_version: optionalText(event.app_version, 'app_version')
+  }
+}
+
+/**
+ * Validate a request body holding one event or { events: [...] }
+ */
+export function validatePageViewBatch(body: unknown, now: Date = new Date()): PageViewValidation {
+  const events = body && typeof body === 'object' && Array.isArray((body as { events?: unknown }).events)
+    ? (body as { events: unknown[] }).events
+    : [body]
+
+  if (events.length > MAX_EVENTS_PER_REQUEST) {
+    throw new Error(`At most ${MAX_EVENTS_PER_REQUEST} events per request`)
+  }
+
+  const result: PageViewValidation = { valid: [], rejected: [] }
+  events.forEach((raw, index) => {
+    try {
+      result.valid.push(parsePageViewEvent(raw, now))
+    } catch (error) {
+      result.rejected.push({ index, error: (error as Error).message })
+    }
+  })
+  return result
+}
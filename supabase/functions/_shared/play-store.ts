@@ -0,0 +1,435 @@
+// Google Play client for the fetch-play-store-data and reply-to-review edge functions. The dashboard
+// reuses its report CSV parsing for the Play Console importer.
+//
+// The Play Developer Reporting API only exposes vitals (crashes, ANRs), so installs and ratings come from the
+// daily report CSVs Play Console writes to its Cloud Storage bucket (stats/installs, stats/ratings), and reviews
+// come from the Android Publisher API, which returns reviews written or edited in the last seven days.
+
+export const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token'
+export const STORAGE_BASE_URL = 'https://storage.googleapis.com/storage/v1'
+export const PUBLISHER_BASE_URL = 'https://androidpublisher.googleapis.com/androidpublisher/v3'
+
+export const PLAY_SCOPES = [
+  'https://www.googleapis.com/auth/androidpublisher',
+  'https://www.googleapis.com/auth/devstorage.read_only'
+]
+
+// Written to download_stats.source so rows from Google are never confused with estimates or manual entries
+export const PLAY_REPORTS_SOURCE = 'google_play_reports'
+
+// Google rejects developer replies longer than this
+export const MAX_REPLY_LENGTH = 350
+
+const REVIEW_WINDOW_DAYS = 7
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface PlayStoreConfig {
+  packageName: string
+  reportsBucket: string     // pubsite_prod_rev_<developer id>, shown under Play Console > Download reports
+  clientEmail: string
+  privateKey: string        // PKCS#8 PEM from the service account JSON
+  privateKeyId?: string
+  tokenUrl?: string
+  storageBaseUrl?: string
+  publisherBaseUrl?: string
+  fetch?: typeof fetch
+}
+
+export interface PlayReview {
+  review_id: string
+  author_name: string | null
+  star_rating: number | null
+  text: string | null
+  language: string | null
+  app_version: string | null
+  device: string | null
+  last_modified: string     // ISO timestamp of the user's latest edit
+  developer_reply: string | null
+  developer_replied_at: string | null
+}
+
+export interface DownloadSnapshot {
+  date: string
+  total_downloads: number
+  daily_downloads: number
+  android_downloads: number
+  rating: number | null
+  daily_reviews: number | null   // null outside the seven days the reviews API covers
+  source: typeof PLAY_REPORTS_SOURCE
+  source_ref: string             // report object the figures were read from
+  fetched_at: string
+}
+
+export interface PlayStoreFetchResult {
+  snapshots: DownloadSnapshot[]
+  reviews: PlayReview[]
+  reports: string[]              // report objects that existed and were read
+}
+
+// status is what the edge function responds with; Google's own failures are reported as 502
+export class PlayStoreError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+  }
+}
+
+export type ReportRow = Record<string, string>
+
+/**
+ * Build the config from environment variables; the private key is usually stored with escaped newlines
+ */
+export function playStoreConfigFromEnv(get: (name: string) => string | undefined): PlayStoreConfig {
+  const required = ['PLAY_PACKAGE_NAME', 'PLAY_REPORTS_BUCKET', 'GOOGLE_CLIENT_EMAIL', 'GOOGLE_PRIVATE_KEY']
+  const missing = required.filter(name => !get(name))
+  if (missing.length > 0) {
+    throw new PlayStoreError(503, `Google Play is not configured; missing ${missing.join(', ')}`)
+  }
+
+  return {
+    packageName: get('PLAY_PACKAGE_NAME')!,
+    reportsBucket: get('PLAY_REPORTS_BUCKET')!,
+    clientEmail: get('GOOGLE_CLIENT_EMAIL')!,
+    privateKey: get('GOOGLE_PRIVATE_KEY')!.replace(/\\n/g, '\n'),
+    privateKeyId: get('GOOGLE_PRIVATE_KEY_ID') || undefined
+  }
+}
+
+function base64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const encodeJson = (value: unknown) => base64Url(new TextEncoder().encode(JSON.stringify(value)))
+
+function pemToDer(pem: string): ArrayBuffer {
+  const body = pem.replace(/-----(BEGIN|END) PRIVATE KEY-----/g, '').replace(/\s+/g, '')
+  if (!body) throw new PlayStoreError(500, 'Service account private key is empty')
+  const binary = atob(body)
+  const der = new ArrayBuffer(binary.length)
+  const view = new Uint8Array(der)
+  for (let i = 0; i < binary.length; i++) view[i] = binary.charCodeAt(i)
+  return der
+}
+
+/**
+ * Signed RS256 assertion for the OAuth 2.0 JWT bearer grant
+ */
+export async function createServiceAccountJwt(
+  config: PlayStoreConfig,
+  now: Date = new Date()
+): Promise<string> {
+  const issuedAt = Math.floor(now.getTime() / 1000)
+  const header = { alg: 'RS256', typ: 'JWT', ...(config.privateKeyId ? { kid: config.privateKeyId } : {}) }
+  const claims = {
+    iss: config.clientEmail,
+    scope: PLAY_SCOPES.join(' '),
+    aud: config.tokenUrl ?? GOOGLE_TOKEN_URL,
+    iat: issuedAt,
+    exp: issuedAt + 3600
+  }
+
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    pemToDer(config.privateKey),
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const unsigned = `${encodeJson(header)}.${encodeJson(claims)}`
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(unsigned))
+  return `${unsigned}.${base64Url(new Uint8Array(signature))}`
+}
+
+async function errorDetail(response: Response): Promise<string> {
+  const body = await response.text()
+  try {
+    const parsed = JSON.parse(body)
+    return parsed.error_description || parsed.error?.message || parsed.error || body
+  } catch {
+    return body.slice(0, 200)
+  }
+}
+
+/**
+ * Exchange the signed assertion for an access token
+ */
+export async function fetchAccessToken(config: PlayStoreConfig, now: Date = new Date()): Promise<string> {
+  const fetchImpl = config.fetch ?? fetch
+  const response = await fetchImpl(config.tokenUrl ?? GOOGLE_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: await createServiceAccountJwt(config, now)
+    }).toString()
+  })
+
+  if (!response.ok) {
+    throw new PlayStoreError(502, `Token exchange failed (${response.status}): ${await errorDetail(response)}`)
+  }
+  const { access_token } = await response.json()
+  if (!access_token) throw new PlayStoreError(502, 'Token exchange returned no access_token')
+  return access_token
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') { current += '"'; i++ }
+      else if (char === '"') quoted = false
+      else current += char
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      cells.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  cells.push(current)
+  return cells.map(cell => cell.trim())
+}
+
+/**
+ * Parse a Play Console report. Reports are UTF-16 with a byte order mark; plain UTF-8 is accepted too.
+ */
+export function parseReportCsv(bytes: Uint8Array): ReportRow[] {
+  let encoding = 'utf-8'
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) encoding = 'utf-16le'
+  else if (bytes[0] === 0xfe && bytes[1] === 0xff) encoding = 'utf-16be'
+
+  const text = new TextDecoder(encoding).decode(bytes)
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '')
+  if (lines.length === 0) return []
+
+  const headers = splitCsvLine(lines[0])
+  return lines.slice(1).map(line => {
+    const cells = splitCsvLine(line)
+    return Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? '']))
+  })
+}
+
+/**
+ * Report months (YYYYMM) touched by the last `days` days, newest first
+ */
+export function reportMonths(now: Date, days: number): string[] {
+  const months: string[] = []
+  for (let time = now.getTime(); time > now.getTime() - days * DAY_MS - DAY_MS; time -= DAY_MS) {
+    const date = new Date(time)
+    const month = `${date.getUTCFullYear()}${String(date.getUTCMonth() + 1).padStart(2, '0')}`
+    if (!months.includes(month)) months.push(month)
+  }
+  return months
+}
+
+export const reportObject = (kind: 'installs' | 'ratings', packageName: string, month: string) =>
+  `stats/${kind}/${kind}_${packageName}_${month}_overview.csv`
+
+export interface ReportFileName {
+  kind: string          // installs, ratings, crashes, ...
+  packageName: string
+  month: string         // YYYYMM
+  dimension: string     // overview, country, device, ...
+}
+
+/**
+ * Split a Play Console report name such as `installs_com.reslocate.new_202409_country.csv`; null for anything else.
+ * Accepts a bucket object path as well as a bare downloaded file name.
+ */
+export function parseReportFileName(name: string): ReportFileName | null {
+  const match = name.split('/').pop()!.match(/^([a-z]+)_([A-Za-z0-9_.]+)_(\d{4})(0[1-9]|1[0-2])_([a-z_]+)\.csv$/)
+  if (!match) return null
+  return { kind: match[1], packageName: match[2], month: match[3] + match[4], dimension: match[5] }
+}
+
+// Null when the report does not exist yet, e.g. early in a month or before the app's first install
+async function fetchReport(config: PlayStoreConfig, token: string, object: string): Promise<ReportRow[] | null> {
+  const fetchImpl = config.fetch ?? fetch
+  const url = `${config.storageBaseUrl ?? STORAGE_BASE_URL}/b/${encodeURIComponent(config.reportsBucket)}` +
+    `/o/${encodeURIComponent(object)}?alt=media`
+  const response = await fetchImpl(url, { headers: { Authorization: `Bearer ${token}` } })
+
+  if (response.status === 404) return null
+  if (!response.ok) {
+    throw new PlayStoreError(502, `Reading ${object} failed (${response.status}): ${await errorDetail(response)}`)
+  }
+  return parseReportCsv(new Uint8Array(await response.arrayBuffer()))
+}
+
+const timestampToIso = (timestamp?: { seconds?: string | number }) =>
+  timestamp?.seconds !== undefined ? new Date(Number(timestamp.seconds) * 1000).toISOString() : null
+
+/**
+ * Every review the Android Publisher API returns, following pagination
+ */
+export async function fetchRecentReviews(config: PlayStoreConfig, token: string): Promise<PlayReview[]> {
+  const fetchImpl = config.fetch ?? fetch
+  const reviews: PlayReview[] = []
+  let pageToken: string | undefined
+
+  do {
+    const params = new URLSearchParams({ maxResults: '100' })
+    if (pageToken) params.set('token', pageToken)
+    const url = `${config.publisherBaseUrl ?? PUBLISHER_BASE_URL}/applications/` +
+      `${encodeURIComponent(config.packageName)}/reviews?${params}`
+    const response = await fetchImpl(url, { headers: { Authorization: `Bearer ${token}` } })
+    if (!response.ok) {
+      throw new PlayStoreError(502, `Listing reviews failed (${response.status}): ${await errorDetail(response)}`)
+    }
+
+    const page = await response.json()
+    for (const review of page.reviews ?? []) {
+      const user = review.comments?.find((comment: any) => comment.userComment)?.userComment
+      const developer = review.comments?.find((comment: any) => comment.developerComment)?.developerComment
+      const lastModified = timestampToIso(user?.lastModified)
+      if (!user || !lastModified) continue
+
+      reviews.push({
+        review_id: review.reviewId,
+        author_name: review.authorName || null,
+        star_rating: typeof user.starRating === 'number' ? user.starRating : null,
+        text: user.text?.trim() || null,
+        language: user.reviewerLanguage || null,
+        app_version: user.appVersionName || null,
+        device: user.device || null,
+        last_modified: lastModified,
+        developer_reply: developer?.text ?? null,
+        developer_replied_at: timestampToIso(developer?.lastModified)
+      })
+    }
+    pageToken = page.tokenPagination?.nextPageToken
+  } while (pageToken)
+
+  return reviews
+}
+
+/**
+ * Post (or replace) the developer reply to a review; returns when Google recorded it
+ */
+export async function replyToReview(
+  config: PlayStoreConfig,
+  token: string,
+  reviewId: string,
+  replyText: string
+): Promise<{ reply: string; replied_at: string }> {
+  const text = replyText.trim()
+  if (!text || text.length > MAX_REPLY_LENGTH) {
+    throw new PlayStoreError(400, `Reply must be between 1 and ${MAX_REPLY_LENGTH} characters`)
+  }
+
+  const fetchImpl = config.fetch ?? fetch
+  const url = `${config.publisherBaseUrl ?? PUBLISHER_BASE_URL}/applications/` +
+    `${encodeURIComponent(config.packageName)}/reviews/${encodeURIComponent(reviewId)}:reply`
+  const response = await fetchImpl(url, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ replyText: text })
+  })
+  if (!response.ok) {
+    throw new PlayStoreError(502, `Replying to review failed (${response.status}): ${await errorDetail(response)}`)
+  }
+
+  const { result } = await response.json()
+  return {
+    reply: result?.replyText ?? text,
+    replied_at: timestampToIso(result?.lastEdited) ?? new Date().toISOString()
+  }
+}
+
+export function toCount(value: string | undefined): number | null {
+  if (value === undefined || value === '') return null
+  const parsed = Number(value.replace(/,/g, ''))
+  return Number.isFinite(parsed) ? Math.round(parsed) : null
+}
+
+export function toRating(value: string | undefined): number | null {
+  const parsed = Number(value)
+  return value && Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed * 100) / 100 : null
+}
+
+/**
+ * One download_stats row per report date in the window. Dates without an installs row are skipped rather than
+ * written as zero; ratings and review counts are attached where Google has them.
+ */
+export function buildDownloadSnapshots(
+  installs: { object: string; rows: ReportRow[] }[],
+  ratings: ReportRow[],
+  reviews: PlayReview[],
+  now: Date,
+  days: number
+): DownloadSnapshot[] {
+  const today = now.toISOString().slice(0, 10)
+  const firstDate = new Date(now.getTime() - days * DAY_MS).toISOString().slice(0, 10)
+  const reviewsFrom = new Date(now.getTime() - REVIEW_WINDOW_DAYS * DAY_MS).toISOString().slice(0, 10)
+
+  const ratingByDate = new Map(ratings.map(row => [row['Date'], toRating(row['Total Average Rating'])]))
+  const reviewsByDate = new Map<string, number>()
+  for (const review of reviews) {
+    const date = review.last_modified.slice(0, 10)
+    reviewsByDate.set(date, (reviewsByDate.get(date) ?? 0) + 1)
+  }
+
+  const snapshots = new Map<string, DownloadSnapshot>()
+  for (const { object, rows } of installs) {
+    for (const row of rows) {
+      const date = row['Date']
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || date < firstDate || date > today) continue
+
+      const total = toCount(row['Total User Installs'])
+      const daily = toCount(row['Daily User Installs']) ?? toCount(row['Daily Device Installs'])
+      if (total === null || daily === null) continue
+
+      snapshots.set(date, {
+        date,
+        total_downloads: total,
+        daily_downloads: daily,
+        android_downloads: total,
+        rating: ratingByDate.get(date) ?? null,
+        daily_reviews: date >= reviewsFrom ? reviewsByDate.get(date) ?? 0 : null,
+        source: PLAY_REPORTS_SOURCE,
+        source_ref: object,
+        fetched_at: now.toISOString()
+      })
+    }
+  }
+
+  return Array.from(snapshots.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Authenticate, read the installs and ratings reports for the last `days` days and the recent reviews
+ */
+export async function fetchPlayStoreData(
+  config: PlayStoreConfig,
+  { days = 30, now = new Date() }: { days?: number; now?: Date } = {}
+): Promise<PlayStoreFetchResult> {
+  const token = await fetchAccessToken(config, now)
+  const installs: { object: string; rows: ReportRow[] }[] = []
+  const ratings: ReportRow[] = []
+  const reports: string[] = []
+
+  for (const month of reportMonths(now, days)) {
+    const installsObject = reportObject('installs', config.packageName, month)
+    const installRows = await fetchReport(config, token, installsObject)
+    if (installRows) {
+      installs.push({ object: installsObject, rows: installRows })
+      reports.push(installsObject)
+    }
+
+    const ratingsObject = reportObject('ratings', config.packageName, month)
+    const ratingRows = await fetchReport(config, token, ratingsObject)
+    if (ratingRows) {
+      ratings.push(...ratingRows)
+      reports.push(ratingsObject)
+    }
+  }
+
+  const reviews = await fetchRecentReviews(config, token)
+  return { snapshots: buildDownloadSnapshots(installs, ratings, reviews, now, days), reviews, reports }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { classifyReview, lexiconScore, reviewTopics } from './review-sentiment.ts'
+
+describe('lexiconScore', () => {
+  it('scores phrases before words and applies negation and intensifiers', () => {
+    expect(lexiconScore("Doesn't work at all")).toBe(-2)
+    expect(lexiconScore('Not helpful')).toBe(-1)
+    expect(lexiconScore('very helpful')).toBe(3)
+    // Negation stops at the end of the sentence
+    expect(lexiconScore('It is not. Great app')).toBe(2)
+    expect(lexiconScore('The app’s design is nice')).toBe(2)
+  })
+})
+
+describe('reviewTopics', () => {
+  it('finds topics by keyword stem and whole-word short keywords', () => {
+    expect(reviewTopics('Keeps crashing when I calculate my APS')).toEqual(['crashes', 'marks_aps'])
+    expect(reviewTopics('Found NSFAS and university deadlines here')).toEqual(['funding', 'applications', 'institutions'])
+    expect(reviewTopics('Best of all the apps, no flag issues')).toEqual([])
+    expect(reviewTopics('So many bugs and lagging')).toEqual(['crashes', 'performance'])
+  })
+})
+
+describe('classifyReview', () => {
+  it('uses the star rating when there is no text', () => {
+    expect(classifyReview(null, 5)).toEqual({ sentiment: 'positive', score: 1, topics: [] })
+    expect(classifyReview('', 3)).toEqual({ sentiment: 'neutral', score: 0, topics: [] })
+    expect(classifyReview(null, 1)).toMatchObject({ sentiment: 'negative', score: -1 })
+  })
+
+  it('lets the text move the stars', () => {
+    expect(classifyReview('Great app, very helpful for finding bursaries', 5)).toMatchObject({
+      sentiment: 'positive',
+      topics: ['funding']
+    })
+    expect(classifyReview("Can't log in. Doesn't work, waste of data", 1)).toMatchObject({
+      sentiment: 'negative',
+      topics: ['login']
+    })
+    expect(classifyReview('Keeps crashing', 5).sentiment).toBe('neutral')
+    expect(classifyReview('Terrible', null)).toMatchObject({ sentiment: 'negative', score: -0.43 })
+  })
+})
@@ -0,0 +1,137 @@
+// Keyword and lexicon classifier for Play Store reviews. fetch-play-store-data labels reviews as it stores them;
+// the Reviews page uses the same labels and topics to filter.
+
+export type Sentiment = 'positive' | 'neutral' | 'negative'
+
+export type ReviewTopic =
+  | 'crashes'
+  | 'login'
+  | 'performance'
+  | 'marks_aps'
+  | 'funding'
+  | 'applications'
+  | 'institutions'
+  | 'usability'
+
+export interface ReviewClassification {
+  sentiment: Sentiment
+  score: number             // -1 (negative) to 1 (positive)
+  topics: ReviewTopic[]
+}
+
+// Matched against the lower-cased text, so stems catch plurals and tenses ("crash" finds "crashes", "crashed")
+export const REVIEW_TOPICS: Record<ReviewTopic, { label: string; keywords: string[] }> = {
+  crashes: { label: 'Crashes & bugs', keywords: ['crash', 'freez', 'bug', 'glitch', 'error', 'not loading', "won't open", 'stuck', 'blank screen'] },
+  login: { label: 'Login & account', keywords: ['login', 'log in', 'sign in', 'sign up', 'password', 'otp', 'verif', 'account', 'register'] },
+  performance: { label: 'Speed & data', keywords: ['slow', 'lag', 'takes long', 'loading', 'data usage', 'battery'] },
+  marks_aps: { label: 'Marks & APS', keywords: ['aps', 'marks', 'results', 'subject', 'calculat', 'points'] },
+  funding: { label: 'Bursaries & funding', keywords: ['bursar', 'nsfas', 'funding', 'scholarship', 'loan'] },
+  applications: { label: 'Applications', keywords: ['apply', 'applied', 'application', 'deadline', 'closing date'] },
+  institutions: { label: 'Universities & courses', keywords: ['universit', 'varsity', 'course', 'programme', 'program', 'tvet', 'college', 'faculty'] },
+  usability: { label: 'Ease of use', keywords: ['easy to use', 'user friendly', 'confus', 'design', 'interface', 'navigat', 'layout'] }
+}
+
+// Phrases are scored before single words so "doesn't work" is not read as "work"
+const PHRASES: Record<string, number> = {
+  "doesn't work": -2, 'does not work': -2, 'not working': -2, "isn't working": -2, 'keeps crashing': -3,
+  'waste of time': -3, 'waste of data': -3, 'uninstall': -2, 'too many ads': -2,
+  'easy to use': 2, 'user friendly': 2, 'life saver': 3, 'highly recommend': 3, 'thank you': 2
+}
+
+const WORDS: Record<string, number> = {
+  love: 3, loved: 3, amazing: 3, excellent: 3, awesome: 3, brilliant: 3, best: 3, fantastic: 3,
+  great: 2, helpful: 2, useful: 2, good: 2, nice: 2, easy: 1, recommend: 2, thanks: 2, informative: 2,
+  accurate: 1, simple: 1, fast: 1, works: 1, perfect: 3, wonderful: 3,
+  bad: -2, poor: -2, terrible: -3, horrible: -3, awful: -3, useless: -3, worst: -3, hate: -3, rubbish: -3,
+  broken: -2, crash: -2, crashes: -2, crashed: -2, bug: -2, bugs: -2, error: -2, errors: -2, slow: -2,
+  annoying: -2, confusing: -2, wrong: -2, inaccurate: -2, fails: -2, failed: -2, stuck: -2, scam: -3,
+  disappointed: -2, disappointing: -2, frustrating: -2, outdated: -1, difficult: -1
+}
+
+const NEGATORS = new Set(['not', 'no', 'never', "don't", "doesn't", "didn't", "isn't", "wasn't", "can't", 'cannot', "won't"])
+const INTENSIFIERS: Record<string, number> = { very: 1.5, really: 1.5, so: 1.3, extremely: 2, super: 1.5, too: 1.3 }
+const NEGATION_WINDOW = 3
+
+// Score at which a review stops being neutral
+const SENTIMENT_THRESHOLD = 0.2
+
+const normalise = (text: string) => text.toLowerCase().replace(/[’‘`]/g, "'").replace(/\s+/g, ' ').trim()
+
+/**
+ * Raw lexicon score of the text; negators flip the next few words and intensifiers scale the next one
+ */
+export function lexiconScore(text: string): number {
+  let remaining = normalise(text)
+  let score = 0
+
+  for (const [phrase, weight] of Object.entries(PHRASES)) {
+    const occurrences = remaining.split(phrase).length - 1
+    if (occurrences > 0) {
+      score += weight * occurrences
+      remaining = remaining.split(phrase).join(' . ')
+    }
+  }
+
+  // Negation and intensifiers never carry over into the next sentence
+  for (const sentence of remaining.split(/[.!?;]+/)) {
+    let negatedFor = 0
+    let boost = 1
+    for (const token of sentence.split(/[^a-z']+/)) {
+      if (!token) continue
+      if (NEGATORS.has(token)) {
+        negatedFor = NEGATION_WINDOW
+        continue
+      }
+      if (INTENSIFIERS[token]) {
+        boost = INTENSIFIERS[token]
+        continue
+      }
+
+      const weight = WORDS[token]
+      if (weight) {
+        score += weight * boost * (negatedFor > 0 ? -0.5 : 1)
+        negatedFor = 0
+      } else if (negatedFor > 0) {
+        negatedFor--
+      }
+      boost = 1
+    }
+  }
+
+  return score
+}
+
+/**
+ * Topics the review mentions, in REVIEW_TOPICS order
+ */
+export function reviewTopics(text: string): ReviewTopic[] {
+  const normalised = normalise(text)
+  return (Object.keys(REVIEW_TOPICS) as ReviewTopic[]).filter(topic =>
+    REVIEW_TOPICS[topic].keywords.some(keyword =>
+      // Short keywords like "aps" and "lag" must start a word, so "apps" and "flag" do not count
+      keyword.length <= 3 ? new RegExp(`\\b${keyword}`).test(normalised) : normalised.includes(keyword)
+    )
+  )
+}
+
+/**
+ * Combine the text's lexicon score with the star rating. Stars carry the sentiment when there is no text,
+ * and the text moves it when there is ("5 stars but keeps crashing" ends up neutral).
+ */
+export function classifyReview(text: string | null, starRating: number | null): ReviewClassification {
+  const body = text?.trim() || ''
+  const stars = starRating !== null && starRating >= 1 && starRating <= 5 ? (starRating - 3) / 2 : null
+  const lexicon = body ? lexiconScore(body) : 0
+  // Squash into (-1, 1); two mild words are about half-way
+  const textScore = lexicon / (Math.abs(lexicon) + 4)
+
+  let score: number
+  if (stars === null) score = textScore
+  else if (!body || lexicon === 0) score = stars
+  else score = 0.4 * stars + 0.6 * textScore
+
+  score = Math.round(score * 100) / 100
+  const sentiment: Sentiment = score >= SENTIMENT_THRESHOLD ? 'positive' : score <= -SENTIMENT_THRESHOLD ? 'negative' : 'neutral'
+
+  return { sentiment, score, topics: body ? reviewTopics(body) : [] }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { AlertRule, SessionRates, alertEmail, describeWindow, evaluateRule } from './session-alerts.ts'
+
+const NOW = new Date('2026-10-19T09:00:00Z')
+
+const rule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  id: 1,
+  metric: 'crash_rate',
+  threshold_pct: 5,
+  window_hours: 168,
+  min_sessions: 20,
+  cooldown_hours: 24,
+  recipients: ['ops@example.com'],
+  enabled: true,
+  ...overrides
+})
+
+const rates = (overrides: Partial<SessionRates> = {}): SessionRates => ({
+  sessions: 130,
+  ended_sessions: 120,
+  crashed: 9,
+  disconnected: 3,
+  crash_rate: 7.5,
+  disconnect_rate: 2.5,
+  ...overrides
+})
+
+describe('evaluateRule', () => {
+  it('fires when the metric reaches the threshold', () => {
+    expect(evaluateRule(rule(), rates(), null, NOW)).toEqual({ state: 'breached', value: 7.5, affected: 9 })
+    expect(evaluateRule(rule({ metric: 'disconnect_rate', threshold_pct: 2.5 }), rates(), null, NOW))
+      .toEqual({ state: 'breached', value: 2.5, affected: 3 })
+    expect(evaluateRule(rule({ threshold_pct: 10 }), rates(), null, NOW)).toEqual({ state: 'ok', value: 7.5 })
+  })
+
+  it('ignores quiet windows and stays silent during the cooldown', () => {
+    expect(evaluateRule(rule(), rates({ ended_sessions: 4, crash_rate: 50 }), null, NOW))
+      .toEqual({ state: 'too_few_sessions', value: 50 })
+    expect(evaluateRule(rule(), rates(), '2026-10-18T12:00:00Z', NOW))
+      .toEqual({ state: 'cooling_down', value: 7.5, last_alert_at: '2026-10-18T12:00:00Z' })
+    expect(evaluateRule(rule(), rates(), '2026-10-18T08:59:00Z', NOW).state).toBe('breached')
+  })
+})
+
+describe('alertEmail', () => {
+  it('states the figures and links to the acknowledgement page', () => {
+    const { subject, html } = alertEmail(rule(), { value: 7.5, affected: 9 }, rates(), 'https://dash.example.com/')
+
+    expect(subject).toBe('Reslocate alert: crash rate 7.5% over the last 7 days')
+    expect(html).toContain('9 of 120 ended sessions in the last 7 days were crashed')
+    expect(html).toContain('href="https://dash.example.com/session-health"')
+    expect(alertEmail(rule(), { value: 7.5, affected: 9 }, rates(), null).html).not.toContain('<a ')
+  })
+
+  it('describes windows in days when they divide evenly', () => {
+    expect(describeWindow(24)).toBe('the last day')
+    expect(describeWindow(6)).toBe('the last 6 hours')
+    expect(describeWindow(1)).toBe('the last hour')
+  })
+})
@@ -0,0 +1,90 @@
+// Session health alert rules for the evaluate-session-alerts edge function and the Session Health page's rule editor.
+
+export type AlertMetric = 'crash_rate' | 'disconnect_rate'
+
+export const ALERT_METRICS: Record<AlertMetric, { label: string; status: string }> = {
+  crash_rate: { label: 'Crash rate', status: 'crashed' },
+  disconnect_rate: { label: 'Disconnect rate', status: 'disconnected' }
+}
+
+export interface AlertRule {
+  id: number
+  metric: AlertMetric
+  threshold_pct: number
+  window_hours: number      // rolling window the rate is measured over, e.g. 168 for the last seven days
+  min_sessions: number      // quieter windows are not judged; a handful of sessions makes rates meaningless
+  cooldown_hours: number    // no repeat alert for the rule within this long of its last one
+  recipients: string[]
+  enabled: boolean
+}
+
+// Output of get_session_health_rates for one window
+export interface SessionRates {
+  sessions: number
+  ended_sessions: number
+  crashed: number
+  disconnected: number
+  crash_rate: number | null
+  disconnect_rate: number | null
+}
+
+export type RuleOutcome =
+  | { state: 'breached'; value: number; affected: number }
+  | { state: 'ok'; value: number | null }
+  | { state: 'too_few_sessions'; value: number | null }
+  | { state: 'cooling_down'; value: number; last_alert_at: string }
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * Judge one rule against the rates for its window; lastAlertAt is the rule's most recent alert, if any
+ */
+export function evaluateRule(rule: AlertRule, rates: SessionRates, lastAlertAt: string | null, now: Date): RuleOutcome {
+  const value = rates[rule.metric]
+  if (rates.ended_sessions < rule.min_sessions) return { state: 'too_few_sessions', value }
+  if (value === null || value < rule.threshold_pct) return { state: 'ok', value }
+
+  if (lastAlertAt && now.getTime() - new Date(lastAlertAt).getTime() < rule.cooldown_hours * HOUR_MS) {
+    return { state: 'cooling_down', value, last_alert_at: lastAlertAt }
+  }
+  const affected = rule.metric === 'crash_rate' ? rates.crashed : rates.disconnected
+  return { state: 'breached', value, affected }
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// "the last 7 days" / "the last 6 hours"
+export function describeWindow(hours: number): string {
+  if (hours % 24 === 0) return hours === 24 ? 'the last day' : `the last ${hours / 24} days`
+  return hours === 1 ? 'the last hour' : `the last ${hours} hours`
+}
+
+/**
+ * Subject and HTML body for the send-email function
+ */
+export function alertEmail(
+  rule: AlertRule,
+  outcome: { value: number; affected: number },
+  rates: SessionRates,
+  dashboardUrl: string | null
+): { subject: string; html: string } {
+  const { label, status } = ALERT_METRICS[rule.metric]
+  const window = describeWindow(rule.window_hours)
+  const subject = `Reslocate alert: ${label.toLowerCase()} ${outcome.value}% over ${window}`
+  const link = dashboardUrl
+    ? `<p><a href="${escapeHtml(`${dashboardUrl.replace(/\/+$/, '')}/session-health`)}">Open Session Health to acknowledge</a></p>`
+    : ''
+
+  const html = [
+    `<h2>${escapeHtml(label)} is above ${rule.threshold_pct}%</h2>`,
+    `<p>${outcome.affected} of ${rates.ended_sessions} ended sessions in ${window} were ${status} ` +
+      `(<strong>${outcome.value}%</strong>; threshold ${rule.threshold_pct}%).</p>`,
+    `<p>Sessions started in the window: ${rates.sessions}. ` +
+      `Crash rate ${rates.crash_rate ?? 'n/a'}%, disconnect rate ${rates.disconnect_rate ?? 'n/a'}%.</p>`,
+    link,
+    `<p style="color:#6b7280;font-size:12px">No further alerts for this rule for ${rule.cooldown_hours} hours.</p>`
+  ].join('\n')
+
+  return { subject, html }
+}
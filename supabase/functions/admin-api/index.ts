@@ -0,0 +1,345 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import type {
+  AdminAction,
+  AdminApiRequest,
+  AdminApiRequests,
+  AdminApiResponses,
+  AdminAuthUser,
+} from "../_shared/admin-api-types.ts";
+import { bulkCreateUsers } from "../_shared/admin-bulk.ts";
+import { DashboardAuthError, dashboardRoleGuard } from "../_shared/dashboard-auth.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+class AdminApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// The service-role key only ever lives here, inside the edge runtime
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const adminClient = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+}
+
+function generatePassword(length = 12): string {
+  const charset = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$';
+  const cryptoArray = new Uint8Array(length);
+  crypto.getRandomValues(cryptoArray);
+  let password = '';
+  for (let i = 0; i < length; i++) {
+    password += charset.charAt(cryptoArray[i] % charset.length);
+  }
+  return password;
+}
+
+function toAuthUser(user: User): AdminAuthUser {
+  return { id: user.id, email: user.email ?? '', created_at: user.created_at };
+}
+
+function isAlreadyExistsError(message?: string) {
+  return !!message && (message.includes('already registered') || message.includes('already exists'));
+}
+
+// Resolve the calling user from their JWT and require the admin dashboard role
+const requireDashboardRole = dashboardRoleGuard<User>({
+  serviceRoleKey,
+  userClient: (authorization) => createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  }),
+  serviceClient: adminClient,
+});
+
+// Emails the action touched, recorded in the audit log (never passwords)
+function auditTargets(request: AdminApiRequest): string[] {
+  switch (request.action) {
+    case 'createAuthUserFromAddedEmail':
+      return [(request.payload as AdminApiRequests['createAuthUserFromAddedEmail']).emailEntry?.email];
+    case 'bulkCreateAuthUsers':
+      return (request.payload as AdminApiRequests['bulkCreateAuthUsers']).emailEntries?.map(e => e.email) ?? [];
+    case 'getAuthUserStatus':
+      return (request.payload as AdminApiRequests['getAuthUserStatus']).emails ?? [];
+    default:
+      return [(request.payload as { email?: string }).email ?? ''];
+  }
+}
+
+async function writeAuditLog(
+  actor: User | null,
+  request: AdminApiRequest | null,
+  success: boolean,
+  error?: string
+) {
+  const { error: auditError } = await adminClient.from('admin_audit_log').insert({
+    actor_id: actor?.id ?? null,
+    actor_email: actor?.email ?? null,
+    action: request?.action ?? 'unknown',
+    targets: request ? auditTargets(request).filter(Boolean) : [],
+    success,
+    error: error ?? null,
+  });
+  if (auditError) {
+    console.error('Failed to write audit log:', auditError);
+  }
+}
+
+async function createUserWithEmail(
+  { email, password, profileData }: AdminApiRequests['createUserWithEmail']
+): Promise<AdminApiResponses['createUserWithEmail']> {
+  if (!email || !EMAIL_REGEX.test(email)) {
+    throw new AdminApiError(400, 'Invalid email format');
+  }
+  if (!password || password.length < 6) {
+    throw new AdminApiError(400, 'Password must be at least 6 characters');
+  }
+
+  const { data: authData, error: authError } = await adminClient.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true,
+    user_metadata: { created_by_admin: true },
+  });
+
+  if (authError) {
+    if (isAlreadyExistsError(authError.message)) {
+      throw new AdminApiError(409, 'User with this email already exists');
+    }
+    throw new AdminApiError(500, `Failed to create user: ${authError.message}`);
+  }
+  if (!authData.user) {
+    throw new AdminApiError(500, 'Failed to create user - no user data returned');
+  }
+
+  const { error: profileError } = await adminClient
+    .from('profiles')
+    .upsert({
+      id: authData.user.id,
+      email: email.toLowerCase(),
+      role: profileData?.role || 'Learner',
+      first_name: profileData?.first_name || '',
+      last_name: profileData?.last_name || '',
+      phone_number: profileData?.phone_number || '',
+      school: profileData?.school || '',
+      grade: profileData?.grade || '',
+      date_of_birth: profileData?.date_of_birth || null,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'id' });
+
+  if (profileError) {
+    // The auth user exists either way, so a profile failure is not fatal
+    console.warn('Profile creation warning:', profileError);
+  }
+
+  return { user: toAuthUser(authData.user) };
+}
+
+async function createAuthUserFromAddedEmail(
+  { emailEntry, password }: AdminApiRequests['createAuthUserFromAddedEmail']
+): Promise<AdminApiResponses['createAuthUserFromAddedEmail']> {
+  try {
+    const { user } = await createUserWithEmail({
+      email: emailEntry.email,
+      password: password || generatePassword(12),
+      profileData: {
+        first_name: emailEntry.first_name || '',
+        last_name: emailEntry.last_name || '',
+        role: 'Learner',
+      },
+    });
+    return { user, alreadyExists: false };
+  } catch (error) {
+    if (error instanceof AdminApiError && error.status === 409) {
+      return { alreadyExists: true };
+    }
+    throw error;
+  }
+}
+
+async function bulkCreateAuthUsers(
+  { emailEntries }: AdminApiRequests['bulkCreateAuthUsers']
+): Promise<AdminApiResponses['bulkCreateAuthUsers']> {
+  return bulkCreateUsers(emailEntries ?? [], (entry) => createAuthUserFromAddedEmail({ emailEntry: entry }));
+}
+
+async function createOrUpdateMagicLinkUser(
+  { email }: AdminApiRequests['createOrUpdateMagicLinkUser']
+): Promise<AdminApiResponses['createOrUpdateMagicLinkUser']> {
+  if (!email || !EMAIL_REGEX.test(email)) {
+    throw new AdminApiError(400, 'Invalid email format');
+  }
+
+  const { data: existingUser, error: fetchError } = await adminClient
+    .from('magic_link_users')
+    .select('*')
+    .eq('email', email.toLowerCase())
+    .maybeSingle();
+
+  if (fetchError && fetchError.code !== 'PGRST116') {
+    throw new AdminApiError(500, fetchError.message);
+  }
+
+  const now = new Date().toISOString();
+  const { data: user, error } = existingUser
+    ? await adminClient
+        .from('magic_link_users')
+        .update({ magic_token: crypto.randomUUID(), is_active: true, activated_at: now, updated_at: now })
+        .eq('id', existingUser.id)
+        .select()
+        .single()
+    : await adminClient
+        .from('magic_link_users')
+        .insert({ email: email.toLowerCase(), is_active: true, magic_token: crypto.randomUUID(), activated_at: now })
+        .select()
+        .single();
+
+  if (error) {
+    throw new AdminApiError(500, error.message);
+  }
+
+  return { user };
+}
+
+async function getAuthUserStatus(
+  { emails }: AdminApiRequests['getAuthUserStatus']
+): Promise<AdminApiResponses['getAuthUserStatus']> {
+  const wanted = new Set((emails ?? []).map(email => email.toLowerCase()));
+  const found = new Set<string>();
+
+  // auth.users is not exposed through PostgREST, so page through the admin API
+  const perPage = 1000;
+  for (let page = 1; found.size < wanted.size; page++) {
+    const { data, error } = await adminClient.auth.admin.listUsers({ page, perPage });
+    if (error) {
+      throw new AdminApiError(500, error.message);
+    }
+    for (const user of data.users) {
+      const email = user.email?.toLowerCase();
+      if (email && wanted.has(email)) found.add(email);
+    }
+    if (data.users.length < perPage) break;
+  }
+
+  const status: { [email: string]: boolean } = {};
+  for (const email of emails ?? []) {
+    status[email] = found.has(email.toLowerCase());
+  }
+  return { status };
+}
+
+async function createProfileUser(
+  { email, password, profileData }: AdminApiRequests['createProfileUser']
+): Promise<AdminApiResponses['createProfileUser']> {
+  if (!email || !EMAIL_REGEX.test(email)) {
+    throw new AdminApiError(400, 'Invalid email format');
+  }
+  if (!password || password.length < 6) {
+    throw new AdminApiError(400, 'Password must be at least 6 characters');
+  }
+
+  const { data: authData, error: authError } = await adminClient.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true,
+    user_metadata: {
+      created_by_admin: true,
+      first_name: profileData?.first_name,
+      last_name: profileData?.last_name,
+    },
+  });
+
+  if (authError) {
+    if (authError.message?.includes('already') || authError.message?.includes('exists')) {
+      throw new AdminApiError(409, 'User with this email already exists in authentication system');
+    }
+    throw new AdminApiError(500, `Authentication creation failed: ${authError.message}`);
+  }
+  if (!authData.user) {
+    throw new AdminApiError(500, 'No user data returned from authentication creation');
+  }
+
+  const { data: profile, error: profileError } = await adminClient
+    .from('profiles')
+    .insert({
+      id: authData.user.id,
+      email: email.toLowerCase(),
+      role: profileData?.role || 'Learner',
+      first_name: profileData?.first_name || null,
+      last_name: profileData?.last_name || null,
+      phone_number: profileData?.phone_number || null,
+      school: profileData?.school || null,
+      grade: profileData?.grade || null,
+      date_of_birth: profileData?.date_of_birth || null,
+      is_verified: true,
+      status: 'active',
+    })
+    .select()
+    .single();
+
+  if (profileError) {
+    // Roll back the auth user so the email can be retried cleanly
+    const { error: cleanupError } = await adminClient.auth.admin.deleteUser(authData.user.id);
+    if (cleanupError) {
+      console.error('Failed to cleanup auth user:', cleanupError);
+    }
+    const hint = profileError.hint ? ` (Hint: ${profileError.hint})` : '';
+    throw new AdminApiError(500, `Profile creation failed: ${profileError.message}${hint}`);
+  }
+
+  return { user: toAuthUser(authData.user), profile };
+}
+
+const handlers: { [A in AdminAction]: (payload: AdminApiRequests[A]) => Promise<AdminApiResponses[A]> } = {
+  createUserWithEmail,
+  createAuthUserFromAddedEmail,
+  bulkCreateAuthUsers,
+  createOrUpdateMagicLinkUser,
+  getAuthUserStatus,
+  createProfileUser,
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let actor: User | null = null;
+  let request: AdminApiRequest | null = null;
+
+  try {
+    request = await req.json().catch(() => null);
+    actor = await requireDashboardRole(req, ['admin']);
+
+    if (!request || !(request.action in handlers)) {
+      throw new AdminApiError(400, `Unknown action: ${request?.action}`);
+    }
+
+    console.log(`admin-api ${request.action} requested by ${actor.email}`);
+    const handler = handlers[request.action] as (payload: unknown) => Promise<unknown>;
+    const data = await handler(request.payload ?? {});
+
+    await writeAuditLog(actor, request, true);
+    return jsonResponse({ success: true, data });
+  } catch (error) {
+    const status = error instanceof AdminApiError || error instanceof DashboardAuthError ? error.status : 500;
+    console.error('Error in admin-api edge function:', error);
+    await writeAuditLog(actor, request, false, error.message);
+    return jsonResponse({ success: false, error: error.message }, status);
+  }
+});
@@ -0,0 +1,124 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  APS_SCHEMES,
+  USER_MARKS_APS_COLUMNS,
+  calculateAps,
+  subjectsFromUserMarks,
+  toApsAuditRows,
+} from "../_shared/aps.ts";
+import type { ApsSchemeId, ApsSubject } from "../_shared/aps.ts";
+import { DashboardAuthError, dashboardRoleGuard } from "../_shared/dashboard-auth.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const PAGE_SIZE = 1000;
+const UPSERT_CHUNK_SIZE = 500;
+
+class ApsCalculatorError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const serviceClient = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+}
+
+// Any signed-in dashboard user can calculate; auditing every stored aps_mark needs an analyst
+const requireDashboardRole = dashboardRoleGuard<User>({
+  serviceRoleKey,
+  userClient: (authorization) => createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  }),
+  serviceClient,
+});
+
+// Recompute each learner's latest user_marks row and record the comparison in aps_mark_audit
+async function auditAllUserMarks() {
+  const rows: Record<string, unknown>[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await serviceClient
+      .from('user_marks')
+      .select(USER_MARKS_APS_COLUMNS.join(', '))
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new ApsCalculatorError(500, `Failed to read user_marks: ${error.message}`);
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const checkedAt = new Date().toISOString();
+  // One row per learner, so no chunk upserts the same learner_id twice
+  const audits = toApsAuditRows(rows, checkedAt);
+
+  for (let i = 0; i < audits.length; i += UPSERT_CHUNK_SIZE) {
+    const { error } = await serviceClient
+      .from('aps_mark_audit')
+      .upsert(audits.slice(i, i + UPSERT_CHUNK_SIZE), { onConflict: 'learner_id' });
+
+    if (error) throw new ApsCalculatorError(500, `Failed to save audit: ${error.message}`);
+  }
+
+  const counts = audits.reduce<Record<string, number>>((acc, audit) => {
+    acc[audit.status] = (acc[audit.status] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  return {
+    checked: audits.length,
+    counts,
+    mismatches: audits.filter(audit => audit.status === 'mismatch'),
+    checked_at: checkedAt,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => null);
+    await requireDashboardRole(req, body?.action === 'audit' ? ['admin', 'analyst'] : ['admin', 'analyst', 'viewer']);
+
+    switch (body?.action) {
+      case 'calculate': {
+        const scheme: ApsSchemeId = body.scheme ?? 'standard';
+        if (!(scheme in APS_SCHEMES)) {
+          throw new ApsCalculatorError(400, `Unknown APS scheme: ${scheme}`);
+        }
+        const subjects: ApsSubject[] = Array.isArray(body.subjects)
+          ? body.subjects
+          : subjectsFromUserMarks(body.marks ?? {});
+        return jsonResponse({ success: true, data: calculateAps(subjects, scheme) });
+      }
+
+      case 'audit': {
+        console.log('Auditing stored aps_mark values against recomputed APS');
+        return jsonResponse({ success: true, data: await auditAllUserMarks() });
+      }
+
+      default:
+        throw new ApsCalculatorError(400, `Unknown action: ${body?.action}`);
+    }
+  } catch (error) {
+    const status = error instanceof ApsCalculatorError || error instanceof DashboardAuthError ? error.status : 500;
+    console.error('Error in aps-calculator edge function:', error);
+    return jsonResponse({ success: false, error: error.message }, status);
+  }
+});
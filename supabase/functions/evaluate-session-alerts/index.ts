@@ -0,0 +1,153 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  AlertRule,
+  SessionRates,
+  alertEmail,
+  evaluateRule,
+} from "../_shared/session-alerts.ts";
+import { DashboardAuthError, dashboardRoleGuard } from "../_shared/dashboard-auth.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const serviceClient = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+// Linked from the alert email so recipients can acknowledge; optional
+const dashboardUrl = Deno.env.get('DASHBOARD_URL') ?? null;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+}
+
+// The hourly schedule calls with the service-role key; analysts and admins can run it from the dashboard
+const requireDashboardRole = dashboardRoleGuard<User>({
+  serviceRoleKey,
+  userClient: (authorization) => createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  }),
+  serviceClient,
+});
+
+async function fetchRates(start: Date, end: Date): Promise<SessionRates> {
+  const { data, error } = await serviceClient.rpc('get_session_health_rates', {
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+  });
+  if (error) throw error;
+
+  // bigint and numeric columns arrive as strings
+  const row = data?.[0] ?? {};
+  const toRate = (value: unknown) => (value != null ? Number(value) : null);
+  return {
+    sessions: Number(row.sessions ?? 0),
+    ended_sessions: Number(row.ended_sessions ?? 0),
+    crashed: Number(row.crashed ?? 0),
+    disconnected: Number(row.disconnected ?? 0),
+    crash_rate: toRate(row.crash_rate),
+    disconnect_rate: toRate(row.disconnect_rate),
+  };
+}
+
+// Emails each recipient through send-email; returns who was sent it and the first failure, if any
+async function notify(recipients: string[], subject: string, html: string) {
+  const sent: string[] = [];
+  let failure: string | null = recipients.length === 0 ? 'Rule has no recipients' : null;
+
+  for (const to of recipients) {
+    const { data, error } = await serviceClient.functions.invoke('send-email', { body: { to, subject, html } });
+    if (error || !data?.success) {
+      failure ??= `${to}: ${error?.message ?? data?.error ?? 'send-email failed'}`;
+    } else if (data.simulated) {
+      // send-email answers success without sending anything when RESEND_API_KEY is not set
+      failure ??= `${to}: email sending disabled`;
+    } else {
+      sent.push(to);
+    }
+  }
+  return { sent, failure };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    await requireDashboardRole(req, ['admin', 'analyst'], { allowServiceRole: true });
+    const now = new Date();
+
+    const { data: rules, error: rulesError } = await serviceClient
+      .from('session_alert_rules')
+      .select('*')
+      .eq('enabled', true)
+      .order('id');
+
+    if (rulesError) throw rulesError;
+
+    const results = [];
+    let triggered = 0;
+
+    for (const raw of rules ?? []) {
+      const rule: AlertRule = { ...raw, threshold_pct: Number(raw.threshold_pct) };
+      const windowStart = new Date(now.getTime() - rule.window_hours * HOUR_MS);
+      const rates = await fetchRates(windowStart, now);
+
+      const { data: lastAlert, error: lastError } = await serviceClient
+        .from('session_alerts')
+        .select('triggered_at')
+        .eq('rule_id', rule.id)
+        .order('triggered_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (lastError) throw lastError;
+
+      const outcome = evaluateRule(rule, rates, lastAlert?.triggered_at ?? null, now);
+      results.push({ rule_id: rule.id, metric: rule.metric, ...outcome });
+      if (outcome.state !== 'breached') continue;
+
+      const { subject, html } = alertEmail(rule, outcome, rates, dashboardUrl);
+      const { sent, failure } = await notify(rule.recipients, subject, html);
+
+      const { error: insertError } = await serviceClient.from('session_alerts').insert({
+        rule_id: rule.id,
+        metric: rule.metric,
+        value_pct: outcome.value,
+        threshold_pct: rule.threshold_pct,
+        ended_sessions: rates.ended_sessions,
+        affected_sessions: outcome.affected,
+        window_start: windowStart.toISOString(),
+        window_end: now.toISOString(),
+        triggered_at: now.toISOString(),
+        notified_recipients: sent,
+        notification_error: failure,
+      });
+
+      if (insertError) throw insertError;
+      triggered++;
+    }
+
+    console.log(`evaluate-session-alerts: ${results.length} rules evaluated, ${triggered} alerts raised`);
+    return jsonResponse({ success: true, evaluated: results.length, triggered, results });
+  } catch (error) {
+    console.error('Error in evaluate-session-alerts edge function:', error);
+    const status = error instanceof DashboardAuthError ? error.status : 500;
+    return jsonResponse({ success: false, error: error.message }, status);
+  }
+});
@@ -0,0 +1,96 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  PlayStoreError,
+  fetchAccessToken,
+  playStoreConfigFromEnv,
+  replyToReview,
+} from "../_shared/play-store.ts";
+import { DashboardAuthError, dashboardRoleGuard } from "../_shared/dashboard-auth.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const serviceClient = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+}
+
+// Replies are public on the Play Store, so only analysts and admins may post them
+const requireDashboardRole = dashboardRoleGuard<User>({
+  serviceRoleKey,
+  userClient: (authorization) => createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  }),
+  serviceClient,
+});
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const user = await requireDashboardRole(req, ['admin', 'analyst']);
+
+    const body = await req.json().catch(() => null);
+    if (typeof body?.review_id !== 'string' || typeof body?.reply_text !== 'string') {
+      return jsonResponse({ success: false, error: 'review_id and reply_text are required' }, 400);
+    }
+
+    const { data: review, error: reviewError } = await serviceClient
+      .from('app_reviews')
+      .select('review_id')
+      .eq('review_id', body.review_id)
+      .maybeSingle();
+
+    if (reviewError) throw reviewError;
+    if (!review) {
+      return jsonResponse({ success: false, error: 'Review not found' }, 404);
+    }
+
+    const config = playStoreConfigFromEnv(name => Deno.env.get(name));
+    const token = await fetchAccessToken(config);
+    const { reply, replied_at } = await replyToReview(config, token, body.review_id, body.reply_text);
+
+    const { error: updateError } = await serviceClient
+      .from('app_reviews')
+      .update({
+        developer_reply: reply,
+        developer_replied_at: replied_at,
+        replied_by: user.id,
+        reply_draft: null,
+      })
+      .eq('review_id', body.review_id);
+
+    // Google already has the reply; the next sync would record it even if this update fails
+    if (updateError) {
+      console.error('Failed to record reply:', updateError);
+    }
+
+    console.log(`reply-to-review: ${user.email} replied to ${body.review_id}`);
+    return jsonResponse({
+      success: true,
+      data: { review_id: body.review_id, developer_reply: reply, developer_replied_at: replied_at },
+    });
+  } catch (error) {
+    console.error('Error in reply-to-review edge function:', error);
+    const status = error instanceof PlayStoreError || error instanceof DashboardAuthError ? error.status : 500;
+    return jsonResponse({ success: false, error: error.message }, status);
+  }
+});
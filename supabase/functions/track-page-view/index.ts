@@ -0,0 +1,79 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { validatePageViewBatch } from "../_shared/page-views.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+const serviceClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+  auth: { persistSession: false },
+});
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+}
+
+// The Reslocate app posts with the signed-in user's JWT; anonymous views are kept without a user_id
+async function resolveUserId(req: Request): Promise<string | null> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return null;
+
+  const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+  const { data: { user } } = await userClient.auth.getUser();
+  return user?.id ?? null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body) {
+      return jsonResponse({ success: false, error: 'Request body must be JSON' }, 400);
+    }
+
+    let validation;
+    try {
+      validation = validatePageViewBatch(body);
+    } catch (error) {
+      return jsonResponse({ success: false, error: error.message }, 413);
+    }
+
+    const userId = await resolveUserId(req);
+
+    if (validation.valid.length > 0) {
+      const { error } = await serviceClient
+        .from('page_views')
+        .upsert(
+          validation.valid.map(event => ({ ...event, user_id: userId })),
+          { onConflict: 'event_id', ignoreDuplicates: true }
+        );
+
+      if (error) throw error;
+    }
+
+    console.log(`track-page-view: accepted ${validation.valid.length}, rejected ${validation.rejected.length}`);
+    return jsonResponse(
+      { success: validation.rejected.length === 0, accepted: validation.valid.length, rejected: validation.rejected },
+      validation.valid.length === 0 ? 400 : 200
+    );
+  } catch (error) {
+    console.error('Error in track-page-view edge function:', error);
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+});
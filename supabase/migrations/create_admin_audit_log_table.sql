@@ -0,0 +1,77 @@
+-- Create admin_audit_log table recording every call to the admin-api edge function
+CREATE TABLE IF NOT EXISTS public.admin_audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    actor_id UUID,
+    actor_email TEXT,
+    action TEXT NOT NULL,
+    targets TEXT[] NOT NULL DEFAULT '{}',
+    success BOOLEAN NOT NULL,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON public.admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor_id ON public.admin_audit_log(actor_id);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_action ON public.admin_audit_log(action);
+
+-- Only the edge function (service role) writes; dashboard admins can read
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view audit log" ON public.admin_audit_log
+    FOR SELECT USING (public.is_dashboard_admin());
+
+-- The browser now uses the anon key only, so admin reads/updates go through RLS
+CREATE POLICY "Dashboard admins can view all profiles" ON public.profiles
+    FOR SELECT USING (public.is_dashboard_admin());
+
+CREATE POLICY "Dashboard admins can update all profiles" ON public.profiles
+    FOR UPDATE USING (public.is_dashboard_admin());
+
+ALTER TABLE public.magic_link_users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Dashboard admins can view magic link users" ON public.magic_link_users
+    FOR SELECT USING (public.is_dashboard_admin());
+
+-- The learner app signs in with the anon key, so it looks its token up here rather than reading the table
+CREATE OR REPLACE FUNCTION public.get_magic_link_user_by_token(p_token text)
+RETURNS SETOF public.magic_link_users
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.magic_link_users m
+  WHERE m.magic_token::text = p_token
+    AND m.is_active
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_magic_link_user_by_token(text) TO anon, authenticated;
+
+-- Who has a magic link, for admins and analysts; tokens are left out and only handed out by admin-api
+CREATE OR REPLACE FUNCTION public.get_magic_link_users(p_email text DEFAULT NULL)
+RETURNS SETOF jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT to_jsonb(m) - 'magic_token'
+  FROM public.magic_link_users m
+  WHERE public.get_my_dashboard_role() IN ('admin', 'analyst')
+    AND (p_email IS NULL OR m.email = LOWER(TRIM(p_email)))
+  ORDER BY m.created_at DESC;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_magic_link_users(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_magic_link_users(text) TO authenticated;
+
+COMMENT ON TABLE public.admin_audit_log IS 'Audit trail of privileged user-management actions performed via the admin-api edge function';
+COMMENT ON COLUMN public.admin_audit_log.actor_id IS 'auth.users id of the caller (NULL when unauthenticated)';
+COMMENT ON COLUMN public.admin_audit_log.action IS 'admin-api action name, e.g. createUserWithEmail';
+COMMENT ON COLUMN public.admin_audit_log.targets IS 'Email addresses the action applied to';
+COMMENT ON COLUMN public.admin_audit_log.success IS 'Whether the action completed';
+COMMENT ON COLUMN public.admin_audit_log.error IS 'Error message when the action failed or was refused';
+COMMENT ON FUNCTION public.get_magic_link_user_by_token(text) IS 'The active magic link user holding a token, for the learner app';
+COMMENT ON FUNCTION public.get_magic_link_users(text) IS 'Magic link users without their tokens, optionally for one email; admins and analysts only';
@@ -0,0 +1,47 @@
+-- Play Store reviews ingested by fetch-play-store-data, tagged by the classifier in _shared/review-sentiment.ts.
+-- Google only lists reviews from the last seven days, so rows accumulate across runs and are never deleted.
+-- Replies are posted to Google by the reply-to-review edge function; drafts are saved here by analysts.
+
+CREATE TABLE IF NOT EXISTS public.app_reviews (
+    review_id TEXT PRIMARY KEY,
+    author_name TEXT,
+    star_rating SMALLINT CHECK (star_rating BETWEEN 1 AND 5),
+    text TEXT,
+    language TEXT,
+    app_version TEXT,
+    device TEXT,
+    last_modified TIMESTAMPTZ NOT NULL,
+    developer_reply TEXT,
+    developer_replied_at TIMESTAMPTZ,
+    replied_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reply_draft TEXT,
+    sentiment TEXT NOT NULL CHECK (sentiment IN ('positive', 'neutral', 'negative')),
+    sentiment_score NUMERIC(3,2) NOT NULL,
+    topics TEXT[] NOT NULL DEFAULT '{}',
+    fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_app_reviews_last_modified ON public.app_reviews(last_modified DESC);
+CREATE INDEX IF NOT EXISTS idx_app_reviews_sentiment ON public.app_reviews(sentiment);
+
+ALTER TABLE public.app_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Any signed-in dashboard user can read reviews
+CREATE POLICY "Authenticated users can view app reviews" ON public.app_reviews
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Analysts and admins can save reply drafts; ingestion and sent replies go through the service role
+CREATE POLICY "Analysts can update app reviews" ON public.app_reviews
+    FOR UPDATE USING (public.get_my_dashboard_role() IN ('admin', 'analyst'))
+    WITH CHECK (public.get_my_dashboard_role() IN ('admin', 'analyst'));
+
+-- The policy decides who; the column grant limits dashboard users to the draft, so sent replies cannot be forged
+REVOKE UPDATE ON public.app_reviews FROM anon, authenticated;
+GRANT UPDATE (reply_draft) ON public.app_reviews TO authenticated;
+
+COMMENT ON TABLE public.app_reviews IS 'Google Play reviews with classifier tags and the developer reply workflow';
+COMMENT ON COLUMN public.app_reviews.last_modified IS 'When the reviewer last wrote or edited the review';
+COMMENT ON COLUMN public.app_reviews.sentiment_score IS 'Classifier score from -1 (negative) to 1 (positive), stars and text combined';
+COMMENT ON COLUMN public.app_reviews.topics IS 'Topic keys from REVIEW_TOPICS in _shared/review-sentiment.ts';
+COMMENT ON COLUMN public.app_reviews.reply_draft IS 'Unsent reply; cleared once reply-to-review posts it to Google';
@@ -0,0 +1,28 @@
+-- Result of recomputing each learner's APS from their latest subject marks (aps-calculator edge function)
+CREATE TABLE IF NOT EXISTS public.aps_mark_audit (
+    learner_id UUID PRIMARY KEY,
+    user_id UUID NOT NULL,
+    stored_aps INTEGER,
+    computed_aps INTEGER NOT NULL,
+    difference INTEGER,
+    status TEXT NOT NULL CHECK (status IN ('match', 'mismatch', 'missing_stored', 'insufficient_subjects')),
+    wits_aps INTEGER,
+    uct_fps INTEGER,
+    checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_aps_mark_audit_status ON public.aps_mark_audit(status);
+
+-- Written by the edge function (service role); dashboard users can read
+ALTER TABLE public.aps_mark_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view APS audit" ON public.aps_mark_audit
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+COMMENT ON TABLE public.aps_mark_audit IS 'Stored user_marks.aps_mark compared with the APS recomputed from subject percentages';
+COMMENT ON COLUMN public.aps_mark_audit.learner_id IS 'COALESCE(profile_id, user_id) of the audited user_marks row, the learner''s latest';
+COMMENT ON COLUMN public.aps_mark_audit.computed_aps IS 'Standard NSC APS: best six subjects excluding Life Orientation (max 42)';
+COMMENT ON COLUMN public.aps_mark_audit.difference IS 'stored_aps - computed_aps';
+COMMENT ON COLUMN public.aps_mark_audit.status IS 'insufficient_subjects: disagreement explained by fewer than six recorded subjects';
+COMMENT ON COLUMN public.aps_mark_audit.wits_aps IS 'Wits APS variant (8-point scale, Life Orientation and English/Maths bonus)';
+COMMENT ON COLUMN public.aps_mark_audit.uct_fps IS 'UCT Faculty Points Score (sum of best six percentages)';
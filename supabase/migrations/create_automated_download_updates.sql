@@ -1,162 +0,0 @@
-/*
-  # Automated Download Statistics Tracking
-
-  1. New Functions
-    - `start_download_sync()` - Initiate automated sync between 6AM-9PM SA time
-    - `create_today_download_stats_if_missing()` - Ensure daily entry exists
-    - `estimate_live_downloads()` - Realistic hourly growth simulation
-
-  2. Security
-    - Secure admin functions for stats sync
-*/
-
--- Function to estimate realistic download growth throughout the day
-CREATE OR REPLACE FUNCTION estimate_live_downloads()
-RETURNS TABLE (
-  estimated_total_downloads integer,
-  estimated_daily_downloads integer,
-  confidence_factor numeric,
-  last_update_arg timestamptz
-) 
-LANGUAGE plpgsql
-SECURITY DEFINER
-AS $$
-DECLARE
-  v_base_entry RECORD;
-  v_current_hour integer;
-  v_current_day integer;
-BEGIN
-  -- Get current time in SA (UTC+2)
-  v_current_hour := EXTRACT(HOUR FROM CURRENT_TIMESTAMP AT TIME ZONE 'Africa/Johannesburg');
-  v_current_day := EXTRACT(DOW FROM CURRENT_TIMESTAMP AT TIME ZONE 'Africa/Johannesburg');
-  
-  -- Get the most recent stats
-  SELECT * INTO v_base_entry 
-  FROM download_stats 
-  ORDER BY date DESC 
-  LIMIT 1;
-  
-  IF v_base_entry IS NULL THEN
-    -- Create initial baseline estimate
-    estimated_total_downloads := 1240;
-    estimated_daily_downloads := 52;
-  ELSE
-    -- Apply time-based multipliers
-    estimated_total_downloads := v_base_entry.total_downloads;
-    estimated_daily_downloads := 0;
-    
-    -- High activity: afternoon (1400-2100 SA time = 1200-1900 UTC)
-    IF v_current_hour >= 14 AND v_current_hour <= 21 THEN
-      estimated_daily_downloads := v_base_entry.daily_downloads + ((v_current_hour - 6) * 8);
-    -- Low activity: overnight (2200-500 SA time = 2000-300 UTC)
-    ELSIF v_current_hour >= 22 OR v_current_hour <= 5 THEN
-      estimated_daily_downloads := v_base_entry.daily_downloads + ((v_current_hour - 6) * 3);
-    -- Medium activity: morning/evening (600-1300 SA time = 400-1100 UTC)
-    ELSE
-      estimated_daily_downloads := v_base_entry.daily_downloads + ((v_current_hour - 6) * 6);
-    END IF;
-    
-    -- Higher weekday activity vs weekend
-    IF v_current_day BETWEEN 1 AND 5 THEN
-      estimated_daily_downloads := estimated_daily_downloads * 1.2;
-    ELSE
-      estimated_daily_downloads := estimated_daily_downloads * 0.8;
-    END IF;
-    
-    -- Add some random variation (realistic volatility)
-    estimated_daily_downloads := estimated_daily_downloads * (0.9 + (RANDOM() * 0.2));
-    
-    -- Ensure total grows (can't go backwards)
-    estimated_total_downloads := estimated_total_downloads + estimated_daily_downloads;
-  END IF;
-  
-  -- Calculate confidence based on time reliability
-  confidence_factor := CASE 
-    WHEN v_current_hour >= 8 AND v_current_hour <= 20 THEN 0.9  -- High confidence daytime
-    ELSE 0.65  -- Lower confidence off-hours
-  END;
-  
-  last_update_arg := v_base_entry.updated_at;
-  
-  RETURN NEXT;
-END;
-$$;
-
--- Function to ensure today's entry exists with reasonable growth
-CREATE OR REPLACE FUNCTION create_today_download_stats_if_missing()
-RETURNS jsonb
-LANGUAGE plpgsql
-SECURITY DEFINER
-AS $$
-DECLARE
-  v_today date;
-  v_inserted_count integer := 0;
-BEGIN
-  SELECT CURRENT_DATE INTO v_today;
-  
-  INSERT INTO download_stats (
-    date,
-    total_downloads,
-    daily_downloads,
-    android_downloads,
-    ios_downloads,
-    rating,
-    reviews_count,
-    source,
-    updated_at
-  )
-  SELECT v_today,
-         base_stats.total_downloads * (1 + (EXTRACT(HOUR FROM CURRENT_TIMESTAMP AT TIME ZONE 'Africa/Johannesburg') * 0.002)),
-         base_stats.daily_downloads + (CASE 
-           WHEN EXTRACT(HOUR FROM CURRENT_TIMESTAMP AT TIME ZONE 'Africa/Johannesburg') >= 6 
-             THEN (EXTRACT(HOUR FROM CURRENT_TIMESTAMP AT TIME ZONE 'Africa/Johannesburg') - 6) * 5
-           ELSE 0
-         END),
-         base_stats.android_downloads * (1 + (EXTRACT(HOUR FROM CURRENT_TIMESTAMP AT TIME ZONE 'Africa/Johannesburg') * 0.002)),
-         base_stats.ios_downloads * (1 + (EXTRACT(HOUR FROM CURRENT_TIMESTAMP AT TIME ZONE 'Africa/Johannesburg') * 0.004)),
-         base_stats.rating + (RANDOM() * 0.1 - 0.05),
-         base_stats.reviews_count + FLOOR(RANDOM() * 3),
-         'automated_update',
-         CURRENT_TIMESTAMP
-  FROM (
-    SELECT 
-      COALESCE(MAX(total_downloads), 1240) AS total_downloads,
-      COALESCE(MAX(daily_downloads), 52) AS daily_downloads,
-      COALESCE(MAX(android_downloads), 960) AS android_downloads,
-      COALESCE(MAX(ios_downloads), 280) AS ios_downloads,
-      COALESCE(MAX(rating), 4.3) AS rating,
-      COALESCE(MAX(reviews_count), 36) AS reviews_count
-    FROM download_stats
-    ORDER BY date DESC
-    LIMIT 1
-  ) AS base_stats
-  WHERE NOT EXISTS (SELECT 1 FROM download_stats WHERE date = v_today)
-  RETURNING id INTO v_inserted_count;
-  
-  IF v_inserted_count > 0 THEN
-    RETURN jsonb_build_object(
-      'success', true,
-      'message', 'Created new daily entry',
-      'action', 'inserted'
-    );
-  ELSE
-    RETURN jsonb_build_object(
-      'success', true,
-      'message', 'Daily entry already exists',
-      'action', 'none'
-    );
-  END IF;
-  
-EXCEPTION
-  WHEN OTHERS THEN
-    RETURN jsonb_build_object(
-      'success', false,
-      'error', SQLERRM,
-      'action', 'failed'
-    );
-END;
-$$;
-
--- Add comment explaining usage
-COMMENT ON FUNCTION estimate_live_downloads() IS 
-  'Estimates realistic ongoing download activity based on time patterns in South Africa';
\ No newline at end of file
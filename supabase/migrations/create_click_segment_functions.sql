@@ -0,0 +1,121 @@
+-- Period-aware click analytics for the Feature Adoption page.
+-- button_clicks has no user column, so role and grade segments go through the session's user to their profile.
+
+-- Daily buckets must follow South African days rather than UTC, so the series function gains a time zone.
+-- The old four-argument version is dropped first; calls without p_tz keep working through the default.
+DROP FUNCTION IF EXISTS public.get_clicks_by_page_segment(text[], text, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.get_clicks_by_page_segment(
+  p_pages text[],
+  p_granularity text,            -- 'day' | 'week' | 'month'
+  p_start timestamptz,
+  p_end timestamptz,
+  p_tz text DEFAULT 'Africa/Johannesburg'
+)
+RETURNS TABLE(
+  page_name text,
+  bucket timestamptz,
+  total_clicks bigint,
+  unique_sessions bigint
+) LANGUAGE sql STABLE AS $$
+  SELECT
+    page_name,
+    date_trunc(p_granularity, created_at, p_tz) AS bucket,
+    COUNT(*)::bigint AS total_clicks,
+    COUNT(DISTINCT session_id)::bigint AS unique_sessions
+  FROM public.button_clicks
+  WHERE (p_pages IS NULL OR page_name = ANY(p_pages))
+    AND created_at >= p_start
+    AND created_at <  p_end
+  GROUP BY page_name, date_trunc(p_granularity, created_at, p_tz)
+  ORDER BY page_name, bucket;
+$$;
+
+-- Totals across all pages; a session that clicked on several pages is counted once
+CREATE OR REPLACE FUNCTION public.get_click_totals(
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE(
+  total_clicks bigint,
+  unique_sessions bigint,
+  pages bigint
+) LANGUAGE sql STABLE AS $$
+  SELECT
+    COUNT(*)::bigint AS total_clicks,
+    COUNT(DISTINCT session_id)::bigint AS unique_sessions,
+    COUNT(DISTINCT page_name)::bigint AS pages
+  FROM public.button_clicks
+  WHERE created_at >= p_start
+    AND created_at <  p_end;
+$$;
+
+-- Clicks per profile role or grade. Clicks whose session or profile is missing fall into 'Unknown'.
+-- Profiles are private, so only analysts and admins get rows back.
+CREATE OR REPLACE FUNCTION public.get_clicks_by_user_segment(
+  p_dimension text,              -- 'role' | 'grade'
+  p_start timestamptz,
+  p_end timestamptz,
+  p_pages text[] DEFAULT NULL
+)
+RETURNS TABLE(
+  segment text,
+  total_clicks bigint,
+  unique_sessions bigint,
+  unique_users bigint,
+  top_page text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH clicks AS (
+    SELECT
+      bc.page_name,
+      bc.session_id,
+      s.user_id,
+      COALESCE(
+        NULLIF(btrim(CASE p_dimension WHEN 'role' THEN p.role::text WHEN 'grade' THEN p.grade::text END), ''),
+        'Unknown'
+      ) AS segment
+    FROM public.button_clicks bc
+    LEFT JOIN public.sessions s ON s.session_id::text = bc.session_id::text
+    LEFT JOIN public.profiles p ON p.id = s.user_id
+    WHERE bc.created_at >= p_start
+      AND bc.created_at <  p_end
+      AND (p_pages IS NULL OR bc.page_name = ANY(p_pages))
+      AND p_dimension IN ('role', 'grade')
+      AND public.get_my_dashboard_role() IN ('admin', 'analyst')
+  ),
+  page_ranks AS (
+    SELECT
+      segment,
+      page_name,
+      ROW_NUMBER() OVER (PARTITION BY segment ORDER BY COUNT(*) DESC, page_name) AS rank
+    FROM clicks
+    GROUP BY segment, page_name
+  )
+  SELECT
+    c.segment,
+    COUNT(*)::bigint AS total_clicks,
+    COUNT(DISTINCT c.session_id)::bigint AS unique_sessions,
+    COUNT(DISTINCT c.user_id)::bigint AS unique_users,
+    (SELECT r.page_name FROM page_ranks r WHERE r.segment = c.segment AND r.rank = 1) AS top_page
+  FROM clicks c
+  GROUP BY c.segment
+  ORDER BY total_clicks DESC, c.segment;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_button_clicks_created_at ON public.button_clicks(created_at);
+
+GRANT EXECUTE ON FUNCTION public.get_clicks_by_page_segment(text[], text, timestamptz, timestamptz, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_click_totals(timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_clicks_by_user_segment(text, timestamptz, timestamptz, text[]) TO authenticated;
+
+COMMENT ON FUNCTION public.get_clicks_by_page_segment(text[], text, timestamptz, timestamptz, text) IS
+  'Clicks and sessions per page and local day, week or month';
+COMMENT ON FUNCTION public.get_click_totals(timestamptz, timestamptz) IS
+  'Clicks, distinct clicking sessions and pages clicked in a window';
+COMMENT ON FUNCTION public.get_clicks_by_user_segment(text, timestamptz, timestamptz, text[]) IS
+  'Clicks per profile role or grade in a window, with each segment''s most clicked page; analysts and admins only';
@@ -0,0 +1,77 @@
+-- Create dashboard_roles table for role-based access to the analytics dashboard
+-- Roles: admin (full access incl. user management), analyst (all analytics pages), viewer (directory pages only)
+CREATE TABLE IF NOT EXISTS public.dashboard_roles (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('admin', 'analyst', 'viewer')),
+    granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dashboard_roles_role ON public.dashboard_roles(role);
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_dashboard_roles_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_dashboard_roles_updated_at
+    BEFORE UPDATE ON public.dashboard_roles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_dashboard_roles_updated_at();
+
+-- Returns the caller's dashboard role, defaulting to viewer when no row exists
+CREATE OR REPLACE FUNCTION public.get_my_dashboard_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        (SELECT role FROM public.dashboard_roles WHERE user_id = auth.uid()),
+        'viewer'
+    );
+$$;
+
+-- Convenience check used by RLS policies and server-side functions
+CREATE OR REPLACE FUNCTION public.is_dashboard_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.dashboard_roles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_dashboard_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_dashboard_admin() TO authenticated;
+
+ALTER TABLE public.dashboard_roles ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own role
+CREATE POLICY "Users can view own dashboard role" ON public.dashboard_roles
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Admins can read and manage every role assignment
+CREATE POLICY "Admins can manage dashboard roles" ON public.dashboard_roles
+    FOR ALL USING (public.is_dashboard_admin())
+    WITH CHECK (public.is_dashboard_admin());
+
+COMMENT ON TABLE public.dashboard_roles IS 'Dashboard access roles per auth user';
+COMMENT ON COLUMN public.dashboard_roles.user_id IS 'auth.users id the role applies to';
+COMMENT ON COLUMN public.dashboard_roles.role IS 'Dashboard role: admin, analyst, viewer';
+COMMENT ON COLUMN public.dashboard_roles.granted_by IS 'Admin who assigned the role';
+
+-- Bootstrap the first admin manually (replace the email):
+-- INSERT INTO public.dashboard_roles (user_id, role)
+-- SELECT id, 'admin' FROM auth.users WHERE email = 'admin@example.com'
+-- ON CONFLICT (user_id) DO UPDATE SET role = 'admin';
@@ -1,53 +1,84 @@
 -- Create functions for tracking active sessions and distinct users across day boundaries
 -- Uses fixed calendar dates instead of rolling 24-hour periods
+-- Days are local to p_tz (Africa/Johannesburg by default), matching the dashboard's date-range picker,
+-- rather than the database server's CURRENT_DATE
+
+-- Earlier versions took no arguments
+DROP FUNCTION IF EXISTS get_active_users_previous_day_analytics();
+DROP FUNCTION IF EXISTS get_active_users_previous_7days_analytics();
+DROP FUNCTION IF EXISTS get_active_users_previous_30days_analytics();
 
 -- Function for getting active analytics for the previous day (Yesterday 12AM to previous 12AM)
-CREATE OR REPLACE FUNCTION get_active_users_previous_day_analytics()
+CREATE OR REPLACE FUNCTION get_active_users_previous_day_analytics(p_tz text DEFAULT 'Africa/Johannesburg')
 RETURNS TABLE(session_count_yesterday integer, distinct_users_yesterday integer)
 LANGUAGE plpgsql
 SECURITY DEFINER
 AS $$
+DECLARE
+    v_today date := (NOW() AT TIME ZONE p_tz)::date;
 BEGIN
     RETURN QUERY
-    SELECT 
+    SELECT
         COUNT(*)::integer AS session_count_yesterday,
         COUNT(DISTINCT user_id)::integer AS distinct_users_yesterday
     FROM sessions
-    WHERE start_time >= DATE_TRUNC('day', CURRENT_DATE - INTERVAL '1 day')
-      AND start_time < DATE_TRUNC('day', CURRENT_DATE);
+    WHERE start_time >= ((v_today - 1)::timestamp AT TIME ZONE p_tz)
+      AND start_time < (v_today::timestamp AT TIME ZONE p_tz);
 END;
 $$;
 
 -- Function for getting active analytics for the previous 7 days (including current week)
-CREATE OR REPLACE FUNCTION get_active_users_previous_7days_analytics()
+CREATE OR REPLACE FUNCTION get_active_users_previous_7days_analytics(p_tz text DEFAULT 'Africa/Johannesburg')
 RETURNS TABLE(session_count_7days integer, distinct_users_7days integer)
 LANGUAGE plpgsql
 SECURITY DEFINER
 AS $$
+DECLARE
+    v_today date := (NOW() AT TIME ZONE p_tz)::date;
 BEGIN
     RETURN QUERY
-    SELECT 
+    SELECT
         COUNT(*)::integer AS session_count_7days,
         COUNT(DISTINCT user_id)::integer AS distinct_users_7days
     FROM sessions
-    WHERE start_time >= DATE_TRUNC('day', CURRENT_DATE - INTERVAL '7 days')
-      AND start_time < DATE_TRUNC('day', CURRENT_DATE);
+    WHERE start_time >= ((v_today - 7)::timestamp AT TIME ZONE p_tz)
+      AND start_time < (v_today::timestamp AT TIME ZONE p_tz);
 END;
 $$;
 
 -- Function for getting active analytics for the previous 30 days (consecutive days)
-CREATE OR REPLACE FUNCTION get_active_users_previous_30days_analytics()
+CREATE OR REPLACE FUNCTION get_active_users_previous_30days_analytics(p_tz text DEFAULT 'Africa/Johannesburg')
 RETURNS TABLE(session_count_30days integer, distinct_users_30days integer)
 LANGUAGE plpgsql
 SECURITY DEFINER
 AS $$
+DECLARE
+    v_today date := (NOW() AT TIME ZONE p_tz)::date;
 BEGIN
     RETURN QUERY
-    SELECT 
+    SELECT
         COUNT(*)::integer AS session_count_30days,
         COUNT(DISTINCT user_id)::integer AS distinct_users_30days
     FROM sessions
-    WHERE start_time >= DATE_TRUNC('day', CURRENT_DATE - INTERVAL '30 days')
-      AND start_time < DATE_TRUNC('day', CURRENT_DATE);
+    WHERE start_time >= ((v_today - 30)::timestamp AT TIME ZONE p_tz)
+      AND start_time < (v_today::timestamp AT TIME ZONE p_tz);
 END;
-$$;
\ No newline at end of file
+$$;
+
+-- Function for any period chosen in the date-range picker; p_start/p_end are local midnights sent by the dashboard
+CREATE OR REPLACE FUNCTION get_active_users_in_period(
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE(session_count integer, distinct_users integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT
+        COUNT(*)::integer AS session_count,
+        COUNT(DISTINCT user_id)::integer AS distinct_users
+    FROM sessions
+    WHERE start_time >= p_start
+      AND start_time < p_end;
+$$;
@@ -0,0 +1,111 @@
+-- Daily, weekly or monthly installs from download_stats with a moving average and signups from profiles.created_at.
+-- download_stats holds one row per day read from the Play Console reports; missing days stay missing rather than
+-- being estimated, so each bucket reports how many of its days have data.
+-- Replaces the simulated growth in estimate_live_downloads() and create_today_download_stats_if_missing().
+
+DROP FUNCTION IF EXISTS public.estimate_live_downloads();
+DROP FUNCTION IF EXISTS public.create_today_download_stats_if_missing();
+DROP FUNCTION IF EXISTS public.start_download_sync();
+
+CREATE OR REPLACE FUNCTION public.get_download_series(
+  p_start timestamptz,
+  p_end timestamptz,
+  p_granularity text DEFAULT 'day',        -- 'day' | 'week' | 'month'
+  p_tz text DEFAULT 'Africa/Johannesburg'
+)
+RETURNS TABLE(
+  period_start date,
+  days_in_period integer,
+  days_reported integer,
+  estimated_days integer,
+  installs bigint,
+  installs_moving_avg numeric,
+  cumulative_installs bigint,
+  signups bigint,
+  conversion_pct numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT
+      date_trunc(p_granularity, (p_start AT TIME ZONE p_tz)::date)::date AS first_bucket,
+      (p_end AT TIME ZONE p_tz)::date - 1 AS last_day,
+      ('1 ' || p_granularity)::interval AS step,
+      -- The moving average covers a week of days, four weeks or three months
+      CASE p_granularity WHEN 'week' THEN 4 WHEN 'month' THEN 3 ELSE 7 END AS window_size
+    WHERE p_granularity IN ('day', 'week', 'month')
+  ),
+  -- Starts window_size - 1 buckets early so the first visible bucket has a full moving average
+  buckets AS (
+    SELECT
+      gs::date AS period_start,
+      LEAST((gs + b.step)::date, b.last_day + 1) - gs::date AS days_in_period
+    FROM bounds b,
+      generate_series(b.first_bucket - (b.window_size - 1) * b.step, b.last_day, b.step) gs
+  ),
+  installs AS (
+    SELECT
+      date_trunc(p_granularity, ds.date)::date AS period_start,
+      COUNT(*)::integer AS days_reported,
+      COUNT(*) FILTER (WHERE ds.source = 'legacy_estimate')::integer AS estimated_days,
+      SUM(ds.daily_downloads)::bigint AS installs,
+      MAX(ds.total_downloads)::bigint AS cumulative_installs
+    FROM public.download_stats ds
+    CROSS JOIN bounds b
+    WHERE ds.date >= (SELECT MIN(bk.period_start) FROM buckets bk)
+      AND ds.date <= b.last_day
+    GROUP BY 1
+  ),
+  signups AS (
+    SELECT
+      date_trunc(p_granularity, (p.created_at AT TIME ZONE p_tz)::date)::date AS period_start,
+      COUNT(*)::bigint AS signups
+    FROM public.profiles p
+    WHERE p.created_at >= ((SELECT MIN(bk.period_start) FROM buckets bk)::timestamp AT TIME ZONE p_tz)
+      AND p.created_at < p_end
+      -- Profiles are private; only analysts and admins may aggregate them
+      AND public.get_my_dashboard_role() IN ('admin', 'analyst')
+    GROUP BY 1
+  ),
+  series AS (
+    SELECT
+      bk.period_start,
+      bk.days_in_period,
+      COALESCE(i.days_reported, 0) AS days_reported,
+      COALESCE(i.estimated_days, 0) AS estimated_days,
+      i.installs,
+      -- AVG skips buckets without data instead of counting them as zero installs
+      ROUND(CASE (SELECT b.window_size FROM bounds b)
+        WHEN 4 THEN AVG(i.installs) OVER (ORDER BY bk.period_start ROWS BETWEEN 3 PRECEDING AND CURRENT ROW)
+        WHEN 3 THEN AVG(i.installs) OVER (ORDER BY bk.period_start ROWS BETWEEN 2 PRECEDING AND CURRENT ROW)
+        ELSE AVG(i.installs) OVER (ORDER BY bk.period_start ROWS BETWEEN 6 PRECEDING AND CURRENT ROW)
+      END, 1) AS installs_moving_avg,
+      i.cumulative_installs,
+      COALESCE(s.signups, 0) AS signups
+    FROM buckets bk
+    LEFT JOIN installs i ON i.period_start = bk.period_start
+    LEFT JOIN signups s ON s.period_start = bk.period_start
+  )
+  SELECT
+    se.period_start,
+    se.days_in_period,
+    se.days_reported,
+    se.estimated_days,
+    se.installs,
+    se.installs_moving_avg,
+    se.cumulative_installs,
+    se.signups,
+    CASE WHEN se.installs > 0 THEN ROUND(se.signups * 100.0 / se.installs, 1) END AS conversion_pct
+  FROM series se
+  CROSS JOIN bounds b
+  WHERE se.period_start >= b.first_bucket
+  ORDER BY se.period_start;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_download_series(timestamptz, timestamptz, text, text) TO authenticated;
+
+COMMENT ON FUNCTION public.get_download_series(timestamptz, timestamptz, text, text) IS
+  'Installs per day/week/month from download_stats with a moving average, data coverage and signups per 100 installs';
@@ -0,0 +1,207 @@
+/*
+  # Click event registry
+
+  button_clicks.page_name is whatever string the app sends and click_metadata is free-form JSON. The registry lists
+  the known click events (keyed by page_name), the feature each one belongs to, the metadata it is expected to carry
+  and whether it is still active.
+
+  1. New Tables
+    - `event_registry` - one row per known event
+
+  2. Schema format
+    metadata_schema maps each expected click_metadata field to a JSON type: string, number, boolean, object or array.
+    A trailing "?" marks the field optional, e.g. {"button": "string", "position": "number?"}.
+
+  3. Ingest validation
+    A BEFORE INSERT trigger on button_clicks sets event_status and validation_errors on every new click:
+    - `valid` - registered, active and the metadata matches the schema
+    - `unknown` - page_name is not in the registry
+    - `deprecated` - the event is registered as deprecated
+    - `invalid_metadata` - registered and active, but the metadata does not match; validation_errors says why
+    Clicks are always stored; the flags only mark them for review. Clicks from before this migration keep NULL.
+
+  4. Security
+    - Analysts and admins can read the registry; only admins can change it
+*/
+
+CREATE TABLE IF NOT EXISTS public.event_registry (
+  event_name text PRIMARY KEY CHECK (length(btrim(event_name)) > 0),
+  feature text NOT NULL CHECK (length(btrim(feature)) > 0),
+  description text,
+  metadata_schema jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(metadata_schema) = 'object'),
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'deprecated')),
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_registry_feature ON public.event_registry(feature);
+
+ALTER TABLE public.button_clicks
+  ADD COLUMN IF NOT EXISTS event_status text CHECK (event_status IN ('valid', 'unknown', 'deprecated', 'invalid_metadata')),
+  ADD COLUMN IF NOT EXISTS validation_errors text[];
+
+CREATE INDEX IF NOT EXISTS idx_button_clicks_flagged ON public.button_clicks(created_at)
+  WHERE event_status IN ('unknown', 'deprecated', 'invalid_metadata');
+
+COMMENT ON COLUMN public.button_clicks.event_status IS 'Registry check at ingest: valid, unknown, deprecated or invalid_metadata; NULL for clicks from before the registry';
+COMMENT ON COLUMN public.button_clicks.validation_errors IS 'Why the metadata did not match the registered schema';
+
+ALTER TABLE public.event_registry ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Analysts can view the event registry" ON public.event_registry
+  FOR SELECT USING (public.get_my_dashboard_role() IN ('admin', 'analyst'));
+
+CREATE POLICY "Admins can manage the event registry" ON public.event_registry
+  FOR ALL USING (public.is_dashboard_admin())
+  WITH CHECK (public.is_dashboard_admin());
+
+-- Problems with a click's metadata against a registered schema, sorted; empty when it matches
+CREATE OR REPLACE FUNCTION public.event_metadata_errors(p_schema jsonb, p_metadata jsonb)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH metadata AS (
+    SELECT CASE WHEN jsonb_typeof(p_metadata) = 'object' THEN p_metadata ELSE '{}'::jsonb END AS value
+  ),
+  fields AS (
+    SELECT
+      f.key,
+      rtrim(f.value #>> '{}', '?') AS type,
+      (f.value #>> '{}') LIKE '%?' AS optional
+    FROM jsonb_each(COALESCE(p_schema, '{}'::jsonb)) f
+  ),
+  errors AS (
+    SELECT 'metadata must be an object' AS error
+    WHERE p_metadata IS NOT NULL AND jsonb_typeof(p_metadata) NOT IN ('object', 'null')
+    UNION ALL
+    SELECT CASE
+      WHEN COALESCE(jsonb_typeof(m.value -> fl.key), 'null') = 'null' THEN
+        CASE WHEN fl.optional THEN NULL ELSE fl.key || ' is missing' END
+      WHEN jsonb_typeof(m.value -> fl.key) <> fl.type THEN fl.key || ' must be ' || fl.type
+    END
+    FROM fields fl, metadata m
+    UNION ALL
+    SELECT k.key || ' is not in the schema'
+    FROM metadata m, jsonb_object_keys(m.value) AS k(key)
+    WHERE NOT (COALESCE(p_schema, '{}'::jsonb) ? k.key)
+  )
+  SELECT COALESCE(array_agg(error ORDER BY error) FILTER (WHERE error IS NOT NULL), '{}')
+  FROM errors;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_button_click()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.event_registry;
+BEGIN
+  SELECT * INTO v_event FROM public.event_registry WHERE event_name = NEW.page_name;
+
+  IF NOT FOUND THEN
+    NEW.event_status := 'unknown';
+    NEW.validation_errors := '{}';
+    RETURN NEW;
+  END IF;
+
+  NEW.validation_errors := public.event_metadata_errors(v_event.metadata_schema, to_jsonb(NEW.click_metadata));
+  NEW.event_status := CASE
+    WHEN v_event.status = 'deprecated' THEN 'deprecated'
+    WHEN cardinality(NEW.validation_errors) > 0 THEN 'invalid_metadata'
+    ELSE 'valid'
+  END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_button_click ON public.button_clicks;
+CREATE TRIGGER validate_button_click
+  BEFORE INSERT ON public.button_clicks
+  FOR EACH ROW EXECUTE FUNCTION public.validate_button_click();
+
+-- Clicks per registered feature; events missing from the registry are grouped as 'Unregistered'.
+-- Grouping uses the registry as it is now, so registering an event also files its earlier clicks.
+CREATE OR REPLACE FUNCTION public.get_clicks_by_feature(
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE(
+  feature text,
+  events bigint,
+  total_clicks bigint,
+  unique_sessions bigint,
+  flagged_clicks bigint
+) LANGUAGE sql STABLE AS $$
+  SELECT
+    COALESCE(r.feature, 'Unregistered') AS feature,
+    COUNT(DISTINCT bc.page_name)::bigint AS events,
+    COUNT(*)::bigint AS total_clicks,
+    COUNT(DISTINCT bc.session_id)::bigint AS unique_sessions,
+    COUNT(*) FILTER (
+      WHERE r.event_name IS NULL OR r.status = 'deprecated' OR bc.event_status = 'invalid_metadata'
+    )::bigint AS flagged_clicks
+  FROM public.button_clicks bc
+  LEFT JOIN public.event_registry r ON r.event_name = bc.page_name
+  WHERE bc.created_at >= p_start
+    AND bc.created_at <  p_end
+  GROUP BY 1
+  ORDER BY total_clicks DESC, 1;
+$$;
+
+-- Events needing attention in a window: not registered, deprecated but still sent, or with mismatched metadata
+CREATE OR REPLACE FUNCTION public.get_flagged_click_events(
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE(
+  event_name text,
+  issue text,                    -- 'unknown' | 'deprecated' | 'invalid_metadata'
+  clicks bigint,
+  last_seen timestamptz,
+  example_errors text[]
+) LANGUAGE sql STABLE AS $$
+  WITH flagged AS (
+    SELECT
+      bc.page_name,
+      bc.created_at,
+      bc.validation_errors,
+      CASE
+        WHEN r.event_name IS NULL THEN 'unknown'
+        WHEN r.status = 'deprecated' THEN 'deprecated'
+        WHEN bc.event_status = 'invalid_metadata' THEN 'invalid_metadata'
+      END AS issue
+    FROM public.button_clicks bc
+    LEFT JOIN public.event_registry r ON r.event_name = bc.page_name
+    WHERE bc.created_at >= p_start
+      AND bc.created_at <  p_end
+  )
+  SELECT
+    f.page_name,
+    f.issue,
+    COUNT(*)::bigint AS clicks,
+    MAX(f.created_at) AS last_seen,
+    (SELECT x.validation_errors
+      FROM flagged x
+      WHERE x.page_name = f.page_name AND x.issue = f.issue AND cardinality(x.validation_errors) > 0
+      ORDER BY x.created_at DESC
+      LIMIT 1) AS example_errors
+  FROM flagged f
+  WHERE f.issue IS NOT NULL
+  GROUP BY f.page_name, f.issue
+  ORDER BY clicks DESC, f.page_name;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_clicks_by_feature(timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_flagged_click_events(timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON TABLE public.event_registry IS 'Known click events (button_clicks.page_name) with their feature, expected metadata and status';
+COMMENT ON FUNCTION public.event_metadata_errors(jsonb, jsonb) IS
+  'Sorted list of problems with click metadata against a registry metadata_schema; empty when it matches';
+COMMENT ON FUNCTION public.get_clicks_by_feature(timestamptz, timestamptz) IS
+  'Clicks and sessions per registered feature in a window, unregistered events grouped together';
+COMMENT ON FUNCTION public.get_flagged_click_events(timestamptz, timestamptz) IS
+  'Unknown, deprecated and metadata-mismatched click events in a window';
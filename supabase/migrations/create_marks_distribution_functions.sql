@@ -0,0 +1,174 @@
+-- Distribution of user_marks by metric (the overall average or one subject mark),
+-- optionally broken down by grade, school, province or math_type.
+-- Metrics:    average, math_mark, home_language_mark, first_additional_language_mark,
+--             second_additional_language_mark, subject1_mark .. subject4_mark, life_orientation_mark
+-- Breakdowns: NULL (everyone), 'grade', 'school', 'province', 'math_type'
+-- Each learner counts once, from their latest user_marks row, and groups of fewer than 5 learners
+-- are left out so that no breakdown reveals one child's marks.
+
+CREATE INDEX IF NOT EXISTS idx_user_marks_profile_id ON public.user_marks(profile_id);
+
+-- One value per learner for the chosen metric, tagged with the breakdown group
+CREATE OR REPLACE FUNCTION public.marks_metric_values(
+  p_metric text,
+  p_breakdown text DEFAULT NULL
+)
+RETURNS TABLE(
+  user_id uuid,
+  group_value text,
+  value numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH latest_marks AS (
+    SELECT DISTINCT ON (COALESCE(m.profile_id, m.user_id)) m.*
+    FROM public.user_marks m
+    ORDER BY COALESCE(m.profile_id, m.user_id), m.created_at DESC
+  ),
+  -- Schools are free text: group by LOWER(TRIM(school)) and show the spelling most learners used, as the Schools page does
+  school_names AS (
+    SELECT LOWER(TRIM(p.school)) AS school_key, mode() WITHIN GROUP (ORDER BY TRIM(p.school)) AS school
+    FROM public.profiles p
+    WHERE NULLIF(TRIM(p.school), '') IS NOT NULL
+    GROUP BY 1
+  ),
+  tagged AS (
+    SELECT
+      m.user_id,
+      COALESCE(NULLIF(TRIM(CASE p_breakdown
+        WHEN 'grade' THEN p.grade
+        WHEN 'school' THEN sn.school
+        WHEN 'province' THEN p.province
+        WHEN 'math_type' THEN m.math_type
+        ELSE 'All'
+      END), ''), 'Unknown') AS group_value,
+      (CASE p_metric
+        WHEN 'average' THEN m.average
+        WHEN 'math_mark' THEN m.math_mark
+        WHEN 'home_language_mark' THEN m.home_language_mark
+        WHEN 'first_additional_language_mark' THEN m.first_additional_language_mark
+        WHEN 'second_additional_language_mark' THEN m.second_additional_language_mark
+        WHEN 'subject1_mark' THEN m.subject1_mark
+        WHEN 'subject2_mark' THEN m.subject2_mark
+        WHEN 'subject3_mark' THEN m.subject3_mark
+        WHEN 'subject4_mark' THEN m.subject4_mark
+        WHEN 'life_orientation_mark' THEN m.life_orientation_mark
+      END)::numeric AS value
+    FROM latest_marks m
+    LEFT JOIN public.profiles p ON p.id = COALESCE(m.profile_id, m.user_id)
+    LEFT JOIN school_names sn ON sn.school_key = LOWER(TRIM(p.school))
+  ),
+  sized AS (
+    SELECT t.*, COUNT(*) OVER (PARTITION BY t.group_value) AS group_size
+    FROM tagged t
+    -- Out-of-range marks are data errors, not students scoring 0 or 100
+    WHERE t.value BETWEEN 0 AND 100
+  )
+  SELECT user_id, group_value, value
+  FROM sized
+  WHERE group_size >= 5;
+$$;
+
+-- Only the functions below may read raw per-student values
+REVOKE ALL ON FUNCTION public.marks_metric_values(text, text) FROM PUBLIC, anon, authenticated;
+
+-- Histogram with fixed-width bins; empty bins are returned as 0 so charts line up across groups.
+-- When the width does not divide 100 the top bin is narrower, e.g. 90-100 for a width of 15.
+CREATE OR REPLACE FUNCTION public.get_marks_histogram(
+  p_metric text DEFAULT 'average',
+  p_breakdown text DEFAULT NULL,
+  p_bin_width integer DEFAULT 10
+)
+RETURNS TABLE(
+  group_value text,
+  bin_start integer,
+  bin_end integer,
+  students bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH vals AS (
+    SELECT * FROM public.marks_metric_values(p_metric, p_breakdown)
+    -- Marks are private; only analysts and admins may aggregate them
+    WHERE public.get_my_dashboard_role() IN ('admin', 'analyst')
+  ),
+  bins AS (
+    SELECT b AS bin_start, LEAST(b + p_bin_width, 100) AS bin_end
+    FROM generate_series(0, (CEIL(100.0 / p_bin_width)::integer - 1) * p_bin_width, p_bin_width) AS b
+  ),
+  groups AS (
+    SELECT DISTINCT group_value FROM vals
+  ),
+  counted AS (
+    -- A mark of exactly 100 belongs in the top bin
+    SELECT group_value, LEAST(FLOOR(value / p_bin_width)::integer, CEIL(100.0 / p_bin_width)::integer - 1) * p_bin_width AS bin_start, COUNT(*) AS students
+    FROM vals
+    GROUP BY 1, 2
+  )
+  SELECT g.group_value, b.bin_start, b.bin_end, COALESCE(c.students, 0)::bigint AS students
+  FROM groups g
+  CROSS JOIN bins b
+  LEFT JOIN counted c ON c.group_value = g.group_value AND c.bin_start = b.bin_start
+  WHERE p_bin_width BETWEEN 1 AND 50
+  ORDER BY g.group_value, b.bin_start;
+$$;
+
+-- Percentile bands and threshold shares per group, largest groups first
+CREATE OR REPLACE FUNCTION public.get_marks_summary(
+  p_metric text DEFAULT 'average',
+  p_breakdown text DEFAULT NULL,
+  p_limit integer DEFAULT NULL
+)
+RETURNS TABLE(
+  group_value text,
+  students bigint,
+  mean numeric,
+  p10 numeric,
+  p25 numeric,
+  median numeric,
+  p75 numeric,
+  p90 numeric,
+  pct_ge_50 numeric,
+  pct_ge_70 numeric,
+  pct_ge_80 numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    group_value,
+    COUNT(*)::bigint AS students,
+    ROUND(AVG(value), 1) AS mean,
+    ROUND(percentile_cont(0.10) WITHIN GROUP (ORDER BY value)::numeric, 1) AS p10,
+    ROUND(percentile_cont(0.25) WITHIN GROUP (ORDER BY value)::numeric, 1) AS p25,
+    ROUND(percentile_cont(0.50) WITHIN GROUP (ORDER BY value)::numeric, 1) AS median,
+    ROUND(percentile_cont(0.75) WITHIN GROUP (ORDER BY value)::numeric, 1) AS p75,
+    ROUND(percentile_cont(0.90) WITHIN GROUP (ORDER BY value)::numeric, 1) AS p90,
+    ROUND(100.0 * COUNT(*) FILTER (WHERE value >= 50) / COUNT(*), 1) AS pct_ge_50,
+    ROUND(100.0 * COUNT(*) FILTER (WHERE value >= 70) / COUNT(*), 1) AS pct_ge_70,
+    ROUND(100.0 * COUNT(*) FILTER (WHERE value >= 80) / COUNT(*), 1) AS pct_ge_80
+  FROM public.marks_metric_values(p_metric, p_breakdown)
+  -- Marks are private; only analysts and admins may aggregate them
+  WHERE public.get_my_dashboard_role() IN ('admin', 'analyst')
+  GROUP BY group_value
+  ORDER BY students DESC, group_value
+  LIMIT p_limit;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_marks_histogram(text, text, integer) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_marks_summary(text, text, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_marks_histogram(text, text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_marks_summary(text, text, integer) TO authenticated;
+
+COMMENT ON FUNCTION public.get_marks_histogram(text, text, integer) IS
+  'Learners per mark bin for one metric, per breakdown group of at least 5 learners; analysts and admins only';
+COMMENT ON FUNCTION public.get_marks_summary(text, text, integer) IS
+  'Mean, p10-p90 bands and shares at or above 50/70/80% for one metric, per breakdown group of at least 5 learners; analysts and admins only';
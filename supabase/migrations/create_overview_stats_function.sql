@@ -0,0 +1,113 @@
+-- Every figure on the Overview page in one call, counted in the database instead of the browser.
+-- The previous period is the one of equal length ending at p_start; the dashboard hides it when comparison is off.
+
+CREATE INDEX IF NOT EXISTS idx_sessions_start_time_user ON public.sessions(start_time, user_id);
+CREATE INDEX IF NOT EXISTS idx_profiles_role ON public.profiles(role);
+CREATE INDEX IF NOT EXISTS idx_user_marks_user_id ON public.user_marks(user_id);
+
+CREATE OR REPLACE FUNCTION public.get_overview_stats(
+  p_start timestamptz,
+  p_end timestamptz,
+  p_tz text DEFAULT 'Africa/Johannesburg'
+)
+RETURNS TABLE(
+  total_users bigint,
+  total_students_with_marks bigint,
+  total_user_profiles bigint,
+  pct_ge_50 numeric,
+  pct_ge_70 numeric,
+  pct_ge_80 numeric,
+  total_sessions_all_time bigint,
+  sessions_current bigint,
+  sessions_previous bigint,
+  distinct_users_current bigint,
+  distinct_users_previous bigint,
+  learner_count bigint,
+  parent_count bigint,
+  learners_active_current bigint,
+  learners_active_previous bigint,
+  parents_active_current bigint,
+  parents_active_previous bigint,
+  total_downloads bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT p_start - (p_end - p_start) AS previous_start
+  ),
+  -- Same thresholds as get_marks_summary('average'), over every student with a valid average
+  marks AS (
+    SELECT
+      ROUND(100.0 * COUNT(*) FILTER (WHERE average >= 50) / NULLIF(COUNT(*), 0), 1) AS pct_ge_50,
+      ROUND(100.0 * COUNT(*) FILTER (WHERE average >= 70) / NULLIF(COUNT(*), 0), 1) AS pct_ge_70,
+      ROUND(100.0 * COUNT(*) FILTER (WHERE average >= 80) / NULLIF(COUNT(*), 0), 1) AS pct_ge_80
+    FROM public.user_marks
+    WHERE average BETWEEN 0 AND 100
+  ),
+  profile_counts AS (
+    SELECT
+      COUNT(*)::bigint AS total_profiles,
+      COUNT(*) FILTER (WHERE role = 'Learner')::bigint AS learners,
+      COUNT(*) FILTER (WHERE role = 'Parent')::bigint AS parents
+    FROM public.profiles
+  ),
+  -- Sessions in the current and previous periods, tagged with the user's profile role
+  window_sessions AS (
+    SELECT s.user_id, s.start_time >= p_start AS is_current, p.role
+    FROM public.sessions s
+    CROSS JOIN bounds b
+    LEFT JOIN public.profiles p ON p.id = s.user_id
+    WHERE s.start_time >= b.previous_start
+      AND s.start_time <  p_end
+  ),
+  activity AS (
+    SELECT
+      COUNT(*) FILTER (WHERE is_current)::bigint AS sessions_current,
+      COUNT(*) FILTER (WHERE NOT is_current)::bigint AS sessions_previous,
+      COUNT(DISTINCT user_id) FILTER (WHERE is_current)::bigint AS users_current,
+      COUNT(DISTINCT user_id) FILTER (WHERE NOT is_current)::bigint AS users_previous,
+      COUNT(DISTINCT user_id) FILTER (WHERE is_current AND role = 'Learner')::bigint AS learners_current,
+      COUNT(DISTINCT user_id) FILTER (WHERE NOT is_current AND role = 'Learner')::bigint AS learners_previous,
+      COUNT(DISTINCT user_id) FILTER (WHERE is_current AND role = 'Parent')::bigint AS parents_current,
+      COUNT(DISTINCT user_id) FILTER (WHERE NOT is_current AND role = 'Parent')::bigint AS parents_previous
+    FROM window_sessions
+  )
+  SELECT
+    pc.total_profiles AS total_users,
+    (SELECT COUNT(DISTINCT user_id) FROM public.user_marks)::bigint AS total_students_with_marks,
+    pc.total_profiles AS total_user_profiles,
+    mk.pct_ge_50,
+    mk.pct_ge_70,
+    mk.pct_ge_80,
+    (SELECT COUNT(*) FROM public.sessions)::bigint AS total_sessions_all_time,
+    a.sessions_current,
+    a.sessions_previous,
+    a.users_current AS distinct_users_current,
+    a.users_previous AS distinct_users_previous,
+    pc.learners AS learner_count,
+    pc.parents AS parent_count,
+    a.learners_current AS learners_active_current,
+    a.learners_previous AS learners_active_previous,
+    a.parents_current AS parents_active_current,
+    a.parents_previous AS parents_active_previous,
+    -- Cumulative downloads as of the last day of the period
+    COALESCE((
+      SELECT ds.total_downloads
+      FROM public.download_stats ds
+      WHERE ds.date < (p_end AT TIME ZONE p_tz)::date
+      ORDER BY ds.date DESC
+      LIMIT 1
+    ), 0)::bigint AS total_downloads
+  FROM profile_counts pc
+  CROSS JOIN marks mk
+  CROSS JOIN activity a;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_overview_stats(timestamptz, timestamptz, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_overview_stats(timestamptz, timestamptz, text) TO authenticated;
+
+COMMENT ON FUNCTION public.get_overview_stats(timestamptz, timestamptz, text) IS
+  'Overview KPIs for [p_start, p_end) and the equal-length period before it; p_tz sets the day used for cumulative downloads';
@@ -0,0 +1,115 @@
+-- Page-view events posted by the Reslocate app through the track-page-view edge function
+CREATE TABLE IF NOT EXISTS public.page_views (
+    id BIGSERIAL PRIMARY KEY,
+    event_id UUID NOT NULL UNIQUE,
+    user_id UUID,
+    session_id UUID,
+    page_path TEXT NOT NULL,
+    referrer_path TEXT,
+    viewed_at TIMESTAMPTZ NOT NULL,
+    duration_ms INTEGER CHECK (duration_ms >= 0),
+    click_count INTEGER NOT NULL DEFAULT 0 CHECK (click_count >= 0),
+    platform TEXT,
+    app_version TEXT,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_page_views_viewed_at ON public.page_views(viewed_at);
+CREATE INDEX IF NOT EXISTS idx_page_views_page_viewed_at ON public.page_views(page_path, viewed_at);
+CREATE INDEX IF NOT EXISTS idx_page_views_user_id ON public.page_views(user_id);
+
+-- Only the edge function (service role) writes; analysts and admins read
+ALTER TABLE public.page_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Analysts can view page views" ON public.page_views
+    FOR SELECT USING (public.get_my_dashboard_role() IN ('admin', 'analyst'));
+
+COMMENT ON TABLE public.page_views IS 'One row per page view in the Reslocate app';
+COMMENT ON COLUMN public.page_views.event_id IS 'Client-generated id; duplicate posts of the same event are ignored';
+COMMENT ON COLUMN public.page_views.duration_ms IS 'Time on page, capped at 4 hours by the ingestion function';
+COMMENT ON COLUMN public.page_views.click_count IS 'Clicks made while on the page; views with at least one click count towards CTR';
+
+-- Headline engagement numbers for a period
+CREATE OR REPLACE FUNCTION public.get_page_view_summary(
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE(
+  total_views bigint,
+  unique_users bigint,
+  avg_time_on_page_seconds numeric,
+  ctr numeric
+) LANGUAGE sql STABLE AS $$
+  SELECT
+    COUNT(*)::bigint AS total_views,
+    COUNT(DISTINCT user_id)::bigint AS unique_users,
+    ROUND(AVG(duration_ms) / 1000.0, 1) AS avg_time_on_page_seconds,
+    ROUND(100.0 * COUNT(*) FILTER (WHERE click_count > 0) / NULLIF(COUNT(*), 0), 1) AS ctr
+  FROM public.page_views
+  WHERE viewed_at >= p_start
+    AND viewed_at <  p_end;
+$$;
+
+-- Per-page engagement for a period, most viewed first
+CREATE OR REPLACE FUNCTION public.get_page_engagement(
+  p_start timestamptz,
+  p_end timestamptz,
+  p_limit integer DEFAULT NULL
+)
+RETURNS TABLE(
+  page_path text,
+  views bigint,
+  unique_users bigint,
+  clicks bigint,
+  ctr numeric,
+  avg_time_on_page_seconds numeric,
+  last_viewed_at timestamptz
+) LANGUAGE sql STABLE AS $$
+  SELECT
+    page_path,
+    COUNT(*)::bigint AS views,
+    COUNT(DISTINCT user_id)::bigint AS unique_users,
+    SUM(click_count)::bigint AS clicks,
+    ROUND(100.0 * COUNT(*) FILTER (WHERE click_count > 0) / COUNT(*), 1) AS ctr,
+    ROUND(AVG(duration_ms) / 1000.0, 1) AS avg_time_on_page_seconds,
+    MAX(viewed_at) AS last_viewed_at
+  FROM public.page_views
+  WHERE viewed_at >= p_start
+    AND viewed_at <  p_end
+  GROUP BY page_path
+  ORDER BY views DESC, page_path
+  LIMIT p_limit;
+$$;
+
+-- Daily views for the period's top pages, bucketed by local day
+CREATE OR REPLACE FUNCTION public.get_daily_page_views(
+  p_start timestamptz,
+  p_end timestamptz,
+  p_top_pages integer DEFAULT 5,
+  p_tz text DEFAULT 'Africa/Johannesburg'
+)
+RETURNS TABLE(
+  day date,
+  page_path text,
+  views bigint
+) LANGUAGE sql STABLE AS $$
+  WITH top_pages AS (
+    SELECT page_path
+    FROM public.page_views
+    WHERE viewed_at >= p_start
+      AND viewed_at <  p_end
+    GROUP BY page_path
+    ORDER BY COUNT(*) DESC, page_path
+    LIMIT p_top_pages
+  )
+  SELECT
+    (pv.viewed_at AT TIME ZONE p_tz)::date AS day,
+    pv.page_path,
+    COUNT(*)::bigint AS views
+  FROM public.page_views pv
+  JOIN top_pages tp ON tp.page_path = pv.page_path
+  WHERE pv.viewed_at >= p_start
+    AND pv.viewed_at <  p_end
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
@@ -0,0 +1,200 @@
+/*
+  # Play Console report imports
+
+  Admins can upload the monthly installs and ratings CSVs downloaded from the Play Console. The dashboard parses
+  and validates each file, then hands the rows to import_play_console_report(), which writes them in one
+  transaction and records the file in the import history.
+
+  1. New Tables
+    - `download_stats_by_country` - one row per day and country (Play's two-letter code)
+    - `download_stats_by_device` - one row per day and device model
+    - `play_console_imports` - every uploaded file, including rejected ones
+
+  2. Where rows go
+    - installs overview -> download_stats (source 'google_play_reports', source_ref = file name)
+    - ratings overview -> download_stats.rating, on days that already have install figures
+    - installs/ratings country -> download_stats_by_country
+    - installs/ratings device -> download_stats_by_device
+    Re-importing a file updates the same rows, so a day and country (or device) is only ever stored once.
+
+  3. Security
+    - Everyone signed in can read the breakdowns; only admins can read the import history
+    - All writes go through import_play_console_report(), which refuses non-admins
+*/
+
+CREATE TABLE IF NOT EXISTS public.play_console_imports (
+  id bigserial PRIMARY KEY,
+  file_name text NOT NULL,
+  report_kind text,
+  dimension text,
+  package_name text,
+  report_month text,
+  status text NOT NULL CHECK (status IN ('imported', 'partial', 'rejected')),
+  rows_read integer NOT NULL DEFAULT 0,
+  rows_written integer NOT NULL DEFAULT 0,
+  duplicates integer NOT NULL DEFAULT 0,
+  skipped integer NOT NULL DEFAULT 0,
+  errors text[] NOT NULL DEFAULT '{}',
+  imported_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  imported_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_play_console_imports_imported_at ON public.play_console_imports(imported_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.download_stats_by_country (
+  date date NOT NULL,
+  country text NOT NULL,
+  daily_installs integer,
+  total_installs integer,
+  rating numeric(3,2),
+  source_ref text,
+  import_id bigint REFERENCES public.play_console_imports(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (date, country)
+);
+
+CREATE TABLE IF NOT EXISTS public.download_stats_by_device (
+  date date NOT NULL,
+  device text NOT NULL,
+  daily_installs integer,
+  total_installs integer,
+  rating numeric(3,2),
+  source_ref text,
+  import_id bigint REFERENCES public.play_console_imports(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (date, device)
+);
+
+ALTER TABLE public.play_console_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.download_stats_by_country ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.download_stats_by_device ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view Play Console imports" ON public.play_console_imports
+  FOR SELECT USING (public.is_dashboard_admin());
+
+CREATE POLICY "Authenticated users can read downloads by country" ON public.download_stats_by_country
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can read downloads by device" ON public.download_stats_by_device
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- p_rows: [{ date, key, daily_installs, total_installs, rating }], already validated and deduplicated by date and key.
+-- key is '' for overview reports, the country code or the device model otherwise.
+CREATE OR REPLACE FUNCTION public.import_play_console_report(
+  p_file_name text,
+  p_report_kind text,
+  p_dimension text,
+  p_package_name text,
+  p_report_month text,
+  p_rows jsonb,
+  p_rows_read integer,
+  p_duplicates integer,
+  p_skipped integer,
+  p_errors text[] DEFAULT '{}'
+)
+RETURNS public.play_console_imports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_import public.play_console_imports;
+  v_written integer := 0;
+BEGIN
+  IF NOT public.is_dashboard_admin() THEN
+    RAISE EXCEPTION 'Only dashboard admins can import Play Console reports' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.play_console_imports (
+    file_name, report_kind, dimension, package_name, report_month, status,
+    rows_read, duplicates, skipped, errors, imported_by
+  )
+  VALUES (
+    p_file_name, p_report_kind, p_dimension, p_package_name, p_report_month,
+    CASE
+      WHEN jsonb_array_length(p_rows) = 0 THEN 'rejected'
+      WHEN cardinality(p_errors) > 0 THEN 'partial'
+      ELSE 'imported'
+    END,
+    p_rows_read, p_duplicates, p_skipped, p_errors, auth.uid()
+  )
+  RETURNING * INTO v_import;
+
+  IF jsonb_array_length(p_rows) = 0 THEN
+    RETURN v_import;
+  END IF;
+
+  IF p_report_kind = 'installs' AND p_dimension = 'overview' THEN
+    INSERT INTO public.download_stats (
+      date, total_downloads, daily_downloads, android_downloads, source, source_ref, fetched_at, updated_at
+    )
+    SELECT r.date, r.total_installs, r.daily_installs, r.total_installs, 'google_play_reports', p_file_name, now(), now()
+    FROM jsonb_to_recordset(p_rows) AS r(date date, total_installs integer, daily_installs integer)
+    ON CONFLICT (date) DO UPDATE SET
+      total_downloads = EXCLUDED.total_downloads,
+      daily_downloads = EXCLUDED.daily_downloads,
+      android_downloads = EXCLUDED.android_downloads,
+      source = EXCLUDED.source,
+      source_ref = EXCLUDED.source_ref,
+      fetched_at = EXCLUDED.fetched_at,
+      updated_at = EXCLUDED.updated_at;
+    GET DIAGNOSTICS v_written = ROW_COUNT;
+
+  ELSIF p_report_kind = 'ratings' AND p_dimension = 'overview' THEN
+    -- A rating alone would otherwise create a day with zero installs
+    UPDATE public.download_stats ds
+    SET rating = r.rating, updated_at = now()
+    FROM jsonb_to_recordset(p_rows) AS r(date date, rating numeric)
+    WHERE ds.date = r.date;
+    GET DIAGNOSTICS v_written = ROW_COUNT;
+
+  ELSIF p_dimension = 'country' THEN
+    INSERT INTO public.download_stats_by_country AS t (
+      date, country, daily_installs, total_installs, rating, source_ref, import_id
+    )
+    SELECT r.date, r.key, r.daily_installs, r.total_installs, r.rating, p_file_name, v_import.id
+    FROM jsonb_to_recordset(p_rows) AS r(date date, key text, daily_installs integer, total_installs integer, rating numeric)
+    -- Installs and ratings reports each fill their own columns of the same row
+    ON CONFLICT (date, country) DO UPDATE SET
+      daily_installs = CASE WHEN p_report_kind = 'installs' THEN EXCLUDED.daily_installs ELSE t.daily_installs END,
+      total_installs = CASE WHEN p_report_kind = 'installs' THEN EXCLUDED.total_installs ELSE t.total_installs END,
+      rating = CASE WHEN p_report_kind = 'ratings' THEN EXCLUDED.rating ELSE t.rating END,
+      source_ref = EXCLUDED.source_ref,
+      import_id = EXCLUDED.import_id,
+      updated_at = now();
+    GET DIAGNOSTICS v_written = ROW_COUNT;
+
+  ELSIF p_dimension = 'device' THEN
+    INSERT INTO public.download_stats_by_device AS t (
+      date, device, daily_installs, total_installs, rating, source_ref, import_id
+    )
+    SELECT r.date, r.key, r.daily_installs, r.total_installs, r.rating, p_file_name, v_import.id
+    FROM jsonb_to_recordset(p_rows) AS r(date date, key text, daily_installs integer, total_installs integer, rating numeric)
+    ON CONFLICT (date, device) DO UPDATE SET
+      daily_installs = CASE WHEN p_report_kind = 'installs' THEN EXCLUDED.daily_installs ELSE t.daily_installs END,
+      total_installs = CASE WHEN p_report_kind = 'installs' THEN EXCLUDED.total_installs ELSE t.total_installs END,
+      rating = CASE WHEN p_report_kind = 'ratings' THEN EXCLUDED.rating ELSE t.rating END,
+      source_ref = EXCLUDED.source_ref,
+      import_id = EXCLUDED.import_id,
+      updated_at = now();
+    GET DIAGNOSTICS v_written = ROW_COUNT;
+
+  ELSE
+    RAISE EXCEPTION 'Unsupported report: % %', p_report_kind, p_dimension USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.play_console_imports SET rows_written = v_written WHERE id = v_import.id
+  RETURNING * INTO v_import;
+
+  RETURN v_import;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_play_console_report(text, text, text, text, text, jsonb, integer, integer, integer, text[])
+  TO authenticated;
+
+COMMENT ON TABLE public.play_console_imports IS 'Play Console report CSVs uploaded from the dashboard, with what each import wrote';
+COMMENT ON TABLE public.download_stats_by_country IS 'Daily installs and rating per country from Play Console country reports';
+COMMENT ON TABLE public.download_stats_by_device IS 'Daily installs and rating per device model from Play Console device reports';
+COMMENT ON FUNCTION public.import_play_console_report(text, text, text, text, text, jsonb, integer, integer, integer, text[]) IS
+  'Admin only: write one validated Play Console report and log it in play_console_imports';
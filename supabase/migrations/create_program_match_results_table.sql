@@ -0,0 +1,62 @@
+-- Persisted output of the matching pipeline (ProfileMatcher over every user_marks row)
+-- One row per pipeline run, plus one row per programme with its qualified-student count
+
+CREATE TABLE IF NOT EXISTS public.program_match_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    computed_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    total_students INTEGER NOT NULL,
+    total_programs INTEGER NOT NULL,
+    average_matches_per_student NUMERIC(8,1) NOT NULL DEFAULT 0,
+    match_distribution JSONB NOT NULL DEFAULT '[]'::jsonb,
+    completed_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS public.program_match_results (
+    id BIGSERIAL PRIMARY KEY,
+    run_id UUID NOT NULL REFERENCES public.program_match_runs(id) ON DELETE CASCADE,
+    program_id INTEGER NOT NULL,
+    institution_type TEXT NOT NULL CHECK (institution_type IN ('University', 'TVET')),
+    institution_name TEXT NOT NULL,
+    qualification TEXT NOT NULL,
+    faculty TEXT,
+    required_aps INTEGER NOT NULL,
+    qualified_students INTEGER NOT NULL DEFAULT 0,
+    pct_of_total NUMERIC(5,1) NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_program_match_runs_computed_at ON public.program_match_runs(computed_at DESC) WHERE completed_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_program_match_results_run_id ON public.program_match_results(run_id);
+CREATE INDEX IF NOT EXISTS idx_program_match_results_run_pct ON public.program_match_results(run_id, pct_of_total DESC);
+
+ALTER TABLE public.program_match_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.program_match_results ENABLE ROW LEVEL SECURITY;
+
+-- Any signed-in dashboard user can read results
+CREATE POLICY "Authenticated users can view match runs" ON public.program_match_runs
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can view match results" ON public.program_match_results
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Analysts and admins can refresh the results
+CREATE POLICY "Analysts can insert match runs" ON public.program_match_runs
+    FOR INSERT WITH CHECK (public.get_my_dashboard_role() IN ('admin', 'analyst'));
+
+-- Marking a run complete once all of its results are saved, or discarding a run that failed part-way
+CREATE POLICY "Analysts can complete match runs" ON public.program_match_runs
+    FOR UPDATE USING (public.get_my_dashboard_role() IN ('admin', 'analyst'));
+
+CREATE POLICY "Analysts can delete match runs" ON public.program_match_runs
+    FOR DELETE USING (public.get_my_dashboard_role() IN ('admin', 'analyst'));
+
+CREATE POLICY "Analysts can insert match results" ON public.program_match_results
+    FOR INSERT WITH CHECK (public.get_my_dashboard_role() IN ('admin', 'analyst'));
+
+COMMENT ON TABLE public.program_match_runs IS 'Each execution of the programme matching pipeline';
+COMMENT ON COLUMN public.program_match_runs.total_students IS 'Cohort size: user_marks rows with a valid aps_mark';
+COMMENT ON COLUMN public.program_match_runs.match_distribution IS 'Students bucketed by number of matched programmes';
+COMMENT ON COLUMN public.program_match_runs.completed_at IS 'Set once every result row is saved; runs without it are partial and never read';
+COMMENT ON TABLE public.program_match_results IS 'Per-programme qualified student counts for a pipeline run';
+COMMENT ON COLUMN public.program_match_results.program_id IS 'id in universities or tvet_colleges_name, depending on institution_type';
+COMMENT ON COLUMN public.program_match_results.pct_of_total IS 'qualified_students as a percentage of the run cohort';
@@ -0,0 +1,51 @@
+-- Per-programme subject admission requirements evaluated by ProfileMatcher
+-- A programme may have several rows; all must pass for a student to match
+CREATE TABLE IF NOT EXISTS public.program_subject_requirements (
+    id BIGSERIAL PRIMARY KEY,
+    institution_type TEXT NOT NULL CHECK (institution_type IN ('university', 'tvet')),
+    program_id INTEGER NOT NULL,
+    subject TEXT NOT NULL,
+    min_level SMALLINT CHECK (min_level BETWEEN 1 AND 7),
+    min_percentage NUMERIC(5,2) CHECK (min_percentage BETWEEN 0 AND 100),
+    excluded_types TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (min_level IS NOT NULL OR min_percentage IS NOT NULL OR cardinality(excluded_types) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_program_subject_requirements_program
+    ON public.program_subject_requirements(institution_type, program_id);
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_program_subject_requirements_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_program_subject_requirements_updated_at
+    BEFORE UPDATE ON public.program_subject_requirements
+    FOR EACH ROW
+    EXECUTE FUNCTION update_program_subject_requirements_updated_at();
+
+ALTER TABLE public.program_subject_requirements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view subject requirements" ON public.program_subject_requirements
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage subject requirements" ON public.program_subject_requirements
+    FOR ALL USING (public.is_dashboard_admin())
+    WITH CHECK (public.is_dashboard_admin());
+
+COMMENT ON TABLE public.program_subject_requirements IS 'Subject-level admission rules per university or TVET programme';
+COMMENT ON COLUMN public.program_subject_requirements.program_id IS 'id in universities or tvet_colleges_name, depending on institution_type';
+COMMENT ON COLUMN public.program_subject_requirements.subject IS 'Subject name (e.g. English, Physical Sciences) or user_marks slot (math, home_language, first_additional_language, ...)';
+COMMENT ON COLUMN public.program_subject_requirements.min_level IS 'Minimum NSC achievement level, checked against the user_marks *_level fields';
+COMMENT ON COLUMN public.program_subject_requirements.excluded_types IS 'Subject types that do not satisfy the rule, e.g. math_type Mathematical Literacy';
+
+-- Example: Mathematics level 5 (not Maths Literacy) and English level 4
+-- INSERT INTO public.program_subject_requirements (institution_type, program_id, subject, min_level, excluded_types)
+-- VALUES ('university', 123, 'math', 5, ARRAY['Mathematical Literacy']),
+--        ('university', 123, 'English', 4, '{}');
@@ -0,0 +1,61 @@
+-- Learners, APS and institutions per province for the Geography page.
+-- Provinces are free text on both tables, so rows are grouped by LOWER(TRIM(province)) and the dashboard
+-- maps the spellings ('KZN', 'Kwazulu Natal', ...) onto the nine provinces.
+-- APS is returned as a sum and a count so spellings of the same province can be combined exactly.
+-- Learner figures come from private profiles and marks, so only analysts and admins get rows back.
+
+CREATE OR REPLACE FUNCTION public.get_province_stats()
+RETURNS TABLE(
+  province text,
+  learners bigint,
+  learners_with_aps bigint,
+  aps_total numeric,
+  institutions bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH latest_marks AS (
+    SELECT DISTINCT ON (COALESCE(m.profile_id, m.user_id))
+      COALESCE(m.profile_id, m.user_id) AS profile_id,
+      m.aps_mark
+    FROM public.user_marks m
+    ORDER BY COALESCE(m.profile_id, m.user_id), m.created_at DESC
+  ),
+  learner_counts AS (
+    SELECT
+      LOWER(TRIM(p.province)) AS province_key,
+      COUNT(*)::bigint AS learners,
+      COUNT(lm.aps_mark) FILTER (WHERE lm.aps_mark BETWEEN 0 AND 42)::bigint AS learners_with_aps,
+      COALESCE(SUM(lm.aps_mark) FILTER (WHERE lm.aps_mark BETWEEN 0 AND 42), 0)::numeric AS aps_total
+    FROM public.profiles p
+    LEFT JOIN latest_marks lm ON lm.profile_id = p.id
+    WHERE p.role = 'Learner'
+      AND NULLIF(TRIM(p.province), '') IS NOT NULL
+    GROUP BY 1
+  ),
+  institution_counts AS (
+    SELECT LOWER(TRIM(i.province)) AS province_key, COUNT(*)::bigint AS institutions
+    FROM public."Institutions Information" i
+    WHERE NULLIF(TRIM(i.province), '') IS NOT NULL
+    GROUP BY 1
+  )
+  SELECT
+    COALESCE(lc.province_key, ic.province_key) AS province,
+    COALESCE(lc.learners, 0) AS learners,
+    COALESCE(lc.learners_with_aps, 0) AS learners_with_aps,
+    COALESCE(lc.aps_total, 0) AS aps_total,
+    COALESCE(ic.institutions, 0) AS institutions
+  FROM learner_counts lc
+  FULL JOIN institution_counts ic ON ic.province_key = lc.province_key
+  WHERE public.get_my_dashboard_role() IN ('admin', 'analyst')
+  ORDER BY 1;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_province_stats() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_province_stats() TO authenticated;
+
+COMMENT ON FUNCTION public.get_province_stats() IS
+  'Learners, APS sum/count and institution count per lower-cased province spelling; analysts and admins only';
@@ -0,0 +1,108 @@
+-- Cohort retention over sessions, with signup cohorts taken from profiles.created_at
+-- Day-N retention: the user started a session on the Nth local day after their signup day
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user_start_time ON public.sessions(user_id, start_time);
+CREATE INDEX IF NOT EXISTS idx_profiles_created_at ON public.profiles(created_at);
+
+CREATE OR REPLACE FUNCTION public.get_retention_cohorts(
+  p_granularity text DEFAULT 'week',       -- 'week' | 'month'
+  p_start timestamptz DEFAULT NOW() - INTERVAL '12 weeks',
+  p_end timestamptz DEFAULT NOW(),
+  p_segment text DEFAULT NULL,             -- NULL | 'role' | 'province' | 'grade'
+  p_tz text DEFAULT 'Africa/Johannesburg'
+)
+RETURNS TABLE(
+  cohort_start date,
+  segment text,
+  cohort_size bigint,
+  d1_eligible bigint,
+  d1_returned bigint,
+  d1_rate numeric,
+  d7_eligible bigint,
+  d7_returned bigint,
+  d7_rate numeric,
+  d30_eligible bigint,
+  d30_returned bigint,
+  d30_rate numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH cohort_users AS (
+    SELECT
+      p.id AS user_id,
+      (p.created_at AT TIME ZONE p_tz)::date AS signup_day,
+      date_trunc(p_granularity, p.created_at AT TIME ZONE p_tz)::date AS cohort_start,
+      COALESCE(NULLIF(TRIM(CASE p_segment
+        WHEN 'role' THEN p.role
+        WHEN 'province' THEN p.province
+        WHEN 'grade' THEN p.grade
+        ELSE 'All'
+      END), ''), 'Unknown') AS segment
+    FROM public.profiles p
+    WHERE p.created_at >= p_start
+      AND p.created_at <  p_end
+      AND p_granularity IN ('week', 'month')
+      -- Profiles are private; only analysts and admins may aggregate them
+      AND public.get_my_dashboard_role() IN ('admin', 'analyst')
+  ),
+  returned_on AS (
+    SELECT
+      cu.*,
+      (NOW() AT TIME ZONE p_tz)::date AS today,
+      EXISTS (
+        SELECT 1 FROM public.sessions s
+        WHERE s.user_id = cu.user_id
+          AND s.start_time >= ((cu.signup_day + 1)::timestamp AT TIME ZONE p_tz)
+          AND s.start_time <  ((cu.signup_day + 2)::timestamp AT TIME ZONE p_tz)
+      ) AS d1,
+      EXISTS (
+        SELECT 1 FROM public.sessions s
+        WHERE s.user_id = cu.user_id
+          AND s.start_time >= ((cu.signup_day + 7)::timestamp AT TIME ZONE p_tz)
+          AND s.start_time <  ((cu.signup_day + 8)::timestamp AT TIME ZONE p_tz)
+      ) AS d7,
+      EXISTS (
+        SELECT 1 FROM public.sessions s
+        WHERE s.user_id = cu.user_id
+          AND s.start_time >= ((cu.signup_day + 30)::timestamp AT TIME ZONE p_tz)
+          AND s.start_time <  ((cu.signup_day + 31)::timestamp AT TIME ZONE p_tz)
+      ) AS d30
+    FROM cohort_users cu
+  ),
+  -- A user only counts towards day N once day N has finished
+  counts AS (
+    SELECT
+      cohort_start,
+      segment,
+      COUNT(*)::bigint AS cohort_size,
+      COUNT(*) FILTER (WHERE signup_day + 1 < today)::bigint AS d1_eligible,
+      COUNT(*) FILTER (WHERE signup_day + 1 < today AND d1)::bigint AS d1_returned,
+      COUNT(*) FILTER (WHERE signup_day + 7 < today)::bigint AS d7_eligible,
+      COUNT(*) FILTER (WHERE signup_day + 7 < today AND d7)::bigint AS d7_returned,
+      COUNT(*) FILTER (WHERE signup_day + 30 < today)::bigint AS d30_eligible,
+      COUNT(*) FILTER (WHERE signup_day + 30 < today AND d30)::bigint AS d30_returned
+    FROM returned_on
+    GROUP BY cohort_start, segment
+  )
+  SELECT
+    cohort_start,
+    segment,
+    cohort_size,
+    d1_eligible,
+    d1_returned,
+    ROUND(100.0 * d1_returned / NULLIF(d1_eligible, 0), 1) AS d1_rate,
+    d7_eligible,
+    d7_returned,
+    ROUND(100.0 * d7_returned / NULLIF(d7_eligible, 0), 1) AS d7_rate,
+    d30_eligible,
+    d30_returned,
+    ROUND(100.0 * d30_returned / NULLIF(d30_eligible, 0), 1) AS d30_rate
+  FROM counts
+  ORDER BY cohort_start DESC, cohort_size DESC, segment;
+$$;
+
+COMMENT ON FUNCTION public.get_retention_cohorts(text, timestamptz, timestamptz, text, text) IS
+  'Signup cohorts (profiles.created_at) with D1/D7/D30 return rates from sessions; rates are NULL until a cohort member has reached day N';
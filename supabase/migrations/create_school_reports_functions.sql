@@ -0,0 +1,136 @@
+-- Per-school aggregates for the Schools page and partner reports.
+-- Schools are free text on profiles, so they are grouped by LOWER(TRIM(school)) ("school_key")
+-- and shown with the spelling most learners used.
+-- Profiles and marks are private, so the report functions only return rows to analysts and admins.
+
+CREATE INDEX IF NOT EXISTS idx_profiles_school_key ON public.profiles(LOWER(TRIM(school)));
+
+-- Students per school the matching pipeline qualified for at least one university / TVET programme
+CREATE TABLE IF NOT EXISTS public.program_match_school_results (
+    id BIGSERIAL PRIMARY KEY,
+    run_id UUID NOT NULL REFERENCES public.program_match_runs(id) ON DELETE CASCADE,
+    school_key TEXT NOT NULL,
+    students INTEGER NOT NULL DEFAULT 0,
+    university_qualified INTEGER NOT NULL DEFAULT 0,
+    tvet_qualified INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_program_match_school_results_run_id ON public.program_match_school_results(run_id, school_key);
+
+ALTER TABLE public.program_match_school_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view school match results" ON public.program_match_school_results
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Analysts can insert school match results" ON public.program_match_school_results
+    FOR INSERT WITH CHECK (public.get_my_dashboard_role() IN ('admin', 'analyst'));
+
+COMMENT ON TABLE public.program_match_school_results IS 'Per-school qualification counts for a pipeline run';
+COMMENT ON COLUMN public.program_match_school_results.school_key IS 'LOWER(TRIM(profiles.school)) of the students counted';
+COMMENT ON COLUMN public.program_match_school_results.students IS 'Learners from this school whose latest user_marks row has a valid aps_mark';
+
+-- Learners, marks coverage and APS per school
+CREATE OR REPLACE FUNCTION public.get_school_rankings()
+RETURNS TABLE(
+  school_key text,
+  school text,
+  province text,
+  learners bigint,
+  students_with_marks bigint,
+  avg_aps numeric,
+  avg_average numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH learners AS (
+    SELECT p.id, LOWER(TRIM(p.school)) AS school_key, TRIM(p.school) AS school, p.province
+    FROM public.profiles p
+    WHERE p.role = 'Learner'
+      AND NULLIF(TRIM(p.school), '') IS NOT NULL
+      AND public.get_my_dashboard_role() IN ('admin', 'analyst')
+  ),
+  marks AS (
+    SELECT DISTINCT ON (COALESCE(m.profile_id, m.user_id))
+      COALESCE(m.profile_id, m.user_id) AS profile_id,
+      m.aps_mark,
+      m.average
+    FROM public.user_marks m
+    ORDER BY COALESCE(m.profile_id, m.user_id), m.created_at DESC
+  )
+  SELECT
+    l.school_key,
+    mode() WITHIN GROUP (ORDER BY l.school) AS school,
+    mode() WITHIN GROUP (ORDER BY l.province) AS province,
+    COUNT(*)::bigint AS learners,
+    COUNT(mk.profile_id)::bigint AS students_with_marks,
+    ROUND(AVG(mk.aps_mark) FILTER (WHERE mk.aps_mark BETWEEN 0 AND 42), 1) AS avg_aps,
+    ROUND(AVG(mk.average) FILTER (WHERE mk.average BETWEEN 0 AND 100), 1) AS avg_average
+  FROM learners l
+  LEFT JOIN marks mk ON mk.profile_id = l.id
+  GROUP BY l.school_key
+  ORDER BY learners DESC, school;
+$$;
+
+-- One school broken down by grade
+CREATE OR REPLACE FUNCTION public.get_school_detail(
+  p_school_key text
+)
+RETURNS TABLE(
+  grade text,
+  learners bigint,
+  students_with_marks bigint,
+  avg_aps numeric,
+  avg_average numeric,
+  pct_ge_50 numeric,
+  maths_students bigint,
+  maths_literacy_students bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH learners AS (
+    SELECT p.id, COALESCE(NULLIF(TRIM(p.grade), ''), 'Unknown') AS grade
+    FROM public.profiles p
+    WHERE p.role = 'Learner'
+      AND LOWER(TRIM(p.school)) = LOWER(TRIM(p_school_key))
+      AND public.get_my_dashboard_role() IN ('admin', 'analyst')
+  ),
+  marks AS (
+    SELECT DISTINCT ON (COALESCE(m.profile_id, m.user_id))
+      COALESCE(m.profile_id, m.user_id) AS profile_id,
+      m.aps_mark,
+      CASE WHEN m.average BETWEEN 0 AND 100 THEN m.average END AS average,
+      m.math_type
+    FROM public.user_marks m
+    WHERE COALESCE(m.profile_id, m.user_id) IN (SELECT id FROM learners)
+    ORDER BY COALESCE(m.profile_id, m.user_id), m.created_at DESC
+  )
+  SELECT
+    l.grade,
+    COUNT(*)::bigint AS learners,
+    COUNT(mk.profile_id)::bigint AS students_with_marks,
+    ROUND(AVG(mk.aps_mark) FILTER (WHERE mk.aps_mark BETWEEN 0 AND 42), 1) AS avg_aps,
+    ROUND(AVG(mk.average), 1) AS avg_average,
+    ROUND(100.0 * COUNT(*) FILTER (WHERE mk.average >= 50) / NULLIF(COUNT(mk.average), 0), 1) AS pct_ge_50,
+    COUNT(*) FILTER (WHERE mk.math_type = 'Mathematics')::bigint AS maths_students,
+    COUNT(*) FILTER (WHERE mk.math_type = 'Mathematical Literacy')::bigint AS maths_literacy_students
+  FROM learners l
+  LEFT JOIN marks mk ON mk.profile_id = l.id
+  GROUP BY l.grade
+  ORDER BY l.grade;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_school_rankings() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_school_detail(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_school_rankings() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_school_detail(text) TO authenticated;
+
+COMMENT ON FUNCTION public.get_school_rankings() IS
+  'Learner count, marks coverage, average APS and average mark per school; a student''s latest user_marks row is used';
+COMMENT ON FUNCTION public.get_school_detail(text) IS
+  'Per-grade learner count, APS, average mark and maths type split for one school_key';
@@ -0,0 +1,172 @@
+/*
+  # Session health alerts
+
+  The evaluate-session-alerts edge function runs every hour, measures each enabled rule's metric over its rolling
+  window with get_session_health_rates(), and records an alert and emails the rule's recipients (through the
+  send-email function) when the threshold is reached.
+
+  1. New Tables
+    - `session_alert_rules` - threshold, window, minimum session count, cooldown and recipients per metric
+    - `session_alerts` - every alert raised, the figures behind it, whether the email went out, and who
+      acknowledged it
+
+  2. Security
+    - Analysts and admins can read rules and alerts, and acknowledge alerts through acknowledge_session_alert()
+    - Only admins can change rules; alerts are only created by the edge function (service role)
+
+  3. Schedule
+    Run hourly with pg_cron and pg_net (replace the project ref; the key is read from Vault):
+
+    SELECT cron.schedule('evaluate-session-alerts', '0 * * * *', $$
+      SELECT net.http_post(
+        url := 'https://<project-ref>.supabase.co/functions/v1/evaluate-session-alerts',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+      );
+    $$);
+*/
+
+CREATE TABLE IF NOT EXISTS public.session_alert_rules (
+  id bigserial PRIMARY KEY,
+  metric text NOT NULL CHECK (metric IN ('crash_rate', 'disconnect_rate')),
+  threshold_pct numeric(5,2) NOT NULL CHECK (threshold_pct > 0 AND threshold_pct <= 100),
+  window_hours integer NOT NULL DEFAULT 168 CHECK (window_hours BETWEEN 1 AND 720),
+  min_sessions integer NOT NULL DEFAULT 20 CHECK (min_sessions >= 1),
+  cooldown_hours integer NOT NULL DEFAULT 24 CHECK (cooldown_hours >= 1),
+  recipients text[] NOT NULL DEFAULT '{}',
+  enabled boolean NOT NULL DEFAULT true,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.session_alerts (
+  id bigserial PRIMARY KEY,
+  rule_id bigint REFERENCES public.session_alert_rules(id) ON DELETE SET NULL,
+  metric text NOT NULL,
+  value_pct numeric(5,2) NOT NULL,
+  threshold_pct numeric(5,2) NOT NULL,
+  ended_sessions integer NOT NULL,
+  affected_sessions integer NOT NULL,
+  window_start timestamptz NOT NULL,
+  window_end timestamptz NOT NULL,
+  triggered_at timestamptz NOT NULL DEFAULT now(),
+  notified_recipients text[] NOT NULL DEFAULT '{}',
+  notification_error text,
+  acknowledged_at timestamptz,
+  acknowledged_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  acknowledgement_note text
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_alerts_triggered_at ON public.session_alerts(triggered_at DESC);
+CREATE INDEX IF NOT EXISTS idx_session_alerts_rule_id ON public.session_alerts(rule_id, triggered_at DESC);
+CREATE INDEX IF NOT EXISTS idx_session_alerts_open ON public.session_alerts(triggered_at DESC) WHERE acknowledged_at IS NULL;
+
+ALTER TABLE public.session_alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.session_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Analysts can view session alert rules" ON public.session_alert_rules
+  FOR SELECT USING (public.get_my_dashboard_role() IN ('admin', 'analyst'));
+
+CREATE POLICY "Admins can manage session alert rules" ON public.session_alert_rules
+  FOR ALL USING (public.is_dashboard_admin())
+  WITH CHECK (public.is_dashboard_admin());
+
+CREATE POLICY "Analysts can view session alerts" ON public.session_alerts
+  FOR SELECT USING (public.get_my_dashboard_role() IN ('admin', 'analyst'));
+
+-- Acknowledging only touches the acknowledgement columns and records the caller, so it has no UPDATE policy
+CREATE OR REPLACE FUNCTION public.acknowledge_session_alert(p_id bigint, p_note text DEFAULT NULL)
+RETURNS public.session_alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_alert public.session_alerts;
+BEGIN
+  IF COALESCE(public.get_my_dashboard_role(), '') NOT IN ('admin', 'analyst') THEN
+    RAISE EXCEPTION 'Only dashboard analysts can acknowledge session alerts' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.session_alerts
+  SET acknowledged_at = now(),
+      acknowledged_by = auth.uid(),
+      acknowledgement_note = NULLIF(TRIM(p_note), '')
+  WHERE id = p_id
+  RETURNING * INTO v_alert;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session alert % not found', p_id USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_alert;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.acknowledge_session_alert(bigint, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.acknowledge_session_alert(bigint, text) TO authenticated;
+
+-- Crash and disconnect rates for sessions started in [p_start, p_end), as shares of the sessions that ended.
+-- Same definition as the Session Health KPIs: sessions still open are not counted either way.
+-- Read by evaluate-session-alerts with the service role, and by analysts and admins.
+CREATE OR REPLACE FUNCTION public.get_session_health_rates(
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE(
+  sessions bigint,
+  ended_sessions bigint,
+  crashed bigint,
+  disconnected bigint,
+  crash_rate numeric,
+  disconnect_rate numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH counts AS (
+    SELECT
+      COUNT(*) AS sessions,
+      COUNT(*) FILTER (WHERE s.end_time IS NOT NULL AND s.end_time > s.start_time) AS ended_sessions,
+      COUNT(*) FILTER (WHERE s.status = 'crashed') AS crashed,
+      COUNT(*) FILTER (WHERE s.status = 'disconnected') AS disconnected
+    FROM public.sessions s
+    WHERE s.start_time >= p_start
+      AND s.start_time < p_end
+      AND (auth.role() = 'service_role' OR public.get_my_dashboard_role() IN ('admin', 'analyst'))
+  )
+  SELECT
+    c.sessions,
+    c.ended_sessions,
+    c.crashed,
+    c.disconnected,
+    CASE WHEN c.ended_sessions > 0 THEN ROUND(c.crashed * 100.0 / c.ended_sessions, 2) END,
+    CASE WHEN c.ended_sessions > 0 THEN ROUND(c.disconnected * 100.0 / c.ended_sessions, 2) END
+  FROM counts c;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_session_health_rates(timestamptz, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_session_health_rates(timestamptz, timestamptz) TO authenticated, service_role;
+
+-- Starting rules; admins can tune them on the Session Health page
+INSERT INTO public.session_alert_rules (metric, threshold_pct)
+SELECT metric, threshold_pct
+FROM (VALUES ('crash_rate', 5.00), ('disconnect_rate', 15.00)) AS defaults(metric, threshold_pct)
+WHERE NOT EXISTS (SELECT 1 FROM public.session_alert_rules);
+
+COMMENT ON TABLE public.session_alert_rules IS 'Thresholds evaluated hourly by the evaluate-session-alerts edge function';
+COMMENT ON COLUMN public.session_alert_rules.window_hours IS 'Rolling window the rate is measured over; 168 is the last seven days';
+COMMENT ON COLUMN public.session_alert_rules.min_sessions IS 'Windows with fewer ended sessions are not judged';
+COMMENT ON COLUMN public.session_alert_rules.cooldown_hours IS 'No repeat alert for the rule within this many hours of its last one';
+COMMENT ON TABLE public.session_alerts IS 'Alerts raised by evaluate-session-alerts, with email delivery and acknowledgement';
+COMMENT ON COLUMN public.session_alerts.notification_error IS 'Why the email did not go out; NULL when every recipient was sent it';
+COMMENT ON FUNCTION public.acknowledge_session_alert(bigint, text) IS
+  'Mark an alert acknowledged by the calling analyst or admin, with an optional note';
+COMMENT ON FUNCTION public.get_session_health_rates(timestamptz, timestamptz) IS
+  'Crash and disconnect rates for sessions started in a window, as percentages of the sessions that ended';
@@ -0,0 +1,224 @@
+-- Session analytics for the Session Health page: duration distribution and percentiles, sessions per user,
+-- a weekday by hour-of-day heatmap, and one user's session timeline.
+-- Durations are in seconds and only cover sessions that ended after they started; open sessions are left out.
+-- Sessions belong to individual users, so every function here only counts them for analysts and admins.
+
+-- Duration percentiles for sessions started in [p_start, p_end)
+CREATE OR REPLACE FUNCTION public.get_session_duration_stats(
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE(
+  sessions bigint,
+  measured_sessions bigint,
+  mean_seconds numeric,
+  p50_seconds numeric,
+  p90_seconds numeric,
+  p99_seconds numeric,
+  max_seconds numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH durations AS (
+    SELECT
+      CASE WHEN s.end_time > s.start_time THEN EXTRACT(EPOCH FROM s.end_time - s.start_time)::numeric END AS seconds
+    FROM public.sessions s
+    WHERE s.start_time >= p_start
+      AND s.start_time < p_end
+      AND public.get_my_dashboard_role() IN ('admin', 'analyst')
+  )
+  SELECT
+    COUNT(*)::bigint AS sessions,
+    COUNT(seconds)::bigint AS measured_sessions,
+    ROUND(AVG(seconds), 1) AS mean_seconds,
+    ROUND((percentile_cont(0.5) WITHIN GROUP (ORDER BY seconds))::numeric, 1) AS p50_seconds,
+    ROUND((percentile_cont(0.9) WITHIN GROUP (ORDER BY seconds))::numeric, 1) AS p90_seconds,
+    ROUND((percentile_cont(0.99) WITHIN GROUP (ORDER BY seconds))::numeric, 1) AS p99_seconds,
+    ROUND(MAX(seconds), 1) AS max_seconds
+  FROM durations;
+$$;
+
+-- Session counts per duration bucket; buckets widen with length so short and long sessions both stay readable
+CREATE OR REPLACE FUNCTION public.get_session_duration_histogram(
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE(
+  min_seconds integer,
+  max_seconds integer,      -- NULL for the open-ended last bucket
+  sessions bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH buckets AS (
+    SELECT
+      b.min_seconds,
+      LEAD(b.min_seconds) OVER (ORDER BY b.min_seconds) AS max_seconds
+    FROM unnest(ARRAY[0, 60, 120, 300, 600, 1200, 1800, 3600, 7200]) AS b(min_seconds)
+  ),
+  durations AS (
+    SELECT EXTRACT(EPOCH FROM s.end_time - s.start_time) AS seconds
+    FROM public.sessions s
+    WHERE s.start_time >= p_start
+      AND s.start_time < p_end
+      AND s.end_time > s.start_time
+      AND public.get_my_dashboard_role() IN ('admin', 'analyst')
+  )
+  SELECT
+    b.min_seconds,
+    b.max_seconds,
+    COUNT(d.seconds)::bigint AS sessions
+  FROM buckets b
+  LEFT JOIN durations d
+    ON d.seconds >= b.min_seconds
+   AND (b.max_seconds IS NULL OR d.seconds < b.max_seconds)
+  GROUP BY b.min_seconds, b.max_seconds
+  ORDER BY b.min_seconds;
+$$;
+
+-- How many users had 1, 2, 3 ... sessions in the window
+CREATE OR REPLACE FUNCTION public.get_sessions_per_user_distribution(
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE(
+  min_sessions integer,
+  max_sessions integer,     -- NULL for the open-ended last bucket
+  users bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH buckets AS (
+    SELECT
+      b.min_sessions,
+      LEAD(b.min_sessions) OVER (ORDER BY b.min_sessions) - 1 AS max_sessions
+    FROM unnest(ARRAY[1, 2, 3, 4, 5, 6, 11, 21]) AS b(min_sessions)
+  ),
+  per_user AS (
+    SELECT s.user_id, COUNT(*) AS sessions
+    FROM public.sessions s
+    WHERE s.start_time >= p_start
+      AND s.start_time < p_end
+      AND public.get_my_dashboard_role() IN ('admin', 'analyst')
+    GROUP BY s.user_id
+  )
+  SELECT
+    b.min_sessions,
+    b.max_sessions,
+    COUNT(u.user_id)::bigint AS users
+  FROM buckets b
+  LEFT JOIN per_user u
+    ON u.sessions >= b.min_sessions
+   AND (b.max_sessions IS NULL OR u.sessions <= b.max_sessions)
+  GROUP BY b.min_sessions, b.max_sessions
+  ORDER BY b.min_sessions;
+$$;
+
+-- Sessions started per local weekday (ISO, 1 = Monday) and hour; empty cells are omitted
+CREATE OR REPLACE FUNCTION public.get_session_heatmap(
+  p_start timestamptz,
+  p_end timestamptz,
+  p_tz text DEFAULT 'Africa/Johannesburg'
+)
+RETURNS TABLE(
+  weekday integer,
+  hour integer,
+  sessions bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    EXTRACT(ISODOW FROM s.start_time AT TIME ZONE p_tz)::integer AS weekday,
+    EXTRACT(HOUR FROM s.start_time AT TIME ZONE p_tz)::integer AS hour,
+    COUNT(*)::bigint AS sessions
+  FROM public.sessions s
+  WHERE s.start_time >= p_start
+    AND s.start_time < p_end
+    AND public.get_my_dashboard_role() IN ('admin', 'analyst')
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+-- Every session of one user, newest first, with the user's profile on each row.
+-- Profiles are private, so only analysts and admins get rows back.
+CREATE OR REPLACE FUNCTION public.get_user_session_timeline(
+  p_user_id uuid,
+  p_limit integer DEFAULT 500
+)
+RETURNS TABLE(
+  session_id uuid,
+  start_time timestamptz,
+  end_time timestamptz,
+  status text,
+  duration_seconds numeric,
+  auto_closed_at timestamptz,
+  page_views bigint,
+  first_name text,
+  last_name text,
+  email text,
+  school text,
+  grade text,
+  province text,
+  profile_created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.session_id,
+    s.start_time,
+    s.end_time,
+    s.status::text,
+    CASE WHEN s.end_time > s.start_time THEN ROUND(EXTRACT(EPOCH FROM s.end_time - s.start_time)::numeric, 1) END,
+    s.auto_closed_at,
+    (SELECT COUNT(*) FROM public.page_views pv WHERE pv.session_id = s.session_id),
+    p.first_name,
+    p.last_name,
+    p.email,
+    p.school,
+    p.grade,
+    p.province,
+    p.created_at
+  FROM public.sessions s
+  LEFT JOIN public.profiles p ON p.id = s.user_id
+  WHERE s.user_id = p_user_id
+    AND public.get_my_dashboard_role() IN ('admin', 'analyst')
+  ORDER BY s.start_time DESC
+  LIMIT p_limit;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_session_duration_stats(timestamptz, timestamptz) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_session_duration_histogram(timestamptz, timestamptz) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_sessions_per_user_distribution(timestamptz, timestamptz) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_session_heatmap(timestamptz, timestamptz, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_user_session_timeline(uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_session_duration_stats(timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_session_duration_histogram(timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sessions_per_user_distribution(timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_session_heatmap(timestamptz, timestamptz, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_session_timeline(uuid, integer) TO authenticated;
+
+COMMENT ON FUNCTION public.get_session_duration_stats(timestamptz, timestamptz) IS
+  'Mean and p50/p90/p99 session duration in seconds for sessions started in a window';
+COMMENT ON FUNCTION public.get_session_duration_histogram(timestamptz, timestamptz) IS
+  'Ended sessions per duration bucket (seconds) for sessions started in a window';
+COMMENT ON FUNCTION public.get_sessions_per_user_distribution(timestamptz, timestamptz) IS
+  'Users per sessions-in-window bucket';
+COMMENT ON FUNCTION public.get_session_heatmap(timestamptz, timestamptz, text) IS
+  'Sessions started per local ISO weekday and hour';
+COMMENT ON FUNCTION public.get_user_session_timeline(uuid, integer) IS
+  'Sessions of one user, newest first, joined to their profile; analysts and admins only';
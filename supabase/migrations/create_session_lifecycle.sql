@@ -0,0 +1,233 @@
+/*
+  # Session lifecycle
+
+  The app does not always close its sessions (killed processes, lost connectivity), and a session without an
+  end_time counts as active forever. reap_stale_sessions() runs every 15 minutes and:
+
+  1. Closes sessions idle for longer than the configured timeout: status 'disconnected', end_time inferred from
+     the session's last activity (the end of its last page view or its last button click), or its start when it
+     has none. auto_closed_at is set so the dashboard can tell these apart from sessions the app ended itself.
+  2. Merges ended sessions of the same user that overlap in time into the earliest of them. The merged session
+     keeps the latest end_time and the status of whichever session ended last; page views and button clicks are
+     moved across and the later sessions are deleted.
+
+  Every change, including each page view and click moved by a merge, is written to session_lifecycle_audit with
+  the row before and after, so a merge can be undone.
+
+  Schedule with pg_cron:
+
+    SELECT cron.schedule('reap-stale-sessions', '*/15 * * * *', 'SELECT public.reap_stale_sessions()');
+*/
+
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS auto_closed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_open ON public.sessions(start_time) WHERE end_time IS NULL;
+CREATE INDEX IF NOT EXISTS idx_sessions_user_start ON public.sessions(user_id, start_time);
+CREATE INDEX IF NOT EXISTS idx_page_views_session_id ON public.page_views(session_id);
+CREATE INDEX IF NOT EXISTS idx_button_clicks_session_id_text ON public.button_clicks((session_id::text));
+
+COMMENT ON COLUMN public.sessions.auto_closed_at IS 'When reap_stale_sessions closed the session; NULL when the app ended it';
+
+-- A single row holding the lifecycle job's settings
+CREATE TABLE IF NOT EXISTS public.session_lifecycle_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  idle_timeout_minutes integer NOT NULL DEFAULT 30 CHECK (idle_timeout_minutes BETWEEN 5 AND 1440),
+  merge_overlapping boolean NOT NULL DEFAULT true,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.session_lifecycle_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.session_lifecycle_audit (
+  id bigserial PRIMARY KEY,
+  run_at timestamptz NOT NULL,
+  session_id uuid NOT NULL,
+  action text NOT NULL CHECK (action IN ('auto_closed', 'merged_into', 'absorbed', 'page_view_moved', 'click_moved')),
+  related_session_id uuid,      -- merged_into, *_moved: the surviving session; absorbed: the session that was merged in
+  before jsonb NOT NULL,        -- page_view_moved / click_moved: the page_views / button_clicks row rather than the session
+  after jsonb,                  -- NULL when the session was deleted by a merge
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_lifecycle_audit_run_at ON public.session_lifecycle_audit(run_at DESC);
+CREATE INDEX IF NOT EXISTS idx_session_lifecycle_audit_session_id ON public.session_lifecycle_audit(session_id);
+
+ALTER TABLE public.session_lifecycle_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.session_lifecycle_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Analysts can view session lifecycle settings" ON public.session_lifecycle_settings
+  FOR SELECT USING (public.get_my_dashboard_role() IN ('admin', 'analyst'));
+
+CREATE POLICY "Admins can update session lifecycle settings" ON public.session_lifecycle_settings
+  FOR UPDATE USING (public.is_dashboard_admin())
+  WITH CHECK (public.is_dashboard_admin());
+
+CREATE POLICY "Analysts can view session lifecycle audit" ON public.session_lifecycle_audit
+  FOR SELECT USING (public.get_my_dashboard_role() IN ('admin', 'analyst'));
+
+CREATE OR REPLACE FUNCTION public.reap_stale_sessions(p_now timestamptz DEFAULT now())
+RETURNS TABLE(closed integer, merged integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings public.session_lifecycle_settings;
+  v_closed integer := 0;
+  v_merged integer := 0;
+  v_group record;
+BEGIN
+  -- pg_cron and the service role run it unattended; from the dashboard only admins may
+  IF auth.role() = 'authenticated' AND NOT public.is_dashboard_admin() THEN
+    RAISE EXCEPTION 'Only dashboard admins can run the session reaper' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_settings FROM public.session_lifecycle_settings WHERE id;
+
+  -- 1. Close idle sessions at their last known activity
+  WITH activity AS (
+    SELECT
+      s.session_id,
+      -- GREATEST skips the NULLs of sessions without page views or clicks
+      GREATEST(
+        s.start_time,
+        (SELECT MAX(pv.viewed_at + COALESCE(pv.duration_ms, 0) * interval '1 millisecond')
+          FROM public.page_views pv WHERE pv.session_id = s.session_id),
+        (SELECT MAX(bc.created_at)
+          FROM public.button_clicks bc WHERE bc.session_id::text = s.session_id::text)
+      ) AS last_activity
+    FROM public.sessions s
+    WHERE s.end_time IS NULL
+  ),
+  stale AS (
+    SELECT a.session_id, a.last_activity, to_jsonb(s) AS before_row
+    FROM activity a
+    JOIN public.sessions s ON s.session_id = a.session_id
+    WHERE a.last_activity < p_now - v_settings.idle_timeout_minutes * interval '1 minute'
+  ),
+  reaped AS (
+    UPDATE public.sessions s
+    SET end_time = st.last_activity, status = 'disconnected', auto_closed_at = p_now
+    FROM stale st
+    WHERE s.session_id = st.session_id
+    RETURNING s.*, st.before_row
+  )
+  INSERT INTO public.session_lifecycle_audit (run_at, session_id, action, before, after)
+  SELECT p_now, c.session_id, 'auto_closed', c.before_row, to_jsonb(c) - 'before_row'
+  FROM reaped c;
+  GET DIAGNOSTICS v_closed = ROW_COUNT;
+
+  IF NOT v_settings.merge_overlapping THEN
+    RETURN QUERY SELECT v_closed, v_merged;
+    RETURN;
+  END IF;
+
+  -- 2. Merge overlapping ended sessions per user. Sessions are grouped into islands where each one starts
+  -- before the latest end so far; every island with more than one session collapses into its first session.
+  FOR v_group IN
+    WITH ordered AS (
+      SELECT
+        s.*,
+        MAX(s.end_time) OVER (
+          PARTITION BY s.user_id ORDER BY s.start_time, s.session_id
+          ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+        ) AS previous_end
+      FROM public.sessions s
+      WHERE s.end_time IS NOT NULL
+    ),
+    islands AS (
+      SELECT
+        o.*,
+        SUM(CASE WHEN o.previous_end IS NULL OR o.start_time >= o.previous_end THEN 1 ELSE 0 END) OVER (
+          PARTITION BY o.user_id ORDER BY o.start_time, o.session_id
+        ) AS island
+      FROM ordered o
+    )
+    SELECT
+      (array_agg(i.session_id ORDER BY i.start_time, i.session_id))[1] AS keep_id,
+      (array_agg(i.session_id ORDER BY i.start_time, i.session_id))[2:] AS merge_ids,
+      MAX(i.end_time) AS end_time,
+      (array_agg(i.status ORDER BY i.end_time DESC, i.session_id))[1] AS status
+    FROM islands i
+    GROUP BY i.user_id, i.island
+    HAVING COUNT(*) > 1
+  LOOP
+    INSERT INTO public.session_lifecycle_audit (run_at, session_id, action, related_session_id, before, after)
+    SELECT p_now, s.session_id, 'merged_into', v_group.keep_id, to_jsonb(s), NULL
+    FROM public.sessions s
+    WHERE s.session_id = ANY (v_group.merge_ids);
+
+    INSERT INTO public.session_lifecycle_audit (run_at, session_id, action, related_session_id, before, after)
+    SELECT p_now, pv.session_id, 'page_view_moved', v_group.keep_id, to_jsonb(pv),
+      to_jsonb(pv) || jsonb_build_object('session_id', v_group.keep_id)
+    FROM public.page_views pv
+    WHERE pv.session_id = ANY (v_group.merge_ids);
+
+    UPDATE public.page_views SET session_id = v_group.keep_id WHERE session_id = ANY (v_group.merge_ids);
+
+    -- button_clicks.session_id is compared as text, as the click analytics functions do
+    INSERT INTO public.session_lifecycle_audit (run_at, session_id, action, related_session_id, before, after)
+    SELECT p_now, merged_id, 'click_moved', v_group.keep_id, to_jsonb(bc),
+      to_jsonb(bc) || jsonb_build_object('session_id', v_group.keep_id)
+    FROM public.button_clicks bc
+    JOIN unnest(v_group.merge_ids) AS merged_id ON bc.session_id::text = merged_id::text;
+
+    UPDATE public.button_clicks SET session_id = v_group.keep_id
+    WHERE session_id::text = ANY (v_group.merge_ids::text[]);
+    DELETE FROM public.sessions WHERE session_id = ANY (v_group.merge_ids);
+
+    INSERT INTO public.session_lifecycle_audit (run_at, session_id, action, related_session_id, before, after)
+    SELECT p_now, s.session_id, 'absorbed', merged_id, to_jsonb(s),
+      to_jsonb(s) || jsonb_build_object('end_time', v_group.end_time, 'status', v_group.status)
+    FROM public.sessions s, unnest(v_group.merge_ids) AS merged_id
+    WHERE s.session_id = v_group.keep_id;
+
+    UPDATE public.sessions
+    SET end_time = v_group.end_time, status = v_group.status
+    WHERE session_id = v_group.keep_id;
+
+    v_merged := v_merged + cardinality(v_group.merge_ids);
+  END LOOP;
+
+  RETURN QUERY SELECT v_closed, v_merged;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reap_stale_sessions(timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reap_stale_sessions(timestamptz) TO authenticated, service_role;
+
+-- Sessions started in a window that the reaper closed or merged away, for the Session Health KPIs
+CREATE OR REPLACE FUNCTION public.get_session_lifecycle_summary(
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE(
+  auto_closed bigint,
+  merged bigint,
+  last_run_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT COUNT(*) FROM public.sessions s
+      WHERE s.auto_closed_at IS NOT NULL AND s.start_time >= p_start AND s.start_time < p_end),
+    (SELECT COUNT(*) FROM public.session_lifecycle_audit a
+      WHERE a.action = 'merged_into'
+        AND (a.before ->> 'start_time')::timestamptz >= p_start
+        AND (a.before ->> 'start_time')::timestamptz < p_end),
+    (SELECT MAX(a.run_at) FROM public.session_lifecycle_audit a)
+  WHERE public.get_my_dashboard_role() IN ('admin', 'analyst');
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_session_lifecycle_summary(timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON TABLE public.session_lifecycle_settings IS 'Idle timeout and merge switch for reap_stale_sessions (single row)';
+COMMENT ON TABLE public.session_lifecycle_audit IS 'Every session reap_stale_sessions closed, merged away or extended, and every page view and click it moved, with the row before and after';
+COMMENT ON FUNCTION public.reap_stale_sessions(timestamptz) IS
+  'Close sessions idle past the timeout as disconnected and merge overlapping ended sessions per user';
+COMMENT ON FUNCTION public.get_session_lifecycle_summary(timestamptz, timestamptz) IS
+  'Sessions started in a window that the reaper auto-closed or merged, and when it last changed anything';
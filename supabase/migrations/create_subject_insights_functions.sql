@@ -0,0 +1,150 @@
+-- Subject-level aggregates over user_marks for the Student Marks page.
+-- A subject counts as passed at p_pass_mark (NSC level 2, 30%, by default).
+-- Each learner counts once, from their latest user_marks row, as in the school report functions.
+-- Marks are private, so only analysts and admins get rows back.
+
+-- Averages and pass rates for the free-choice subjects (subject1..subject4), grouped by subject name
+-- regardless of which slot the student entered it in
+CREATE OR REPLACE FUNCTION public.get_subject_insights(
+  p_pass_mark numeric DEFAULT 30
+)
+RETURNS TABLE(
+  subject text,
+  students bigint,
+  avg_mark numeric,
+  pass_rate numeric,
+  pct_ge_50 numeric,
+  pct_ge_70 numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH latest_marks AS (
+    SELECT DISTINCT ON (COALESCE(m.profile_id, m.user_id)) m.*
+    FROM public.user_marks m
+    ORDER BY COALESCE(m.profile_id, m.user_id), m.created_at DESC
+  ),
+  entries AS (
+    SELECT TRIM(s.name) AS name, s.mark::numeric AS mark
+    FROM latest_marks m
+    CROSS JOIN LATERAL (VALUES
+      (m.subject1, m.subject1_mark),
+      (m.subject2, m.subject2_mark),
+      (m.subject3, m.subject3_mark),
+      (m.subject4, m.subject4_mark)
+    ) AS s(name, mark)
+    WHERE NULLIF(TRIM(s.name), '') IS NOT NULL
+      AND s.mark BETWEEN 0 AND 100
+      AND public.get_my_dashboard_role() IN ('admin', 'analyst')
+  )
+  SELECT
+    -- Spelling as most students typed it
+    mode() WITHIN GROUP (ORDER BY name) AS subject,
+    COUNT(*)::bigint AS students,
+    ROUND(AVG(mark), 1) AS avg_mark,
+    ROUND(100.0 * COUNT(*) FILTER (WHERE mark >= p_pass_mark) / COUNT(*), 1) AS pass_rate,
+    ROUND(100.0 * COUNT(*) FILTER (WHERE mark >= 50) / COUNT(*), 1) AS pct_ge_50,
+    ROUND(100.0 * COUNT(*) FILTER (WHERE mark >= 70) / COUNT(*), 1) AS pct_ge_70
+  FROM entries
+  GROUP BY LOWER(name)
+  ORDER BY students DESC, subject;
+$$;
+
+-- Students at each NSC level (1-7) for every *_level column
+CREATE OR REPLACE FUNCTION public.get_level_distribution()
+RETURNS TABLE(
+  field text,
+  level smallint,
+  students bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH latest_marks AS (
+    SELECT DISTINCT ON (COALESCE(m.profile_id, m.user_id)) m.*
+    FROM public.user_marks m
+    ORDER BY COALESCE(m.profile_id, m.user_id), m.created_at DESC
+  ),
+  entries AS (
+    SELECT l.field, l.level
+    FROM latest_marks m
+    CROSS JOIN LATERAL (VALUES
+      ('math_level', m.math_level),
+      ('home_language_level', m.home_language_level),
+      ('first_additional_language_level', m.first_additional_language_level),
+      ('second_additional_language_level', m.second_additional_language_level),
+      ('life_orientation_level', m.life_orientation_level),
+      ('subject1_level', m.subject1_level),
+      ('subject2_level', m.subject2_level),
+      ('subject3_level', m.subject3_level),
+      ('subject4_level', m.subject4_level)
+    ) AS l(field, level)
+    WHERE l.level BETWEEN 1 AND 7
+      AND public.get_my_dashboard_role() IN ('admin', 'analyst')
+  )
+  -- Zero-filled so every field has all seven levels
+  SELECT f.field, lv.level::smallint, COUNT(e.level)::bigint AS students
+  FROM (SELECT DISTINCT field FROM entries) f
+  CROSS JOIN generate_series(1, 7) AS lv(level)
+  LEFT JOIN entries e ON e.field = f.field AND e.level = lv.level
+  GROUP BY f.field, lv.level
+  ORDER BY f.field, lv.level;
+$$;
+
+-- Mathematics against Mathematical Literacy (and any other math_type), side by side
+CREATE OR REPLACE FUNCTION public.get_math_type_comparison(
+  p_pass_mark numeric DEFAULT 30
+)
+RETURNS TABLE(
+  math_type text,
+  students bigint,
+  avg_math_mark numeric,
+  median_math_mark numeric,
+  pass_rate numeric,
+  pct_ge_50 numeric,
+  avg_average numeric,
+  avg_aps numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH latest_marks AS (
+    SELECT DISTINCT ON (COALESCE(m.profile_id, m.user_id)) m.*
+    FROM public.user_marks m
+    ORDER BY COALESCE(m.profile_id, m.user_id), m.created_at DESC
+  )
+  SELECT
+    COALESCE(NULLIF(TRIM(m.math_type), ''), 'Unknown') AS math_type,
+    COUNT(*)::bigint AS students,
+    ROUND(AVG(m.math_mark), 1) AS avg_math_mark,
+    ROUND(percentile_cont(0.5) WITHIN GROUP (ORDER BY m.math_mark)::numeric, 1) AS median_math_mark,
+    ROUND(100.0 * COUNT(*) FILTER (WHERE m.math_mark >= p_pass_mark) / COUNT(*), 1) AS pass_rate,
+    ROUND(100.0 * COUNT(*) FILTER (WHERE m.math_mark >= 50) / COUNT(*), 1) AS pct_ge_50,
+    ROUND(AVG(m.average) FILTER (WHERE m.average BETWEEN 0 AND 100), 1) AS avg_average,
+    ROUND(AVG(m.aps_mark) FILTER (WHERE m.aps_mark BETWEEN 0 AND 42), 1) AS avg_aps
+  FROM latest_marks m
+  WHERE m.math_mark BETWEEN 0 AND 100
+    AND public.get_my_dashboard_role() IN ('admin', 'analyst')
+  GROUP BY 1
+  ORDER BY students DESC;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_subject_insights(numeric) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_level_distribution() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_math_type_comparison(numeric) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_subject_insights(numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_level_distribution() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_math_type_comparison(numeric) TO authenticated;
+
+COMMENT ON FUNCTION public.get_subject_insights(numeric) IS
+  'Average mark and pass rate per subject name across subject1..subject4; aggregates only';
+COMMENT ON FUNCTION public.get_level_distribution() IS
+  'Learners per NSC level (1-7) for each *_level column of their latest user_marks row';
+COMMENT ON FUNCTION public.get_math_type_comparison(numeric) IS
+  'Maths mark, pass rate, overall average and APS per math_type';
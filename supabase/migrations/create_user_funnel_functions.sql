@@ -0,0 +1,130 @@
+-- Programmes a learner saved or applied to from the Reslocate app
+CREATE TABLE IF NOT EXISTS public.programme_interactions (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID NOT NULL,
+    program_id TEXT NOT NULL,
+    institution_type TEXT NOT NULL CHECK (institution_type IN ('University', 'TVET')),
+    action TEXT NOT NULL CHECK (action IN ('saved', 'applied')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, program_id, institution_type, action)
+);
+
+CREATE INDEX IF NOT EXISTS idx_programme_interactions_user_created ON public.programme_interactions(user_id, created_at);
+
+-- Learners record their own saves and applications; analysts and admins read them
+ALTER TABLE public.programme_interactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can record their own programme interactions" ON public.programme_interactions
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own programme interactions" ON public.programme_interactions
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Analysts can view programme interactions" ON public.programme_interactions
+    FOR SELECT USING (public.get_my_dashboard_role() IN ('admin', 'analyst'));
+
+COMMENT ON TABLE public.programme_interactions IS 'Saves and applications made against university and TVET programmes';
+
+CREATE INDEX IF NOT EXISTS idx_page_views_user_viewed_at ON public.page_views(user_id, viewed_at);
+
+-- Conversion funnel for users who signed up in a period.
+-- p_steps picks and orders the steps; a user counts at step N only when they reached every earlier step.
+-- Step keys:
+--   signed_up        profiles.created_at
+--   created_profile  name, school and grade filled in (reached at profiles.updated_at, an upper bound)
+--   entered_marks    first user_marks row
+--   career_quest     profiles.career_quest_completed (no timestamp, so no median time)
+--   viewed_matches   first page view whose path matches p_match_paths
+--   saved_or_applied first programme_interactions row
+CREATE OR REPLACE FUNCTION public.get_user_funnel(
+  p_signup_start timestamptz,
+  p_signup_end timestamptz,
+  p_steps text[] DEFAULT ARRAY['signed_up', 'created_profile', 'entered_marks', 'career_quest', 'viewed_matches', 'saved_or_applied'],
+  p_match_paths text[] DEFAULT ARRAY['/matches%', '/matching-profiles%']
+)
+RETURNS TABLE(
+  step_order integer,
+  step_key text,
+  users bigint,
+  median_hours_from_previous numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH cohort AS (
+    SELECT p.id AS user_id, p.created_at
+    FROM public.profiles p
+    WHERE p.created_at >= p_signup_start
+      AND p.created_at <  p_signup_end
+      -- Profiles are private; only analysts and admins may aggregate them
+      AND public.get_my_dashboard_role() IN ('admin', 'analyst')
+  ),
+  step_events AS (
+    SELECT user_id, 'signed_up' AS step_key, created_at AS reached_at
+    FROM cohort
+
+    UNION ALL
+    SELECT p.id, 'created_profile', p.updated_at
+    FROM public.profiles p
+    JOIN cohort c ON c.user_id = p.id
+    WHERE NULLIF(TRIM(p.first_name), '') IS NOT NULL
+      AND NULLIF(TRIM(p.school), '') IS NOT NULL
+      AND NULLIF(TRIM(p.grade), '') IS NOT NULL
+
+    UNION ALL
+    SELECT m.user_id, 'entered_marks', MIN(m.created_at)
+    FROM public.user_marks m
+    JOIN cohort c ON c.user_id = m.user_id
+    GROUP BY m.user_id
+
+    UNION ALL
+    SELECT p.id, 'career_quest', NULL::timestamptz
+    FROM public.profiles p
+    JOIN cohort c ON c.user_id = p.id
+    WHERE p.career_quest_completed
+
+    UNION ALL
+    SELECT pv.user_id, 'viewed_matches', MIN(pv.viewed_at)
+    FROM public.page_views pv
+    JOIN cohort c ON c.user_id = pv.user_id
+    WHERE pv.page_path LIKE ANY (p_match_paths)
+    GROUP BY pv.user_id
+
+    UNION ALL
+    SELECT pi.user_id, 'saved_or_applied', MIN(pi.created_at)
+    FROM public.programme_interactions pi
+    JOIN cohort c ON c.user_id = pi.user_id
+    GROUP BY pi.user_id
+  ),
+  steps AS (
+    SELECT s.step_key, s.step_order::integer AS step_order
+    FROM unnest(p_steps) WITH ORDINALITY AS s(step_key, step_order)
+  ),
+  reached AS (
+    SELECT
+      e.user_id,
+      s.step_order,
+      e.reached_at,
+      -- Consecutive steps reached so far; a gap drops the user out of the funnel
+      COUNT(*) OVER (PARTITION BY e.user_id ORDER BY s.step_order) AS steps_reached,
+      LAG(e.reached_at) OVER (PARTITION BY e.user_id ORDER BY s.step_order) AS previous_reached_at
+    FROM steps s
+    JOIN step_events e ON e.step_key = s.step_key
+  )
+  SELECT
+    s.step_order,
+    s.step_key,
+    COUNT(r.user_id)::bigint AS users,
+    ROUND((percentile_cont(0.5) WITHIN GROUP (
+      ORDER BY EXTRACT(EPOCH FROM r.reached_at - r.previous_reached_at) / 3600.0
+    ) FILTER (WHERE r.reached_at >= r.previous_reached_at))::numeric, 1) AS median_hours_from_previous
+  FROM steps s
+  LEFT JOIN reached r ON r.step_order = s.step_order AND r.steps_reached = s.step_order
+  GROUP BY s.step_order, s.step_key
+  ORDER BY s.step_order;
+$$;
+
+COMMENT ON FUNCTION public.get_user_funnel(timestamptz, timestamptz, text[], text[]) IS
+  'Users of a signup cohort reaching each funnel step in order, with the median hours since the previous step';
@@ -0,0 +1,64 @@
+/*
+  # Download statistics provenance
+
+  The fetch-play-store-data edge function writes one row per day from the Play Console installs and ratings
+  reports. Earlier rows were simulated or typed in, so every row now records where its figures came from.
+
+  1. Columns
+    - Adds the platform, rating and review columns the dashboard already referenced
+    - `daily_reviews` - reviews written or edited that day (only known for the last seven days at fetch time)
+    - `source` - 'google_play_reports', 'manual' or 'legacy_estimate'
+    - `source_ref` - report object a google_play_reports row was read from
+    - `fetched_at` - when the figures were read from Google
+
+  2. Existing rows
+    - Nothing written before this migration came from Google, so existing rows become 'legacy_estimate'.
+
+  3. Security
+    - Replaces the policies that let any signed-in user insert or update any row. Only admins may write from
+      the dashboard, and only 'manual' rows; google_play_reports rows are written by the service role
+      (fetch-play-store-data) and import_play_console_report().
+*/
+
+ALTER TABLE public.download_stats
+  ADD COLUMN IF NOT EXISTS android_downloads integer,
+  ADD COLUMN IF NOT EXISTS ios_downloads integer,
+  ADD COLUMN IF NOT EXISTS rating numeric(3,2),
+  ADD COLUMN IF NOT EXISTS reviews_count integer,
+  ADD COLUMN IF NOT EXISTS daily_reviews integer,
+  ADD COLUMN IF NOT EXISTS source text,
+  ADD COLUMN IF NOT EXISTS source_ref text,
+  ADD COLUMN IF NOT EXISTS fetched_at timestamptz;
+
+-- Older setups created rating as numeric(2,1), too coarse for Play's average rating
+ALTER TABLE public.download_stats ALTER COLUMN rating TYPE numeric(3,2);
+
+UPDATE public.download_stats
+SET source = 'legacy_estimate'
+WHERE source IS DISTINCT FROM 'google_play_reports';
+
+ALTER TABLE public.download_stats
+  ALTER COLUMN source SET DEFAULT 'manual',
+  ALTER COLUMN source SET NOT NULL;
+
+ALTER TABLE public.download_stats DROP CONSTRAINT IF EXISTS download_stats_source_check;
+ALTER TABLE public.download_stats
+  ADD CONSTRAINT download_stats_source_check
+  CHECK (source IN ('google_play_reports', 'manual', 'legacy_estimate'));
+
+COMMENT ON COLUMN public.download_stats.source IS
+  'google_play_reports (fetch-play-store-data), manual (typed in) or legacy_estimate (simulated before the sync existed)';
+COMMENT ON COLUMN public.download_stats.source_ref IS
+  'Play Console report object the row was read from';
+
+DROP POLICY IF EXISTS "Authenticated users can insert download statistics" ON public.download_stats;
+DROP POLICY IF EXISTS "Authenticated users can update download statistics" ON public.download_stats;
+
+CREATE POLICY "Admins can insert manual download statistics" ON public.download_stats
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_dashboard_admin() AND source = 'manual');
+
+CREATE POLICY "Admins can update manual download statistics" ON public.download_stats
+  FOR UPDATE TO authenticated
+  USING (public.is_dashboard_admin() AND source = 'manual')
+  WITH CHECK (public.is_dashboard_admin() AND source = 'manual');